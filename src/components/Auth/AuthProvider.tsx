@@ -2,14 +2,15 @@ import React, { createContext, useContext } from 'react';
 import { useAuth } from '../../hooks/useAuth';
 import { User } from '@supabase/supabase-js';
 import { Profile } from '../../lib/supabase';
+import { Permission } from '../../lib/permissions';
 
 interface AuthContextType {
   user: User | null;
   profile: Profile | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<any>;
-  signUp: (email: string, password: string, fullName: string, role?: string) => Promise<any>;
   signOut: () => Promise<any>;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
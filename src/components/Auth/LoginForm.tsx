@@ -10,9 +10,7 @@ export const LoginForm = (): JSX.Element => {
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const [isSignUp, setIsSignUp] = useState(false);
-  const [fullName, setFullName] = useState('');
-  const { signIn, signUp } = useAuthContext();
+  const { signIn } = useAuthContext();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -20,36 +18,20 @@ export const LoginForm = (): JSX.Element => {
     setError('');
 
     try {
-      if (isSignUp) {
-        console.log('Creating account for:', email);
-        const { error } = await signUp(email, password, fullName, 'admin');
-        if (error) {
-          console.error('Sign up error:', error);
-          setError(error.message);
+      console.log('Signing in:', email);
+      const { error } = await signIn(email, password);
+      if (error) {
+        console.error('Sign in error:', error);
+        
+        // Provide more helpful error messages
+        if (error.message.includes('Invalid login credentials')) {
+          setError('Invalid email or password. Please check your credentials and try again.');
+        } else if (error.message.includes('Email not confirmed')) {
+          setError('Please check your email and click the confirmation link before signing in.');
+        } else if (error.message.includes('Too many requests')) {
+          setError('Too many login attempts. Please wait a few minutes and try again.');
         } else {
-          setIsSignUp(false);
-          setError('Account created successfully! Please check your email for a confirmation link, then sign in.');
-          // Clear form
-          setEmail('');
-          setPassword('');
-          setFullName('');
-        }
-      } else {
-        console.log('Signing in:', email);
-        const { error } = await signIn(email, password);
-        if (error) {
-          console.error('Sign in error:', error);
-          
-          // Provide more helpful error messages
-          if (error.message.includes('Invalid login credentials')) {
-            setError('Invalid email or password. Please check your credentials and try again.');
-          } else if (error.message.includes('Email not confirmed')) {
-            setError('Please check your email and click the confirmation link before signing in.');
-          } else if (error.message.includes('Too many requests')) {
-            setError('Too many login attempts. Please wait a few minutes and try again.');
-          } else {
-            setError(error.message);
-          }
+          setError(error.message);
         }
       }
     } catch (err) {
@@ -75,28 +57,14 @@ export const LoginForm = (): JSX.Element => {
             </div>
           </div>
           <CardTitle className="text-2xl font-bold">
-            {isSignUp ? 'Create Admin Account' : 'Admin Login'}
+            Admin Login
           </CardTitle>
           <p className="text-sm text-gray-600 mt-2">
-            {isSignUp ? 'Create a new admin account' : 'Sign in with your credentials'}
+            Sign in with your credentials
           </p>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
-            {isSignUp && (
-              <div className="space-y-2">
-                <Label htmlFor="fullName">Full Name</Label>
-                <Input
-                  id="fullName"
-                  type="text"
-                  value={fullName}
-                  onChange={(e) => setFullName(e.target.value)}
-                  required
-                  disabled={isLoading}
-                  placeholder="Enter your full name"
-                />
-              </div>
-            )}
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
               <Input
@@ -121,16 +89,9 @@ export const LoginForm = (): JSX.Element => {
                 placeholder="Enter your password"
                 minLength={6}
               />
-              {isSignUp && (
-                <p className="text-xs text-gray-500">Password must be at least 6 characters long</p>
-              )}
             </div>
             {error && (
-              <div className={`p-3 rounded-lg text-sm ${
-                error.includes('successfully') || error.includes('created') 
-                  ? 'bg-green-50 text-green-700 border border-green-200' 
-                  : 'bg-red-50 text-red-700 border border-red-200'
-              }`}>
+              <div className="p-3 rounded-lg text-sm bg-red-50 text-red-700 border border-red-200">
                 {error}
               </div>
             )}
@@ -142,45 +103,18 @@ export const LoginForm = (): JSX.Element => {
               {isLoading ? (
                 <div className="flex items-center">
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  {isSignUp ? 'Creating Account...' : 'Signing In...'}
+                  Signing In...
                 </div>
               ) : (
-                isSignUp ? 'Create Admin Account' : 'Sign In'
+                'Sign In'
               )}
             </Button>
-            <Button
-              type="button"
-              variant="ghost"
-              className="w-full"
-              onClick={() => {
-                setIsSignUp(!isSignUp);
-                setError('');
-                setEmail('');
-                setPassword('');
-                setFullName('');
-              }}
-              disabled={isLoading}
-            >
-              {isSignUp ? 'Already have an account? Sign In' : 'Need admin account? Create one'}
-            </Button>
           </form>
 
-          {/* Email Confirmation Info */}
-          {isSignUp && (
-            <div className="mt-6 p-3 bg-blue-50 rounded-lg border border-blue-200">
-              <p className="text-xs text-blue-800">
-                <strong>Note:</strong> After creating your account, you'll receive a confirmation email. 
-                Click the link in the email to verify your account, then return here to sign in.
-              </p>
-            </div>
-          )}
-
-          {/* Troubleshooting Info */}
-          <div className="mt-6 p-3 bg-yellow-50 rounded-lg border border-yellow-200">
-            <p className="text-xs text-yellow-800">
-              <strong>Email Redirect Issue?</strong> If the confirmation email leads to localhost, 
-              you can disable email confirmations in your Supabase Dashboard → Authentication → Settings 
-              → "Enable email confirmations" (turn it off for admin accounts).
+          {/* Invite-only access */}
+          <div className="mt-6 p-3 bg-blue-50 rounded-lg border border-blue-200">
+            <p className="text-xs text-blue-800">
+              Admin accounts are created by invitation only. Ask a super admin to invite you.
             </p>
           </div>
 
@@ -0,0 +1,15 @@
+import React from 'react';
+import { useAuthContext } from './AuthProvider';
+import { Permission } from '../../lib/permissions';
+import { NotAuthorized } from '../../screens/NotAuthorized';
+
+// Route guard: renders the page only when the signed-in admin's role grants the permission
+export function RequirePermission({ permission, children }: { permission: Permission; children: React.ReactNode }) {
+  const { can } = useAuthContext();
+
+  if (!can(permission)) {
+    return <NotAuthorized />;
+  }
+
+  return <>{children}</>;
+}
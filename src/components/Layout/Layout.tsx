@@ -12,7 +12,8 @@ import {
   LogOutIcon,
   UserIcon,
   FlagIcon,
-  Target
+  Target,
+  ReceiptIcon
 } from "lucide-react";
 import {
   Avatar,
@@ -24,49 +25,64 @@ import { Separator } from "../../components/ui/separator";
 import { Button } from "../../components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "../../components/ui/dialog";
 import { useAuthContext } from "../Auth/AuthProvider";
+import { NotificationMenu } from "./NotificationMenu";
+import { Permission, getRoleLabel } from "../../lib/permissions";
 
 export const Layout = ({ children }: { children: React.ReactNode }): JSX.Element => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { user, profile, signOut } = useAuthContext();
+  const { user, profile, signOut, can } = useAuthContext();
   const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
   const [globalSearchQuery, setGlobalSearchQuery] = useState("");
   
-  const navItems = [
+  const navItems: { icon: JSX.Element; label: string; path: string; permission: Permission }[] = [
     {
       icon: <LayoutDashboardIcon size={21} />,
       label: "Dashboard",
       path: "/",
+      permission: "dashboard.view",
     },
     { 
       icon: <CalendarIcon size={21} />,
       label: "Events",
       path: "/events",
+      permission: "events.view",
     },
     { 
       icon: <UsersIcon size={21} />,
       label: "Users",
       path: "/users",
+      permission: "users.view",
     },
     { 
       icon: <Target size={21} />,
       label: "Mission",
       path: "/missions",
+      permission: "missions.view",
     },
     { 
       icon: <GiftIcon size={21} />,
       label: "Rewards",
       path: "/rewards",
+      permission: "rewards.view",
+    },
+    { 
+      icon: <ReceiptIcon size={21} />,
+      label: "Redemptions",
+      path: "/redemptions",
+      permission: "rewards.view",
     },
     { 
       icon: <MessageSquareIcon size={21} />,
       label: "Feedback",
       path: "/feedback",
+      permission: "feedback.view",
     },
     { 
       icon: <HistoryIcon size={21} />,
       label: "Admin History",
       path: "/admin-history",
+      permission: "admin_history.view",
     },
   ];
 
@@ -110,12 +126,12 @@ export const Layout = ({ children }: { children: React.ReactNode }): JSX.Element
         {/* Navigation Menu */}
         <nav className="mt-[23px] px-[13px] flex-1">
           <ul className="space-y-[5px]">
-            {navItems.map((item, index) => (
+            {navItems.filter(item => can(item.permission)).map((item, index) => (
               <li key={index}>
                 <Link to={item.path}>
                   <div
                     className={`flex items-center p-2.5 rounded-[30px] ${
-                      location.pathname === item.path ? "bg-[#d7fde4]" : "bg-white hover:bg-gray-50"
+                      (location.pathname === item.path || (item.path !== "/" && location.pathname.startsWith(`${item.path}/`))) ? "bg-[#d7fde4]" : "bg-white hover:bg-gray-50"
                     }`}
                   >
                     <div className="w-[25px] flex justify-center">
@@ -168,62 +184,67 @@ export const Layout = ({ children }: { children: React.ReactNode }): JSX.Element
               />
             </form>
 
-            {/* Profile Dropdown */}
-            <Dialog open={isProfileMenuOpen} onOpenChange={setIsProfileMenuOpen}>
-              <DialogTrigger asChild>
-                <div className="flex items-center border border-black rounded-full h-9 px-1 cursor-pointer hover:bg-gray-50 transition-colors">
-                  <Avatar className="h-[30px] w-[30px]">
-                    <AvatarImage src={profile?.avatar_url || "/image.png"} alt="User" />
-                    <AvatarFallback>{profile?.full_name?.charAt(0) || 'U'}</AvatarFallback>
-                  </Avatar>
-                  <span className="mx-2 text-sm font-medium">
-                    {profile?.full_name || user?.email}
-                  </span>
-                  <ChevronDownIcon className="h-[30px] w-[19px] ml-1" />
-                </div>
-              </DialogTrigger>
-              <DialogContent className="sm:max-w-[300px] p-0" side="bottom">
-                <DialogHeader className="sr-only">
-                  <DialogTitle>Profile Menu</DialogTitle>
-                </DialogHeader>
-                <div className="py-2">
-                  <div className="px-4 py-3 border-b">
-                    <div className="flex items-center space-x-3">
-                      <Avatar className="h-10 w-10">
-                        <AvatarImage src={profile?.avatar_url || "/image.png"} alt="User" />
-                        <AvatarFallback>{profile?.full_name?.charAt(0) || 'U'}</AvatarFallback>
-                      </Avatar>
-                      <div>
-                        <p className="font-medium text-sm">{profile?.full_name || user?.email}</p>
-                        <p className="text-xs text-gray-500 capitalize">{profile?.role || 'Admin'}</p>
+            <div className="flex items-center gap-3">
+              {/* Notifications */}
+              <NotificationMenu />
+
+              {/* Profile Dropdown */}
+              <Dialog open={isProfileMenuOpen} onOpenChange={setIsProfileMenuOpen}>
+                <DialogTrigger asChild>
+                  <div className="flex items-center border border-black rounded-full h-9 px-1 cursor-pointer hover:bg-gray-50 transition-colors">
+                    <Avatar className="h-[30px] w-[30px]">
+                      <AvatarImage src={profile?.avatar_url || "/image.png"} alt="User" />
+                      <AvatarFallback>{profile?.full_name?.charAt(0) || 'U'}</AvatarFallback>
+                    </Avatar>
+                    <span className="mx-2 text-sm font-medium">
+                      {profile?.full_name || user?.email}
+                    </span>
+                    <ChevronDownIcon className="h-[30px] w-[19px] ml-1" />
+                  </div>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[300px] p-0" side="bottom">
+                  <DialogHeader className="sr-only">
+                    <DialogTitle>Profile Menu</DialogTitle>
+                  </DialogHeader>
+                  <div className="py-2">
+                    <div className="px-4 py-3 border-b">
+                      <div className="flex items-center space-x-3">
+                        <Avatar className="h-10 w-10">
+                          <AvatarImage src={profile?.avatar_url || "/image.png"} alt="User" />
+                          <AvatarFallback>{profile?.full_name?.charAt(0) || 'U'}</AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <p className="font-medium text-sm">{profile?.full_name || user?.email}</p>
+                          <p className="text-xs text-gray-500 capitalize">{profile?.role ? getRoleLabel(profile.role) : 'Admin'}</p>
+                        </div>
                       </div>
                     </div>
-                  </div>
                   
-                  <div className="py-2">
-                    <Button
-                      variant="ghost"
-                      className="w-full justify-start px-4 py-2 h-auto"
-                      onClick={handleProfileClick}
-                    >
-                      <UserIcon className="h-4 w-4 mr-3" />
-                      <span className="text-sm">View Profile</span>
-                    </Button>
-                  </div>
+                    <div className="py-2">
+                      <Button
+                        variant="ghost"
+                        className="w-full justify-start px-4 py-2 h-auto"
+                        onClick={handleProfileClick}
+                      >
+                        <UserIcon className="h-4 w-4 mr-3" />
+                        <span className="text-sm">View Profile</span>
+                      </Button>
+                    </div>
                   
-                  <div className="border-t py-2">
-                    <Button
-                      variant="ghost"
-                      className="w-full justify-start px-4 py-2 h-auto text-red-600 hover:text-red-700 hover:bg-red-50"
-                      onClick={handleSignOut}
-                    >
-                      <LogOutIcon className="h-4 w-4 mr-3" />
-                      <span className="text-sm">Sign Out</span>
-                    </Button>
+                    <div className="border-t py-2">
+                      <Button
+                        variant="ghost"
+                        className="w-full justify-start px-4 py-2 h-auto text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={handleSignOut}
+                      >
+                        <LogOutIcon className="h-4 w-4 mr-3" />
+                        <span className="text-sm">Sign Out</span>
+                      </Button>
+                    </div>
                   </div>
-                </div>
-              </DialogContent>
-            </Dialog>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
           <Separator className="absolute bottom-0 w-full" />
         </div>
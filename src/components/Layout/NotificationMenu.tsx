@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { BellIcon, AlertTriangleIcon, PackageXIcon } from "lucide-react";
+import { Button } from "../../components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "../../components/ui/dialog";
+import { useNotifications } from "../../hooks/useNotifications";
+import { AdminNotification } from "../../lib/dataService";
+
+const notificationRoutes: Record<string, string> = {
+  REWARD: '/rewards'
+};
+
+const formatNotificationTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export const NotificationMenu = (): JSX.Element => {
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+  const navigate = useNavigate();
+
+  const handleNotificationClick = async (notification: AdminNotification) => {
+    await markRead([notification.id]);
+
+    const route = notificationRoutes[notification.entity_type];
+    if (route) {
+      navigate(route);
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <button
+          className="relative flex items-center justify-center h-9 w-9 rounded-full border border-black hover:bg-gray-50 transition-colors"
+          aria-label="Notifications"
+        >
+          <BellIcon className="h-[18px] w-[18px]" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-medium flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[380px] p-0">
+        <DialogHeader className="sr-only">
+          <DialogTitle>Notifications</DialogTitle>
+        </DialogHeader>
+        <div className="py-2">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <p className="font-medium text-sm">Notifications</p>
+            {unreadCount > 0 && (
+              <Button
+                variant="ghost"
+                className="px-2 py-1 h-auto text-xs text-[#009A5A]"
+                onClick={() => markAllRead()}
+              >
+                Mark all read
+              </Button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">You're all caught up.</p>
+          ) : (
+            <div className="max-h-[400px] overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => (
+                <div
+                  key={notification.id}
+                  className={`flex items-start gap-3 px-4 py-3 cursor-pointer hover:bg-gray-50 ${
+                    notification.read ? '' : 'bg-green-50/50'
+                  }`}
+                  onClick={() => handleNotificationClick(notification)}
+                >
+                  {notification.kind === 'out_of_stock' ? (
+                    <PackageXIcon className="h-4 w-4 mt-0.5 text-red-600 flex-shrink-0" />
+                  ) : (
+                    <AlertTriangleIcon className="h-4 w-4 mt-0.5 text-orange-500 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${notification.read ? 'text-gray-700' : 'font-medium text-gray-900'}`}>
+                      {notification.title}
+                    </p>
+                    <p className="text-xs text-gray-500">{notification.message}</p>
+                    <p className="text-xs text-gray-400 mt-1">{formatNotificationTime(notification.created_at)}</p>
+                  </div>
+                  {!notification.read && (
+                    <span className="h-2 w-2 mt-1.5 rounded-full bg-[#009A5A] flex-shrink-0" />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,75 @@
+import { AlertTriangleIcon, PackagePlusIcon } from "lucide-react";
+import { Card, CardContent } from "../ui/card";
+import { Button } from "../ui/button";
+import { Reward, isLowStock } from "../../lib/dataService";
+
+// Rewards at or below their low-stock threshold, emptiest first; shown on the Rewards screen and the dashboard
+export const LowStockAlerts = ({
+  rewards,
+  onRestock,
+  onSelect,
+  emptyMessage = "All rewards are above their low-stock thresholds."
+}: {
+  rewards: Reward[];
+  onRestock?: (reward: Reward) => void;
+  onSelect?: (reward: Reward) => void;
+  emptyMessage?: string;
+}): JSX.Element => {
+  const lowStockRewards = rewards
+    .filter(reward => isLowStock(reward))
+    .sort((a, b) => a.stock - b.stock || a.name.localeCompare(b.name));
+
+  return (
+    <Card className="bg-white border-none shadow-sm">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center">
+            <AlertTriangleIcon className="h-5 w-5 text-orange-500 mr-2" />
+            <h3 className="font-semibold text-gray-900">Low Stock Alerts</h3>
+          </div>
+          {lowStockRewards.length > 0 && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+              {lowStockRewards.length}
+            </span>
+          )}
+        </div>
+        {lowStockRewards.length === 0 ? (
+          <p className="text-sm text-gray-500 py-2">{emptyMessage}</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {lowStockRewards.map(reward => (
+              <div key={reward.id} className="flex items-center justify-between py-3">
+                <div
+                  className={onSelect ? "cursor-pointer" : undefined}
+                  onClick={() => onSelect?.(reward)}
+                >
+                  <p className="text-sm font-medium text-gray-900">{reward.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {reward.stock} left · alert at {reward.low_stock_threshold}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    reward.stock <= 0 ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'
+                  }`}>
+                    {reward.stock <= 0 ? 'Out of Stock' : 'Low Stock'}
+                  </span>
+                  {onRestock && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onRestock(reward)}
+                    >
+                      <PackagePlusIcon className="h-4 w-4 mr-1" />
+                      Restock
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
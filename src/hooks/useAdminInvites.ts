@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { dataService, AdminInvite, AdminInviteAcceptance } from '../lib/dataService';
+import { adminLogger } from '../lib/adminLogger';
+import { getRoleLabel } from '../lib/permissions';
+
+export const ACCEPT_INVITE_PATH = '/accept-invite';
+
+export const getAdminInviteLink = (token: string): string =>
+  `${window.location.origin}${ACCEPT_INVITE_PATH}?token=${encodeURIComponent(token)}`;
+
+export function useAdminInvites() {
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInvites = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await dataService.getAdminInvites();
+      setInvites(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchInvites();
+  }, []);
+
+  const createInvite = async (email: string, role: string) => {
+    try {
+      const result = await dataService.createAdminInvite(email, role, adminLogger.getCurrentAdminId().toString());
+
+      if (!result.error && result.data) {
+        const { invite } = result.data;
+        try {
+          await adminLogger.logCreate(
+            'SYSTEM',
+            parseInt(invite.id),
+            `Invited "${invite.email}" as ${getRoleLabel(invite.role)} - link expires ${new Date(invite.expires_at).toLocaleDateString()}`,
+            {
+              invite_email: invite.email,
+              invite_role: invite.role,
+              expires_at: invite.expires_at,
+              invite_step: 'created'
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+
+        // Creating an invite revokes any earlier pending one for the address, so reload the list
+        await fetchInvites();
+      }
+
+      return result;
+    } catch (err) {
+      console.error('Create invite error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while creating the invite';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  const revokeInvite = async (id: string) => {
+    try {
+      const result = await dataService.revokeAdminInvite(id);
+
+      if (!result.error && result.data) {
+        try {
+          await adminLogger.logUpdate(
+            'SYSTEM',
+            parseInt(id),
+            `Revoked the admin invite for "${result.data.email}" (${getRoleLabel(result.data.role)})`,
+            {
+              invite_email: result.data.email,
+              invite_role: result.data.role,
+              invite_step: 'revoked'
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+
+        setInvites(prevInvites => prevInvites.map(invite => invite.id === id ? result.data! : invite));
+      }
+
+      return result;
+    } catch (err) {
+      console.error('Revoke invite error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while revoking the invite';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  return {
+    invites,
+    loading,
+    error,
+    createInvite,
+    revokeInvite,
+    refetch: fetchInvites
+  };
+}
+
+// Used on the accept-invite page, before the invitee has an account
+export function useAdminInviteAcceptance(token: string | null) {
+  const [invite, setInvite] = useState<AdminInvite | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchInvite = async () => {
+      if (!token) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setInvite(await dataService.getAdminInviteByToken(token));
+      } catch (err) {
+        console.error('Error fetching invite:', err);
+        setInvite(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvite();
+  }, [token]);
+
+  const acceptInvite = async (acceptance: AdminInviteAcceptance) => {
+    if (!token) return { data: null, error: 'This invite link is missing its token.' };
+
+    try {
+      const result = await dataService.acceptAdminInvite(token, acceptance);
+
+      if (result.error || !result.data) {
+        adminLogger.logAction({
+          action_type: 'CREATE',
+          entity_type: 'SYSTEM',
+          entity_id: invite ? parseInt(invite.id) : undefined,
+          details: `Failed to accept the admin invite for ${invite?.email || 'an unknown address'}: ${result.error}`,
+          metadata: {
+            invite_email: invite?.email,
+            invite_step: 'accept_failed',
+            success: false
+          }
+        }).catch(err => console.warn('Failed to log invite acceptance:', err));
+
+        return result;
+      }
+
+      // The new admin is the actor for their own acceptance
+      adminLogger.setCurrentAdminId(parseInt(result.data.id));
+      try {
+        await adminLogger.logCreate(
+          'USER',
+          parseInt(result.data.id),
+          `Accepted the admin invite for "${result.data.email}" and created a ${getRoleLabel(result.data.role)} account`,
+          {
+            user_email: result.data.email,
+            user_role: result.data.role,
+            full_name: result.data.full_name,
+            invite_id: invite?.id,
+            account_type: 'admin_invite',
+            invite_step: 'accepted'
+          }
+        );
+      } catch (logError) {
+        console.warn('Failed to log admin action:', logError);
+      }
+
+      setInvite(prevInvite => prevInvite ? { ...prevInvite, status: 'accepted' } : prevInvite);
+      return result;
+    } catch (err) {
+      console.error('Accept invite error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while accepting the invite';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  return {
+    invite,
+    loading,
+    acceptInvite
+  };
+}
@@ -4,6 +4,7 @@ import { Profile } from '../lib/supabase';
 import { dataService } from '../lib/dataService';
 import { adminLogger } from '../lib/adminLogger';
 import { imageUploadService } from '../lib/imageUpload';
+import { accessControl, Permission, roleHasPermission } from '../lib/permissions';
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null);
@@ -53,6 +54,7 @@ export function useAuth() {
         // Set the current admin ID for logging and image upload service
         adminLogger.setCurrentAdminId(parseInt(currentUser.id));
         imageUploadService.setCurrentUserId(parseInt(currentUser.id));
+        accessControl.setCurrentRole(currentUser.role);
       }
     } catch (error) {
       console.error('Error in auth initialization:', error);
@@ -98,54 +100,6 @@ export function useAuth() {
     }
   };
 
-  const signUp = async (email: string, password: string, fullName: string, role: string = 'admin') => {
-    try {
-      console.log('Attempting sign up for:', email);
-      
-      const result = await dataService.signUp(email, password, fullName, role);
-      
-      if (result.error) {
-        console.error('Sign up error:', result.error);
-        
-        // Log failed signup attempt (non-blocking)
-        adminLogger.logAction({
-          action_type: 'CREATE',
-          entity_type: 'USER',
-          details: `Failed account creation attempt for ${email}: ${result.error.message}`,
-          metadata: {
-            user_email: email,
-            error_code: result.error.message,
-            role: role,
-            success: false
-          }
-        }).catch(err => console.warn('Failed to log failed signup:', err));
-        
-        throw result.error;
-      }
-      
-      console.log('Sign up successful:', result.data?.user?.email);
-      
-      // Log the account creation (non-blocking)
-      adminLogger.logCreate(
-        'USER',
-        parseInt(result.data?.user?.id || '1'),
-        `New admin account created for ${email} with role "${role}" and full name "${fullName}"`,
-        { 
-          email, 
-          role, 
-          full_name: fullName,
-          account_type: 'new_signup',
-          requires_email_confirmation: true
-        }
-      ).catch(err => console.warn('Failed to log account creation:', err));
-      
-      return { data: result.data, error: null };
-    } catch (error: any) {
-      console.error('Sign up failed:', error.message);
-      return { data: null, error };
-    }
-  };
-
   const signOut = async () => {
     try {
       // Log logout before signing out (non-blocking)
@@ -160,6 +114,7 @@ export function useAuth() {
       // Clear local state immediately
       setUser(null);
       setProfile(null);
+      accessControl.setCurrentRole(null);
       
       // Sign out from data service
       const result = await dataService.signOut();
@@ -175,16 +130,19 @@ export function useAuth() {
       // Even if there's an error, clear local state
       setUser(null);
       setProfile(null);
+      accessControl.setCurrentRole(null);
       return { error };
     }
   };
 
+  const can = (permission: Permission) => roleHasPermission(profile?.role, permission);
+
   return {
     user,
     profile,
     loading,
     signIn,
-    signUp,
     signOut,
+    can,
   };
 }
\ No newline at end of file
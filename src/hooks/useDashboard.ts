@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
-import { dataService, DashboardStats, MonthlyEngagement } from '../lib/dataService';
+import { dataService, DashboardStats, DashboardOverview, MonthlyEngagement, Reward, isLowStock } from '../lib/dataService';
 
-export function useDashboard() {
+export function useDashboard(engagementMonths: number = 8) {
   const [stats, setStats] = useState<DashboardStats>({
     totalUsers: 0,
     activeEvents: 0,
@@ -9,53 +9,55 @@ export function useDashboard() {
     engagementRate: 0
   });
   const [monthlyEngagement, setMonthlyEngagement] = useState<MonthlyEngagement[]>([]);
+  const [overview, setOverview] = useState<DashboardOverview>({
+    eventStatus: { upcoming: 0, ongoing: 0, completed: 0 },
+    trends: { totalUsers: 0, activeEvents: 0, rewardsRedeemed: 0, engagementRate: 0 },
+    periodDays: 30
+  });
+  const [lowStockRewards, setLowStockRewards] = useState<Reward[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const fetchDashboardStats = async () => {
     try {
       setLoading(true);
+      setError(null);
 
-      // Fetch dashboard stats and monthly engagement
-      const [dashboardStats, monthlyData] = await Promise.all([
+      // Fetch dashboard stats, monthly engagement and the event status/trend overview
+      const [dashboardStats, monthlyData, overviewData] = await Promise.all([
         dataService.getDashboardStats(),
-        dataService.getMonthlyEngagement()
+        dataService.getMonthlyEngagement(engagementMonths),
+        dataService.getDashboardOverview()
       ]);
 
       setStats(dashboardStats);
       setMonthlyEngagement(monthlyData);
+      setOverview(overviewData);
+
+      // Stock alerts are secondary; failing to load them should not hide the dashboard
+      try {
+        const rewards = await dataService.getRewards();
+        setLowStockRewards(rewards.filter(isLowStock));
+      } catch (rewardsError) {
+        console.warn('Failed to load low-stock rewards:', rewardsError);
+      }
     } catch (err) {
+      // Keep the last loaded figures rather than showing made-up ones
       setError(err instanceof Error ? err.message : 'An error occurred');
-      // Use mock data as fallback
-      const mockData = generateMockMonthlyData();
-      setMonthlyEngagement(mockData);
     } finally {
       setLoading(false);
     }
   };
 
-  const generateMockMonthlyData = (): MonthlyEngagement[] => {
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug'];
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    
-    return months.map((month, index) => ({
-      month,
-      year: currentYear,
-      participants: Math.floor(Math.random() * 50) + 20, // 20-70 participants
-      events: Math.floor(Math.random() * 8) + 2, // 2-10 events
-      feedback: Math.floor(Math.random() * 30) + 10, // 10-40 feedback
-      rewards_redeemed: Math.floor(Math.random() * 15) + 5 // 5-20 rewards
-    }));
-  };
-
   useEffect(() => {
     fetchDashboardStats();
-  }, []);
+  }, [engagementMonths]);
 
   return {
     stats,
     monthlyEngagement,
+    overview,
+    lowStockRewards,
     loading,
     error,
     refetch: fetchDashboardStats
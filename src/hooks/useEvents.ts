@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
-import { dataService, Event } from '../lib/dataService';
+import { dataService, Event, EventParticipant, ParticipantStatus, takesEventSeat } from '../lib/dataService';
 import { adminLogger } from '../lib/adminLogger';
 
 export function useEvents() {
   const [events, setEvents] = useState<Event[]>([]);
+  const [participants, setParticipants] = useState<EventParticipant[]>([]);
+  const [participantsLoading, setParticipantsLoading] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -153,17 +155,190 @@ export function useEvents() {
     }
   };
 
+  // Keep the roster counts on the event cards in step with the participant list
+  const applyParticipantCounts = (eventId: string, roster: EventParticipant[]) => {
+    setEvents(prevEvents =>
+      prevEvents.map(event =>
+        event.id === eventId
+          ? {
+              ...event,
+              participant_count: roster.filter(p => takesEventSeat(p.status)).length,
+              waitlist_count: roster.filter(p => p.status === 'waitlisted').length
+            }
+          : event
+      )
+    );
+  };
+
+  const fetchParticipants = async (eventId: string) => {
+    try {
+      setParticipantsLoading(true);
+      const data = await dataService.getEventParticipants(eventId);
+      setParticipants(data);
+      applyParticipantCounts(eventId, data);
+      return data;
+    } catch (err) {
+      console.error('Error fetching participants:', err);
+      return [];
+    } finally {
+      setParticipantsLoading(false);
+    }
+  };
+
+  const updateParticipantStatus = async (eventId: string, participantId: string, status: ParticipantStatus) => {
+    try {
+      const event = events.find(e => e.id === eventId);
+      const participant = participants.find(p => p.id === participantId);
+      
+      const result = await dataService.updateParticipantStatus(participantId, status);
+      
+      if (!result.error) {
+        try {
+          await adminLogger.logUpdate(
+            'EVENT',
+            parseInt(eventId),
+            `Changed participant ${participant?.user_email} from ${participant?.status} to ${status} for "${event?.title}"`,
+            {
+              event_title: event?.title,
+              participant_id: participantId,
+              participant_email: participant?.user_email,
+              old_status: participant?.status,
+              new_status: status
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        
+        await fetchParticipants(eventId);
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Update participant error:', err);
+      return { data: null, error: err instanceof Error ? err.message : 'An error occurred' };
+    }
+  };
+
+  const removeParticipant = async (eventId: string, participantId: string) => {
+    try {
+      const event = events.find(e => e.id === eventId);
+      const participant = participants.find(p => p.id === participantId);
+      
+      const result = await dataService.removeParticipant(participantId);
+      
+      if (!result.error) {
+        try {
+          await adminLogger.logUpdate(
+            'EVENT',
+            parseInt(eventId),
+            `Removed participant ${participant?.user_email} from "${event?.title}"`,
+            {
+              event_title: event?.title,
+              participant_id: participantId,
+              participant_email: participant?.user_email,
+              removed_participant: true,
+              old_status: participant?.status
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        
+        await fetchParticipants(eventId);
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Remove participant error:', err);
+      return { error: err instanceof Error ? err.message : 'An error occurred' };
+    }
+  };
+
+  const checkInParticipants = async (eventId: string, participantIds: string[]) => {
+    try {
+      const event = events.find(e => e.id === eventId);
+      
+      const result = await dataService.checkInParticipants(
+        eventId,
+        participantIds,
+        adminLogger.getCurrentAdminId().toString()
+      );
+      
+      if (!result.error && result.data) {
+        // Only first-time check-ins carry points, so re-runs produce no credit entries
+        for (const credit of result.data.filter(r => r.points_awarded > 0)) {
+          const participant = participants.find(p => p.id === credit.participant_id);
+          try {
+            await adminLogger.logUpdate(
+              'USER',
+              parseInt(credit.user_id),
+              `Added ${credit.points_awarded} points to user "${participant?.user_email}" for attending "${event?.title}"`,
+              {
+                user_email: participant?.user_email,
+                user_name: participant?.user_name,
+                points_added: credit.points_awarded,
+                event_id: eventId,
+                event_title: event?.title,
+                participant_id: credit.participant_id,
+                transaction_type: 'event_attendance',
+                points_difference: `+${credit.points_awarded}`
+              }
+            );
+          } catch (logError) {
+            console.warn('Failed to log admin action:', logError);
+          }
+        }
+        
+        await fetchParticipants(eventId);
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Check-in error:', err);
+      return { data: null, error: err instanceof Error ? err.message : 'An error occurred' };
+    }
+  };
+
+  const exportParticipants = async (eventId: string) => {
+    const event = events.find(e => e.id === eventId);
+    const data = await dataService.getEventParticipants(eventId);
+    
+    try {
+      await adminLogger.logExport(
+        'EVENT',
+        `${data.length} participants of "${event?.title}"`,
+        {
+          event_title: event?.title,
+          participant_count: data.length,
+          export_format: 'csv'
+        }
+      );
+    } catch (logError) {
+      console.warn('Failed to log admin action:', logError);
+    }
+    
+    return data;
+  };
+
   useEffect(() => {
     fetchEvents();
   }, []);
 
   return {
     events,
+    participants,
+    participantsLoading,
     loading,
     error,
     createEvent,
     updateEvent,
     deleteEvent,
+    fetchParticipants,
+    updateParticipantStatus,
+    removeParticipant,
+    checkInParticipants,
+    exportParticipants,
     refetch: fetchEvents
   };
 }
\ No newline at end of file
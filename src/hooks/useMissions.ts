@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
-import { dataService } from '../lib/dataService';
+import { dataService, PhotoReview, SubmissionReviewResult, SubmissionStatusChange, RejectionReasonTemplate, MissionTemplate } from '../lib/dataService';
 import { adminLogger } from '../lib/adminLogger';
+import { accessControl } from '../lib/permissions';
 
 export interface Mission {
   id: string;
@@ -9,10 +10,15 @@ export interface Mission {
   points: number;
   start_date: string;
   end_date: string;
+  month_year?: string;
+  template_id?: string | null;
   created_at: string;
   updated_at: string;
   status?: 'active' | 'upcoming' | 'completed';
   submission_count?: number;
+  pending_count?: number;
+  approved_count?: number;
+  rejected_count?: number;
 }
 
 export interface MissionSubmission {
@@ -28,13 +34,21 @@ export interface MissionSubmission {
   photo_path_1?: string;
   photo_path_2?: string;
   photo_path_3?: string;
+  points_awarded?: number | null;
+  photo_reviews?: PhotoReview[];
+  rejection_reason?: string | null;
   created_at: string;
   updated_at: string;
 }
 
 export function useMissions() {
   const [missions, setMissions] = useState<Mission[]>([]);
+  const [missionTemplates, setMissionTemplates] = useState<MissionTemplate[]>([]);
   const [submissions, setSubmissions] = useState<MissionSubmission[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [submissionHistory, setSubmissionHistory] = useState<SubmissionStatusChange[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [rejectionReasons, setRejectionReasons] = useState<RejectionReasonTemplate[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -50,6 +64,23 @@ export function useMissions() {
     }
   };
 
+  const fetchMissionTemplates = async () => {
+    try {
+      const data = await dataService.getMissionTemplates();
+      setMissionTemplates(data);
+    } catch (err) {
+      console.error('Error fetching mission templates:', err);
+    }
+  };
+
+  // Creates any missing periods for active templates before the list is loaded
+  // Spawning creates missions, so only admins who may manage them trigger it
+  const spawnRecurringMissions = async () => {
+    if (!accessControl.can('missions.manage')) return;
+    const { error } = await dataService.spawnRecurringMissions();
+    if (error) console.warn('Failed to spawn recurring missions:', error);
+  };
+
   const fetchSubmissions = async (missionId?: string) => {
     try {
       const data = await dataService.getMissionSubmissions(missionId);
@@ -61,6 +92,43 @@ export function useMissions() {
     }
   };
 
+  const fetchSubmissionHistory = async (submission: MissionSubmission) => {
+    try {
+      setHistoryLoading(true);
+      const data = await dataService.getSubmissionHistory(submission.user_id, submission.mission_id, submission.month_year);
+      setSubmissionHistory(data);
+      return data;
+    } catch (err) {
+      console.error('Error fetching submission history:', err);
+      setSubmissionHistory([]);
+      return [];
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const fetchRejectionReasons = async () => {
+    try {
+      const data = await dataService.getRejectionReasons();
+      setRejectionReasons(data);
+    } catch (err) {
+      console.error('Error fetching rejection reasons:', err);
+    }
+  };
+
+  // Storage paths are resolved in one batch per submission list and cached for the session
+  const resolvePhotoUrls = async (paths: string[]) => {
+    const missing = Array.from(new Set(paths.filter(path => path && !photoUrls[path])));
+    if (missing.length === 0) return;
+    
+    try {
+      const urls = await dataService.getSubmissionPhotoUrls(missing);
+      setPhotoUrls(prev => ({ ...prev, ...urls }));
+    } catch (err) {
+      console.error('Error resolving submission photos:', err);
+    }
+  };
+
   const createMission = async (missionData: Omit<Mission, 'id' | 'created_at' | 'updated_at'>) => {
     try {
       const result = await dataService.createMission(missionData);
@@ -104,7 +172,16 @@ export function useMissions() {
         
         setMissions(prevMissions => 
           prevMissions.map(mission => 
-            mission.id === id ? { ...mission, ...missionData } : mission
+            mission.id === id
+              ? {
+                  ...mission,
+                  ...result.data,
+                  submission_count: mission.submission_count,
+                  pending_count: mission.pending_count,
+                  approved_count: mission.approved_count,
+                  rejected_count: mission.rejected_count
+                }
+              : mission
           )
         );
       }
@@ -143,48 +220,265 @@ export function useMissions() {
   };
 
 
-  // Use approveSubmission and rejectSubmission from dataService, expects (userId, missionId)
-  const approveSubmission = async (userId: string, missionId: string) => {
+  // Points move with the submission status, so every non-zero change is logged against the user
+  const logSubmissionPoints = async (submission: MissionSubmission, result: SubmissionReviewResult) => {
+    if (!result.points_change) return;
+    
+    const mission = missions.find(m => m.id === submission.mission_id);
+    const reverted = result.points_change < 0;
+    
+    try {
+      await adminLogger.logUpdate(
+        'USER',
+        parseInt(submission.user_id),
+        reverted
+          ? `Reversed ${-result.points_change} points from user "${submission.user_email}" after reverting approval of mission "${mission?.title}" (${submission.month_year})`
+          : `Added ${result.points_change} points to user "${submission.user_email}" for completing mission "${mission?.title}" (${submission.month_year})`,
+        {
+          user_email: submission.user_email,
+          user_name: submission.user_name,
+          ...(reverted ? { points_removed: -result.points_change } : { points_added: result.points_change }),
+          mission_id: submission.mission_id,
+          mission_title: mission?.title,
+          month_year: submission.month_year,
+          new_status: result.status,
+          transaction_type: 'mission_approval',
+          points_difference: `${reverted ? '' : '+'}${result.points_change}`
+        }
+      );
+    } catch (logError) {
+      console.warn('Failed to log admin action:', logError);
+    }
+  };
+
+  const submissionAction = async (
+    submission: MissionSubmission,
+    action: () => Promise<{ data: SubmissionReviewResult | null; error: string | null }>
+  ) => {
     try {
-      const { error } = await dataService.approveSubmission(userId, missionId);
-      if (!error) {
-        await fetchSubmissions(missionId);
+      const { data, error } = await action();
+      if (!error && data) {
+        await logSubmissionPoints(submission, data);
+        await fetchSubmissions(submission.mission_id);
+        await fetchMissions();
       }
-      return { error };
+      return { data, error };
     } catch (err) {
-      console.error('Approve submission error:', err);
+      console.error('Submission review error:', err);
+      return { data: null, error: err instanceof Error ? err.message : 'An error occurred' };
+    }
+  };
+
+  const submissionOptions = (submission: MissionSubmission) => ({
+    monthYear: submission.month_year,
+    adminId: adminLogger.getCurrentAdminId().toString()
+  });
+
+  const approveSubmission = (submission: MissionSubmission) =>
+    submissionAction(submission, () =>
+      dataService.approveSubmission(submission.user_id, submission.mission_id, submissionOptions(submission))
+    );
+
+  const rejectSubmission = (submission: MissionSubmission, reason: string) =>
+    submissionAction(submission, () =>
+      dataService.rejectSubmission(submission.user_id, submission.mission_id, { ...submissionOptions(submission), reason })
+    );
+
+  const revertSubmission = (submission: MissionSubmission) =>
+    submissionAction(submission, () =>
+      dataService.revertSubmission(submission.user_id, submission.mission_id, submissionOptions(submission))
+    );
+
+  const reviewSubmissionPhotos = (submission: MissionSubmission, reviews: PhotoReview[]) =>
+    submissionAction(submission, () =>
+      dataService.reviewSubmissionPhotos(submission.user_id, submission.mission_id, reviews, submissionOptions(submission))
+    );
+
+  const createMissionTemplate = async (templateData: Omit<MissionTemplate, 'id' | 'created_at' | 'updated_at' | 'mission_count'>) => {
+    try {
+      const result = await dataService.createMissionTemplate(templateData);
+      if (!result.error && result.data) {
+        try {
+          await adminLogger.logCreate(
+            'MISSION',
+            parseInt(result.data.id),
+            `Created recurring mission: "${result.data.title}" (${result.data.recurrence} from ${result.data.first_month})`,
+            {
+              template_title: result.data.title,
+              recurrence: result.data.recurrence,
+              first_month: result.data.first_month,
+              last_month: result.data.last_month,
+              points_reward: result.data.points
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        await spawnRecurringMissions();
+        await Promise.all([fetchMissionTemplates(), fetchMissions()]);
+      }
+      return result;
+    } catch (err) {
+      console.error('Create mission template error:', err);
+      return { data: null, error: err instanceof Error ? err.message : 'An error occurred' };
+    }
+  };
+
+  const updateMissionTemplate = async (id: string, templateData: Partial<MissionTemplate>) => {
+    try {
+      const currentTemplate = missionTemplates.find(t => t.id === id);
+      const result = await dataService.updateMissionTemplate(id, templateData);
+      if (!result.error && result.data) {
+        try {
+          await adminLogger.logUpdate(
+            'MISSION',
+            parseInt(id),
+            `Updated recurring mission: "${result.data.title}"`,
+            { template_title: result.data.title, changes: templateData, old_values: currentTemplate }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        await spawnRecurringMissions();
+        await Promise.all([fetchMissionTemplates(), fetchMissions()]);
+      }
+      return result;
+    } catch (err) {
+      console.error('Update mission template error:', err);
+      return { data: null, error: err instanceof Error ? err.message : 'An error occurred' };
+    }
+  };
+
+  const deleteMissionTemplate = async (id: string) => {
+    try {
+      const templateToDelete = missionTemplates.find(t => t.id === id);
+      const result = await dataService.deleteMissionTemplate(id);
+      if (!result.error) {
+        try {
+          await adminLogger.logDelete(
+            'MISSION',
+            parseInt(id),
+            `Deleted recurring mission: "${templateToDelete?.title}"`,
+            { template_title: templateToDelete?.title, mission_count: templateToDelete?.mission_count || 0 }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        setMissionTemplates(prev => prev.filter(t => t.id !== id));
+        await fetchMissions();
+      }
+      return result;
+    } catch (err) {
+      console.error('Delete mission template error:', err);
       return { error: err instanceof Error ? err.message : 'An error occurred' };
     }
   };
 
-  const rejectSubmission = async (userId: string, missionId: string) => {
+  const createRejectionReason = async (reasonData: Pick<RejectionReasonTemplate, 'title' | 'message'>) => {
     try {
-      const { error } = await dataService.rejectSubmission(userId, missionId);
-      if (!error) {
-        await fetchSubmissions(missionId);
+      const result = await dataService.createRejectionReason(reasonData);
+      if (!result.error && result.data) {
+        try {
+          await adminLogger.logCreate(
+            'MISSION',
+            parseInt(result.data.id),
+            `Created rejection reason template: "${result.data.title}"`,
+            { template_title: result.data.title, template_message: result.data.message }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        await fetchRejectionReasons();
+      }
+      return result;
+    } catch (err) {
+      console.error('Create rejection reason error:', err);
+      return { data: null, error: err instanceof Error ? err.message : 'An error occurred' };
+    }
+  };
+
+  const updateRejectionReason = async (id: string, reasonData: Pick<RejectionReasonTemplate, 'title' | 'message'>) => {
+    try {
+      const currentReason = rejectionReasons.find(r => r.id === id);
+      const result = await dataService.updateRejectionReason(id, reasonData);
+      if (!result.error && result.data) {
+        try {
+          await adminLogger.logUpdate(
+            'MISSION',
+            parseInt(id),
+            `Updated rejection reason template: "${result.data.title}"`,
+            { template_title: result.data.title, changes: reasonData, old_values: currentReason }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        await fetchRejectionReasons();
       }
-      return { error };
+      return result;
+    } catch (err) {
+      console.error('Update rejection reason error:', err);
+      return { data: null, error: err instanceof Error ? err.message : 'An error occurred' };
+    }
+  };
+
+  const deleteRejectionReason = async (id: string) => {
+    try {
+      const reasonToDelete = rejectionReasons.find(r => r.id === id);
+      const result = await dataService.deleteRejectionReason(id);
+      if (!result.error) {
+        try {
+          await adminLogger.logDelete(
+            'MISSION',
+            parseInt(id),
+            `Deleted rejection reason template: "${reasonToDelete?.title}"`,
+            { template_title: reasonToDelete?.title }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        setRejectionReasons(prev => prev.filter(r => r.id !== id));
+      }
+      return result;
     } catch (err) {
-      console.error('Reject submission error:', err);
+      console.error('Delete rejection reason error:', err);
       return { error: err instanceof Error ? err.message : 'An error occurred' };
     }
   };
 
   useEffect(() => {
-    fetchMissions();
+    spawnRecurringMissions().then(() => {
+      fetchMissions();
+      fetchMissionTemplates();
+    });
+    fetchRejectionReasons();
   }, []);
 
   return {
     missions,
+    missionTemplates,
     submissions,
+    photoUrls,
+    submissionHistory,
+    historyLoading,
+    rejectionReasons,
     loading,
     error,
     createMission,
     updateMission,
     deleteMission,
     fetchSubmissions,
+    fetchSubmissionHistory,
+    resolvePhotoUrls,
     approveSubmission,
     rejectSubmission,
+    revertSubmission,
+    reviewSubmissionPhotos,
+    createMissionTemplate,
+    updateMissionTemplate,
+    deleteMissionTemplate,
+    createRejectionReason,
+    updateRejectionReason,
+    deleteRejectionReason,
     refetch: fetchMissions
   };
 }
\ No newline at end of file
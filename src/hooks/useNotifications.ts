@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { dataService, AdminNotification } from '../lib/dataService';
+import { adminLogger } from '../lib/adminLogger';
+
+// Stock alerts are raised by other admins' redemptions, so check for new ones regularly
+const NOTIFICATION_REFRESH_MS = 60 * 1000;
+
+export function useNotifications() {
+  const [notifications, setNotifications] = useState<AdminNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchNotifications = async () => {
+    try {
+      const data = await dataService.getNotifications(adminLogger.getCurrentAdminId().toString());
+      setNotifications(data);
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = window.setInterval(fetchNotifications, NOTIFICATION_REFRESH_MS);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const markRead = async (ids: string[]) => {
+    const unreadIds = ids.filter(id => notifications.some(n => n.id === id && !n.read));
+    if (unreadIds.length === 0) return { error: null };
+
+    const result = await dataService.markNotificationsRead(unreadIds, adminLogger.getCurrentAdminId().toString());
+
+    if (!result.error) {
+      setNotifications(prev => prev.map(n => unreadIds.includes(n.id) ? { ...n, read: true } : n));
+    }
+
+    return result;
+  };
+
+  const markAllRead = () => markRead(notifications.map(n => n.id));
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.read).length,
+    loading,
+    markRead,
+    markAllRead,
+    refetch: fetchNotifications
+  };
+}
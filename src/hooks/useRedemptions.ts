@@ -0,0 +1,184 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  dataService,
+  Reward,
+  RewardRedemption,
+  RedemptionQuery,
+  RedemptionStatus,
+  RedemptionSummary,
+  REDEMPTION_STATUS_TRANSITIONS
+} from '../lib/dataService';
+import { adminLogger } from '../lib/adminLogger';
+
+export type RedemptionExportFormat = 'csv' | 'xlsx';
+
+// Exports read every matching row, in pages this size
+const EXPORT_PAGE_SIZE = 500;
+
+export const DEFAULT_REDEMPTION_QUERY = {
+  page: 1,
+  pageSize: 25
+};
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+const parsePageParam = (value: string | null, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? Math.max(1, Math.floor(parsed)) : fallback;
+};
+
+// The URL keeps whole (UTC) days (?from=2025-06-01&to=2025-06-30&user=&reward=&status=&page=&size=);
+// the query covers the start of the first day to the end of the last one
+const readRedemptionQuery = (params: URLSearchParams): RedemptionQuery => {
+  const from = params.get('from');
+  const to = params.get('to');
+  const status = params.get('status') as RedemptionStatus;
+  return {
+    from: from && DATE_PARAM.test(from) ? `${from}T00:00:00.000Z` : undefined,
+    to: to && DATE_PARAM.test(to) ? `${to}T23:59:59.999Z` : undefined,
+    userSearch: params.get('user') || undefined,
+    rewardId: params.get('reward') || undefined,
+    status: status in REDEMPTION_STATUS_TRANSITIONS ? status : undefined,
+    page: parsePageParam(params.get('page'), DEFAULT_REDEMPTION_QUERY.page),
+    pageSize: parsePageParam(params.get('size'), DEFAULT_REDEMPTION_QUERY.pageSize)
+  };
+};
+
+// Defaults are left out so the plain /redemptions link stays clean
+const writeRedemptionQuery = (query: RedemptionQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.from) params.set('from', query.from.slice(0, 10));
+  if (query.to) params.set('to', query.to.slice(0, 10));
+  if (query.userSearch) params.set('user', query.userSearch);
+  if (query.rewardId) params.set('reward', query.rewardId);
+  if (query.status) params.set('status', query.status);
+  if (query.page && query.page !== DEFAULT_REDEMPTION_QUERY.page) params.set('page', query.page.toString());
+  if (query.pageSize && query.pageSize !== DEFAULT_REDEMPTION_QUERY.pageSize) params.set('size', query.pageSize.toString());
+  return params;
+};
+
+export function useRedemptions() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const queryString = searchParams.toString();
+  const query = useMemo(() => readRedemptionQuery(searchParams), [queryString]);
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([]);
+  const [total, setTotal] = useState(0);
+  const [summary, setSummary] = useState<RedemptionSummary | null>(null);
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  // The totals follow the filters, so they are fetched with the page
+  const fetchRedemptions = async () => {
+    // Only the newest query may update the list when the user types faster than the server answers
+    const requestId = ++latestRequest.current;
+    try {
+      setFetching(true);
+      const [result, totals] = await Promise.all([
+        dataService.queryRedemptions(query),
+        dataService.getRedemptionSummary(query)
+      ]);
+      if (requestId !== latestRequest.current) return;
+      setRedemptions(result.rows);
+      setTotal(result.total);
+      setSummary(totals);
+      setError(null);
+    } catch (err) {
+      if (requestId !== latestRequest.current) return;
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      if (requestId === latestRequest.current) {
+        setFetching(false);
+        setLoading(false);
+      }
+    }
+  };
+
+  const fetchRewards = async () => {
+    try {
+      setRewards(await dataService.getRewards());
+    } catch (err) {
+      console.error('Error fetching rewards:', err);
+    }
+  };
+
+  // Any filter change starts from the first page unless a page is given explicitly
+  const setQuery = (changes: Partial<RedemptionQuery>) => {
+    setSearchParams(
+      current => writeRedemptionQuery({ ...readRedemptionQuery(current), page: 1, ...changes }),
+      { replace: true }
+    );
+  };
+
+  const resetQuery = () => {
+    setSearchParams(
+      current => writeRedemptionQuery({ pageSize: readRedemptionQuery(current).pageSize }),
+      { replace: true }
+    );
+  };
+
+  // Every redemption matching the current filters, not just the visible page
+  const exportRedemptions = async (format: RedemptionExportFormat) => {
+    try {
+      const rows: RewardRedemption[] = [];
+      for (let page = 1; ; page++) {
+        const result = await dataService.queryRedemptions({ ...query, page, pageSize: EXPORT_PAGE_SIZE });
+        rows.push(...result.rows);
+        if (result.rows.length < EXPORT_PAGE_SIZE || rows.length >= result.total) break;
+      }
+
+      try {
+        await adminLogger.logExport(
+          'REWARD',
+          `${rows.length} redemptions as ${format.toUpperCase()}`,
+          {
+            export_format: format,
+            record_count: rows.length,
+            filters: {
+              from: query.from,
+              to: query.to,
+              user: query.userSearch,
+              reward_id: query.rewardId,
+              status: query.status
+            },
+            total_points: summary?.total_points
+          }
+        );
+      } catch (logError) {
+        console.warn('Failed to log admin action:', logError);
+      }
+
+      return { data: rows, error: null };
+    } catch (err) {
+      console.error('Export redemptions error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while exporting redemptions';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  useEffect(() => {
+    fetchRedemptions();
+  }, [queryString]);
+
+  useEffect(() => {
+    fetchRewards();
+  }, []);
+
+  return {
+    redemptions,
+    total,
+    summary,
+    rewards,
+    query,
+    setQuery,
+    resetQuery,
+    loading,
+    fetching,
+    error,
+    exportRedemptions,
+    refetch: fetchRedemptions
+  };
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { dataService, Reward, RewardRedemption } from '../lib/dataService';
+import { dataService, Reward, RewardRedemption, RedemptionStatus, isRedemptionRefunded } from '../lib/dataService';
 import { adminLogger } from '../lib/adminLogger';
 
 export function useRewards() {
@@ -34,7 +34,10 @@ export function useRewards() {
   const getRedemptionStats = (rewardId: string) => {
     const rewardRedemptions = redemptions.filter(r => r.reward_id.toString() === rewardId);
     const totalRedemptions = rewardRedemptions.length;
-    const totalPointsUsed = rewardRedemptions.reduce((sum, r) => sum + r.points_deducted, 0);
+    // Cancelled and refunded redemptions gave their points back
+    const totalPointsUsed = rewardRedemptions
+      .filter(r => !isRedemptionRefunded(r.status))
+      .reduce((sum, r) => sum + r.points_deducted, 0);
     
     return {
       totalRedemptions,
@@ -61,7 +64,12 @@ export function useRewards() {
             {
               reward_name: rewardData.name,
               points_required: rewardData.points_required,
-              stock: rewardData.stock
+              stock: rewardData.stock,
+              category: rewardData.category,
+              start_date: rewardData.start_date,
+              end_date: rewardData.end_date,
+              max_per_user: rewardData.max_per_user,
+              limit_period: rewardData.limit_period
             }
           );
         } catch (logError) {
@@ -156,6 +164,155 @@ export function useRewards() {
     }
   };
 
+  const redeemReward = async (userId: string, rewardId: string) => {
+    try {
+      const reward = rewards.find(r => r.id === rewardId);
+      
+      const result = await dataService.redeemReward(userId, rewardId, adminLogger.getCurrentAdminId().toString());
+      
+      if (!result.error && result.data) {
+        try {
+          await adminLogger.logCreate(
+            'REWARD',
+            parseInt(rewardId),
+            `Redeemed ${reward?.name || `reward #${rewardId}`} for user #${userId} (-${result.data.points_deducted} points)`,
+            {
+              reward_name: reward?.name,
+              user_id: userId,
+              redemption_id: result.data.id,
+              points_deducted: result.data.points_deducted
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        
+        // One unit left the stock
+        setRewards(prevRewards =>
+          prevRewards.map(r =>
+            r.id === rewardId ? { ...r, stock: r.stock - 1, is_active: r.stock - 1 > 0 } : r
+          )
+        );
+        setRedemptions(prevRedemptions => [result.data!, ...prevRedemptions]);
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Redeem reward error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while redeeming the reward';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  const updateRedemptionStatus = async (redemption: RewardRedemption, status: RedemptionStatus, note?: string) => {
+    try {
+      const result = await dataService.updateRedemptionStatus(redemption.id, status, {
+        adminId: adminLogger.getCurrentAdminId().toString(),
+        note
+      });
+      
+      if (!result.error && result.data) {
+        const refunded = isRedemptionRefunded(status);
+        try {
+          await adminLogger.logUpdate(
+            'REWARD',
+            redemption.reward_id,
+            `Moved redemption #${redemption.id} of ${redemption.reward_name || `reward #${redemption.reward_id}`} for ${redemption.user_name || `user #${redemption.user_id}`} from ${redemption.status} to ${status}${refunded ? ` (+${redemption.points_deducted} points refunded)` : ''}`,
+            {
+              redemption_id: redemption.id,
+              reward_name: redemption.reward_name,
+              user_id: redemption.user_id,
+              from_status: redemption.status,
+              to_status: status,
+              note: note?.trim() || undefined,
+              points_refunded: refunded ? redemption.points_deducted : 0,
+              restocked: status === 'cancelled'
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        
+        // Cancelling puts the unit back in stock
+        if (status === 'cancelled') {
+          setRewards(prevRewards =>
+            prevRewards.map(r =>
+              r.id === redemption.reward_id.toString() ? { ...r, stock: r.stock + 1, is_active: true } : r
+            )
+          );
+        }
+        setRedemptions(prevRedemptions =>
+          prevRedemptions.map(r => r.id === redemption.id ? { ...r, status: result.data!.status } : r)
+        );
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Update redemption status error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while updating the redemption';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  const restockReward = async (rewardId: string, quantity: number, reason: string) => {
+    try {
+      const reward = rewards.find(r => r.id === rewardId);
+      
+      const result = await dataService.restockReward(rewardId, quantity, reason, adminLogger.getCurrentAdminId().toString());
+      
+      if (!result.error && result.data) {
+        const restock = result.data;
+        try {
+          await adminLogger.logUpdate(
+            'REWARD',
+            parseInt(rewardId),
+            `Restocked ${reward?.name || `reward #${rewardId}`}: +${restock.quantity} units (${restock.stock_before} → ${restock.stock_after}) - ${restock.reason}`,
+            {
+              reward_name: reward?.name,
+              restock_id: restock.id,
+              quantity: restock.quantity,
+              reason: restock.reason,
+              stock_before: restock.stock_before,
+              stock_after: restock.stock_after
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        
+        setRewards(prevRewards =>
+          prevRewards.map(r =>
+            r.id === rewardId ? { ...r, stock: restock.stock_after, is_active: restock.stock_after > 0 } : r
+          )
+        );
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Restock reward error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while restocking the reward';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  const fetchRestocks = async (rewardId: string) => {
+    try {
+      return await dataService.getRestocks(rewardId);
+    } catch (err) {
+      console.error('Error fetching restocks:', err);
+      return [];
+    }
+  };
+
+  const fetchRedemptionHistory = async (redemptionId: string) => {
+    try {
+      return await dataService.getRedemptionHistory(redemptionId);
+    } catch (err) {
+      console.error('Error fetching redemption history:', err);
+      return [];
+    }
+  };
+
   useEffect(() => {
     fetchRewards();
     fetchRedemptions();
@@ -169,7 +326,12 @@ export function useRewards() {
     createReward,
     updateReward,
     deleteReward,
+    redeemReward,
+    updateRedemptionStatus,
+    restockReward,
+    fetchRestocks,
     fetchRedemptions,
+    fetchRedemptionHistory,
     getRedemptionStats,
     refetch: fetchRewards
   };
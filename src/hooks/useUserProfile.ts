@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { dataService, User, UserActivity } from '../lib/dataService';
+
+export function useUserProfile(userId: string | undefined) {
+  const [user, setUser] = useState<User | null>(null);
+  const [activity, setActivity] = useState<UserActivity | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfile = async () => {
+    if (!userId) return;
+    
+    try {
+      setLoading(true);
+      setError(null);
+      const [userData, activityData] = await Promise.all([
+        dataService.getUser(userId),
+        dataService.getUserActivity(userId)
+      ]);
+      
+      if (!userData) {
+        setError('User not found');
+        return;
+      }
+      
+      setUser(userData);
+      setActivity(activityData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfile();
+  }, [userId]);
+
+  return {
+    user,
+    activity,
+    loading,
+    error,
+    refetch: fetchProfile
+  };
+}
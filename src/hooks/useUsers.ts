@@ -1,28 +1,146 @@
-import { useState, useEffect } from 'react';
-import { dataService, User } from '../lib/dataService';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { dataService, User, PointsTransaction, UserQuery, UserSortField, UserSummary, BulkUserResult, UserAccountStatus } from '../lib/dataService';
 import { adminLogger } from '../lib/adminLogger';
+import { accessControl, isAdminRole } from '../lib/permissions';
+import { parseUserImport, markExistingEmails, UserImportPreview, UserImportRow } from '../lib/userImport';
+
+export interface UserImportFailure {
+  line: number;
+  email: string;
+  error: string;
+}
+
+export interface UserImportResult {
+  created: User[];
+  failed: UserImportFailure[];
+}
+
+// Imports are committed in batches so a large file does not flood the API
+const IMPORT_BATCH_SIZE = 20;
+
+const userSortFields: UserSortField[] = ['name', 'email', 'role', 'points', 'date'];
+
+export const DEFAULT_USER_QUERY = {
+  sortField: 'date' as UserSortField,
+  sortOrder: 'desc' as 'asc' | 'desc',
+  page: 1,
+  pageSize: 10
+};
+
+const parseNumberParam = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// The list query lives in the URL (?q=&role=&status=&min=&max=&sort=&order=&page=&size=) so filtered views can be bookmarked
+const readUserQuery = (params: URLSearchParams): UserQuery => {
+  const sortField = params.get('sort') as UserSortField;
+  const status = params.get('status');
+  return {
+    search: params.get('q') || undefined,
+    role: params.get('role') || undefined,
+    status: status === 'active' || status === 'deactivated' ? status as UserAccountStatus : undefined,
+    minPoints: parseNumberParam(params.get('min')),
+    maxPoints: parseNumberParam(params.get('max')),
+    sortField: userSortFields.includes(sortField) ? sortField : DEFAULT_USER_QUERY.sortField,
+    sortOrder: params.get('order') === 'asc' ? 'asc' : params.get('order') === 'desc' ? 'desc' : DEFAULT_USER_QUERY.sortOrder,
+    page: Math.max(1, Math.floor(parseNumberParam(params.get('page')) || DEFAULT_USER_QUERY.page)),
+    pageSize: Math.max(1, Math.floor(parseNumberParam(params.get('size')) || DEFAULT_USER_QUERY.pageSize))
+  };
+};
+
+// Defaults are left out so the plain /users link stays clean
+const writeUserQuery = (query: UserQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.search) params.set('q', query.search);
+  if (query.role) params.set('role', query.role);
+  if (query.status) params.set('status', query.status);
+  if (query.minPoints !== undefined) params.set('min', query.minPoints.toString());
+  if (query.maxPoints !== undefined) params.set('max', query.maxPoints.toString());
+  if (query.sortField && query.sortField !== DEFAULT_USER_QUERY.sortField) params.set('sort', query.sortField);
+  if (query.sortOrder && query.sortOrder !== DEFAULT_USER_QUERY.sortOrder) params.set('order', query.sortOrder);
+  if (query.page && query.page !== DEFAULT_USER_QUERY.page) params.set('page', query.page.toString());
+  if (query.pageSize && query.pageSize !== DEFAULT_USER_QUERY.pageSize) params.set('size', query.pageSize.toString());
+  return params;
+};
 
 export function useUsers() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const queryString = searchParams.toString();
+  const query = useMemo(() => readUserQuery(searchParams), [queryString]);
   const [users, setUsers] = useState<User[]>([]);
+  const [total, setTotal] = useState(0);
+  const [summary, setSummary] = useState<UserSummary | null>(null);
+  const [pointsLedger, setPointsLedger] = useState<PointsTransaction[]>([]);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
 
   const fetchUsers = async () => {
+    // Only the newest query may update the list when the user types faster than the server answers
+    const requestId = ++latestRequest.current;
     try {
-      setLoading(true);
-      const data = await dataService.getUsers();
-      setUsers(data);
+      setFetching(true);
+      const result = await dataService.queryUsers(query);
+      if (requestId !== latestRequest.current) return;
+      setUsers(result.rows);
+      setTotal(result.total);
+      setError(null);
     } catch (err) {
+      if (requestId !== latestRequest.current) return;
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) {
+        setFetching(false);
+        setLoading(false);
+      }
     }
   };
 
+  const fetchSummary = async () => {
+    try {
+      setSummary(await dataService.getUserSummary());
+    } catch (err) {
+      console.error('Error fetching user summary:', err);
+    }
+  };
+
+  // Any filter change starts from the first page unless a page is given explicitly
+  const setQuery = (changes: Partial<UserQuery>) => {
+    setSearchParams(
+      current => writeUserQuery({ ...readUserQuery(current), page: 1, ...changes }),
+      { replace: true }
+    );
+  };
+
+  const resetQuery = () => {
+    setSearchParams(
+      current => writeUserQuery({ pageSize: readUserQuery(current).pageSize }),
+      { replace: true }
+    );
+  };
+
   const updateUser = async (id: string, userData: Partial<User>) => {
     try {
       const currentUser = users.find(u => u.id === id);
-      const result = await dataService.updateUser(id, userData);
+      const { points, role, ...otherData } = userData;
+      // Only send the role when it changes; assigning roles needs its own permission
+      const profileData = role !== undefined && role !== currentUser?.role ? { ...otherData, role } : otherData;
+      let result = await dataService.updateUser(id, profileData);
+      
+      // Balance edits go through the ledger as a manual adjustment of the difference
+      const pointsDelta = points !== undefined && currentUser ? points - currentUser.points : 0;
+      if (!result.error && pointsDelta !== 0) {
+        result = await dataService.addPointsToUser(id, pointsDelta, {
+          reason: 'manual_adjustment',
+          adminId: adminLogger.getCurrentAdminId().toString(),
+          note: 'Balance corrected from profile edit'
+        });
+      }
       
       if (!result.error && result.data) {
         // Log the admin action with detailed changes
@@ -58,9 +176,10 @@ export function useUsers() {
         // Update local state
         setUsers(prevUsers => 
           prevUsers.map(user => 
-            user.id === id ? { ...user, ...userData } : user
+            user.id === id ? { ...user, ...profileData, points: result.data!.points } : user
           )
         );
+        fetchSummary();
       }
       
       return result;
@@ -91,7 +210,7 @@ export function useUsers() {
               old_role: oldRole,
               new_role: role,
               permission_change: true,
-              security_impact: role === 'admin' ? 'elevated_privileges' : 'standard_access'
+              security_impact: isAdminRole(role) ? 'elevated_privileges' : 'standard_access'
             }
           );
         } catch (logError) {
@@ -104,6 +223,7 @@ export function useUsers() {
             user.id === id ? { ...user, role } : user
           )
         );
+        fetchSummary();
       }
       
       return result;
@@ -114,12 +234,16 @@ export function useUsers() {
     }
   };
 
-  const addPointsToUser = async (id: string, pointsToAdd: number) => {
+  const addPointsToUser = async (id: string, pointsToAdd: number, note?: string) => {
     try {
       const currentUser = users.find(u => u.id === id);
       const oldPoints = currentUser?.points || 0;
       
-      const result = await dataService.addPointsToUser(id, pointsToAdd);
+      const result = await dataService.addPointsToUser(id, pointsToAdd, {
+        reason: 'manual_adjustment',
+        adminId: adminLogger.getCurrentAdminId().toString(),
+        note
+      });
       
       if (!result.error && result.data) {
         // Log the admin action with points transaction details
@@ -135,7 +259,8 @@ export function useUsers() {
               old_points: oldPoints,
               new_points: result.data.points,
               transaction_type: 'admin_adjustment',
-              points_difference: `+${pointsToAdd}`
+              points_difference: `+${pointsToAdd}`,
+              note
             }
           );
         } catch (logError) {
@@ -148,6 +273,7 @@ export function useUsers() {
             user.id === id ? { ...user, points: result.data!.points } : user
           )
         );
+        fetchSummary();
       }
       
       return result;
@@ -158,6 +284,21 @@ export function useUsers() {
     }
   };
 
+  const fetchPointsLedger = async (userId: string) => {
+    try {
+      setLedgerLoading(true);
+      const data = await dataService.getPointsLedger(userId);
+      setPointsLedger(data);
+      return data;
+    } catch (err) {
+      console.error('Error fetching points ledger:', err);
+      setPointsLedger([]);
+      return [];
+    } finally {
+      setLedgerLoading(false);
+    }
+  };
+
   const createUser = async (userData: {
     email: string;
     first_name: string;
@@ -202,8 +343,8 @@ export function useUsers() {
           console.warn('Failed to log admin action:', logError);
         }
         
-        // Add to local state
-        setUsers(prevUsers => [result.data!, ...prevUsers]);
+        // The new user's place depends on the current filters and sort, so reload the page
+        await Promise.all([fetchUsers(), fetchSummary()]);
       }
       
       return result;
@@ -214,18 +355,303 @@ export function useUsers() {
     }
   };
 
+  const deactivateUser = async (id: string) => {
+    try {
+      const result = await dataService.deactivateUser(id, adminLogger.getCurrentAdminId().toString());
+      
+      if (!result.error && result.data) {
+        try {
+          await adminLogger.logUpdate(
+            'USER',
+            parseInt(id),
+            `Deactivated user "${result.data.email}" - sign-in, event registration and redemptions are blocked`,
+            {
+              user_email: result.data.email,
+              user_name: result.data.full_name,
+              account_status: 'deactivated'
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        
+        setUsers(prevUsers => prevUsers.map(user => user.id === id ? result.data! : user));
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Deactivate user error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while deactivating the user';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  const restoreUser = async (id: string) => {
+    try {
+      const result = await dataService.restoreUser(id);
+      
+      if (!result.error && result.data) {
+        try {
+          await adminLogger.logUpdate(
+            'USER',
+            parseInt(id),
+            `Restored user "${result.data.email}"`,
+            {
+              user_email: result.data.email,
+              user_name: result.data.full_name,
+              account_status: 'active'
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        
+        setUsers(prevUsers => prevUsers.map(user => user.id === id ? result.data! : user));
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Restore user error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while restoring the user';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  const deleteUser = async (id: string) => {
+    try {
+      const result = await dataService.deleteUser(id, adminLogger.getCurrentAdminId().toString());
+      
+      if (!result.error) {
+        // The log must not keep the personal data the deletion removed
+        try {
+          await adminLogger.logDelete(
+            'USER',
+            parseInt(id),
+            `Deleted user #${id} - personal data anonymized, history kept`,
+            {
+              user_email: `user #${id}`,
+              anonymized: true
+            }
+          );
+        } catch (logError) {
+          console.warn('Failed to log admin action:', logError);
+        }
+        
+        await Promise.all([fetchUsers(), fetchSummary()]);
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Delete user error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while deleting the user';
+      return { error: errorMessage };
+    }
+  };
+
+  // Records one admin log entry for a bulk operation, listing the users it changed
+  const logBulkOperation = async (action: string, result: BulkUserResult, details: string, metadata: Record<string, any>) => {
+    if (result.succeeded.length === 0) return;
+    try {
+      await adminLogger.logBulkUpdate(
+        'USER',
+        result.succeeded,
+        `${details} for ${result.succeeded.length} user${result.succeeded.length === 1 ? '' : 's'}` +
+          (result.failed.length > 0 ? ` (${result.failed.length} failed)` : ''),
+        {
+          bulk_action: action,
+          affected_count: result.succeeded.length,
+          failed: result.failed,
+          ...metadata
+        }
+      );
+    } catch (logError) {
+      console.warn('Failed to log admin action:', logError);
+    }
+  };
+
+  const bulkAdjustPoints = async (ids: string[], points: number, reason: string) => {
+    try {
+      const result = await dataService.bulkAdjustPoints(ids, points, {
+        reason: 'manual_adjustment',
+        adminId: adminLogger.getCurrentAdminId().toString(),
+        note: reason
+      });
+      
+      if (!result.error && result.data) {
+        await logBulkOperation(
+          'adjust_points',
+          result.data,
+          points > 0 ? `Awarded ${points} points` : `Deducted ${-points} points`,
+          { points_change: points, reason }
+        );
+        await Promise.all([fetchUsers(), fetchSummary()]);
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Bulk points error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while adjusting points';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  const bulkUpdateUserRole = async (ids: string[], role: string) => {
+    try {
+      const oldRoles = Object.fromEntries(users.filter(u => ids.includes(u.id)).map(u => [u.id, u.role]));
+      const result = await dataService.bulkUpdateUserRole(ids, role);
+      
+      if (!result.error && result.data) {
+        await logBulkOperation('change_role', result.data, `Changed role to "${role}"`, {
+          new_role: role,
+          old_roles: oldRoles,
+          permission_change: true
+        });
+        await Promise.all([fetchUsers(), fetchSummary()]);
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Bulk role change error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while changing roles';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  const bulkDeactivateUsers = async (ids: string[]) => {
+    try {
+      const result = await dataService.bulkDeactivateUsers(ids, adminLogger.getCurrentAdminId().toString());
+      
+      if (!result.error && result.data) {
+        await logBulkOperation('deactivate', result.data, 'Deactivated accounts', {
+          user_emails: users.filter(u => result.data!.succeeded.includes(u.id)).map(u => u.email)
+        });
+        await Promise.all([fetchUsers(), fetchSummary()]);
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('Bulk deactivate error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while deactivating users';
+      return { data: null, error: errorMessage };
+    }
+  };
+
+  // Dry run: nothing is written, every row comes back with its status and issues
+  const previewUserImport = async (csvText: string): Promise<UserImportPreview> => {
+    const preview = parseUserImport(csvText, accessControl.can('users.assign_role'));
+    if (preview.error) return preview;
+    
+    try {
+      const existingEmails = await dataService.getExistingUserEmails(
+        preview.rows.filter(row => row.email).map(row => row.email)
+      );
+      return { rows: markExistingEmails(preview.rows, existingEmails), error: null };
+    } catch (err) {
+      console.error('Error checking existing emails:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Could not check for existing users';
+      return { rows: preview.rows, error: errorMessage };
+    }
+  };
+
+  const importUsers = async (
+    rows: UserImportRow[],
+    fileName: string,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<UserImportResult> => {
+    const toImport = rows.filter(row => row.status === 'valid');
+    const result: UserImportResult = { created: [], failed: [] };
+    
+    for (let i = 0; i < toImport.length; i += IMPORT_BATCH_SIZE) {
+      const batch = toImport.slice(i, i + IMPORT_BATCH_SIZE);
+      // The permission proxy throws before a promise exists, so start each call inside one
+      // to turn a refused row into a failure instead of aborting the import
+      const outcomes = await Promise.all(batch.map(row =>
+        Promise.resolve().then(() => dataService.createUser({
+          email: row.email,
+          first_name: row.first_name,
+          last_name: row.last_name,
+          role: row.role,
+          points: row.points
+        })).catch(err => ({ data: null, error: err instanceof Error ? err.message : 'An error occurred' }))
+      ));
+      
+      outcomes.forEach((outcome, index) => {
+        if (!outcome.error && outcome.data) {
+          result.created.push(outcome.data);
+        } else {
+          result.failed.push({
+            line: batch[index].line,
+            email: batch[index].email,
+            error: outcome.error || 'User was not created'
+          });
+        }
+      });
+      onProgress?.(Math.min(i + batch.length, toImport.length), toImport.length);
+    }
+    
+    // One entry for the whole import instead of one per user
+    try {
+      const skipped = rows.length - toImport.length;
+      await adminLogger.logImport(
+        'USER',
+        `${result.created.length} users created from "${fileName}"` +
+          (result.failed.length > 0 ? `, ${result.failed.length} failed` : '') +
+          (skipped > 0 ? `, ${skipped} rows skipped` : ''),
+        {
+          file_name: fileName,
+          total_rows: rows.length,
+          created_count: result.created.length,
+          failed_count: result.failed.length,
+          skipped_count: skipped,
+          created_user_ids: result.created.map(user => user.id),
+          initial_points_total: result.created.reduce((sum, user) => sum + (user.points || 0), 0),
+          failures: result.failed
+        }
+      );
+    } catch (logError) {
+      console.warn('Failed to log admin action:', logError);
+    }
+    
+    if (result.created.length > 0) {
+      await Promise.all([fetchUsers(), fetchSummary()]);
+    }
+    
+    return result;
+  };
+
   useEffect(() => {
     fetchUsers();
+  }, [queryString]);
+
+  useEffect(() => {
+    fetchSummary();
   }, []);
 
   return {
     users,
+    total,
+    summary,
+    query,
+    setQuery,
+    resetQuery,
     loading,
+    fetching,
     error,
     updateUser,
     updateUserRole,
     addPointsToUser,
+    pointsLedger,
+    ledgerLoading,
+    fetchPointsLedger,
     createUser,
-    refetch: fetchUsers
+    previewUserImport,
+    importUsers,
+    bulkAdjustPoints,
+    bulkUpdateUserRole,
+    bulkDeactivateUsers,
+    deactivateUser,
+    restoreUser,
+    deleteUser,
+    refetch: () => Promise.all([fetchUsers(), fetchSummary()])
   };
 }
\ No newline at end of file
@@ -1,21 +1,34 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
-import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
+import { BrowserRouter as Router, Routes, Route, useLocation } from "react-router-dom";
 import { AuthProvider } from "./components/Auth/AuthProvider";
 import { Layout } from "./components/Layout/Layout";
 import { LoginForm } from "./components/Auth/LoginForm";
 import { DashboardMainPage } from "./screens/DashboardMainPage";
 import { Events } from "./screens/Events/Events";
 import { Users } from "./screens/Users/Users";
+import { UserProfile } from "./screens/UserProfile";
 import { Rewards } from "./screens/Rewards/Rewards";
+import { Redemptions } from "./screens/Redemptions/Redemptions";
 import { Feedback } from "./screens/Feedback/Feedback";
 import { AdminHistory } from "./screens/AdminHistory/AdminHistory";
 import { AdminProfile } from "./screens/AdminProfile/AdminProfile";
 import { useAuthContext } from "./components/Auth/AuthProvider";
+import { RequirePermission } from "./components/Auth/RequirePermission";
 import { Missions } from "./screens/Missions/missions";
+import { NotAuthorized } from "./screens/NotAuthorized";
+import { AcceptInvite } from "./screens/AcceptInvite";
+import { ACCEPT_INVITE_PATH } from "./hooks/useAdminInvites";
+import { isAdminRole } from "./lib/permissions";
 
 function AppContent() {
-  const { user, loading } = useAuthContext();
+  const { user, profile, loading } = useAuthContext();
+  const location = useLocation();
+
+  // Invitees open their link before they have an account
+  if (location.pathname === ACCEPT_INVITE_PATH) {
+    return <AcceptInvite />;
+  }
 
   if (loading) {
     return (
@@ -32,16 +45,23 @@ function AppContent() {
     return <LoginForm />;
   }
 
+  // App members can sign in with the same accounts; only admin roles get the hub
+  if (!isAdminRole(profile?.role)) {
+    return <NotAuthorized />;
+  }
+
   return (
     <Layout>
       <Routes>
-        <Route path="/" element={<DashboardMainPage />} />
-        <Route path="/events" element={<Events />} />
-        <Route path="/users" element={<Users />} />
-        <Route path="/rewards" element={<Rewards />} />
-        <Route path="/missions" element={<Missions />} />
-        <Route path="/feedback" element={<Feedback />} />
-        <Route path="/admin-history" element={<AdminHistory />} />
+        <Route path="/" element={<RequirePermission permission="dashboard.view"><DashboardMainPage /></RequirePermission>} />
+        <Route path="/events" element={<RequirePermission permission="events.view"><Events /></RequirePermission>} />
+        <Route path="/users" element={<RequirePermission permission="users.view"><Users /></RequirePermission>} />
+        <Route path="/users/:id" element={<RequirePermission permission="users.view"><UserProfile /></RequirePermission>} />
+        <Route path="/rewards" element={<RequirePermission permission="rewards.view"><Rewards /></RequirePermission>} />
+        <Route path="/redemptions" element={<RequirePermission permission="rewards.view"><Redemptions /></RequirePermission>} />
+        <Route path="/missions" element={<RequirePermission permission="missions.view"><Missions /></RequirePermission>} />
+        <Route path="/feedback" element={<RequirePermission permission="feedback.view"><Feedback /></RequirePermission>} />
+        <Route path="/admin-history" element={<RequirePermission permission="admin_history.view"><AdminHistory /></RequirePermission>} />
         <Route path="/admin-profile" element={<AdminProfile />} />
       </Routes>
     </Layout>
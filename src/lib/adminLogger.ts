@@ -1,9 +1,10 @@
 import { supabase } from './supabase';
+import { dataService } from './dataService';
 
 interface AdminLogEntry {
   admin_id: number;
   action_type: 'CREATE' | 'UPDATE' | 'DELETE' | 'EXPORT' | 'LOGIN' | 'LOGOUT';
-  entity_type: 'USER' | 'EVENT' | 'REWARD' | 'FEEDBACK' | 'SYSTEM';
+  entity_type: 'USER' | 'EVENT' | 'REWARD' | 'MISSION' | 'FEEDBACK' | 'SYSTEM';
   entity_id?: number;
   details: string;
 }
@@ -12,6 +13,7 @@ class AdminLogger {
   private static instance: AdminLogger;
   private currentAdminId: number = 1;
   private databaseAvailable: boolean = false;
+  private memoryMode: boolean = import.meta.env.VITE_DATA_SERVICE_TYPE === 'memory';
 
   private constructor() {}
 
@@ -27,6 +29,10 @@ class AdminLogger {
     console.log('🔧 Admin Logger: Set current admin ID to', adminId);
   }
 
+  public getCurrentAdminId(): number {
+    return this.currentAdminId;
+  }
+
   public async logAction(entry: Omit<AdminLogEntry, 'admin_id'> & { metadata?: Record<string, any> }) {
     try {
       // Create log entry without metadata column (since it doesn't exist in your schema)
@@ -34,7 +40,7 @@ class AdminLogger {
         admin_id: this.currentAdminId,
         action_type: entry.action_type,
         entity_type: entry.entity_type,
-        entity_id: entry.entity_id || 1, // entity_id is required in your schema
+        entity_id: entry.entity_id ?? 1, // entity_id is required in your schema
         details: entry.details,
         created_at: new Date().toISOString()
       };
@@ -45,6 +51,12 @@ class AdminLogger {
         details: entry.details.substring(0, 50) + '...'
       });
 
+      // The in-memory data service keeps its own admin log
+      if (this.memoryMode) {
+        await dataService.logAdminAction(logEntry);
+        return;
+      }
+
       // Only try database if it's available
       if (this.databaseAvailable) {
         try {
@@ -76,7 +88,7 @@ class AdminLogger {
         admin_id: this.currentAdminId,
         action_type: entry.action_type,
         entity_type: entry.entity_type,
-        entity_id: entry.entity_id || 1,
+        entity_id: entry.entity_id ?? 1,
         details: entry.details,
         metadata: entry.metadata || {},
         created_at: new Date().toISOString()
@@ -138,6 +150,16 @@ class AdminLogger {
     });
   }
 
+  public async logBulkUpdate(entityType: AdminLogEntry['entity_type'], entityIds: (string | number)[], details: string, metadata?: Record<string, any>) {
+    await this.logAction({
+      action_type: 'UPDATE',
+      entity_type: entityType,
+      entity_id: 0, // Required field; 0 keeps it off any single user's history, the ids are in the details
+      details: `${details} - ${entityType.toLowerCase()} ids: ${entityIds.join(', ')}`,
+      metadata: { ...metadata, entity_ids: entityIds }
+    });
+  }
+
   public async logExport(entityType: AdminLogEntry['entity_type'], details: string, metadata?: Record<string, any>) {
     await this.logAction({
       action_type: 'EXPORT',
@@ -148,6 +170,16 @@ class AdminLogger {
     });
   }
 
+  public async logImport(entityType: AdminLogEntry['entity_type'], details: string, metadata?: Record<string, any>) {
+    await this.logAction({
+      action_type: 'CREATE',
+      entity_type: entityType,
+      entity_id: 0, // Required field; an import covers many records
+      details: `Imported ${entityType.toLowerCase()} data - ${details}`,
+      metadata
+    });
+  }
+
   public async logLogin(details: string = 'Admin logged in', metadata?: Record<string, any>) {
     const loginDetails = metadata?.user_email 
       ? `Admin logged in: ${metadata.user_email}`
@@ -189,10 +221,26 @@ class AdminLogger {
         if (action === 'UPDATE') {
           const email = metadata?.user_email || 'unknown user';
           
+          if (metadata?.points_added && metadata?.mission_title) {
+            return `Added ${metadata.points_added} points to ${email} for mission "${metadata.mission_title}"`;
+          }
+          
+          if (metadata?.points_removed && metadata?.mission_title) {
+            return `Reversed ${metadata.points_removed} points from ${email} for mission "${metadata.mission_title}"`;
+          }
+          
+          if (metadata?.points_added && metadata?.event_title) {
+            return `Added ${metadata.points_added} points to ${email} for attending "${metadata.event_title}"`;
+          }
+          
           if (metadata?.points_added) {
             return `Added ${metadata.points_added} points to ${email}`;
           }
           
+          if (metadata?.account_status) {
+            return `${metadata.account_status === 'deactivated' ? 'Deactivated' : 'Restored'} user: ${email}`;
+          }
+          
           if (metadata?.old_role && metadata?.new_role) {
             return `Changed role: ${email} from ${metadata.old_role} to ${metadata.new_role}`;
           }
@@ -221,6 +269,14 @@ class AdminLogger {
         if (action === 'UPDATE') {
           const title = metadata?.event_title || 'Unknown Event';
           
+          if (metadata?.removed_participant) {
+            return `Removed ${metadata.participant_email || 'participant'} from "${title}"`;
+          }
+          
+          if (metadata?.participant_email && metadata?.new_status) {
+            return `Marked ${metadata.participant_email} as ${metadata.new_status.replace('_', '-')} for "${title}"`;
+          }
+          
           if (metadata?.fields_modified && metadata?.fields_modified.length > 0) {
             const changes = this.formatFieldChanges(metadata.fields_modified, metadata.old_values, metadata.changes);
             return `Updated event: "${title}" - ${changes}`;
@@ -355,6 +411,11 @@ class AdminLogger {
   }
 
   public async testDatabaseConnection(): Promise<boolean> {
+    if (this.memoryMode) {
+      console.log('🧪 Using in-memory data service - admin actions are kept in memory');
+      return true;
+    }
+
     try {
       console.log('🧪 Testing admin_activity_log table with log_id...');
       
@@ -2,6 +2,8 @@
 // This acts as the Controller in MVC pattern, abstracting database operations
 
 import { supabase } from './supabase';
+import memorySeed from './fixtures/memorySeed.json';
+import { accessControl, Permission, MEMBER_ROLE, isAdminRole } from './permissions';
 
 export interface User {
   id: string;
@@ -12,10 +14,102 @@ export interface User {
   role: string;
   points: number;
   avatar_url?: string;
+  deactivated_at?: string | null;
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type PointsReason = 'event_attendance' | 'mission_approval' | 'redemption' | 'manual_adjustment';
+
+export interface PointsTransaction {
+  id: string;
+  user_id: string;
+  delta: number;
+  reason: PointsReason;
+  reference_id?: string | null;
+  admin_id?: string | null;
+  admin_name?: string | null;
+  note?: string | null;
+  balance_after: number;
+  created_at: string;
+}
+
+export interface PointsAdjustmentOptions {
+  reason?: PointsReason;
+  referenceId?: string;
+  adminId?: string;
+  note?: string;
+}
+
+export interface BulkUserFailure {
+  id: string;
+  error: string;
+}
+
+// Bulk operations apply to every user they can and report the rest instead of failing as a whole
+export interface BulkUserResult {
+  succeeded: string[];
+  failed: BulkUserFailure[];
+}
+
+export type UserSortField = 'name' | 'email' | 'role' | 'points' | 'date';
+
+export type UserAccountStatus = 'active' | 'deactivated';
+
+// Deleted (anonymized) accounts are never listed
+export interface UserQuery {
+  search?: string;
+  role?: string;
+  status?: UserAccountStatus;
+  minPoints?: number;
+  maxPoints?: number;
+  sortField?: UserSortField;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+}
+
+export interface PagedResult<T> {
+  rows: T[];
+  total: number;
+}
+
+export interface UserSummary {
+  total_users: number;
+  admin_users: number;
+  regular_users: number;
+  total_points: number;
+}
+
+export type AdminInviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface AdminInvite {
+  id: string;
+  email: string;
+  role: string;
+  status: AdminInviteStatus;
+  invited_by?: string | null;
+  invited_by_name?: string | null;
+  expires_at: string;
+  accepted_at?: string | null;
+  accepted_user_id?: string | null;
+  revoked_at?: string | null;
+  created_at: string;
+}
+
+// The token is only ever returned here; the database keeps its hash
+export interface CreatedAdminInvite {
+  invite: AdminInvite;
+  token: string;
+}
+
+export interface AdminInviteAcceptance {
+  first_name: string;
+  last_name: string;
+  password: string;
+}
+
 export interface Event {
   id: string;
   title: string;
@@ -29,10 +123,35 @@ export interface Event {
   status?: 'upcoming' | 'ongoing' | 'completed';
   max_participants?: number;
   participant_count?: number;
+  waitlist_count?: number;
   created_at: string;
   updated_at: string;
 }
 
+export type ParticipantStatus = 'registered' | 'waitlisted' | 'attended' | 'no_show' | 'cancelled';
+
+export interface EventParticipant {
+  id: string;
+  event_id: string;
+  user_id: string;
+  status: ParticipantStatus;
+  joined_at: string;
+  points_awarded_at?: string | null;
+  user_name?: string;
+  user_email?: string;
+  user_avatar?: string;
+}
+
+export interface CheckInResult {
+  participant_id: string;
+  user_id: string;
+  points_awarded: number;
+}
+
+export type RewardCategory = 'merchandise' | 'voucher' | 'donation' | 'experience';
+
+export type RewardLimitPeriod = 'month' | 'quarter' | 'year' | 'lifetime';
+
 export interface Reward {
   id: string;
   name: string;
@@ -42,10 +161,31 @@ export interface Reward {
   stock: number;
   image_url?: string;
   is_active?: boolean;
+  category: RewardCategory;
+  // Optional availability window; either end may be open
+  start_date?: string | null;
+  end_date?: string | null;
+  // Redemptions allowed per user in each limit_period; null means unlimited
+  max_per_user?: number | null;
+  limit_period: RewardLimitPeriod;
+  // Stock at or below this counts as low
+  low_stock_threshold: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface RewardRestock {
+  id: string;
+  reward_id: number;
+  quantity: number;
+  reason: string;
+  admin_id?: number | null;
+  admin_name?: string;
+  stock_before: number;
+  stock_after: number;
+  created_at: string;
+}
+
 export interface Feedback {
   id: string;
   user_id: string;
@@ -84,8 +224,29 @@ export interface Mission {
   points: number;
   start_date: string;
   end_date: string;
+  month_year?: string;
+  template_id?: string | null;
   status?: 'active' | 'upcoming' | 'completed';
   submission_count?: number;
+  pending_count?: number;
+  approved_count?: number;
+  rejected_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MissionRecurrence = 'monthly' | 'quarterly';
+
+export interface MissionTemplate {
+  id: string;
+  title: string;
+  description: string;
+  points: number;
+  recurrence: MissionRecurrence;
+  first_month: string;
+  last_month?: string | null;
+  is_active: boolean;
+  mission_count?: number;
   created_at: string;
   updated_at: string;
 }
@@ -102,24 +263,132 @@ export interface MissionSubmission {
   photo_path_1?: string;
   photo_path_2?: string;
   photo_path_3?: string;
+  points_awarded?: number | null;
+  photo_reviews?: PhotoReview[];
+  rejection_reason?: string | null;
   user_name?: string;
   user_email?: string;
   user_avatar?: string;
 }
 
+export interface PhotoReview {
+  slot: 1 | 2 | 3;
+  status: 'accepted' | 'rejected';
+  reason?: string;
+}
+
+export interface SubmissionActionOptions {
+  monthYear?: string;
+  adminId?: string;
+  reason?: string;
+}
+
+export interface SubmissionReviewResult {
+  status: MissionSubmission['status'];
+  points_change: number;
+}
+
+export interface SubmissionStatusChange {
+  id: string;
+  from_status: MissionSubmission['status'] | null;
+  to_status: MissionSubmission['status'];
+  reason?: string | null;
+  source: 'review' | 'resubmission';
+  changed_by?: number | null;
+  changed_by_name?: string;
+  created_at: string;
+}
+
+export interface RejectionReasonTemplate {
+  id: string;
+  title: string;
+  message: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RedemptionStatus = 'pending' | 'approved' | 'ready_for_pickup' | 'fulfilled' | 'cancelled' | 'refunded';
+
 export interface RewardRedemption {
   id: string;
   user_id: number;
   reward_id: number;
   points_deducted: number;
   redeemed_at: string;
-  status: string;
+  status: RedemptionStatus;
   user_name?: string;
   user_email?: string;
   user_avatar?: string;
   reward_name?: string;
 }
 
+export interface RedemptionStatusChange {
+  id: string;
+  redemption_id: string;
+  from_status: RedemptionStatus | null;
+  to_status: RedemptionStatus;
+  note?: string | null;
+  changed_by?: number | null;
+  changed_by_name?: string;
+  created_at: string;
+}
+
+export interface RedemptionStatusOptions {
+  adminId?: string;
+  note?: string;
+}
+
+// `from` and `to` are inclusive ISO timestamps; every word of `userSearch` has to match the user's name or email
+export interface RedemptionQuery {
+  from?: string;
+  to?: string;
+  userSearch?: string;
+  rewardId?: string;
+  status?: RedemptionStatus;
+  page?: number;
+  pageSize?: number;
+}
+
+// Points spent leaves out cancelled and refunded redemptions, their points went back to the user
+export interface RedemptionSummary {
+  total_redemptions: number;
+  total_points: number;
+}
+
+export interface UserEventActivity extends EventParticipant {
+  event_title: string;
+  event_start_date: string;
+  event_points: number;
+}
+
+export interface UserMissionActivity extends MissionSubmission {
+  mission_title: string;
+  mission_points: number;
+}
+
+// Everything shown on a user's profile page, newest first in every list
+export interface UserActivity {
+  events: UserEventActivity[];
+  missions: UserMissionActivity[];
+  redemptions: RewardRedemption[];
+  feedback: Feedback[];
+  points: PointsTransaction[];
+  admin_actions: AdminHistory[];
+}
+
+export type AdminNotificationKind = 'low_stock' | 'out_of_stock';
+
+export interface AdminNotification {
+  id: string;
+  kind: AdminNotificationKind;
+  entity_type: string;
+  entity_id?: number | null;
+  title: string;
+  message: string;
+  read: boolean;
+  created_at: string;
+}
+
 export interface DashboardStats {
   totalUsers: number;
   activeEvents: number;
@@ -127,6 +396,26 @@ export interface DashboardStats {
   engagementRate: number;
 }
 
+export interface EventStatusBreakdown {
+  upcoming: number;
+  ongoing: number;
+  completed: number;
+}
+
+// Percentage change of each metric card against the previous period
+export interface DashboardTrends {
+  totalUsers: number;
+  activeEvents: number;
+  rewardsRedeemed: number;
+  engagementRate: number;
+}
+
+export interface DashboardOverview {
+  eventStatus: EventStatusBreakdown;
+  trends: DashboardTrends;
+  periodDays: number;
+}
+
 export interface MonthlyEngagement {
   month: string;
   year: number;
@@ -150,27 +439,48 @@ export interface ImageUploadResult {
 
 // Abstract Data Service Interface
 export interface IDataService {
-  createMission: any;
-  getMissionSubmissions: any;
-  getMissions: any;
   // Authentication
   signIn(email: string, password: string): Promise<AuthResult>;
-  signUp(email: string, password: string, fullName: string, role?: string): Promise<AuthResult>;
   signOut(): Promise<AuthResult>;
   getCurrentUser(): Promise<User | null>;
   
   // Users
   getUsers(): Promise<User[]>;
+  queryUsers(query: UserQuery): Promise<PagedResult<User>>;
+  getUserSummary(): Promise<UserSummary>;
+  getExistingUserEmails(emails: string[]): Promise<string[]>;
   createUser(userData: Partial<User>): Promise<{ data: User | null; error: string | null }>;
   updateUser(id: string, userData: Partial<User>): Promise<{ data: User | null; error: string | null }>;
   updateUserRole(id: string, role: string): Promise<{ data: User | null; error: string | null }>;
-  addPointsToUser(id: string, points: number): Promise<{ data: User | null; error: string | null }>;
+  addPointsToUser(id: string, points: number, options?: PointsAdjustmentOptions): Promise<{ data: User | null; error: string | null }>;
+  getPointsLedger(userId: string): Promise<PointsTransaction[]>;
+  getUser(id: string): Promise<User | null>;
+  getUserActivity(userId: string): Promise<UserActivity>;
+  bulkAdjustPoints(ids: string[], points: number, options?: PointsAdjustmentOptions): Promise<{ data: BulkUserResult | null; error: string | null }>;
+  bulkUpdateUserRole(ids: string[], role: string): Promise<{ data: BulkUserResult | null; error: string | null }>;
+  bulkDeactivateUsers(ids: string[], adminId?: string): Promise<{ data: BulkUserResult | null; error: string | null }>;
+  deactivateUser(id: string, adminId?: string): Promise<{ data: User | null; error: string | null }>;
+  restoreUser(id: string): Promise<{ data: User | null; error: string | null }>;
+  deleteUser(id: string, adminId?: string): Promise<{ error: string | null }>;
+  
+  // Admin Invites
+  getAdminInvites(): Promise<AdminInvite[]>;
+  createAdminInvite(email: string, role: string, adminId?: string): Promise<{ data: CreatedAdminInvite | null; error: string | null }>;
+  revokeAdminInvite(id: string): Promise<{ data: AdminInvite | null; error: string | null }>;
+  getAdminInviteByToken(token: string): Promise<AdminInvite | null>;
+  acceptAdminInvite(token: string, acceptance: AdminInviteAcceptance): Promise<{ data: User | null; error: string | null }>;
   
   // Events
   getEvents(): Promise<Event[]>;
   createEvent(eventData: Partial<Event>): Promise<{ data: Event | null; error: string | null }>;
   updateEvent(id: string, eventData: Partial<Event>): Promise<{ data: Event | null; error: string | null }>;
   deleteEvent(id: string): Promise<{ error: string | null }>;
+  registerParticipant(eventId: string, userId: string): Promise<{ data: EventParticipant | null; error: string | null }>;
+  cancelRegistration(eventId: string, userId: string): Promise<{ error: string | null }>;
+  getEventParticipants(eventId: string): Promise<EventParticipant[]>;
+  updateParticipantStatus(participantId: string, status: ParticipantStatus): Promise<{ data: EventParticipant | null; error: string | null }>;
+  removeParticipant(participantId: string): Promise<{ error: string | null }>;
+  checkInParticipants(eventId: string, participantIds: string[], adminId?: string): Promise<{ data: CheckInResult[] | null; error: string | null }>;
   
   // Rewards
   getRewards(): Promise<Reward[]>;
@@ -178,6 +488,35 @@ export interface IDataService {
   updateReward(id: string, rewardData: Partial<Reward>): Promise<{ data: Reward | null; error: string | null }>;
   deleteReward(id: string): Promise<{ error: string | null }>;
   getRedemptions(rewardId?: string): Promise<RewardRedemption[]>;
+  queryRedemptions(query: RedemptionQuery): Promise<PagedResult<RewardRedemption>>;
+  getRedemptionSummary(query: RedemptionQuery): Promise<RedemptionSummary>;
+  redeemReward(userId: string, rewardId: string, adminId?: string): Promise<{ data: RewardRedemption | null; error: string | null }>;
+  updateRedemptionStatus(id: string, status: RedemptionStatus, options?: RedemptionStatusOptions): Promise<{ data: RewardRedemption | null; error: string | null }>;
+  getRedemptionHistory(id: string): Promise<RedemptionStatusChange[]>;
+  restockReward(id: string, quantity: number, reason: string, adminId?: string): Promise<{ data: RewardRestock | null; error: string | null }>;
+  getRestocks(rewardId: string): Promise<RewardRestock[]>;
+  
+  // Missions
+  getMissions(): Promise<Mission[]>;
+  createMission(mission: Partial<Mission>): Promise<{ data: Mission | null; error: string | null }>;
+  updateMission(id: string, mission: Partial<Mission>): Promise<{ data: Mission | null; error: string | null }>;
+  deleteMission(id: string): Promise<{ error: string | null }>;
+  getMissionTemplates(): Promise<MissionTemplate[]>;
+  createMissionTemplate(template: Partial<MissionTemplate>): Promise<{ data: MissionTemplate | null; error: string | null }>;
+  updateMissionTemplate(id: string, template: Partial<MissionTemplate>): Promise<{ data: MissionTemplate | null; error: string | null }>;
+  deleteMissionTemplate(id: string): Promise<{ error: string | null }>;
+  spawnRecurringMissions(): Promise<{ data: Mission[]; error: string | null }>;
+  getMissionSubmissions(missionId?: string): Promise<MissionSubmission[]>;
+  approveSubmission(userId: string, missionId: string, options?: SubmissionActionOptions): Promise<{ data: SubmissionReviewResult | null; error: string | null }>;
+  rejectSubmission(userId: string, missionId: string, options?: SubmissionActionOptions): Promise<{ data: SubmissionReviewResult | null; error: string | null }>;
+  revertSubmission(userId: string, missionId: string, options?: SubmissionActionOptions): Promise<{ data: SubmissionReviewResult | null; error: string | null }>;
+  reviewSubmissionPhotos(userId: string, missionId: string, reviews: PhotoReview[], options?: SubmissionActionOptions): Promise<{ data: SubmissionReviewResult | null; error: string | null }>;
+  resubmitSubmission(userId: string, missionId: string, photoPaths: string[], options?: SubmissionActionOptions): Promise<{ data: SubmissionReviewResult | null; error: string | null }>;
+  getSubmissionHistory(userId: string, missionId: string, monthYear: string): Promise<SubmissionStatusChange[]>;
+  getRejectionReasons(): Promise<RejectionReasonTemplate[]>;
+  createRejectionReason(reason: Partial<RejectionReasonTemplate>): Promise<{ data: RejectionReasonTemplate | null; error: string | null }>;
+  updateRejectionReason(id: string, reason: Partial<RejectionReasonTemplate>): Promise<{ data: RejectionReasonTemplate | null; error: string | null }>;
+  deleteRejectionReason(id: string): Promise<{ error: string | null }>;
   
   // Feedback
   getFeedback(): Promise<Feedback[]>;
@@ -188,15 +527,239 @@ export interface IDataService {
   getAdminHistory(): Promise<AdminHistory[]>;
   logAdminAction(action: Partial<AdminHistory>): Promise<void>;
   
+  // Notifications
+  getNotifications(adminId: string): Promise<AdminNotification[]>;
+  markNotificationsRead(ids: string[], adminId: string): Promise<{ error: string | null }>;
+  
   // Dashboard
   getDashboardStats(): Promise<DashboardStats>;
-  getMonthlyEngagement(): Promise<MonthlyEngagement[]>;
+  getMonthlyEngagement(months?: number): Promise<MonthlyEngagement[]>;
+  getDashboardOverview(periodDays?: number): Promise<DashboardOverview>;
   
   // Image Upload
   uploadImage(file: File, folder?: string): Promise<ImageUploadResult>;
   deleteImage(imageId: number): Promise<{ success: boolean; error?: string }>;
+  getSubmissionPhotoUrls(paths: string[]): Promise<Record<string, string>>;
 }
 
+// Event status is derived from the event window, never stored
+export const getEventStatus = (startDate: string, endDate: string, now: Date = new Date()): 'upcoming' | 'ongoing' | 'completed' => {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  
+  if (end < now) return 'completed';
+  if (start <= now && end >= now) return 'ongoing';
+  return 'upcoming';
+};
+
+// Mission status follows the stored start/end window
+export const getMissionStatus = (startDate: string, endDate: string, now: Date = new Date()): 'active' | 'upcoming' | 'completed' => {
+  if (now < new Date(startDate)) return 'upcoming';
+  if (now > new Date(endDate)) return 'completed';
+  return 'active';
+};
+
+export const getRewardAvailability = (
+  reward: { start_date?: string | null; end_date?: string | null },
+  now: Date = new Date()
+): 'upcoming' | 'open' | 'ended' => {
+  if (reward.start_date && new Date(reward.start_date) > now) return 'upcoming';
+  if (reward.end_date && new Date(reward.end_date) <= now) return 'ended';
+  return 'open';
+};
+
+// Start of the calendar period a per-user limit counts in (UTC, like date_trunc);
+// null for lifetime limits
+export const getLimitPeriodStart = (period: RewardLimitPeriod, now: Date = new Date()): Date | null => {
+  switch (period) {
+    case 'month':
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    case 'quarter':
+      return new Date(Date.UTC(now.getUTCFullYear(), Math.floor(now.getUTCMonth() / 3) * 3, 1));
+    case 'year':
+      return new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+    default:
+      return null;
+  }
+};
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+export const isLowStock = (reward: { stock: number; low_stock_threshold?: number }): boolean =>
+  reward.stock <= (reward.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD);
+
+// Only the most recent notifications are shown in the header
+const NOTIFICATION_LIMIT = 50;
+
+const RECURRENCE_MONTHS: Record<MissionRecurrence, number> = {
+  monthly: 1,
+  quarterly: 3
+};
+
+// Periods are keyed like submissions' month_year ('YYYY-MM') and span whole UTC months
+const addMonthsToMonthYear = (monthYear: string, months: number): string => {
+  const [year, month] = monthYear.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1 + months, 1)).toISOString().slice(0, 7);
+};
+
+const getMissionPeriodWindow = (monthYear: string, recurrence: MissionRecurrence) => {
+  const [year, month] = monthYear.split('-').map(Number);
+  return {
+    start_date: new Date(Date.UTC(year, month - 1, 1)).toISOString(),
+    end_date: new Date(Date.UTC(year, month - 1 + RECURRENCE_MONTHS[recurrence], 0, 23, 59, 59)).toISOString()
+  };
+};
+
+// Recurring templates are spawned up to and including next month, so the upcoming period is visible ahead of time
+const getDueMissionPeriods = (template: { recurrence: MissionRecurrence; first_month: string; last_month?: string | null }, now: Date = new Date()): string[] => {
+  const horizon = addMonthsToMonthYear(now.toISOString().slice(0, 7), 1);
+  const periods: string[] = [];
+  for (
+    let period = template.first_month;
+    period <= horizon && (!template.last_month || period <= template.last_month);
+    period = addMonthsToMonthYear(period, RECURRENCE_MONTHS[template.recurrence])
+  ) {
+    periods.push(period);
+  }
+  return periods;
+};
+
+const calculateTrend = (current: number, previous: number): number => {
+  if (!previous) return current > 0 ? 100 : 0;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+};
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_EVENT_CAPACITY = 50;
+
+// Mission photos are uploaded by the mobile app into this storage bucket
+const MISSION_PHOTO_BUCKET = import.meta.env.VITE_MISSION_PHOTO_BUCKET || 'images';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Paths that are already URLs (legacy rows, object URLs) are shown as they are
+const isAbsolutePhotoUrl = (path: string) => /^(https?:|blob:|data:)/.test(path);
+
+const DEFAULT_USER_PAGE_SIZE = 10;
+
+const DEACTIVATED_ACCOUNT_MESSAGE = 'This account has been deactivated. Contact an administrator to restore it.';
+
+const toBulkUserResult = (rows: { user_id: number | string; error: string | null }[]): BulkUserResult => ({
+  succeeded: rows.filter(row => !row.error).map(row => row.user_id.toString()),
+  failed: rows.filter(row => row.error).map(row => ({ id: row.user_id.toString(), error: row.error! }))
+});
+
+// Every search word has to match the name or email, so "jane doe" finds Jane Doe
+const getSearchTerms = (search?: string): string[] =>
+  (search || '').trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+const getPageRange = (page?: number, pageSize?: number) => {
+  const size = Math.max(1, pageSize || DEFAULT_USER_PAGE_SIZE);
+  const from = (Math.max(1, page || 1) - 1) * size;
+  return { from, to: from + size - 1 };
+};
+
+// Invites are single-use and expire after a week
+export const ADMIN_INVITE_TTL_DAYS = 7;
+
+const INVALID_INVITE_MESSAGE = 'This invite link is invalid, has expired or has already been used.';
+
+export const getAdminInviteStatus = (
+  invite: { expires_at: string; accepted_at?: string | null; revoked_at?: string | null },
+  now: Date = new Date()
+): AdminInviteStatus => {
+  if (invite.accepted_at) return 'accepted';
+  if (invite.revoked_at) return 'revoked';
+  return new Date(invite.expires_at) <= now ? 'expired' : 'pending';
+};
+
+// Redemptions move forward to pickup; open ones can be cancelled (restock and refund),
+// fulfilled ones refunded. Mirrors set_redemption_status.
+export const REDEMPTION_STATUS_TRANSITIONS: Record<RedemptionStatus, RedemptionStatus[]> = {
+  pending: ['approved', 'cancelled'],
+  approved: ['ready_for_pickup', 'cancelled'],
+  ready_for_pickup: ['fulfilled', 'cancelled'],
+  fulfilled: ['refunded'],
+  cancelled: [],
+  refunded: []
+};
+
+// Cancelled and refunded redemptions gave their points back
+export const isRedemptionRefunded = (status: RedemptionStatus): boolean =>
+  status === 'cancelled' || status === 'refunded';
+
+// Waitlisted and cancelled participants do not take up a seat
+export const takesEventSeat = (status: string): boolean =>
+  status !== 'waitlisted' && status !== 'cancelled';
+
+// Permissions the signed-in admin needs for each guarded call. Reads shared by
+// several screens stay open; the route guards decide who sees those screens.
+const METHOD_PERMISSIONS: Partial<Record<keyof IDataService, Permission | ((...args: any[]) => Permission[])>> = {
+  getExistingUserEmails: 'users.manage',
+  createUser: (userData: Partial<User>) =>
+    userData.role && userData.role !== MEMBER_ROLE ? ['users.manage', 'users.assign_role'] : ['users.manage'],
+  updateUser: (_id: string, userData: Partial<User>) =>
+    userData.role !== undefined ? ['users.manage', 'users.assign_role'] : ['users.manage'],
+  updateUserRole: 'users.assign_role',
+  bulkUpdateUserRole: 'users.assign_role',
+  addPointsToUser: 'users.points',
+  bulkAdjustPoints: 'users.points',
+  bulkDeactivateUsers: 'users.manage',
+  deactivateUser: 'users.manage',
+  restoreUser: 'users.manage',
+  deleteUser: 'users.delete',
+  getAdminInvites: 'users.assign_role',
+  createAdminInvite: 'users.assign_role',
+  revokeAdminInvite: 'users.assign_role',
+  createEvent: 'events.manage',
+  updateEvent: 'events.manage',
+  deleteEvent: 'events.delete',
+  registerParticipant: 'events.manage',
+  cancelRegistration: 'events.manage',
+  updateParticipantStatus: 'events.manage',
+  removeParticipant: 'events.manage',
+  checkInParticipants: 'events.manage',
+  createReward: 'rewards.manage',
+  updateReward: 'rewards.manage',
+  deleteReward: 'rewards.manage',
+  redeemReward: 'rewards.manage',
+  updateRedemptionStatus: 'rewards.manage',
+  restockReward: 'rewards.manage',
+  createMission: 'missions.manage',
+  updateMission: 'missions.manage',
+  deleteMission: 'missions.manage',
+  createMissionTemplate: 'missions.manage',
+  updateMissionTemplate: 'missions.manage',
+  deleteMissionTemplate: 'missions.manage',
+  spawnRecurringMissions: 'missions.manage',
+  approveSubmission: 'missions.review',
+  rejectSubmission: 'missions.review',
+  revertSubmission: 'missions.review',
+  reviewSubmissionPhotos: 'missions.review',
+  resubmitSubmission: 'missions.review',
+  createRejectionReason: 'missions.review',
+  updateRejectionReason: 'missions.review',
+  deleteRejectionReason: 'missions.review',
+  deleteFeedback: 'feedback.manage',
+  markFeedbackAsRead: 'feedback.manage',
+  getAdminHistory: 'admin_history.view'
+};
+
+const withPermissionChecks = (service: IDataService): IDataService =>
+  new Proxy(service, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      const required = METHOD_PERMISSIONS[property as keyof IDataService];
+      if (typeof value !== 'function' || !required) return value;
+
+      return (...args: any[]) => {
+        const permissions = typeof required === 'function' ? required(...args) : [required];
+        permissions.forEach(permission => accessControl.assert(permission));
+        return value.apply(target, args);
+      };
+    }
+  });
+
 // Data Service Factory
 export class DataServiceFactory {
   private static instance: IDataService;
@@ -210,18 +773,22 @@ export class DataServiceFactory {
         case 'mssql':
           DataServiceFactory.instance = new MSSQLDataService();
           break;
+        case 'memory':
+          DataServiceFactory.instance = new MemoryDataService();
+          break;
         case 'supabase':
         default:
           DataServiceFactory.instance = new SupabaseDataService();
           break;
       }
+      DataServiceFactory.instance = withPermissionChecks(DataServiceFactory.instance);
     }
     
     return DataServiceFactory.instance;
   }
   
   public static setInstance(service: IDataService): void {
-    DataServiceFactory.instance = service;
+    DataServiceFactory.instance = withPermissionChecks(service);
   }
 }
 
@@ -232,36 +799,19 @@ class SupabaseDataService implements IDataService {
       email,
       password,
     });
-    return { data, error };
-  }
-  
-  async signUp(email: string, password: string, fullName: string, role: string = 'admin'): Promise<AuthResult> {
-    const currentUrl = window.location.origin;
-    const { data, error } = await supabase.auth.signUp({
-      email,
-      password,
-      options: {
-        data: {
-          full_name: fullName,
-          role: role
-        },
-        emailRedirectTo: `${currentUrl}/auth/callback`
-      }
-    });
     
-    if (data.user && !error) {
-      const nameParts = fullName.split(' ');
-      await supabase
+    // Deactivation bans the auth account too; this covers sessions started before the ban
+    if (data?.user && !error) {
+      const { data: profile } = await supabase
         .from('users')
-        .insert([{
-          sso_id: data.user.id,
-          email: email,
-          first_name: nameParts[0],
-          last_name: nameParts.slice(1).join(' '),
-          username: email.split('@')[0],
-          role: role,
-          redeemable_points: 0
-        }]);
+        .select('deactivated_at, deleted_at')
+        .eq('sso_id', data.user.id)
+        .maybeSingle();
+      
+      if (profile?.deactivated_at || profile?.deleted_at) {
+        await supabase.auth.signOut({ scope: 'local' });
+        return { data: null, error: { message: DEACTIVATED_ACCOUNT_MESSAGE } };
+      }
     }
     
     return { data, error };
@@ -282,31 +832,13 @@ class SupabaseDataService implements IDataService {
       .eq('sso_id', user.id)
       .single();
     
-    if (!data) return null;
+    if (!data || data.deactivated_at || data.deleted_at) return null;
     
-    return {
-      id: data.user_id.toString(),
-      email: data.email,
-      full_name: `${data.first_name} ${data.last_name}`,
-      first_name: data.first_name,
-      last_name: data.last_name,
-      role: data.role,
-      points: data.redeemable_points || 0,
-      avatar_url: data.profile_picture,
-      created_at: data.created_at,
-      updated_at: data.updated_at
-    };
+    return this.toUser(data);
   }
   
-  async getUsers(): Promise<User[]> {
-    const { data, error } = await supabase
-      .from('users')
-      .select('*')
-      .order('created_at', { ascending: false });
-    
-    if (error) throw new Error(error.message);
-    
-    return data.map((user: any) => ({
+  private toUser(user: any): User {
+    return {
       id: user.user_id.toString(),
       email: user.email,
       full_name: `${user.first_name} ${user.last_name}`,
@@ -315,29 +847,115 @@ class SupabaseDataService implements IDataService {
       role: user.role,
       points: user.redeemable_points || 0,
       avatar_url: user.profile_picture,
+      deactivated_at: user.deactivated_at,
+      deleted_at: user.deleted_at,
       created_at: user.created_at,
       updated_at: user.updated_at
-    }));
+    };
+  }
+  
+  async getUsers(): Promise<User[]> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .order('created_at', { ascending: false });
+    
+    if (error) throw new Error(error.message);
+    
+    return data.map((user: any) => this.toUser(user));
+  }
+  
+  async queryUsers(query: UserQuery): Promise<PagedResult<User>> {
+    const sortColumns: Record<UserSortField, string[]> = {
+      name: ['first_name', 'last_name'],
+      email: ['email'],
+      role: ['role'],
+      points: ['redeemable_points'],
+      date: ['created_at']
+    };
+    const ascending = query.sortOrder === 'asc';
+    const { from, to } = getPageRange(query.page, query.pageSize);
+    
+    let request = supabase
+      .from('users')
+      .select('*', { count: 'exact' })
+      .is('deleted_at', null);
+    
+    // PostgREST filter syntax reserves commas and parentheses
+    getSearchTerms(query.search).forEach(term => {
+      const pattern = `%${term.replace(/[,()]/g, '')}%`;
+      request = request.or(`first_name.ilike.${pattern},last_name.ilike.${pattern},email.ilike.${pattern}`);
+    });
+    if (query.role) request = request.eq('role', query.role);
+    if (query.status === 'active') request = request.is('deactivated_at', null);
+    if (query.status === 'deactivated') request = request.not('deactivated_at', 'is', null);
+    if (query.minPoints !== undefined) request = request.gte('redeemable_points', query.minPoints);
+    if (query.maxPoints !== undefined) request = request.lte('redeemable_points', query.maxPoints);
+    
+    sortColumns[query.sortField || 'date'].forEach(column => {
+      request = request.order(column, { ascending });
+    });
+    
+    // Tie-break on the key so rows never repeat or go missing between pages
+    const { data, error, count } = await request
+      .order('user_id', { ascending })
+      .range(from, to);
+    
+    if (error) throw new Error(error.message);
+    
+    return {
+      rows: (data || []).map((user: any) => this.toUser(user)),
+      total: count || 0
+    };
+  }
+  
+  async getExistingUserEmails(emails: string[]): Promise<string[]> {
+    const existing: string[] = [];
+    const candidates = Array.from(new Set(emails.map(email => email.trim().toLowerCase()).filter(Boolean)));
+    
+    // Case-insensitive match in chunks that keep the request URL short; `_` is a
+    // wildcard in ilike, so only exact matches are kept
+    for (let i = 0; i < candidates.length; i += 100) {
+      const { data, error } = await supabase
+        .from('users')
+        .select('email')
+        .ilikeAnyOf('email', candidates.slice(i, i + 100));
+      
+      if (error) throw new Error(error.message);
+      existing.push(...(data || [])
+        .map((row: any) => row.email.toLowerCase())
+        .filter((email: string) => candidates.includes(email)));
+    }
+    
+    return existing;
+  }
+  
+  async getUserSummary(): Promise<UserSummary> {
+    const { data, error } = await supabase.rpc('get_user_summary');
+    
+    if (error) throw new Error(error.message);
+    
+    const summary = Array.isArray(data) ? data[0] : data;
+    return {
+      total_users: Number(summary?.total_users || 0),
+      admin_users: Number(summary?.admin_users || 0),
+      regular_users: Number(summary?.regular_users || 0),
+      total_points: Number(summary?.total_points || 0)
+    };
   }
   
   async createUser(userData: Partial<User>): Promise<{ data: User | null; error: string | null }> {
     try {
       const nameParts = userData.full_name?.split(' ') || [];
-      const insertData = {
-        email: userData.email,
-        first_name: nameParts[0] || userData.first_name,
-        last_name: nameParts.slice(1).join(' ') || userData.last_name,
-        role: userData.role,
-        username: userData.email?.split('@')[0],
-        redeemable_points: userData.points || 0,
-        sso_id: `manual-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-      };
       
-      const { data, error } = await supabase
-        .from('users')
-        .insert([insertData])
-        .select()
-        .single();
+      // The user and its starting balance in the ledger are created in one transaction
+      const { data, error } = await supabase.rpc('create_user_with_points', {
+        p_email: userData.email,
+        p_first_name: nameParts[0] || userData.first_name,
+        p_last_name: nameParts.slice(1).join(' ') || userData.last_name,
+        p_role: userData.role || null,
+        p_points: userData.points || 0
+      });
       
       if (error) throw error;
       
@@ -366,7 +984,6 @@ class SupabaseDataService implements IDataService {
       
       if (userData.email) updateData.email = userData.email;
       if (userData.role) updateData.role = userData.role;
-      if (userData.points !== undefined) updateData.redeemable_points = userData.points;
       if (userData.avatar_url) updateData.profile_picture = userData.avatar_url;
       if (userData.full_name) {
         const nameParts = userData.full_name.split(' ');
@@ -406,70 +1023,459 @@ class SupabaseDataService implements IDataService {
     return this.updateUser(id, { role });
   }
   
-  async addPointsToUser(id: string, points: number): Promise<{ data: User | null; error: string | null }> {
+  async addPointsToUser(id: string, points: number, options: PointsAdjustmentOptions = {}): Promise<{ data: User | null; error: string | null }> {
     try {
-      const { data: currentUser } = await supabase
+      // Attendance, mission and redemption entries are only written by the operations that
+      // own them; this posts a manual adjustment attributed to the signed-in admin
+      if (options.reason && options.reason !== 'manual_adjustment') {
+        throw new Error('Only manual adjustments can be posted directly');
+      }
+      
+      const { error } = await supabase.rpc('adjust_user_points', {
+        p_user_id: parseInt(id),
+        p_delta: points,
+        p_note: options.note || null
+      });
+      
+      if (error) throw error;
+      
+      const { data, error: userError } = await supabase
         .from('users')
-        .select('redeemable_points')
+        .select('*')
         .eq('user_id', parseInt(id))
         .single();
       
-      const newPoints = (currentUser.redeemable_points || 0) + points;
-      return this.updateUser(id, { points: newPoints });
+      if (userError) throw userError;
+      
+      return {
+        data: {
+          id: data.user_id.toString(),
+          email: data.email,
+          full_name: `${data.first_name} ${data.last_name}`,
+          first_name: data.first_name,
+          last_name: data.last_name,
+          role: data.role,
+          points: data.redeemable_points || 0,
+          avatar_url: data.profile_picture,
+          created_at: data.created_at,
+          updated_at: data.updated_at
+        },
+        error: null
+      };
     } catch (err: any) {
       return { data: null, error: err.message };
     }
   }
   
-  async getEvents(): Promise<Event[]> {
+  async getUser(id: string): Promise<User | null> {
     const { data, error } = await supabase
-      .from('events')
-      .select(`
-        event_id,
-        title,
-        description,
-        start_date,
-        end_date,
-        location,
-        points,
-        thumbnail_image,
-        created_at,
-        updated_at,
-        event_participants(count)
-      `)
-      .order('created_at', { ascending: false });
+      .from('users')
+      .select('*')
+      .eq('user_id', parseInt(id))
+      .maybeSingle();
     
     if (error) throw new Error(error.message);
     
-    return data.map((event: any) => {
-      const now = new Date();
-      const startDate = new Date(event.start_date);
-      const endDate = new Date(event.end_date);
+    return data ? this.toUser(data) : null;
+  }
+  
+  async getUserActivity(userId: string): Promise<UserActivity> {
+    const id = parseInt(userId);
+    const [events, missions, redemptions, feedback, points, adminActions] = await Promise.all([
+      supabase
+        .from('event_participants')
+        .select('*, events:event_id(title, start_date, points)')
+        .eq('user_id', id)
+        .order('joined_at', { ascending: false }),
+      supabase
+        .from('user_monthly_missions')
+        .select('*, monthly_missions:mission_id(title, points)')
+        .eq('user_id', id)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('reward_redemptions')
+        .select('redemption_id, user_id, reward_id, points_deducted, redeemed_at, status, rewards!reward_redemptions_reward_id_fkey(name)')
+        .eq('user_id', id)
+        .order('redeemed_at', { ascending: false }),
+      supabase
+        .from('feedback')
+        .select('feedback_id, user_id, event_id, rating, comment, submitted_at, events!feedback_event_id_fkey(title)')
+        .eq('user_id', id)
+        .order('submitted_at', { ascending: false }),
+      this.getPointsLedger(userId),
+      supabase
+        .from('admin_activity_log')
+        .select('log_id, admin_id, action_type, entity_type, entity_id, details, created_at, users!admin_activity_log_admin_id_fkey(first_name, last_name, email, profile_picture)')
+        .eq('entity_type', 'USER')
+        .eq('entity_id', id)
+        .order('created_at', { ascending: false })
+    ]);
+    
+    const failed = [events, missions, redemptions, feedback, adminActions].find(result => result.error);
+    if (failed?.error) throw new Error(failed.error.message);
+    
+    return {
+      events: (events.data || []).map((p: any) => ({
+        id: p.participant_id.toString(),
+        event_id: p.event_id.toString(),
+        user_id: p.user_id.toString(),
+        status: p.status,
+        joined_at: p.joined_at,
+        points_awarded_at: p.points_awarded_at,
+        event_title: p.events?.title || 'Deleted event',
+        event_start_date: p.events?.start_date || p.joined_at,
+        event_points: p.events?.points || 0
+      })),
+      missions: (missions.data || []).map((s: any) => ({
+        id: `${s.user_id}-${s.mission_id}-${s.month_year}`,
+        user_id: s.user_id.toString(),
+        mission_id: s.mission_id.toString(),
+        photo_upload_count: s.photo_upload_count,
+        status: s.status,
+        created_at: s.created_at,
+        updated_at: s.updated_at,
+        month_year: s.month_year,
+        points_awarded: s.points_awarded,
+        rejection_reason: s.rejection_reason,
+        mission_title: s.monthly_missions?.title || 'Deleted mission',
+        mission_points: s.monthly_missions?.points || 0
+      })),
+      redemptions: (redemptions.data || []).map((item: any) => ({
+        id: item.redemption_id.toString(),
+        user_id: item.user_id,
+        reward_id: item.reward_id,
+        points_deducted: item.points_deducted,
+        redeemed_at: item.redeemed_at,
+        status: item.status,
+        reward_name: item.rewards?.name || 'Unknown Reward'
+      })),
+      feedback: (feedback.data || []).map((item: any) => ({
+        id: item.feedback_id.toString(),
+        user_id: item.user_id.toString(),
+        event_id: item.event_id?.toString(),
+        rating: item.rating,
+        comment: item.comment,
+        message: item.comment || '',
+        subject: item.event_id ? 'Event Feedback' : 'General Feedback',
+        event_title: item.events?.title || null,
+        created_at: item.submitted_at,
+        submitted_at: item.submitted_at
+      })),
+      points,
+      admin_actions: (adminActions.data || []).map((item: any) => ({
+        id: item.log_id.toString(),
+        log_id: item.log_id,
+        admin_id: item.admin_id,
+        action_type: item.action_type,
+        action: item.action_type,
+        entity_type: item.entity_type,
+        entity_id: item.entity_id,
+        details: item.details,
+        admin_name: item.users ? `${item.users.first_name} ${item.users.last_name}`.trim() : 'System Admin',
+        admin_email: item.users?.email || 'system@ecowave.com',
+        admin_avatar: item.users?.profile_picture || null,
+        created_at: item.created_at
+      }))
+    };
+  }
+  
+  async deactivateUser(id: string, adminId?: string): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const { data, error } = await supabase.rpc('deactivate_user', {
+        p_user_id: parseInt(id),
+        p_admin_id: adminId ? parseInt(adminId) : null
+      });
+      
+      if (error) throw error;
+      
+      return { data: this.toUser(data), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async restoreUser(id: string): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const { data, error } = await supabase.rpc('restore_user', {
+        p_user_id: parseInt(id)
+      });
+      
+      if (error) throw error;
+      
+      return { data: this.toUser(data), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async deleteUser(id: string, adminId?: string): Promise<{ error: string | null }> {
+    try {
+      // The row stays for history; anonymize_user strips the personal data and the login
+      const { error } = await supabase.rpc('anonymize_user', {
+        p_user_id: parseInt(id),
+        p_admin_id: adminId ? parseInt(adminId) : null
+      });
+      
+      if (error) throw error;
+      
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  private toAdminInvite(invite: any): AdminInvite {
+    return {
+      id: invite.invite_id.toString(),
+      email: invite.email,
+      role: invite.role,
+      status: getAdminInviteStatus(invite),
+      invited_by: invite.invited_by?.toString() ?? null,
+      invited_by_name: invite.users ? `${invite.users.first_name} ${invite.users.last_name}`.trim() : null,
+      expires_at: invite.expires_at,
+      accepted_at: invite.accepted_at,
+      accepted_user_id: invite.accepted_user_id?.toString() ?? null,
+      revoked_at: invite.revoked_at,
+      created_at: invite.created_at
+    };
+  }
+  
+  async getAdminInvites(): Promise<AdminInvite[]> {
+    const { data, error } = await supabase
+      .from('admin_invites')
+      .select('invite_id, email, role, invited_by, expires_at, accepted_at, accepted_user_id, revoked_at, created_at, users!admin_invites_invited_by_fkey(first_name, last_name)')
+      .order('created_at', { ascending: false });
+    
+    if (error) throw new Error(error.message);
+    
+    return (data || []).map((invite: any) => this.toAdminInvite(invite));
+  }
+  
+  async createAdminInvite(email: string, role: string, adminId?: string): Promise<{ data: CreatedAdminInvite | null; error: string | null }> {
+    try {
+      // The token is generated and hashed in the database; this is the only time it is returned
+      const { data, error } = await supabase.rpc('create_admin_invite', {
+        p_email: email.trim(),
+        p_role: role,
+        p_admin_id: adminId ? parseInt(adminId) : null,
+        p_ttl_days: ADMIN_INVITE_TTL_DAYS
+      });
+      
+      if (error) throw error;
+      
+      const row = Array.isArray(data) ? data[0] : data;
+      return { data: { invite: this.toAdminInvite(row), token: row.token }, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async revokeAdminInvite(id: string): Promise<{ data: AdminInvite | null; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('admin_invites')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('invite_id', parseInt(id))
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      if (!data) throw new Error('Invite not found or no longer pending');
+      
+      return { data: this.toAdminInvite(data), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getAdminInviteByToken(token: string): Promise<AdminInvite | null> {
+    // Runs before the invitee has an account, so the lookup goes through a function instead of the table
+    const { data, error } = await supabase.rpc('get_admin_invite', { p_token: token });
+    
+    if (error) throw new Error(error.message);
+    
+    const row = Array.isArray(data) ? data[0] : data;
+    return row ? this.toAdminInvite(row) : null;
+  }
+  
+  async acceptAdminInvite(token: string, acceptance: AdminInviteAcceptance): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const invite = await this.getAdminInviteByToken(token);
+      if (!invite || invite.status !== 'pending') throw new Error(INVALID_INVITE_MESSAGE);
       
-      let status: 'upcoming' | 'ongoing' | 'completed' = 'upcoming';
-      if (endDate < now) {
-        status = 'completed';
-      } else if (startDate <= now && endDate >= now) {
-        status = 'ongoing';
+      const { data: signUpData, error: signUpError } = await supabase.auth.signUp({
+        email: invite.email,
+        password: acceptance.password,
+        options: {
+          data: { full_name: `${acceptance.first_name} ${acceptance.last_name}`.trim() }
+        }
+      });
+      
+      // An earlier attempt may have created the login and then failed to accept the invite.
+      // Signing in with the same password picks that login up instead of leaving it orphaned
+      // and the invite unusable; an existing address comes back without identities when
+      // email confirmation is on
+      let authUserId = signUpData.user?.id;
+      const loginExists = signUpError?.code === 'user_already_exists'
+        || (!signUpError && signUpData.user?.identities?.length === 0);
+      
+      if (loginExists) {
+        const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
+          email: invite.email,
+          password: acceptance.password
+        });
+        
+        if (signInError?.code === 'email_not_confirmed') {
+          throw new Error(`Confirm ${invite.email} from the email we sent, then open the invite link again.`);
+        }
+        if (signInError) {
+          throw new Error(`${invite.email} already has a login. Enter its password to accept the invite.`);
+        }
+        authUserId = signInData.user.id;
+      } else if (signUpError) {
+        throw signUpError;
       }
       
-      return {
-        id: event.event_id.toString(),
-        title: event.title,
-        description: event.description || '',
-        start_date: event.start_date,
-        end_date: event.end_date,
-        date: event.start_date.split('T')[0],
-        location: event.location,
-        points: event.points,
-        image_url: event.thumbnail_image || 'https://images.pexels.com/photos/3952241/pexels-photo-3952241.jpeg',
-        status,
-        max_participants: 50,
-        participant_count: event.event_participants?.[0]?.count || 0,
-        created_at: event.created_at,
-        updated_at: event.updated_at
-      };
-    });
+      if (!authUserId) throw new Error('Could not create the login for this invite');
+      
+      // Marks the invite used and creates the admin row in one transaction
+      const { data, error } = await supabase.rpc('accept_admin_invite', {
+        p_token: token,
+        p_auth_id: authUserId,
+        p_first_name: acceptance.first_name.trim(),
+        p_last_name: acceptance.last_name.trim()
+      });
+      
+      if (error) throw error;
+      
+      return { data: this.toUser(data), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async bulkAdjustPoints(ids: string[], points: number, options: PointsAdjustmentOptions = {}): Promise<{ data: BulkUserResult | null; error: string | null }> {
+    try {
+      const { data, error } = await supabase.rpc('bulk_adjust_points', {
+        p_user_ids: ids.map(id => parseInt(id)),
+        p_delta: points,
+        p_admin_id: options.adminId ? parseInt(options.adminId) : null,
+        p_note: options.note || null
+      });
+      
+      if (error) throw error;
+      
+      return { data: toBulkUserResult(data || []), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async bulkUpdateUserRole(ids: string[], role: string): Promise<{ data: BulkUserResult | null; error: string | null }> {
+    try {
+      const { data, error } = await supabase.rpc('bulk_set_user_role', {
+        p_user_ids: ids.map(id => parseInt(id)),
+        p_role: role
+      });
+      
+      if (error) throw error;
+      
+      return { data: toBulkUserResult(data || []), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async bulkDeactivateUsers(ids: string[], adminId?: string): Promise<{ data: BulkUserResult | null; error: string | null }> {
+    try {
+      const { data, error } = await supabase.rpc('bulk_deactivate_users', {
+        p_user_ids: ids.map(id => parseInt(id)),
+        p_admin_id: adminId ? parseInt(adminId) : null
+      });
+      
+      if (error) throw error;
+      
+      return { data: toBulkUserResult(data || []), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getPointsLedger(userId: string): Promise<PointsTransaction[]> {
+    const { data, error } = await supabase
+      .from('points_transactions')
+      .select(`
+        transaction_id,
+        user_id,
+        delta,
+        reason,
+        reference_id,
+        admin_id,
+        note,
+        balance_after,
+        created_at,
+        admin:admin_id(first_name, last_name)
+      `)
+      .eq('user_id', parseInt(userId))
+      .order('created_at', { ascending: false })
+      .order('transaction_id', { ascending: false });
+    
+    if (error) throw new Error(error.message);
+    
+    return data.map((item: any) => ({
+      id: item.transaction_id.toString(),
+      user_id: item.user_id.toString(),
+      delta: item.delta,
+      reason: item.reason,
+      reference_id: item.reference_id?.toString() || null,
+      admin_id: item.admin_id?.toString() || null,
+      admin_name: item.admin ? `${item.admin.first_name} ${item.admin.last_name}`.trim() : null,
+      note: item.note,
+      balance_after: item.balance_after,
+      created_at: item.created_at
+    }));
+  }
+  
+  async getEvents(): Promise<Event[]> {
+    const { data, error } = await supabase
+      .from('events')
+      .select(`
+        event_id,
+        title,
+        description,
+        start_date,
+        end_date,
+        location,
+        points,
+        thumbnail_image,
+        max_participants,
+        created_at,
+        updated_at,
+        event_participants(status)
+      `)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw new Error(error.message);
+    
+    return data.map((event: any) => ({
+      id: event.event_id.toString(),
+      title: event.title,
+      description: event.description || '',
+      start_date: event.start_date,
+      end_date: event.end_date,
+      date: event.start_date.split('T')[0],
+      location: event.location,
+      points: event.points,
+      image_url: event.thumbnail_image || 'https://images.pexels.com/photos/3952241/pexels-photo-3952241.jpeg',
+      status: getEventStatus(event.start_date, event.end_date),
+      max_participants: event.max_participants || DEFAULT_EVENT_CAPACITY,
+      participant_count: (event.event_participants || []).filter((p: any) => takesEventSeat(p.status)).length,
+      waitlist_count: (event.event_participants || []).filter((p: any) => p.status === 'waitlisted').length,
+      created_at: event.created_at,
+      updated_at: event.updated_at
+    }));
   }
   
   async createEvent(eventData: Partial<Event>): Promise<{ data: Event | null; error: string | null }> {
@@ -499,6 +1505,7 @@ class SupabaseDataService implements IDataService {
         end_date: endDate,
         location: eventData.location?.trim(),
         points: eventData.points || 100,
+        max_participants: eventData.max_participants || DEFAULT_EVENT_CAPACITY,
         thumbnail_image: eventData.image_url || 'https://images.pexels.com/photos/3952241/pexels-photo-3952241.jpeg'
       };
       
@@ -520,9 +1527,10 @@ class SupabaseDataService implements IDataService {
         location: data.location,
         points: data.points,
         image_url: data.thumbnail_image,
-        status: 'upcoming',
-        max_participants: 50,
+        status: getEventStatus(data.start_date, data.end_date),
+        max_participants: data.max_participants,
         participant_count: 0,
+        waitlist_count: 0,
         created_at: data.created_at,
         updated_at: data.updated_at
       };
@@ -543,6 +1551,7 @@ class SupabaseDataService implements IDataService {
       if (eventData.image_url) updateData.thumbnail_image = eventData.image_url;
       if (eventData.start_date) updateData.start_date = new Date(eventData.start_date).toISOString();
       if (eventData.end_date) updateData.end_date = new Date(eventData.end_date).toISOString();
+      if (eventData.max_participants) updateData.max_participants = eventData.max_participants;
       
       const { data, error } = await supabase
         .from('events')
@@ -563,9 +1572,8 @@ class SupabaseDataService implements IDataService {
         location: data.location,
         points: data.points,
         image_url: data.thumbnail_image,
-        status: 'upcoming',
-        max_participants: 50,
-        participant_count: 0,
+        status: getEventStatus(data.start_date, data.end_date),
+        max_participants: data.max_participants,
         created_at: data.created_at,
         updated_at: data.updated_at
       };
@@ -589,91 +1597,261 @@ class SupabaseDataService implements IDataService {
       return { error: err.message };
     }
   }
-
-  async getMissions(): Promise<Mission[]> {
-  const { data, error } = await supabase
-    .from('monthly_missions')
-    .select('*')
-    .order('created_at', { ascending: false });
-
-  if (error) throw new Error(error.message);
-
-  // For each mission, fetch submission count separately
-  const missionsWithCounts = await Promise.all(
-    data.map(async (m: any) => {
-      const { count } = await supabase
-        .from('user_monthly_missions')
-        .select('*', { count: 'exact', head: true })
-        .eq('mission_id', m.mission_id);
-
-      let status: 'active' | 'upcoming' | 'completed' = 'active';
-      const now = new Date();
-      const start = new Date(m.start_date);
-      const end = new Date(m.end_date);
-      if (now < start) status = 'upcoming';
-      else if (now > end) status = 'completed';
-
+  
+  async registerParticipant(eventId: string, userId: string): Promise<{ data: EventParticipant | null; error: string | null }> {
+    try {
+      const { data: existing } = await supabase
+        .from('event_participants')
+        .select('participant_id')
+        .eq('event_id', parseInt(eventId))
+        .eq('user_id', parseInt(userId))
+        .neq('status', 'cancelled')
+        .maybeSingle();
+      
+      if (existing) throw new Error('User is already registered for this event');
+      
+      // The capacity trigger moves the row to the waitlist when the event is full
+      const { data, error } = await supabase
+        .from('event_participants')
+        .insert([{
+          event_id: parseInt(eventId),
+          user_id: parseInt(userId),
+          status: 'registered',
+          joined_at: new Date().toISOString()
+        }])
+        .select()
+        .single();
+      
+      // A concurrent sign-up for the same user passes the check above but not the
+      // unique index on active registrations
+      if (error?.code === '23505') throw new Error('User is already registered for this event');
+      if (error) throw error;
+      
       return {
-        id: m.mission_id.toString(),
-        title: m.title,
-        description: m.description,
-        points: m.points,
-        start_date: m.start_date,
-        end_date: m.end_date,
-        status,
-        submission_count: count || 0,
-        created_at: m.created_at,
-        updated_at: m.updated_at
+        data: {
+          id: data.participant_id.toString(),
+          event_id: data.event_id.toString(),
+          user_id: data.user_id.toString(),
+          status: data.status,
+          joined_at: data.joined_at
+        },
+        error: null
       };
-    })
-  );
-
-  return missionsWithCounts;
-}
-
-async createMission(mission: Partial<Mission>): Promise<{ data: Mission | null; error: string | null }> {
-  try {
-    // Format timestamp as 'YYYY-MM-DD HH:mm:ss.SSS+00'
-    const now = new Date();
-    const pad = (n: number, z = 2) => ('00' + n).slice(-z);
-    const formattedCreatedAt =
-      now.getUTCFullYear() + '-' +
-      pad(now.getUTCMonth() + 1) + '-' +
-      pad(now.getUTCDate()) + ' ' +
-      pad(now.getUTCHours()) + ':' +
-      pad(now.getUTCMinutes()) + ':' +
-      pad(now.getUTCSeconds()) + '.' +
-      (now.getUTCMilliseconds() + '00').slice(0, 3) + '+00';
-    const insertData = {
-      title: mission.title || '',
-      description: mission.description || '',
-      points: mission.points ?? 0,
-      created_at: formattedCreatedAt,
-      // No start_date/end_date
-    };
-    const { data, error } = await supabase
-      .from('monthly_missions')
-      .insert([insertData])
-      .select()
-      .single();
-    if (error) throw error;
-    // Patch: Provide a dummy end_date for Mission type compatibility (remove if not needed elsewhere)
-    return { data: { ...insertData, id: data.mission_id, created_at: data.created_at, updated_at: data.updated_at, end_date: data.end_date || data.created_at, start_date: data.created_at }, error: null };
-  } catch (err: any) {
-    return { data: null, error: err.message };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
   }
-}
-
-async updateMission(id: string, mission: Partial<Mission>): Promise<{ data: Mission | null; error: string | null }> {
-  try {
-    const updateData = {
-      ...mission,
-      title: mission.title || '',
-      description: mission.description || '',
-      points: mission.points ?? 0,
-      updated_at: new Date().toISOString(),
-      // No start_date, use created_at for compatibility
-    };
+  
+  async cancelRegistration(eventId: string, userId: string): Promise<{ error: string | null }> {
+    try {
+      // Freed seats are handed to the waitlist by the database trigger
+      const { error } = await supabase
+        .from('event_participants')
+        .update({ status: 'cancelled' })
+        .eq('event_id', parseInt(eventId))
+        .eq('user_id', parseInt(userId))
+        .neq('status', 'cancelled');
+      
+      if (error) throw error;
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async getEventParticipants(eventId: string): Promise<EventParticipant[]> {
+    const { data, error } = await supabase
+      .from('event_participants')
+      .select(`
+        participant_id,
+        user_id,
+        event_id,
+        joined_at,
+        status,
+        points_awarded_at,
+        users:user_id(first_name, last_name, email, profile_picture)
+      `)
+      .eq('event_id', parseInt(eventId))
+      .order('joined_at', { ascending: true });
+    
+    if (error) throw new Error(error.message);
+    
+    return data.map((item: any) => ({
+      id: item.participant_id.toString(),
+      event_id: item.event_id.toString(),
+      user_id: item.user_id.toString(),
+      status: item.status,
+      joined_at: item.joined_at,
+      points_awarded_at: item.points_awarded_at,
+      user_name: item.users ? `${item.users.first_name} ${item.users.last_name}`.trim() : 'Unknown User',
+      user_email: item.users?.email || '',
+      user_avatar: item.users?.profile_picture || null
+    }));
+  }
+  
+  async updateParticipantStatus(participantId: string, status: ParticipantStatus): Promise<{ data: EventParticipant | null; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('event_participants')
+        .update({ status })
+        .eq('participant_id', parseInt(participantId))
+        .select()
+        .single();
+      
+      if (error) throw error;
+      
+      return {
+        data: {
+          id: data.participant_id.toString(),
+          event_id: data.event_id.toString(),
+          user_id: data.user_id.toString(),
+          status: data.status,
+          joined_at: data.joined_at
+        },
+        error: null
+      };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async removeParticipant(participantId: string): Promise<{ error: string | null }> {
+    try {
+      const { error } = await supabase
+        .from('event_participants')
+        .delete()
+        .eq('participant_id', parseInt(participantId));
+      
+      if (error) throw error;
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async checkInParticipants(eventId: string, participantIds: string[], adminId?: string): Promise<{ data: CheckInResult[] | null; error: string | null }> {
+    try {
+      // Marking attendance and crediting points happen in one transaction; rows that
+      // were already credited come back with points_awarded = 0
+      const { data, error } = await supabase.rpc('check_in_event_participants', {
+        p_event_id: parseInt(eventId),
+        p_participant_ids: participantIds.map(id => parseInt(id)),
+        p_admin_id: adminId ? parseInt(adminId) : null
+      });
+      
+      if (error) throw error;
+      
+      return {
+        data: (data || []).map((row: any) => ({
+          participant_id: row.participant_id.toString(),
+          user_id: row.user_id.toString(),
+          points_awarded: row.points_awarded
+        })),
+        error: null
+      };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+
+  async getMissions(): Promise<Mission[]> {
+  // Submission counts are aggregated by the mission_overview view in the same query
+  const { data, error } = await supabase
+    .from('mission_overview')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  return data.map((m: any) => ({
+    id: m.mission_id.toString(),
+    title: m.title,
+    description: m.description,
+    points: m.points,
+    start_date: m.start_date,
+    end_date: m.end_date,
+    month_year: m.month_year,
+    template_id: m.template_id?.toString() ?? null,
+    status: getMissionStatus(m.start_date, m.end_date),
+    submission_count: m.submission_count || 0,
+    pending_count: m.pending_count || 0,
+    approved_count: m.approved_count || 0,
+    rejected_count: m.rejected_count || 0,
+    created_at: m.created_at,
+    updated_at: m.updated_at
+  }));
+}
+
+async createMission(mission: Partial<Mission>): Promise<{ data: Mission | null; error: string | null }> {
+  try {
+    // Format timestamp as 'YYYY-MM-DD HH:mm:ss.SSS+00'
+    const now = new Date();
+    const pad = (n: number, z = 2) => ('00' + n).slice(-z);
+    const formattedCreatedAt =
+      now.getUTCFullYear() + '-' +
+      pad(now.getUTCMonth() + 1) + '-' +
+      pad(now.getUTCDate()) + ' ' +
+      pad(now.getUTCHours()) + ':' +
+      pad(now.getUTCMinutes()) + ':' +
+      pad(now.getUTCSeconds()) + '.' +
+      (now.getUTCMilliseconds() + '00').slice(0, 3) + '+00';
+    if (!mission.start_date || !mission.end_date) throw new Error('Mission start and end dates are required');
+    if (new Date(mission.end_date) < new Date(mission.start_date)) throw new Error('Mission end date must be after the start date');
+
+    const insertData = {
+      title: mission.title || '',
+      description: mission.description || '',
+      points: mission.points ?? 0,
+      start_date: mission.start_date,
+      end_date: mission.end_date,
+      month_year: new Date(mission.start_date).toISOString().slice(0, 7),
+      created_at: formattedCreatedAt,
+    };
+    const { data, error } = await supabase
+      .from('monthly_missions')
+      .insert([insertData])
+      .select()
+      .single();
+    if (error) throw error;
+    return {
+      data: {
+        id: data.mission_id.toString(),
+        title: data.title,
+        description: data.description,
+        points: data.points,
+        start_date: data.start_date,
+        end_date: data.end_date,
+        month_year: data.month_year,
+        template_id: null,
+        status: getMissionStatus(data.start_date, data.end_date),
+        submission_count: 0,
+        created_at: data.created_at,
+        updated_at: data.updated_at
+      },
+      error: null
+    };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+}
+
+async updateMission(id: string, mission: Partial<Mission>): Promise<{ data: Mission | null; error: string | null }> {
+  try {
+    if (mission.start_date && mission.end_date && new Date(mission.end_date) < new Date(mission.start_date)) {
+      throw new Error('Mission end date must be after the start date');
+    }
+
+    const updateData = {
+      ...(mission.title !== undefined && { title: mission.title }),
+      ...(mission.description !== undefined && { description: mission.description }),
+      ...(mission.points !== undefined && { points: mission.points }),
+      ...(mission.start_date && {
+        start_date: mission.start_date,
+        month_year: new Date(mission.start_date).toISOString().slice(0, 7)
+      }),
+      ...(mission.end_date && { end_date: mission.end_date }),
+      updated_at: new Date().toISOString()
+    };
     const { data, error } = await supabase
       .from('monthly_missions')
       .update(updateData)
@@ -681,12 +1859,29 @@ async updateMission(id: string, mission: Partial<Mission>): Promise<{ data: Miss
       .select()
       .single();
     if (error) throw error;
-    return { data: { ...updateData, id: data.mission_id, created_at: data.created_at, updated_at: data.updated_at, end_date: data.end_date || data.created_at, start_date: data.created_at }, error: null };
+    return {
+      data: {
+        id: data.mission_id.toString(),
+        title: data.title,
+        description: data.description,
+        points: data.points,
+        start_date: data.start_date,
+        end_date: data.end_date,
+        month_year: data.month_year,
+        template_id: data.template_id?.toString() ?? null,
+        status: getMissionStatus(data.start_date, data.end_date),
+        created_at: data.created_at,
+        updated_at: data.updated_at
+      },
+      error: null
+    };
   } catch (err: any) {
     return { data: null, error: err.message };
   }
 }
 
+// A mission spawned from a template is recorded in its skipped_months by a trigger,
+// so spawn_recurring_missions does not create it again
 async deleteMission(id: string): Promise<{ error: string | null }> {
   try {
     const { error } = await supabase
@@ -700,20 +1895,139 @@ async deleteMission(id: string): Promise<{ error: string | null }> {
   }
 }
 
-async getMissionSubmissions(missionId: string): Promise<MissionSubmission[]> {
+private mapMissionTemplate(t: any): MissionTemplate {
+  return {
+    id: t.template_id.toString(),
+    title: t.title,
+    description: t.description,
+    points: t.points,
+    recurrence: t.recurrence,
+    first_month: t.first_month,
+    last_month: t.last_month,
+    is_active: t.is_active,
+    mission_count: t.monthly_missions?.[0]?.count ?? 0,
+    created_at: t.created_at,
+    updated_at: t.updated_at
+  };
+}
+
+async getMissionTemplates(): Promise<MissionTemplate[]> {
   const { data, error } = await supabase
+    .from('mission_templates')
+    .select('*, monthly_missions(count)')
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  return data.map((t: any) => this.mapMissionTemplate(t));
+}
+
+async createMissionTemplate(template: Partial<MissionTemplate>): Promise<{ data: MissionTemplate | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('mission_templates')
+      .insert([{
+        title: template.title || '',
+        description: template.description || '',
+        points: template.points ?? 0,
+        recurrence: template.recurrence || 'monthly',
+        first_month: template.first_month,
+        last_month: template.last_month || null,
+        is_active: template.is_active ?? true
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: this.mapMissionTemplate(data), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+}
+
+async updateMissionTemplate(id: string, template: Partial<MissionTemplate>): Promise<{ data: MissionTemplate | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('mission_templates')
+      .update({
+        ...(template.title !== undefined && { title: template.title }),
+        ...(template.description !== undefined && { description: template.description }),
+        ...(template.points !== undefined && { points: template.points }),
+        ...(template.recurrence !== undefined && { recurrence: template.recurrence }),
+        ...(template.first_month !== undefined && { first_month: template.first_month }),
+        ...(template.last_month !== undefined && { last_month: template.last_month || null }),
+        ...(template.is_active !== undefined && { is_active: template.is_active }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('template_id', parseInt(id))
+      .select('*, monthly_missions(count)')
+      .single();
+
+    if (error) throw error;
+    return { data: this.mapMissionTemplate(data), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+}
+
+async deleteMissionTemplate(id: string): Promise<{ error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from('mission_templates')
+      .delete()
+      .eq('template_id', parseInt(id));
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err: any) {
+    return { error: err.message };
+  }
+}
+
+async spawnRecurringMissions(): Promise<{ data: Mission[]; error: string | null }> {
+  try {
+    const { data, error } = await supabase.rpc('spawn_recurring_missions');
+    if (error) throw error;
+
+    return {
+      data: (data || []).map((m: any) => ({
+        id: m.mission_id.toString(),
+        title: m.title,
+        description: m.description,
+        points: m.points,
+        start_date: m.start_date,
+        end_date: m.end_date,
+        month_year: m.month_year,
+        template_id: m.template_id?.toString() ?? null,
+        status: getMissionStatus(m.start_date, m.end_date),
+        submission_count: 0,
+        created_at: m.created_at,
+        updated_at: m.updated_at
+      })),
+      error: null
+    };
+  } catch (err: any) {
+    return { data: [], error: err.message };
+  }
+}
+
+async getMissionSubmissions(missionId?: string): Promise<MissionSubmission[]> {
+  let query = supabase
     .from('user_monthly_missions')
     .select(`
       *,
       users:user_id(first_name, last_name, email, profile_picture)
     `)
-    .eq('mission_id', parseInt(missionId))
     .order('created_at', { ascending: false });
 
+  if (missionId) query = query.eq('mission_id', parseInt(missionId));
+
+  const { data, error } = await query;
+
   if (error) throw new Error(error.message);
 
   return data.map((s: any) => ({
-    id: s.user_id.toString(),
+    id: `${s.user_id}-${s.mission_id}-${s.month_year}`,
     user_id: s.user_id.toString(),
     mission_id: s.mission_id.toString(),
     photo_upload_count: s.photo_upload_count,
@@ -724,64 +2038,256 @@ async getMissionSubmissions(missionId: string): Promise<MissionSubmission[]> {
     photo_path_1: s.photo_path_1,
     photo_path_2: s.photo_path_2,
     photo_path_3: s.photo_path_3,
+    points_awarded: s.points_awarded,
+    photo_reviews: s.photo_reviews || [],
+    rejection_reason: s.rejection_reason,
     user_name: s.users ? `${s.users.first_name} ${s.users.last_name}` : '',
     user_email: s.users?.email || '',
     user_avatar: s.users?.profile_picture || ''
   }));
 }
 
-async approveSubmission(userId: string, missionId: string): Promise<{ error: string | null }> {
+// Status changes run in the database so the points credit or reversal commits with them
+private async setSubmissionStatus(
+  userId: string,
+  missionId: string,
+  status: MissionSubmission['status'],
+  options: SubmissionActionOptions = {}
+): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
   try {
-    const { error } = await supabase
-      .from('user_monthly_missions')
-      .update({ status: 'approved', updated_at: new Date().toISOString() })
-      .eq('user_id', parseInt(userId))
-      .eq('mission_id', parseInt(missionId));
+    const { data, error } = await supabase.rpc('set_mission_submission_status', {
+      p_user_id: parseInt(userId),
+      p_mission_id: parseInt(missionId),
+      p_status: status,
+      p_month_year: options.monthYear || null,
+      p_admin_id: options.adminId ? parseInt(options.adminId) : null,
+      p_reason: options.reason || null
+    });
     if (error) throw error;
-    // Optionally, add points to user here
-    return { error: null };
+    return { data: { status, points_change: data || 0 }, error: null };
   } catch (err: any) {
-    return { error: err.message };
+    return { data: null, error: err.message };
   }
 }
 
-async rejectSubmission(userId: string, missionId: string): Promise<{ error: string | null }> {
+async approveSubmission(userId: string, missionId: string, options: SubmissionActionOptions = {}): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+  return this.setSubmissionStatus(userId, missionId, 'approved', options);
+}
+
+async rejectSubmission(userId: string, missionId: string, options: SubmissionActionOptions = {}): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+  return this.setSubmissionStatus(userId, missionId, 'rejected', options);
+}
+
+async revertSubmission(userId: string, missionId: string, options: SubmissionActionOptions = {}): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+  return this.setSubmissionStatus(userId, missionId, 'pending', options);
+}
+
+async reviewSubmissionPhotos(
+  userId: string,
+  missionId: string,
+  reviews: PhotoReview[],
+  options: SubmissionActionOptions = {}
+): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
   try {
-    const { error } = await supabase
+    const { data, error } = await supabase.rpc('review_mission_submission_photos', {
+      p_user_id: parseInt(userId),
+      p_mission_id: parseInt(missionId),
+      p_reviews: reviews,
+      p_month_year: options.monthYear || null,
+      p_admin_id: options.adminId ? parseInt(options.adminId) : null
+    });
+    if (error) throw error;
+    return {
+      data: {
+        status: reviews.some(r => r.status === 'accepted') ? 'approved' : 'rejected',
+        points_change: data || 0
+      },
+      error: null
+    };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+}
+
+// The reopen_resubmitted_mission trigger moves a rejected submission back to pending
+async resubmitSubmission(
+  userId: string,
+  missionId: string,
+  photoPaths: string[],
+  options: SubmissionActionOptions = {}
+): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+  try {
+    if (photoPaths.length === 0 || photoPaths.length > 3) throw new Error('Upload between one and three photos');
+
+    let query = supabase
       .from('user_monthly_missions')
-      .update({ status: 'rejected', updated_at: new Date().toISOString() })
+      .update({
+        photo_path_1: photoPaths[0],
+        photo_path_2: photoPaths[1] || null,
+        photo_path_3: photoPaths[2] || null,
+        photo_upload_count: photoPaths.length,
+        updated_at: new Date().toISOString()
+      })
       .eq('user_id', parseInt(userId))
-      .eq('mission_id', parseInt(missionId));
+      .eq('mission_id', parseInt(missionId))
+      .neq('status', 'approved');
+
+    if (options.monthYear) query = query.eq('month_year', options.monthYear);
+
+    const { data, error } = await query.select('status');
     if (error) throw error;
-    return { error: null };
+    if (!data || data.length === 0) throw new Error('No open submission to re-upload');
+    return { data: { status: data[0].status, points_change: 0 }, error: null };
   } catch (err: any) {
-    return { error: err.message };
+    return { data: null, error: err.message };
   }
 }
-  
-  
-  async getRewards(): Promise<Reward[]> {
+
+async getSubmissionHistory(userId: string, missionId: string, monthYear: string): Promise<SubmissionStatusChange[]> {
+  const { data, error } = await supabase
+    .from('mission_submission_status_history')
+    .select(`
+      *,
+      admin:changed_by(first_name, last_name)
+    `)
+    .eq('user_id', parseInt(userId))
+    .eq('mission_id', parseInt(missionId))
+    .eq('month_year', monthYear)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  return data.map((h: any) => ({
+    id: h.history_id.toString(),
+    from_status: h.from_status,
+    to_status: h.to_status,
+    reason: h.reason,
+    source: h.source,
+    changed_by: h.changed_by,
+    changed_by_name: h.admin ? `${h.admin.first_name} ${h.admin.last_name}` : undefined,
+    created_at: h.created_at
+  }));
+}
+
+async getRejectionReasons(): Promise<RejectionReasonTemplate[]> {
+  const { data, error } = await supabase
+    .from('mission_rejection_reasons')
+    .select('*')
+    .order('title', { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  return data.map((r: any) => ({
+    id: r.reason_id.toString(),
+    title: r.title,
+    message: r.message,
+    created_at: r.created_at,
+    updated_at: r.updated_at
+  }));
+}
+
+async createRejectionReason(reasonData: Partial<RejectionReasonTemplate>): Promise<{ data: RejectionReasonTemplate | null; error: string | null }> {
+  try {
     const { data, error } = await supabase
-      .from('rewards')
-      .select('*')
-      .order('created_at', { ascending: false });
-    
-    if (error) throw new Error(error.message);
-    
-    return data.map((reward: any) => ({
-      id: reward.reward_id.toString(),
-      name: reward.name,
-      title: reward.name,
-      description: reward.description,
-      points_required: reward.points_required,
-      stock: reward.stock,
-      image_url: reward.image_url,
-      is_active: reward.stock > 0,
-      created_at: reward.created_at,
-      updated_at: reward.updated_at
-    }));
-  }
-  
+      .from('mission_rejection_reasons')
+      .insert([{ title: reasonData.title, message: reasonData.message }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return {
+      data: {
+        id: data.reason_id.toString(),
+        title: data.title,
+        message: data.message,
+        created_at: data.created_at,
+        updated_at: data.updated_at
+      },
+      error: null
+    };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+}
+
+async updateRejectionReason(id: string, reasonData: Partial<RejectionReasonTemplate>): Promise<{ data: RejectionReasonTemplate | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('mission_rejection_reasons')
+      .update({
+        title: reasonData.title,
+        message: reasonData.message,
+        updated_at: new Date().toISOString()
+      })
+      .eq('reason_id', parseInt(id))
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return {
+      data: {
+        id: data.reason_id.toString(),
+        title: data.title,
+        message: data.message,
+        created_at: data.created_at,
+        updated_at: data.updated_at
+      },
+      error: null
+    };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+}
+
+async deleteRejectionReason(id: string): Promise<{ error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from('mission_rejection_reasons')
+      .delete()
+      .eq('reason_id', parseInt(id));
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err: any) {
+    return { error: err.message };
+  }
+}
+  
+  
+  async getRewards(): Promise<Reward[]> {
+    const { data, error } = await supabase
+      .from('rewards')
+      .select('*')
+      .order('created_at', { ascending: false });
+    
+    if (error) throw new Error(error.message);
+    
+    return data.map((reward: any) => this.toReward(reward));
+  }
+  
+  private toReward(data: any): Reward {
+    return {
+      id: data.reward_id.toString(),
+      name: data.name,
+      title: data.name,
+      description: data.description,
+      points_required: data.points_required,
+      stock: data.stock,
+      image_url: data.image_url,
+      is_active: data.stock > 0,
+      category: data.category || 'merchandise',
+      start_date: data.start_date,
+      end_date: data.end_date,
+      max_per_user: data.max_per_user,
+      limit_period: data.limit_period || 'lifetime',
+      low_stock_threshold: data.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+      created_at: data.created_at,
+      updated_at: data.updated_at
+    };
+  }
+  
   async createReward(rewardData: Partial<Reward>): Promise<{ data: Reward | null; error: string | null }> {
     try {
       const insertData = {
@@ -789,7 +2295,13 @@ async rejectSubmission(userId: string, missionId: string): Promise<{ error: stri
         description: rewardData.description?.trim(),
         points_required: rewardData.points_required,
         stock: rewardData.stock,
-        image_url: rewardData.image_url || 'https://images.pexels.com/photos/264547/pexels-photo-264547.jpeg'
+        image_url: rewardData.image_url || 'https://images.pexels.com/photos/264547/pexels-photo-264547.jpeg',
+        category: rewardData.category || 'merchandise',
+        start_date: rewardData.start_date || null,
+        end_date: rewardData.end_date || null,
+        max_per_user: rewardData.max_per_user || null,
+        limit_period: rewardData.limit_period || 'lifetime',
+        low_stock_threshold: rewardData.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD
       };
       
       const { data, error } = await supabase
@@ -800,20 +2312,7 @@ async rejectSubmission(userId: string, missionId: string): Promise<{ error: stri
       
       if (error) throw error;
       
-      const transformedReward: Reward = {
-        id: data.reward_id.toString(),
-        name: data.name,
-        title: data.name,
-        description: data.description,
-        points_required: data.points_required,
-        stock: data.stock,
-        image_url: data.image_url,
-        is_active: data.stock > 0,
-        created_at: data.created_at,
-        updated_at: data.updated_at
-      };
-      
-      return { data: transformedReward, error: null };
+      return { data: this.toReward(data), error: null };
     } catch (err: any) {
       return { data: null, error: err.message };
     }
@@ -828,6 +2327,12 @@ async rejectSubmission(userId: string, missionId: string): Promise<{ error: stri
       if (rewardData.points_required !== undefined) updateData.points_required = rewardData.points_required;
       if (rewardData.stock !== undefined) updateData.stock = rewardData.stock;
       if (rewardData.image_url) updateData.image_url = rewardData.image_url;
+      if (rewardData.category) updateData.category = rewardData.category;
+      if (rewardData.start_date !== undefined) updateData.start_date = rewardData.start_date || null;
+      if (rewardData.end_date !== undefined) updateData.end_date = rewardData.end_date || null;
+      if (rewardData.max_per_user !== undefined) updateData.max_per_user = rewardData.max_per_user || null;
+      if (rewardData.limit_period) updateData.limit_period = rewardData.limit_period;
+      if (rewardData.low_stock_threshold !== undefined) updateData.low_stock_threshold = rewardData.low_stock_threshold;
       
       const { data, error } = await supabase
         .from('rewards')
@@ -838,20 +2343,7 @@ async rejectSubmission(userId: string, missionId: string): Promise<{ error: stri
       
       if (error) throw error;
       
-      const transformedReward: Reward = {
-        id: data.reward_id.toString(),
-        name: data.name,
-        title: data.name,
-        description: data.description,
-        points_required: data.points_required,
-        stock: data.stock,
-        image_url: data.image_url,
-        is_active: data.stock > 0,
-        created_at: data.created_at,
-        updated_at: data.updated_at
-      };
-      
-      return { data: transformedReward, error: null };
+      return { data: this.toReward(data), error: null };
     } catch (err: any) {
       return { data: null, error: err.message };
     }
@@ -894,7 +2386,11 @@ async rejectSubmission(userId: string, missionId: string): Promise<{ error: stri
     
     if (error) throw new Error(error.message);
     
-    return data.map((item: any) => ({
+    return data.map((item: any) => this.toRedemption(item));
+  }
+  
+  private toRedemption(item: any): RewardRedemption {
+    return {
       id: item.redemption_id.toString(),
       user_id: item.user_id,
       reward_id: item.reward_id,
@@ -905,6 +2401,189 @@ async rejectSubmission(userId: string, missionId: string): Promise<{ error: stri
       user_email: item.users?.email || '',
       user_avatar: item.users?.profile_picture || null,
       reward_name: item.rewards?.name || 'Unknown Reward'
+    };
+  }
+  
+  private toRedemptionFilterArgs(query: RedemptionQuery) {
+    return {
+      p_from: query.from || null,
+      p_to: query.to || null,
+      p_user_search: query.userSearch || null,
+      p_reward_id: query.rewardId ? parseInt(query.rewardId) : null,
+      p_status: query.status || null
+    };
+  }
+  
+  // filter_redemptions holds the filter rules, so the page and the summary always agree
+  async queryRedemptions(query: RedemptionQuery): Promise<PagedResult<RewardRedemption>> {
+    const { from, to } = getPageRange(query.page, query.pageSize);
+    
+    const { data, error, count } = await supabase
+      .rpc('filter_redemptions', this.toRedemptionFilterArgs(query), { count: 'exact' })
+      .select(`
+        redemption_id,
+        user_id,
+        reward_id,
+        points_deducted,
+        redeemed_at,
+        status,
+        users!reward_redemptions_user_id_fkey(first_name, last_name, email, profile_picture),
+        rewards!reward_redemptions_reward_id_fkey(name)
+      `)
+      .order('redeemed_at', { ascending: false })
+      .order('redemption_id', { ascending: false })
+      .range(from, to);
+    
+    if (error) throw new Error(error.message);
+    
+    return {
+      rows: (data || []).map((item: any) => this.toRedemption(item)),
+      total: count || 0
+    };
+  }
+  
+  async getRedemptionSummary(query: RedemptionQuery): Promise<RedemptionSummary> {
+    const { data, error } = await supabase.rpc('get_redemption_summary', this.toRedemptionFilterArgs(query));
+    
+    if (error) throw new Error(error.message);
+    
+    const summary = Array.isArray(data) ? data[0] : data;
+    return {
+      total_redemptions: Number(summary?.total_redemptions || 0),
+      total_points: Number(summary?.total_points || 0)
+    };
+  }
+  
+  async redeemReward(userId: string, rewardId: string, adminId?: string): Promise<{ data: RewardRedemption | null; error: string | null }> {
+    try {
+      // Balance check, stock decrement, ledger debit and the redemption row commit together
+      const { data, error } = await supabase.rpc('redeem_reward', {
+        p_user_id: parseInt(userId),
+        p_reward_id: parseInt(rewardId),
+        p_admin_id: adminId ? parseInt(adminId) : null
+      });
+      
+      if (error) throw error;
+      
+      return {
+        data: {
+          id: data.redemption_id.toString(),
+          user_id: data.user_id,
+          reward_id: data.reward_id,
+          points_deducted: data.points_deducted,
+          redeemed_at: data.redeemed_at,
+          status: data.status
+        },
+        error: null
+      };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateRedemptionStatus(id: string, status: RedemptionStatus, options: RedemptionStatusOptions = {}): Promise<{ data: RewardRedemption | null; error: string | null }> {
+    try {
+      // Validates the transition and restocks/refunds in the same transaction
+      const { data, error } = await supabase.rpc('set_redemption_status', {
+        p_redemption_id: parseInt(id),
+        p_status: status,
+        p_admin_id: options.adminId ? parseInt(options.adminId) : null,
+        p_note: options.note?.trim() || null
+      });
+      
+      if (error) throw error;
+      
+      return {
+        data: {
+          id: data.redemption_id.toString(),
+          user_id: data.user_id,
+          reward_id: data.reward_id,
+          points_deducted: data.points_deducted,
+          redeemed_at: data.redeemed_at,
+          status: data.status
+        },
+        error: null
+      };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getRedemptionHistory(id: string): Promise<RedemptionStatusChange[]> {
+    const { data, error } = await supabase
+      .from('reward_redemption_status_history')
+      .select(`
+        *,
+        admin:changed_by(first_name, last_name)
+      `)
+      .eq('redemption_id', parseInt(id))
+      .order('created_at', { ascending: true });
+    
+    if (error) throw new Error(error.message);
+    
+    return data.map((h: any) => ({
+      id: h.history_id.toString(),
+      redemption_id: h.redemption_id.toString(),
+      from_status: h.from_status,
+      to_status: h.to_status,
+      note: h.note,
+      changed_by: h.changed_by,
+      changed_by_name: h.admin ? `${h.admin.first_name} ${h.admin.last_name}` : undefined,
+      created_at: h.created_at
+    }));
+  }
+  
+  async restockReward(id: string, quantity: number, reason: string, adminId?: string): Promise<{ data: RewardRestock | null; error: string | null }> {
+    try {
+      const { data, error } = await supabase.rpc('restock_reward', {
+        p_reward_id: parseInt(id),
+        p_quantity: quantity,
+        p_reason: reason.trim(),
+        p_admin_id: adminId ? parseInt(adminId) : null
+      });
+      
+      if (error) throw error;
+      
+      return {
+        data: {
+          id: data.restock_id.toString(),
+          reward_id: data.reward_id,
+          quantity: data.quantity,
+          reason: data.reason,
+          admin_id: data.admin_id,
+          stock_before: data.stock_before,
+          stock_after: data.stock_after,
+          created_at: data.created_at
+        },
+        error: null
+      };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getRestocks(rewardId: string): Promise<RewardRestock[]> {
+    const { data, error } = await supabase
+      .from('reward_restocks')
+      .select(`
+        *,
+        admin:admin_id(first_name, last_name)
+      `)
+      .eq('reward_id', parseInt(rewardId))
+      .order('created_at', { ascending: false });
+    
+    if (error) throw new Error(error.message);
+    
+    return data.map((r: any) => ({
+      id: r.restock_id.toString(),
+      reward_id: r.reward_id,
+      quantity: r.quantity,
+      reason: r.reason,
+      admin_id: r.admin_id,
+      admin_name: r.admin ? `${r.admin.first_name} ${r.admin.last_name}` : undefined,
+      stock_before: r.stock_before,
+      stock_after: r.stock_after,
+      created_at: r.created_at
     }));
   }
   
@@ -1022,7 +2701,7 @@ async rejectSubmission(userId: string, missionId: string): Promise<{ error: stri
           admin_id: action.admin_id || 1,
           action_type: action.action_type,
           entity_type: action.entity_type,
-          entity_id: action.entity_id || 1,
+          entity_id: action.entity_id ?? 1,
           details: action.details,
           created_at: new Date().toISOString()
         }]);
@@ -1039,6 +2718,50 @@ async rejectSubmission(userId: string, missionId: string): Promise<{ error: stri
     }
   }
   
+  async getNotifications(adminId: string): Promise<AdminNotification[]> {
+    // RLS limits the rows to notifications the admin's permissions allow, and the
+    // reads to the admin's own
+    const { data, error } = await supabase
+      .from('admin_notifications')
+      .select(`
+        *,
+        admin_notification_reads(admin_id)
+      `)
+      .order('created_at', { ascending: false })
+      .limit(NOTIFICATION_LIMIT);
+    
+    if (error) throw new Error(error.message);
+    
+    return data.map((n: any) => ({
+      id: n.notification_id.toString(),
+      kind: n.kind,
+      entity_type: n.entity_type,
+      entity_id: n.entity_id,
+      title: n.title,
+      message: n.message,
+      read: (n.admin_notification_reads || []).some((r: any) => r.admin_id === parseInt(adminId)),
+      created_at: n.created_at
+    }));
+  }
+  
+  async markNotificationsRead(ids: string[], adminId: string): Promise<{ error: string | null }> {
+    try {
+      if (ids.length === 0) return { error: null };
+      
+      const { error } = await supabase
+        .from('admin_notification_reads')
+        .upsert(
+          ids.map(id => ({ notification_id: parseInt(id), admin_id: parseInt(adminId) })),
+          { onConflict: 'notification_id,admin_id', ignoreDuplicates: true }
+        );
+      
+      if (error) throw error;
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
   async getDashboardStats(): Promise<DashboardStats> {
     const [
       { count: totalUsers },
@@ -1069,32 +2792,116 @@ async rejectSubmission(userId: string, missionId: string): Promise<{ error: stri
     };
   }
   
-  async getMonthlyEngagement(): Promise<MonthlyEngagement[]> {
-    // Implementation for monthly engagement data
-    const months = [];
+  async getMonthlyEngagement(months: number = 8): Promise<MonthlyEngagement[]> {
     const now = new Date();
     
-    for (let i = 7; i >= 0; i--) {
-      const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-      const year = date.getFullYear();
-      const month = date.getMonth() + 1;
-      const monthName = date.toLocaleDateString('en-US', { month: 'short' });
-      
-      const startOfMonth = new Date(year, month - 1, 1).toISOString();
-      const endOfMonth = new Date(year, month, 0, 23, 59, 59).toISOString();
+    // Count each activity per calendar month with head-only count queries, so the
+    // numbers stay exact no matter how many rows a month holds
+    const countInRange = async (table: string, dateColumn: string, from: string, to: string) => {
+      const { count, error } = await supabase
+        .from(table)
+        .select('*', { count: 'exact', head: true })
+        .gte(dateColumn, from)
+        .lt(dateColumn, to);
       
-      // Get data for this month (simplified)
-      months.push({
-        month: monthName,
-        year,
-        participants: Math.floor(Math.random() * 50) + 20,
-        events: Math.floor(Math.random() * 8) + 2,
-        feedback: Math.floor(Math.random() * 30) + 10,
-        rewards_redeemed: Math.floor(Math.random() * 15) + 5
-      });
+      if (error) throw new Error(error.message);
+      return count || 0;
+    };
+    
+    const monthRanges = [];
+    for (let i = months - 1; i >= 0; i--) {
+      const start = new Date(now.getFullYear(), now.getMonth() - i, 1);
+      const end = new Date(now.getFullYear(), now.getMonth() - i + 1, 1);
+      monthRanges.push({ start, end });
     }
     
-    return months;
+    return Promise.all(
+      monthRanges.map(async ({ start, end }) => {
+        const from = start.toISOString();
+        const to = end.toISOString();
+        
+        const [participants, events, feedback, rewardsRedeemed] = await Promise.all([
+          countInRange('event_participants', 'joined_at', from, to),
+          countInRange('events', 'start_date', from, to),
+          countInRange('feedback', 'submitted_at', from, to),
+          countInRange('reward_redemptions', 'redeemed_at', from, to)
+        ]);
+        
+        return {
+          month: start.toLocaleDateString('en-US', { month: 'short' }),
+          year: start.getFullYear(),
+          participants,
+          events,
+          feedback,
+          rewards_redeemed: rewardsRedeemed
+        };
+      })
+    );
+  }
+  
+  async getDashboardOverview(periodDays: number = 30): Promise<DashboardOverview> {
+    const now = new Date();
+    const periodStart = new Date(now.getTime() - periodDays * DAY_IN_MS).toISOString();
+    const previousStart = new Date(now.getTime() - 2 * periodDays * DAY_IN_MS).toISOString();
+    
+    const [
+      usersResult,
+      previousUsersResult,
+      eventsResult,
+      currentRedemptionsResult,
+      previousRedemptionsResult,
+      currentParticipantsResult,
+      previousParticipantsResult
+    ] = await Promise.all([
+      supabase.from('users').select('*', { count: 'exact', head: true }),
+      supabase.from('users').select('*', { count: 'exact', head: true }).lt('created_at', periodStart),
+      supabase.from('events').select('start_date, end_date, created_at'),
+      supabase.from('reward_redemptions').select('*', { count: 'exact', head: true }).gte('redeemed_at', periodStart),
+      supabase.from('reward_redemptions').select('*', { count: 'exact', head: true }).gte('redeemed_at', previousStart).lt('redeemed_at', periodStart),
+      // Distinct participants are counted in the database rather than by loading every row
+      supabase.rpc('count_unique_participants', { p_from: periodStart }),
+      supabase.rpc('count_unique_participants', { p_from: previousStart, p_to: periodStart })
+    ]);
+    
+    // A failed count would otherwise show up as a 0 and a misleading trend
+    const failed = [
+      usersResult,
+      previousUsersResult,
+      eventsResult,
+      currentRedemptionsResult,
+      previousRedemptionsResult,
+      currentParticipantsResult,
+      previousParticipantsResult
+    ].find(result => result.error);
+    if (failed?.error) throw new Error(failed.error.message);
+    
+    const totalUsers = usersResult.count || 0;
+    const previousUsers = previousUsersResult.count || 0;
+    
+    const events = eventsResult.data || [];
+    const eventStatus: EventStatusBreakdown = { upcoming: 0, ongoing: 0, completed: 0 };
+    events.forEach((event: any) => {
+      eventStatus[getEventStatus(event.start_date, event.end_date, now)]++;
+    });
+    
+    // An event counts as active at a point in time if it existed then and had not ended yet
+    const activeAt = (moment: Date) => events.filter((event: any) =>
+      new Date(event.created_at) <= moment && new Date(event.end_date) >= moment
+    ).length;
+    
+    const currentRate = totalUsers ? (Number(currentParticipantsResult.data || 0) / totalUsers) * 100 : 0;
+    const previousRate = previousUsers ? (Number(previousParticipantsResult.data || 0) / previousUsers) * 100 : 0;
+    
+    return {
+      eventStatus,
+      trends: {
+        totalUsers: calculateTrend(totalUsers, previousUsers),
+        activeEvents: calculateTrend(activeAt(now), activeAt(new Date(periodStart))),
+        rewardsRedeemed: calculateTrend(currentRedemptionsResult.count || 0, previousRedemptionsResult.count || 0),
+        engagementRate: calculateTrend(currentRate, previousRate)
+      },
+      periodDays
+    };
   }
   
   async uploadImage(file: File, folder: string = 'uploads'): Promise<ImageUploadResult> {
@@ -1131,6 +2938,34 @@ async rejectSubmission(userId: string, missionId: string): Promise<{ error: stri
     // Implementation for deleting images
     return { success: true };
   }
+  
+  async getSubmissionPhotoUrls(paths: string[]): Promise<Record<string, string>> {
+    const urls: Record<string, string> = {};
+    const storagePaths = Array.from(new Set(paths.filter(Boolean)));
+    
+    storagePaths.filter(isAbsolutePhotoUrl).forEach(path => { urls[path] = path; });
+    const pending = storagePaths.filter(path => !isAbsolutePhotoUrl(path));
+    if (pending.length === 0) return urls;
+    
+    // Signed URLs work for private buckets; fall back to public URLs when signing is not allowed
+    const { data, error } = await supabase.storage
+      .from(MISSION_PHOTO_BUCKET)
+      .createSignedUrls(pending, SIGNED_URL_TTL_SECONDS);
+    
+    if (!error && data) {
+      data.forEach((item: any) => {
+        if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+      });
+    }
+    
+    pending
+      .filter(path => !urls[path])
+      .forEach(path => {
+        urls[path] = supabase.storage.from(MISSION_PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+      });
+    
+    return urls;
+  }
 }
 
 // MS SQL Implementation (placeholder for future migration)
@@ -1180,234 +3015,2618 @@ class MSSQLDataService implements IDataService {
     }
   }
   
-  async signUp(email: string, password: string, fullName: string, role?: string): Promise<AuthResult> {
+  async signOut(): Promise<AuthResult> {
+    this.authToken = null;
+    localStorage.removeItem('authToken');
+    return { data: null, error: null };
+  }
+  
+  async getCurrentUser(): Promise<User | null> {
+    try {
+      return await this.request<User>('/api/auth/me');
+    } catch {
+      return null;
+    }
+  }
+  
+  async getUsers(): Promise<User[]> {
+    return this.request<User[]>('/api/users');
+  }
+  
+  async queryUsers(query: UserQuery): Promise<PagedResult<User>> {
+    const params = new URLSearchParams();
+    if (query.search) params.set('search', query.search);
+    if (query.role) params.set('role', query.role);
+    if (query.status) params.set('status', query.status);
+    if (query.minPoints !== undefined) params.set('minPoints', query.minPoints.toString());
+    if (query.maxPoints !== undefined) params.set('maxPoints', query.maxPoints.toString());
+    params.set('sort', query.sortField || 'date');
+    params.set('order', query.sortOrder || 'desc');
+    params.set('page', (query.page || 1).toString());
+    params.set('pageSize', (query.pageSize || DEFAULT_USER_PAGE_SIZE).toString());
+    
+    return this.request<PagedResult<User>>(`/api/users/search?${params.toString()}`);
+  }
+  
+  async getUserSummary(): Promise<UserSummary> {
+    return this.request<UserSummary>('/api/users/summary');
+  }
+  
+  async getExistingUserEmails(emails: string[]): Promise<string[]> {
+    return this.request<string[]>('/api/users/existing-emails', {
+      method: 'POST',
+      body: JSON.stringify({ emails }),
+    });
+  }
+  
+  async createUser(userData: Partial<User>): Promise<{ data: User | null; error: string | null }> {
     try {
-      const response = await fetch(`${this.apiBaseUrl}/api/auth/register`, {
+      const data = await this.request<User>('/api/users', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password, fullName, role }),
+        body: JSON.stringify(userData),
       });
-      
-      if (!response.ok) throw new Error('Registration failed');
-      
-      const { token, user } = await response.json();
-      this.authToken = token;
-      localStorage.setItem('authToken', token);
-      
-      return { data: { user }, error: null };
-    } catch (error) {
-      return { data: null, error };
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateUser(id: string, userData: Partial<User>): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const data = await this.request<User>(`/api/users/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(userData),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateUserRole(id: string, role: string): Promise<{ data: User | null; error: string | null }> {
+    return this.updateUser(id, { role });
+  }
+  
+  async addPointsToUser(id: string, points: number, options: PointsAdjustmentOptions = {}): Promise<{ data: User | null; error: string | null }> {
+    try {
+      if (options.reason && options.reason !== 'manual_adjustment') {
+        throw new Error('Only manual adjustments can be posted directly');
+      }
+      const data = await this.request<User>(`/api/users/${id}/points`, {
+        method: 'POST',
+        body: JSON.stringify({ points, note: options.note }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getUser(id: string): Promise<User | null> {
+    try {
+      return await this.request<User>(`/api/users/${id}`);
+    } catch {
+      return null;
+    }
+  }
+  
+  async getUserActivity(userId: string): Promise<UserActivity> {
+    return this.request<UserActivity>(`/api/users/${userId}/activity`);
+  }
+  
+  async deactivateUser(id: string, adminId?: string): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const data = await this.request<User>(`/api/users/${id}/deactivate`, {
+        method: 'POST',
+        body: JSON.stringify({ adminId }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async restoreUser(id: string): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const data = await this.request<User>(`/api/users/${id}/restore`, {
+        method: 'POST',
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async deleteUser(id: string, adminId?: string): Promise<{ error: string | null }> {
+    try {
+      await this.request(`/api/users/${id}`, {
+        method: 'DELETE',
+        body: JSON.stringify({ adminId }),
+      });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async getAdminInvites(): Promise<AdminInvite[]> {
+    const invites = await this.request<AdminInvite[]>('/api/admin/invites');
+    return invites.map(invite => ({ ...invite, status: getAdminInviteStatus(invite) }));
+  }
+  
+  async createAdminInvite(email: string, role: string, adminId?: string): Promise<{ data: CreatedAdminInvite | null; error: string | null }> {
+    try {
+      const data = await this.request<CreatedAdminInvite>('/api/admin/invites', {
+        method: 'POST',
+        body: JSON.stringify({ email: email.trim(), role, adminId, ttlDays: ADMIN_INVITE_TTL_DAYS }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async revokeAdminInvite(id: string): Promise<{ data: AdminInvite | null; error: string | null }> {
+    try {
+      const data = await this.request<AdminInvite>(`/api/admin/invites/${id}/revoke`, {
+        method: 'POST',
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getAdminInviteByToken(token: string): Promise<AdminInvite | null> {
+    try {
+      const invite = await this.request<AdminInvite>(`/api/auth/invites/${encodeURIComponent(token)}`);
+      return { ...invite, status: getAdminInviteStatus(invite) };
+    } catch {
+      return null;
+    }
+  }
+  
+  async acceptAdminInvite(token: string, acceptance: AdminInviteAcceptance): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const data = await this.request<User>('/api/auth/invites/accept', {
+        method: 'POST',
+        body: JSON.stringify({ token, ...acceptance }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async bulkAdjustPoints(ids: string[], points: number, options: PointsAdjustmentOptions = {}): Promise<{ data: BulkUserResult | null; error: string | null }> {
+    try {
+      const data = await this.request<BulkUserResult>('/api/users/bulk/points', {
+        method: 'POST',
+        body: JSON.stringify({ userIds: ids, points, adminId: options.adminId, note: options.note }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async bulkUpdateUserRole(ids: string[], role: string): Promise<{ data: BulkUserResult | null; error: string | null }> {
+    try {
+      const data = await this.request<BulkUserResult>('/api/users/bulk/role', {
+        method: 'POST',
+        body: JSON.stringify({ userIds: ids, role }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async bulkDeactivateUsers(ids: string[], adminId?: string): Promise<{ data: BulkUserResult | null; error: string | null }> {
+    try {
+      const data = await this.request<BulkUserResult>('/api/users/bulk/deactivate', {
+        method: 'POST',
+        body: JSON.stringify({ userIds: ids, adminId }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getPointsLedger(userId: string): Promise<PointsTransaction[]> {
+    return this.request<PointsTransaction[]>(`/api/users/${userId}/points-ledger`);
+  }
+  
+  async getEvents(): Promise<Event[]> {
+    return this.request<Event[]>('/api/events');
+  }
+  
+  async createEvent(eventData: Partial<Event>): Promise<{ data: Event | null; error: string | null }> {
+    try {
+      const data = await this.request<Event>('/api/events', {
+        method: 'POST',
+        body: JSON.stringify(eventData),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateEvent(id: string, eventData: Partial<Event>): Promise<{ data: Event | null; error: string | null }> {
+    try {
+      const data = await this.request<Event>(`/api/events/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(eventData),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async deleteEvent(id: string): Promise<{ error: string | null }> {
+    try {
+      await this.request(`/api/events/${id}`, { method: 'DELETE' });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async registerParticipant(eventId: string, userId: string): Promise<{ data: EventParticipant | null; error: string | null }> {
+    try {
+      const data = await this.request<EventParticipant>(`/api/events/${eventId}/participants`, {
+        method: 'POST',
+        body: JSON.stringify({ userId }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async cancelRegistration(eventId: string, userId: string): Promise<{ error: string | null }> {
+    try {
+      await this.request(`/api/events/${eventId}/participants/${userId}`, { method: 'DELETE' });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async getEventParticipants(eventId: string): Promise<EventParticipant[]> {
+    return this.request<EventParticipant[]>(`/api/events/${eventId}/participants`);
+  }
+  
+  async updateParticipantStatus(participantId: string, status: ParticipantStatus): Promise<{ data: EventParticipant | null; error: string | null }> {
+    try {
+      const data = await this.request<EventParticipant>(`/api/participants/${participantId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ status }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async removeParticipant(participantId: string): Promise<{ error: string | null }> {
+    try {
+      await this.request(`/api/participants/${participantId}`, { method: 'DELETE' });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async checkInParticipants(eventId: string, participantIds: string[], adminId?: string): Promise<{ data: CheckInResult[] | null; error: string | null }> {
+    try {
+      const data = await this.request<CheckInResult[]>(`/api/events/${eventId}/check-in`, {
+        method: 'POST',
+        body: JSON.stringify({ participantIds, adminId }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getMissions(): Promise<Mission[]> {
+    return this.request<Mission[]>('/api/missions');
+  }
+  
+  async createMission(mission: Partial<Mission>): Promise<{ data: Mission | null; error: string | null }> {
+    try {
+      const data = await this.request<Mission>('/api/missions', {
+        method: 'POST',
+        body: JSON.stringify(mission),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateMission(id: string, mission: Partial<Mission>): Promise<{ data: Mission | null; error: string | null }> {
+    try {
+      const data = await this.request<Mission>(`/api/missions/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(mission),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async deleteMission(id: string): Promise<{ error: string | null }> {
+    try {
+      await this.request(`/api/missions/${id}`, { method: 'DELETE' });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async getMissionTemplates(): Promise<MissionTemplate[]> {
+    return this.request<MissionTemplate[]>('/api/missions/templates');
+  }
+  
+  async createMissionTemplate(template: Partial<MissionTemplate>): Promise<{ data: MissionTemplate | null; error: string | null }> {
+    try {
+      const data = await this.request<MissionTemplate>('/api/missions/templates', {
+        method: 'POST',
+        body: JSON.stringify(template),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateMissionTemplate(id: string, template: Partial<MissionTemplate>): Promise<{ data: MissionTemplate | null; error: string | null }> {
+    try {
+      const data = await this.request<MissionTemplate>(`/api/missions/templates/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(template),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async deleteMissionTemplate(id: string): Promise<{ error: string | null }> {
+    try {
+      await this.request(`/api/missions/templates/${id}`, { method: 'DELETE' });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async spawnRecurringMissions(): Promise<{ data: Mission[]; error: string | null }> {
+    try {
+      const data = await this.request<Mission[]>('/api/missions/templates/spawn', { method: 'POST' });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: [], error: err.message };
+    }
+  }
+  
+  async getMissionSubmissions(missionId?: string): Promise<MissionSubmission[]> {
+    return this.request<MissionSubmission[]>(missionId ? `/api/missions/${missionId}/submissions` : '/api/missions/submissions');
+  }
+  
+  private async setSubmissionStatus(
+    userId: string,
+    missionId: string,
+    status: MissionSubmission['status'],
+    options: SubmissionActionOptions = {}
+  ): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    try {
+      const data = await this.request<SubmissionReviewResult>(`/api/missions/${missionId}/submissions/${userId}/status`, {
+        method: 'PUT',
+        body: JSON.stringify({ status, ...options }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async approveSubmission(userId: string, missionId: string, options: SubmissionActionOptions = {}): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    return this.setSubmissionStatus(userId, missionId, 'approved', options);
+  }
+  
+  async rejectSubmission(userId: string, missionId: string, options: SubmissionActionOptions = {}): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    return this.setSubmissionStatus(userId, missionId, 'rejected', options);
+  }
+  
+  async revertSubmission(userId: string, missionId: string, options: SubmissionActionOptions = {}): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    return this.setSubmissionStatus(userId, missionId, 'pending', options);
+  }
+  
+  async reviewSubmissionPhotos(
+    userId: string,
+    missionId: string,
+    reviews: PhotoReview[],
+    options: SubmissionActionOptions = {}
+  ): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    try {
+      const data = await this.request<SubmissionReviewResult>(`/api/missions/${missionId}/submissions/${userId}/photo-reviews`, {
+        method: 'PUT',
+        body: JSON.stringify({ reviews, ...options }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async resubmitSubmission(
+    userId: string,
+    missionId: string,
+    photoPaths: string[],
+    options: SubmissionActionOptions = {}
+  ): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    try {
+      const data = await this.request<SubmissionReviewResult>(`/api/missions/${missionId}/submissions/${userId}/photos`, {
+        method: 'PUT',
+        body: JSON.stringify({ photoPaths, ...options }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getSubmissionHistory(userId: string, missionId: string, monthYear: string): Promise<SubmissionStatusChange[]> {
+    return this.request<SubmissionStatusChange[]>(`/api/missions/${missionId}/submissions/${userId}/history?monthYear=${encodeURIComponent(monthYear)}`);
+  }
+  
+  async getRejectionReasons(): Promise<RejectionReasonTemplate[]> {
+    return this.request<RejectionReasonTemplate[]>('/api/missions/rejection-reasons');
+  }
+  
+  async createRejectionReason(reasonData: Partial<RejectionReasonTemplate>): Promise<{ data: RejectionReasonTemplate | null; error: string | null }> {
+    try {
+      const data = await this.request<RejectionReasonTemplate>('/api/missions/rejection-reasons', {
+        method: 'POST',
+        body: JSON.stringify(reasonData),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateRejectionReason(id: string, reasonData: Partial<RejectionReasonTemplate>): Promise<{ data: RejectionReasonTemplate | null; error: string | null }> {
+    try {
+      const data = await this.request<RejectionReasonTemplate>(`/api/missions/rejection-reasons/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(reasonData),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async deleteRejectionReason(id: string): Promise<{ error: string | null }> {
+    try {
+      await this.request(`/api/missions/rejection-reasons/${id}`, { method: 'DELETE' });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async getRewards(): Promise<Reward[]> {
+    return this.request<Reward[]>('/api/rewards');
+  }
+  
+  async createReward(rewardData: Partial<Reward>): Promise<{ data: Reward | null; error: string | null }> {
+    try {
+      const data = await this.request<Reward>('/api/rewards', {
+        method: 'POST',
+        body: JSON.stringify(rewardData),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateReward(id: string, rewardData: Partial<Reward>): Promise<{ data: Reward | null; error: string | null }> {
+    try {
+      const data = await this.request<Reward>(`/api/rewards/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(rewardData),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async deleteReward(id: string): Promise<{ error: string | null }> {
+    try {
+      await this.request(`/api/rewards/${id}`, { method: 'DELETE' });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async getRedemptions(rewardId?: string): Promise<RewardRedemption[]> {
+    const endpoint = rewardId ? `/api/rewards/${rewardId}/redemptions` : '/api/redemptions';
+    return this.request<RewardRedemption[]>(endpoint);
+  }
+  
+  private toRedemptionParams(query: RedemptionQuery): URLSearchParams {
+    const params = new URLSearchParams();
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+    if (query.userSearch) params.set('user', query.userSearch);
+    if (query.rewardId) params.set('rewardId', query.rewardId);
+    if (query.status) params.set('status', query.status);
+    return params;
+  }
+  
+  async queryRedemptions(query: RedemptionQuery): Promise<PagedResult<RewardRedemption>> {
+    const params = this.toRedemptionParams(query);
+    params.set('page', (query.page || 1).toString());
+    params.set('pageSize', (query.pageSize || DEFAULT_USER_PAGE_SIZE).toString());
+    
+    return this.request<PagedResult<RewardRedemption>>(`/api/redemptions/search?${params.toString()}`);
+  }
+  
+  async getRedemptionSummary(query: RedemptionQuery): Promise<RedemptionSummary> {
+    return this.request<RedemptionSummary>(`/api/redemptions/summary?${this.toRedemptionParams(query).toString()}`);
+  }
+  
+  async redeemReward(userId: string, rewardId: string, adminId?: string): Promise<{ data: RewardRedemption | null; error: string | null }> {
+    try {
+      const data = await this.request<RewardRedemption>(`/api/rewards/${rewardId}/redeem`, {
+        method: 'POST',
+        body: JSON.stringify({ userId, adminId }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateRedemptionStatus(id: string, status: RedemptionStatus, options: RedemptionStatusOptions = {}): Promise<{ data: RewardRedemption | null; error: string | null }> {
+    try {
+      const data = await this.request<RewardRedemption>(`/api/redemptions/${id}/status`, {
+        method: 'PUT',
+        body: JSON.stringify({ status, adminId: options.adminId, note: options.note }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getRedemptionHistory(id: string): Promise<RedemptionStatusChange[]> {
+    return this.request<RedemptionStatusChange[]>(`/api/redemptions/${id}/history`);
+  }
+  
+  async restockReward(id: string, quantity: number, reason: string, adminId?: string): Promise<{ data: RewardRestock | null; error: string | null }> {
+    try {
+      const data = await this.request<RewardRestock>(`/api/rewards/${id}/restocks`, {
+        method: 'POST',
+        body: JSON.stringify({ quantity, reason, adminId }),
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getRestocks(rewardId: string): Promise<RewardRestock[]> {
+    return this.request<RewardRestock[]>(`/api/rewards/${rewardId}/restocks`);
+  }
+  
+  async getFeedback(): Promise<Feedback[]> {
+    return this.request<Feedback[]>('/api/feedback');
+  }
+  
+  async deleteFeedback(id: string): Promise<{ error: string | null }> {
+    try {
+      await this.request(`/api/feedback/${id}`, { method: 'DELETE' });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async markFeedbackAsRead(id: string): Promise<{ error: string | null }> {
+    try {
+      await this.request(`/api/feedback/${id}/read`, { method: 'POST' });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async getAdminHistory(): Promise<AdminHistory[]> {
+    return this.request<AdminHistory[]>('/api/admin/history');
+  }
+  
+  async logAdminAction(action: Partial<AdminHistory>): Promise<void> {
+    await this.request('/api/admin/history', {
+      method: 'POST',
+      body: JSON.stringify(action),
+    });
+  }
+  
+  async getNotifications(adminId: string): Promise<AdminNotification[]> {
+    return this.request<AdminNotification[]>(`/api/admin/notifications?adminId=${encodeURIComponent(adminId)}&limit=${NOTIFICATION_LIMIT}`);
+  }
+  
+  async markNotificationsRead(ids: string[], adminId: string): Promise<{ error: string | null }> {
+    try {
+      await this.request('/api/admin/notifications/read', {
+        method: 'POST',
+        body: JSON.stringify({ ids, adminId }),
+      });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  async getDashboardStats(): Promise<DashboardStats> {
+    return this.request<DashboardStats>('/api/dashboard/stats');
+  }
+  
+  async getMonthlyEngagement(months: number = 8): Promise<MonthlyEngagement[]> {
+    return this.request<MonthlyEngagement[]>(`/api/dashboard/engagement?months=${months}`);
+  }
+  
+  async getDashboardOverview(periodDays: number = 30): Promise<DashboardOverview> {
+    return this.request<DashboardOverview>(`/api/dashboard/overview?periodDays=${periodDays}`);
+  }
+  
+  async uploadImage(file: File, folder?: string): Promise<ImageUploadResult> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (folder) formData.append('folder', folder);
+      
+      const response = await fetch(`${this.apiBaseUrl}/api/upload`, {
+        method: 'POST',
+        body: formData,
+        headers: {
+          ...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+        },
+      });
+      
+      if (!response.ok) throw new Error('Upload failed');
+      
+      const { imageUrl, imageId } = await response.json();
+      return { success: true, imageUrl, imageId };
+    } catch (err: any) {
+      return { success: false, error: err.message };
+    }
+  }
+  
+  async getSubmissionPhotoUrls(paths: string[]): Promise<Record<string, string>> {
+    return this.request<Record<string, string>>('/api/storage/signed-urls', {
+      method: 'POST',
+      body: JSON.stringify({ paths }),
+    });
+  }
+  
+  async deleteImage(imageId: number): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.request(`/api/images/${imageId}`, { method: 'DELETE' });
+      return { success: true };
+    } catch (err: any) {
+      return { success: false, error: err.message };
+    }
+  }
+}
+
+// In-Memory Implementation (offline development and tests)
+// Rows are kept in the same shape as the database tables and seeded from a JSON fixture.
+// Seed dates are moved forward by whole months so the demo data always looks current.
+interface MemoryTables {
+  users: any[];
+  events: any[];
+  event_participants: any[];
+  rewards: any[];
+  reward_redemptions: any[];
+  feedback: any[];
+  admin_activity_log: any[];
+  monthly_missions: any[];
+  mission_templates: any[];
+  user_monthly_missions: any[];
+  mission_rejection_reasons: any[];
+  mission_submission_status_history: any[];
+  reward_redemption_status_history: any[];
+  points_transactions: any[];
+  admin_invites: any[];
+  reward_restocks: any[];
+  admin_notifications: any[];
+  admin_notification_reads: any[];
+}
+
+export class MemoryDataService implements IDataService {
+  private tables: MemoryTables;
+  private currentUserId: number | null = null;
+  
+  constructor(seed: any = memorySeed) {
+    this.tables = this.loadSeed(seed);
+    const storedUserId = localStorage.getItem('memoryAuthUserId');
+    this.currentUserId = storedUserId ? parseInt(storedUserId) : null;
+  }
+  
+  private loadSeed(seed: any): MemoryTables {
+    const anchor = new Date(seed.anchor_date || new Date().toISOString());
+    const now = new Date();
+    const monthOffset = (now.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + (now.getUTCMonth() - anchor.getUTCMonth());
+    
+    const shiftRow = (row: any) => {
+      const shifted: any = { ...row };
+      Object.keys(shifted).forEach(key => {
+        const value = shifted[key];
+        if (typeof value !== 'string') return;
+        if (key.endsWith('_at') || key.endsWith('_date')) {
+          shifted[key] = this.shiftMonths(value, monthOffset);
+        } else if (key === 'month_year' || key.endsWith('_month')) {
+          shifted[key] = this.shiftMonths(`${value}-01T00:00:00.000Z`, monthOffset).slice(0, 7);
+        }
+      });
+      return shifted;
+    };
+    
+    const table = (name: keyof MemoryTables) => (seed[name] || []).map(shiftRow);
+    
+    return {
+      users: table('users'),
+      events: table('events'),
+      event_participants: table('event_participants'),
+      rewards: table('rewards'),
+      reward_redemptions: table('reward_redemptions'),
+      feedback: table('feedback'),
+      admin_activity_log: table('admin_activity_log'),
+      monthly_missions: table('monthly_missions'),
+      mission_templates: table('mission_templates'),
+      user_monthly_missions: table('user_monthly_missions'),
+      mission_rejection_reasons: table('mission_rejection_reasons'),
+      mission_submission_status_history: table('mission_submission_status_history'),
+      reward_redemption_status_history: table('reward_redemption_status_history'),
+      points_transactions: table('points_transactions'),
+      admin_invites: table('admin_invites'),
+      reward_restocks: table('reward_restocks'),
+      admin_notifications: table('admin_notifications'),
+      admin_notification_reads: table('admin_notification_reads')
+    };
+  }
+  
+  private shiftMonths(isoDate: string, months: number): string {
+    const date = new Date(isoDate);
+    const day = date.getUTCDate();
+    const isLastDayOfMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate() === day;
+    
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(isLastDayOfMonth ? daysInMonth : Math.min(day, daysInMonth));
+    
+    return date.toISOString();
+  }
+  
+  private nextId(rows: any[], key: string): number {
+    return rows.reduce((max, row) => Math.max(max, row[key] || 0), 0) + 1;
+  }
+  
+  private byNewest(field: string) {
+    return (a: any, b: any) => new Date(b[field]).getTime() - new Date(a[field]).getTime();
+  }
+  
+  private findUserRow(userId: number | string) {
+    return this.tables.users.find(u => u.user_id === Number(userId));
+  }
+  
+  private toUser(row: any): User {
+    return {
+      id: row.user_id.toString(),
+      email: row.email,
+      full_name: `${row.first_name} ${row.last_name}`,
+      first_name: row.first_name,
+      last_name: row.last_name,
+      role: row.role,
+      points: row.redeemable_points || 0,
+      avatar_url: row.profile_picture,
+      deactivated_at: row.deactivated_at || null,
+      deleted_at: row.deleted_at || null,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+  
+  private toEvent(row: any): Event {
+    return {
+      id: row.event_id.toString(),
+      title: row.title,
+      description: row.description || '',
+      start_date: row.start_date,
+      end_date: row.end_date,
+      date: row.start_date.split('T')[0],
+      location: row.location,
+      points: row.points,
+      image_url: row.thumbnail_image || 'https://images.pexels.com/photos/3952241/pexels-photo-3952241.jpeg',
+      status: getEventStatus(row.start_date, row.end_date),
+      max_participants: row.max_participants || DEFAULT_EVENT_CAPACITY,
+      participant_count: this.tables.event_participants.filter(p => p.event_id === row.event_id && takesEventSeat(p.status)).length,
+      waitlist_count: this.tables.event_participants.filter(p => p.event_id === row.event_id && p.status === 'waitlisted').length,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+  
+  private toReward(row: any): Reward {
+    return {
+      id: row.reward_id.toString(),
+      name: row.name,
+      title: row.name,
+      description: row.description,
+      points_required: row.points_required,
+      stock: row.stock,
+      image_url: row.image_url,
+      is_active: row.stock > 0,
+      category: row.category || 'merchandise',
+      start_date: row.start_date || null,
+      end_date: row.end_date || null,
+      max_per_user: row.max_per_user || null,
+      limit_period: row.limit_period || 'lifetime',
+      low_stock_threshold: row.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+  
+  // Mirrors the mission_overview view: one pass over submissions for all missions
+  private countSubmissionsByMission() {
+    const counts = new Map<number, { submission_count: number; pending_count: number; approved_count: number; rejected_count: number }>();
+    this.tables.user_monthly_missions.forEach(s => {
+      const entry = counts.get(s.mission_id) || { submission_count: 0, pending_count: 0, approved_count: 0, rejected_count: 0 };
+      entry.submission_count++;
+      if (s.status === 'pending') entry.pending_count++;
+      else if (s.status === 'approved') entry.approved_count++;
+      else if (s.status === 'rejected') entry.rejected_count++;
+      counts.set(s.mission_id, entry);
+    });
+    return counts;
+  }
+  
+  private toMission(row: any, counts = this.countSubmissionsByMission().get(row.mission_id)): Mission {
+    return {
+      id: row.mission_id.toString(),
+      title: row.title,
+      description: row.description,
+      points: row.points,
+      start_date: row.start_date,
+      end_date: row.end_date,
+      month_year: row.month_year,
+      template_id: row.template_id?.toString() ?? null,
+      status: getMissionStatus(row.start_date, row.end_date),
+      submission_count: counts?.submission_count || 0,
+      pending_count: counts?.pending_count || 0,
+      approved_count: counts?.approved_count || 0,
+      rejected_count: counts?.rejected_count || 0,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+  
+  private toMissionTemplate(row: any): MissionTemplate {
+    return {
+      id: row.template_id.toString(),
+      title: row.title,
+      description: row.description,
+      points: row.points,
+      recurrence: row.recurrence,
+      first_month: row.first_month,
+      last_month: row.last_month ?? null,
+      is_active: row.is_active,
+      mission_count: this.tables.monthly_missions.filter(m => m.template_id === row.template_id).length,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+  
+  private toRejectionReason(row: any): RejectionReasonTemplate {
+    return {
+      id: row.reason_id.toString(),
+      title: row.title,
+      message: row.message,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+  
+  async signIn(email: string, password: string): Promise<AuthResult> {
+    // Any non-empty password is accepted for seeded accounts
+    const row = this.tables.users.find(u => u.email.toLowerCase() === email.trim().toLowerCase());
+    if (!row || !password) {
+      return { data: null, error: { message: 'Invalid login credentials' } };
+    }
+    if (row.deactivated_at || row.deleted_at) {
+      return { data: null, error: { message: DEACTIVATED_ACCOUNT_MESSAGE } };
+    }
+    
+    this.currentUserId = row.user_id;
+    localStorage.setItem('memoryAuthUserId', row.user_id.toString());
+    
+    return { data: { user: { id: row.user_id.toString(), email: row.email } }, error: null };
+  }
+  
+  async signOut(): Promise<AuthResult> {
+    this.currentUserId = null;
+    localStorage.removeItem('memoryAuthUserId');
+    return { data: null, error: null };
+  }
+  
+  async getCurrentUser(): Promise<User | null> {
+    if (this.currentUserId === null) return null;
+    
+    const row = this.findUserRow(this.currentUserId);
+    return row && !row.deactivated_at && !row.deleted_at ? this.toUser(row) : null;
+  }
+  
+  async getUsers(): Promise<User[]> {
+    return [...this.tables.users]
+      .sort(this.byNewest('created_at'))
+      .map(row => this.toUser(row));
+  }
+  
+  async queryUsers(query: UserQuery): Promise<PagedResult<User>> {
+    const terms = getSearchTerms(query.search);
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    const sortValue = (user: User): string | number => {
+      switch (query.sortField) {
+        case 'name': return user.full_name.toLowerCase();
+        case 'email': return user.email.toLowerCase();
+        case 'role': return user.role;
+        case 'points': return user.points;
+        default: return new Date(user.created_at).getTime();
+      }
+    };
+    
+    const matches = this.tables.users
+      .filter(row => !row.deleted_at)
+      .map(row => this.toUser(row))
+      .filter(user => terms.every(term =>
+        user.full_name.toLowerCase().includes(term) || user.email.toLowerCase().includes(term)
+      ))
+      .filter(user => !query.role || user.role === query.role)
+      .filter(user => !query.status || (query.status === 'deactivated') === Boolean(user.deactivated_at))
+      .filter(user => query.minPoints === undefined || user.points >= query.minPoints)
+      .filter(user => query.maxPoints === undefined || user.points <= query.maxPoints)
+      .sort((a, b) => {
+        const aValue = sortValue(a);
+        const bValue = sortValue(b);
+        if (aValue !== bValue) return aValue < bValue ? -direction : direction;
+        return (Number(a.id) - Number(b.id)) * direction;
+      });
+    
+    const { from, to } = getPageRange(query.page, query.pageSize);
+    return { rows: matches.slice(from, to + 1), total: matches.length };
+  }
+  
+  async getExistingUserEmails(emails: string[]): Promise<string[]> {
+    const candidates = new Set(emails.map(email => email.trim().toLowerCase()));
+    return this.tables.users
+      .map(row => row.email.toLowerCase())
+      .filter(email => candidates.has(email));
+  }
+  
+  async getUserSummary(): Promise<UserSummary> {
+    const users = this.tables.users.filter(u => !u.deleted_at);
+    return {
+      total_users: users.length,
+      admin_users: users.filter(u => u.role !== MEMBER_ROLE).length,
+      regular_users: users.filter(u => u.role === MEMBER_ROLE).length,
+      total_points: users.reduce((sum, u) => sum + (u.redeemable_points || 0), 0)
+    };
+  }
+  
+  async createUser(userData: Partial<User>): Promise<{ data: User | null; error: string | null }> {
+    try {
+      if (!userData.email) throw new Error('Email is required');
+      if (this.tables.users.some(u => u.email.toLowerCase() === userData.email!.toLowerCase())) {
+        throw new Error(`A user with email ${userData.email} already exists`);
+      }
+      
+      const nameParts = userData.full_name?.split(' ') || [];
+      const now = new Date().toISOString();
+      const row = {
+        user_id: this.nextId(this.tables.users, 'user_id'),
+        sso_id: `manual-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        username: userData.email.split('@')[0],
+        email: userData.email,
+        first_name: nameParts[0] || userData.first_name || '',
+        last_name: nameParts.slice(1).join(' ') || userData.last_name || '',
+        role: userData.role || 'user',
+        redeemable_points: 0,
+        profile_picture: userData.avatar_url || null,
+        created_at: now,
+        updated_at: now
+      };
+      
+      this.tables.users.push(row);
+      if (userData.points) {
+        // Like create_user_with_points, a rejected opening balance leaves no user behind
+        try {
+          this.recordPointsTransaction(row.user_id, userData.points, { note: 'Initial balance' });
+        } catch (err) {
+          this.tables.users = this.tables.users.filter(u => u !== row);
+          throw err;
+        }
+      }
+      return { data: this.toUser(row), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateUser(id: string, userData: Partial<User>): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const row = this.findUserRow(id);
+      if (!row) throw new Error('User not found');
+      
+      if (userData.email) row.email = userData.email;
+      if (userData.role) row.role = userData.role;
+      if (userData.avatar_url) row.profile_picture = userData.avatar_url;
+      if (userData.full_name) {
+        const nameParts = userData.full_name.split(' ');
+        row.first_name = nameParts[0];
+        row.last_name = nameParts.slice(1).join(' ');
+      }
+      row.updated_at = new Date().toISOString();
+      
+      return { data: this.toUser(row), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateUserRole(id: string, role: string): Promise<{ data: User | null; error: string | null }> {
+    return this.updateUser(id, { role });
+  }
+  
+  // Mirrors record_points_transaction: every balance change is written to the ledger
+  private recordPointsTransaction(userId: number, delta: number, options: PointsAdjustmentOptions = {}) {
+    const user = this.findUserRow(userId);
+    if (!user) throw new Error('User not found');
+    
+    const balance = (user.redeemable_points || 0) + delta;
+    if (balance < 0) throw new Error(`Insufficient points: balance is ${user.redeemable_points || 0}, change is ${delta}`);
+    
+    const now = new Date().toISOString();
+    user.redeemable_points = balance;
+    user.updated_at = now;
+    
+    const row = {
+      transaction_id: this.nextId(this.tables.points_transactions, 'transaction_id'),
+      user_id: user.user_id,
+      delta,
+      reason: options.reason || 'manual_adjustment',
+      reference_id: options.referenceId ? parseInt(options.referenceId) : null,
+      admin_id: options.adminId ? parseInt(options.adminId) : null,
+      note: options.note || null,
+      balance_after: balance,
+      created_at: now
+    };
+    this.tables.points_transactions.push(row);
+    return row;
+  }
+  
+  async addPointsToUser(id: string, points: number, options: PointsAdjustmentOptions = {}): Promise<{ data: User | null; error: string | null }> {
+    try {
+      if (!points) throw new Error('Points change must not be zero');
+      if (options.reason && options.reason !== 'manual_adjustment') {
+        throw new Error('Only manual adjustments can be posted directly');
+      }
+      this.recordPointsTransaction(parseInt(id), points, options);
+      return { data: this.toUser(this.findUserRow(id)), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getUser(id: string): Promise<User | null> {
+    const row = this.findUserRow(id);
+    return row ? this.toUser(row) : null;
+  }
+  
+  async getUserActivity(userId: string): Promise<UserActivity> {
+    const id = parseInt(userId);
+    const [submissions, redemptions, feedback, points] = await Promise.all([
+      this.getMissionSubmissions(),
+      this.getRedemptions(),
+      this.getFeedback(),
+      this.getPointsLedger(userId)
+    ]);
+    
+    return {
+      events: this.tables.event_participants
+        .filter(p => p.user_id === id)
+        .sort(this.byNewest('joined_at'))
+        .map(p => {
+          const event = this.tables.events.find(e => e.event_id === p.event_id);
+          return {
+            ...this.toParticipant(p),
+            event_title: event?.title || 'Deleted event',
+            event_start_date: event?.start_date || p.joined_at,
+            event_points: event?.points || 0
+          };
+        }),
+      missions: submissions
+        .filter(s => s.user_id === userId)
+        .map(s => {
+          const mission = this.tables.monthly_missions.find(m => m.mission_id === parseInt(s.mission_id));
+          return {
+            ...s,
+            mission_title: mission?.title || 'Deleted mission',
+            mission_points: mission?.points || 0
+          };
+        }),
+      redemptions: redemptions.filter(r => r.user_id === id),
+      feedback: feedback.filter(f => f.user_id === userId),
+      points,
+      admin_actions: this.tables.admin_activity_log
+        .filter(item => item.entity_type === 'USER' && item.entity_id === id)
+        .sort(this.byNewest('created_at'))
+        .map(item => {
+          const admin = this.findUserRow(item.admin_id);
+          return {
+            id: item.log_id.toString(),
+            log_id: item.log_id,
+            admin_id: item.admin_id,
+            action_type: item.action_type,
+            action: item.action_type,
+            entity_type: item.entity_type,
+            entity_id: item.entity_id,
+            details: item.details,
+            admin_name: admin ? `${admin.first_name} ${admin.last_name}`.trim() : 'System Admin',
+            admin_email: admin?.email || 'system@ecowave.com',
+            admin_avatar: admin?.profile_picture || null,
+            created_at: item.created_at
+          };
+        })
+    };
+  }
+  
+  async deactivateUser(id: string, adminId?: string): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const row = this.findUserRow(id);
+      if (!row || row.deleted_at) throw new Error('User not found');
+      if (adminId && row.user_id === parseInt(adminId)) throw new Error('You can not deactivate your own account');
+      
+      const now = new Date().toISOString();
+      row.deactivated_at = row.deactivated_at || now;
+      row.deactivated_by = row.deactivated_by || (adminId ? parseInt(adminId) : null);
+      row.updated_at = now;
+      return { data: this.toUser(row), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async restoreUser(id: string): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const row = this.findUserRow(id);
+      if (!row || row.deleted_at) throw new Error('User not found or already deleted');
+      
+      row.deactivated_at = null;
+      row.deactivated_by = null;
+      row.updated_at = new Date().toISOString();
+      return { data: this.toUser(row), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async deleteUser(id: string, adminId?: string): Promise<{ error: string | null }> {
+    try {
+      const row = this.findUserRow(id);
+      if (!row || row.deleted_at) throw new Error('User not found or already deleted');
+      if (adminId && row.user_id === parseInt(adminId)) throw new Error('You can not delete your own account');
+      
+      // Same placeholders as anonymize_user, which also scrubs the email from the admin log
+      const now = new Date().toISOString();
+      const email = row.email;
+      const placeholder = `deleted-user-${row.user_id}@deleted.invalid`;
+      if (email) {
+        const pattern = new RegExp(email.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+        this.tables.admin_activity_log.forEach(entry => {
+          if (typeof entry.details === 'string') entry.details = entry.details.replace(pattern, placeholder);
+        });
+      }
+      Object.assign(row, {
+        first_name: 'Deleted',
+        last_name: 'User',
+        email: placeholder,
+        username: `deleted-user-${row.user_id}`,
+        sso_id: `deleted-${row.user_id}`,
+        profile_picture: null,
+        deactivated_at: row.deactivated_at || now,
+        deactivated_by: row.deactivated_by || (adminId ? parseInt(adminId) : null),
+        deleted_at: now,
+        updated_at: now
+      });
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  private toAdminInvite(row: any): AdminInvite {
+    const inviter = row.invited_by ? this.findUserRow(row.invited_by) : null;
+    return {
+      id: row.invite_id.toString(),
+      email: row.email,
+      role: row.role,
+      status: getAdminInviteStatus(row),
+      invited_by: row.invited_by?.toString() ?? null,
+      invited_by_name: inviter ? `${inviter.first_name} ${inviter.last_name}`.trim() : null,
+      expires_at: row.expires_at,
+      accepted_at: row.accepted_at || null,
+      accepted_user_id: row.accepted_user_id?.toString() ?? null,
+      revoked_at: row.revoked_at || null,
+      created_at: row.created_at
+    };
+  }
+  
+  // Same scheme as create_admin_invite: a random hex token, stored only as its SHA-256 hash
+  private async hashInviteToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+  
+  private async findInviteRow(token: string) {
+    const tokenHash = await this.hashInviteToken(token);
+    return this.tables.admin_invites.find(invite => invite.token_hash === tokenHash);
+  }
+  
+  async getAdminInvites(): Promise<AdminInvite[]> {
+    return [...this.tables.admin_invites]
+      .sort(this.byNewest('created_at'))
+      .map(row => this.toAdminInvite(row));
+  }
+  
+  async createAdminInvite(email: string, role: string, adminId?: string): Promise<{ data: CreatedAdminInvite | null; error: string | null }> {
+    try {
+      const normalizedEmail = email.trim().toLowerCase();
+      if (!normalizedEmail) throw new Error('Email is required');
+      if (!isAdminRole(role)) throw new Error('Invites are for admin roles only');
+      if (this.tables.users.some(u => u.email.toLowerCase() === normalizedEmail && !u.deleted_at)) {
+        throw new Error(`${normalizedEmail} already has an account; change its role on the Users page instead`);
+      }
+      
+      // A new invite replaces any earlier one still pending for the same address
+      const now = new Date();
+      this.tables.admin_invites
+        .filter(invite => invite.email === normalizedEmail && getAdminInviteStatus(invite, now) === 'pending')
+        .forEach(invite => { invite.revoked_at = now.toISOString(); });
+      
+      const token = Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+      const row = {
+        invite_id: this.nextId(this.tables.admin_invites, 'invite_id'),
+        email: normalizedEmail,
+        role,
+        token_hash: await this.hashInviteToken(token),
+        invited_by: adminId ? parseInt(adminId) : null,
+        expires_at: new Date(now.getTime() + ADMIN_INVITE_TTL_DAYS * DAY_IN_MS).toISOString(),
+        accepted_at: null,
+        accepted_user_id: null,
+        revoked_at: null,
+        created_at: now.toISOString()
+      };
+      
+      this.tables.admin_invites.push(row);
+      return { data: { invite: this.toAdminInvite(row), token }, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async revokeAdminInvite(id: string): Promise<{ data: AdminInvite | null; error: string | null }> {
+    try {
+      const row = this.tables.admin_invites.find(invite => invite.invite_id === parseInt(id));
+      if (!row || row.accepted_at || row.revoked_at) throw new Error('Invite not found or no longer pending');
+      
+      row.revoked_at = new Date().toISOString();
+      return { data: this.toAdminInvite(row), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getAdminInviteByToken(token: string): Promise<AdminInvite | null> {
+    const row = await this.findInviteRow(token);
+    return row ? this.toAdminInvite(row) : null;
+  }
+  
+  async acceptAdminInvite(token: string, acceptance: AdminInviteAcceptance): Promise<{ data: User | null; error: string | null }> {
+    try {
+      const invite = await this.findInviteRow(token);
+      if (!invite || getAdminInviteStatus(invite) !== 'pending') throw new Error(INVALID_INVITE_MESSAGE);
+      if (this.tables.users.some(u => u.email.toLowerCase() === invite.email && !u.deleted_at)) {
+        throw new Error(`${invite.email} already has an account`);
+      }
+      
+      // Passwords are not checked in memory mode, so only the profile is stored
+      const now = new Date().toISOString();
+      const row = {
+        user_id: this.nextId(this.tables.users, 'user_id'),
+        sso_id: `invite-${invite.invite_id}`,
+        username: invite.email.split('@')[0],
+        email: invite.email,
+        first_name: acceptance.first_name.trim(),
+        last_name: acceptance.last_name.trim(),
+        role: invite.role,
+        redeemable_points: 0,
+        profile_picture: null,
+        created_at: now,
+        updated_at: now
+      };
+      
+      this.tables.users.push(row);
+      invite.accepted_at = now;
+      invite.accepted_user_id = row.user_id;
+      return { data: this.toUser(row), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  // Mirrors the bulk_* functions: each user is applied on its own and failures are reported per user
+  private applyToEachUser(ids: string[], apply: (row: any) => void): BulkUserResult {
+    const result: BulkUserResult = { succeeded: [], failed: [] };
+    Array.from(new Set(ids)).forEach(id => {
+      try {
+        const row = this.findUserRow(id);
+        if (!row) throw new Error('User not found');
+        apply(row);
+        result.succeeded.push(id);
+      } catch (err: any) {
+        result.failed.push({ id, error: err.message });
+      }
+    });
+    return result;
+  }
+  
+  async bulkAdjustPoints(ids: string[], points: number, options: PointsAdjustmentOptions = {}): Promise<{ data: BulkUserResult | null; error: string | null }> {
+    try {
+      if (!points) throw new Error('Points change must not be zero');
+      if (!options.note?.trim()) throw new Error('A reason is required for bulk points changes');
+      
+      const data = this.applyToEachUser(ids, row => {
+        this.recordPointsTransaction(row.user_id, points, { ...options, reason: 'manual_adjustment', note: options.note!.trim() });
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async bulkUpdateUserRole(ids: string[], role: string): Promise<{ data: BulkUserResult | null; error: string | null }> {
+    try {
+      if (!role.trim()) throw new Error('A role is required');
+      
+      const now = new Date().toISOString();
+      const data = this.applyToEachUser(ids, row => {
+        row.role = role;
+        row.updated_at = now;
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async bulkDeactivateUsers(ids: string[], adminId?: string): Promise<{ data: BulkUserResult | null; error: string | null }> {
+    try {
+      const now = new Date().toISOString();
+      const data = this.applyToEachUser(ids, row => {
+        if (adminId && row.user_id === parseInt(adminId)) throw new Error('You can not deactivate your own account');
+        if (row.deactivated_at) throw new Error('User is already deactivated');
+        row.deactivated_at = now;
+        row.deactivated_by = adminId ? parseInt(adminId) : null;
+        row.updated_at = now;
+      });
+      return { data, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async getPointsLedger(userId: string): Promise<PointsTransaction[]> {
+    return this.tables.points_transactions
+      .filter(t => t.user_id === parseInt(userId))
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime() || b.transaction_id - a.transaction_id)
+      .map(row => {
+        const admin = row.admin_id ? this.findUserRow(row.admin_id) : null;
+        return {
+          id: row.transaction_id.toString(),
+          user_id: row.user_id.toString(),
+          delta: row.delta,
+          reason: row.reason,
+          reference_id: row.reference_id?.toString() || null,
+          admin_id: row.admin_id?.toString() || null,
+          admin_name: admin ? `${admin.first_name} ${admin.last_name}`.trim() : null,
+          note: row.note,
+          balance_after: row.balance_after,
+          created_at: row.created_at
+        };
+      });
+  }
+  
+  async getEvents(): Promise<Event[]> {
+    return [...this.tables.events]
+      .sort(this.byNewest('created_at'))
+      .map(row => this.toEvent(row));
+  }
+  
+  async createEvent(eventData: Partial<Event>): Promise<{ data: Event | null; error: string | null }> {
+    try {
+      let startDate: string;
+      let endDate: string;
+      
+      if (eventData.start_date && eventData.end_date) {
+        startDate = new Date(eventData.start_date).toISOString();
+        endDate = new Date(eventData.end_date).toISOString();
+      } else if (eventData.date) {
+        const start = new Date(eventData.date);
+        start.setHours(9, 0, 0, 0);
+        const end = new Date(eventData.date);
+        end.setHours(17, 0, 0, 0);
+        startDate = start.toISOString();
+        endDate = end.toISOString();
+      } else {
+        throw new Error('Event date is required');
+      }
+      
+      const now = new Date().toISOString();
+      const row = {
+        event_id: this.nextId(this.tables.events, 'event_id'),
+        title: eventData.title?.trim(),
+        description: eventData.description?.trim() || '',
+        start_date: startDate,
+        end_date: endDate,
+        location: eventData.location?.trim(),
+        points: eventData.points || 100,
+        max_participants: eventData.max_participants || DEFAULT_EVENT_CAPACITY,
+        thumbnail_image: eventData.image_url || 'https://images.pexels.com/photos/3952241/pexels-photo-3952241.jpeg',
+        created_at: now,
+        updated_at: now
+      };
+      
+      this.tables.events.push(row);
+      return { data: this.toEvent(row), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async updateEvent(id: string, eventData: Partial<Event>): Promise<{ data: Event | null; error: string | null }> {
+    try {
+      const row = this.tables.events.find(e => e.event_id === parseInt(id));
+      if (!row) throw new Error('Event not found');
+      
+      if (eventData.title) row.title = eventData.title;
+      if (eventData.description !== undefined) row.description = eventData.description;
+      if (eventData.location) row.location = eventData.location;
+      if (eventData.image_url) row.thumbnail_image = eventData.image_url;
+      if (eventData.start_date) row.start_date = new Date(eventData.start_date).toISOString();
+      if (eventData.end_date) row.end_date = new Date(eventData.end_date).toISOString();
+      if (eventData.max_participants) row.max_participants = eventData.max_participants;
+      row.updated_at = new Date().toISOString();
+      this.promoteWaitlist(row.event_id);
+      
+      return { data: this.toEvent(row), error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async deleteEvent(id: string): Promise<{ error: string | null }> {
+    const eventId = parseInt(id);
+    this.tables.events = this.tables.events.filter(e => e.event_id !== eventId);
+    this.tables.event_participants = this.tables.event_participants.filter(p => p.event_id !== eventId);
+    this.tables.feedback.forEach(f => {
+      if (f.event_id === eventId) f.event_id = null;
+    });
+    return { error: null };
+  }
+  
+  private promoteWaitlist(eventId: number) {
+    const event = this.tables.events.find(e => e.event_id === eventId);
+    if (!event) return;
+    
+    const participants = this.tables.event_participants.filter(p => p.event_id === eventId);
+    let freeSeats = (event.max_participants || DEFAULT_EVENT_CAPACITY) - participants.filter(p => takesEventSeat(p.status)).length;
+    
+    participants
+      .filter(p => p.status === 'waitlisted')
+      .sort((a, b) => new Date(a.joined_at).getTime() - new Date(b.joined_at).getTime())
+      .forEach(p => {
+        if (freeSeats <= 0) return;
+        p.status = 'registered';
+        freeSeats--;
+      });
+  }
+  
+  async registerParticipant(eventId: string, userId: string): Promise<{ data: EventParticipant | null; error: string | null }> {
+    const event = this.tables.events.find(e => e.event_id === parseInt(eventId));
+    if (!event) return { data: null, error: 'Event not found' };
+    const user = this.findUserRow(userId);
+    if (!user) return { data: null, error: 'User not found' };
+    if (user.deactivated_at || user.deleted_at) return { data: null, error: `User ${userId} is deactivated` };
+    
+    const participants = this.tables.event_participants.filter(p => p.event_id === event.event_id);
+    if (participants.some(p => p.user_id === parseInt(userId) && p.status !== 'cancelled')) {
+      return { data: null, error: 'User is already registered for this event' };
+    }
+    
+    const seatsTaken = participants.filter(p => takesEventSeat(p.status)).length;
+    const row = {
+      participant_id: this.nextId(this.tables.event_participants, 'participant_id'),
+      user_id: parseInt(userId),
+      event_id: event.event_id,
+      joined_at: new Date().toISOString(),
+      status: seatsTaken >= (event.max_participants || DEFAULT_EVENT_CAPACITY) ? 'waitlisted' : 'registered'
+    };
+    
+    this.tables.event_participants.push(row);
+    return { data: this.toParticipant(row), error: null };
+  }
+  
+  async cancelRegistration(eventId: string, userId: string): Promise<{ error: string | null }> {
+    const participant = this.tables.event_participants.find(
+      p => p.event_id === parseInt(eventId) && p.user_id === parseInt(userId) && p.status !== 'cancelled'
+    );
+    if (!participant) return { error: 'Registration not found' };
+    
+    participant.status = 'cancelled';
+    this.promoteWaitlist(participant.event_id);
+    return { error: null };
+  }
+  
+  private toParticipant(row: any): EventParticipant {
+    const user = this.findUserRow(row.user_id);
+    return {
+      id: row.participant_id.toString(),
+      event_id: row.event_id.toString(),
+      user_id: row.user_id.toString(),
+      status: row.status,
+      joined_at: row.joined_at,
+      points_awarded_at: row.points_awarded_at || null,
+      user_name: user ? `${user.first_name} ${user.last_name}`.trim() : 'Unknown User',
+      user_email: user?.email || '',
+      user_avatar: user?.profile_picture || null
+    };
+  }
+  
+  async getEventParticipants(eventId: string): Promise<EventParticipant[]> {
+    return this.tables.event_participants
+      .filter(p => p.event_id === parseInt(eventId))
+      .sort((a, b) => new Date(a.joined_at).getTime() - new Date(b.joined_at).getTime())
+      .map(row => this.toParticipant(row));
+  }
+  
+  async updateParticipantStatus(participantId: string, status: ParticipantStatus): Promise<{ data: EventParticipant | null; error: string | null }> {
+    const participant = this.tables.event_participants.find(p => p.participant_id === parseInt(participantId));
+    if (!participant) return { data: null, error: 'Participant not found' };
+    
+    // Moving a waitlisted or cancelled row into a seat is held to the same rules as a new registration
+    if (takesEventSeat(status) && !takesEventSeat(participant.status)) {
+      const event = this.tables.events.find(e => e.event_id === participant.event_id);
+      const others = this.tables.event_participants.filter(p => p.event_id === participant.event_id && p !== participant);
+      if (participant.status === 'cancelled' && others.some(p => p.user_id === participant.user_id && p.status !== 'cancelled')) {
+        return { data: null, error: 'User is already registered for this event' };
+      }
+      if (others.filter(p => takesEventSeat(p.status)).length >= (event?.max_participants || DEFAULT_EVENT_CAPACITY)) {
+        return { data: null, error: `Event ${participant.event_id} is full` };
+      }
+    }
+    
+    participant.status = status;
+    this.promoteWaitlist(participant.event_id);
+    return { data: this.toParticipant(participant), error: null };
+  }
+  
+  async removeParticipant(participantId: string): Promise<{ error: string | null }> {
+    const participant = this.tables.event_participants.find(p => p.participant_id === parseInt(participantId));
+    if (!participant) return { error: 'Participant not found' };
+    
+    this.tables.event_participants = this.tables.event_participants.filter(p => p !== participant);
+    this.promoteWaitlist(participant.event_id);
+    return { error: null };
+  }
+  
+  async checkInParticipants(eventId: string, participantIds: string[], adminId?: string): Promise<{ data: CheckInResult[] | null; error: string | null }> {
+    const event = this.tables.events.find(e => e.event_id === parseInt(eventId));
+    if (!event) return { data: null, error: 'Event not found' };
+    
+    const ids = participantIds.map(id => parseInt(id));
+    const now = new Date().toISOString();
+    
+    const results = this.tables.event_participants
+      .filter(p => p.event_id === event.event_id && ids.includes(p.participant_id) && takesEventSeat(p.status))
+      .map(p => {
+        p.status = 'attended';
+        
+        // Points are credited once per user and event, so re-registering after a
+        // check-in does not earn them again
+        let pointsAwarded = 0;
+        const alreadyCredited = this.tables.points_transactions.some(t =>
+          t.user_id === p.user_id && t.reason === 'event_attendance' && t.reference_id === event.event_id
+        );
+        if (!p.points_awarded_at) {
+          if (event.points > 0 && !alreadyCredited) {
+            this.recordPointsTransaction(p.user_id, event.points, {
+              reason: 'event_attendance',
+              referenceId: event.event_id.toString(),
+              adminId
+            });
+            pointsAwarded = event.points;
+          }
+          p.points_awarded_at = now;
+        }
+        
+        return {
+          participant_id: p.participant_id.toString(),
+          user_id: p.user_id.toString(),
+          points_awarded: pointsAwarded
+        };
+      });
+    
+    return { data: results, error: null };
+  }
+  
+  async getMissions(): Promise<Mission[]> {
+    const counts = this.countSubmissionsByMission();
+    return [...this.tables.monthly_missions]
+      .sort(this.byNewest('created_at'))
+      .map(row => this.toMission(row, counts.get(row.mission_id)));
+  }
+  
+  async createMission(mission: Partial<Mission>): Promise<{ data: Mission | null; error: string | null }> {
+    if (!mission.start_date || !mission.end_date) return { data: null, error: 'Mission start and end dates are required' };
+    if (new Date(mission.end_date) < new Date(mission.start_date)) return { data: null, error: 'Mission end date must be after the start date' };
+    
+    const now = new Date().toISOString();
+    const startDate = new Date(mission.start_date).toISOString();
+    const row = {
+      mission_id: this.nextId(this.tables.monthly_missions, 'mission_id'),
+      title: mission.title || '',
+      description: mission.description || '',
+      points: mission.points ?? 0,
+      start_date: startDate,
+      end_date: new Date(mission.end_date).toISOString(),
+      month_year: startDate.slice(0, 7),
+      template_id: null,
+      created_at: now,
+      updated_at: now
+    };
+    
+    this.tables.monthly_missions.push(row);
+    return { data: this.toMission(row), error: null };
+  }
+  
+  async updateMission(id: string, mission: Partial<Mission>): Promise<{ data: Mission | null; error: string | null }> {
+    const row = this.tables.monthly_missions.find(m => m.mission_id === parseInt(id));
+    if (!row) return { data: null, error: 'Mission not found' };
+    
+    const startDate = mission.start_date ? new Date(mission.start_date).toISOString() : row.start_date;
+    const endDate = mission.end_date ? new Date(mission.end_date).toISOString() : row.end_date;
+    if (new Date(endDate) < new Date(startDate)) return { data: null, error: 'Mission end date must be after the start date' };
+    
+    if (mission.title !== undefined) row.title = mission.title;
+    if (mission.description !== undefined) row.description = mission.description;
+    if (mission.points !== undefined) row.points = mission.points;
+    row.start_date = startDate;
+    row.end_date = endDate;
+    row.month_year = startDate.slice(0, 7);
+    row.updated_at = new Date().toISOString();
+    
+    return { data: this.toMission(row), error: null };
+  }
+  
+  async deleteMission(id: string): Promise<{ error: string | null }> {
+    const missionId = parseInt(id);
+    const mission = this.tables.monthly_missions.find(m => m.mission_id === missionId);
+    const template = mission?.template_id && this.tables.mission_templates.find(t => t.template_id === mission.template_id);
+    // Mirrors the skip_deleted_template_period trigger, so spawning does not bring the mission back
+    if (template && !(template.skipped_months || []).includes(mission.month_year)) {
+      template.skipped_months = [...(template.skipped_months || []), mission.month_year];
+    }
+    this.tables.monthly_missions = this.tables.monthly_missions.filter(m => m.mission_id !== missionId);
+    this.tables.user_monthly_missions = this.tables.user_monthly_missions.filter(s => s.mission_id !== missionId);
+    return { error: null };
+  }
+  
+  async getMissionTemplates(): Promise<MissionTemplate[]> {
+    return [...this.tables.mission_templates]
+      .sort(this.byNewest('created_at'))
+      .map(row => this.toMissionTemplate(row));
+  }
+  
+  async createMissionTemplate(template: Partial<MissionTemplate>): Promise<{ data: MissionTemplate | null; error: string | null }> {
+    if (!template.first_month) return { data: null, error: 'First month is required' };
+    if (template.last_month && template.last_month < template.first_month) return { data: null, error: 'Last month must not be before the first month' };
+    
+    const now = new Date().toISOString();
+    const row = {
+      template_id: this.nextId(this.tables.mission_templates, 'template_id'),
+      title: template.title || '',
+      description: template.description || '',
+      points: template.points ?? 0,
+      recurrence: template.recurrence || 'monthly',
+      first_month: template.first_month,
+      last_month: template.last_month || null,
+      is_active: template.is_active ?? true,
+      created_at: now,
+      updated_at: now
+    };
+    
+    this.tables.mission_templates.push(row);
+    return { data: this.toMissionTemplate(row), error: null };
+  }
+  
+  async updateMissionTemplate(id: string, template: Partial<MissionTemplate>): Promise<{ data: MissionTemplate | null; error: string | null }> {
+    const row = this.tables.mission_templates.find(t => t.template_id === parseInt(id));
+    if (!row) return { data: null, error: 'Mission template not found' };
+    
+    const firstMonth = template.first_month ?? row.first_month;
+    const lastMonth = template.last_month !== undefined ? template.last_month || null : row.last_month;
+    if (lastMonth && lastMonth < firstMonth) return { data: null, error: 'Last month must not be before the first month' };
+    
+    if (template.title !== undefined) row.title = template.title;
+    if (template.description !== undefined) row.description = template.description;
+    if (template.points !== undefined) row.points = template.points;
+    if (template.recurrence !== undefined) row.recurrence = template.recurrence;
+    if (template.is_active !== undefined) row.is_active = template.is_active;
+    row.first_month = firstMonth;
+    row.last_month = lastMonth;
+    row.updated_at = new Date().toISOString();
+    
+    return { data: this.toMissionTemplate(row), error: null };
+  }
+  
+  // Spawned missions outlive their template
+  async deleteMissionTemplate(id: string): Promise<{ error: string | null }> {
+    const templateId = parseInt(id);
+    this.tables.mission_templates = this.tables.mission_templates.filter(t => t.template_id !== templateId);
+    this.tables.monthly_missions.forEach(m => {
+      if (m.template_id === templateId) m.template_id = null;
+    });
+    return { error: null };
+  }
+  
+  // Mirrors spawn_recurring_missions: one mission per template and period, never duplicated
+  async spawnRecurringMissions(): Promise<{ data: Mission[]; error: string | null }> {
+    const spawned: any[] = [];
+    
+    this.tables.mission_templates
+      .filter(t => t.is_active)
+      .forEach(template => {
+        getDueMissionPeriods(template).forEach(period => {
+          const exists = this.tables.monthly_missions.some(m => m.template_id === template.template_id && m.month_year === period);
+          if (exists || (template.skipped_months || []).includes(period)) return;
+          
+          const now = new Date().toISOString();
+          const row = {
+            mission_id: this.nextId(this.tables.monthly_missions, 'mission_id'),
+            title: template.title,
+            description: template.description,
+            points: template.points,
+            ...getMissionPeriodWindow(period, template.recurrence),
+            month_year: period,
+            template_id: template.template_id,
+            created_at: now,
+            updated_at: now
+          };
+          this.tables.monthly_missions.push(row);
+          spawned.push(row);
+        });
+      });
+    
+    return { data: spawned.map(row => this.toMission(row)), error: null };
+  }
+  
+  async getMissionSubmissions(missionId?: string): Promise<MissionSubmission[]> {
+    return this.tables.user_monthly_missions
+      .filter(s => !missionId || s.mission_id === parseInt(missionId))
+      .sort(this.byNewest('created_at'))
+      .map(s => {
+        const user = this.findUserRow(s.user_id);
+        return {
+          id: `${s.user_id}-${s.mission_id}-${s.month_year}`,
+          user_id: s.user_id.toString(),
+          mission_id: s.mission_id.toString(),
+          photo_upload_count: s.photo_upload_count,
+          status: s.status,
+          created_at: s.created_at,
+          updated_at: s.updated_at,
+          month_year: s.month_year,
+          photo_path_1: s.photo_path_1,
+          photo_path_2: s.photo_path_2,
+          photo_path_3: s.photo_path_3,
+          points_awarded: s.points_awarded ?? null,
+          photo_reviews: s.photo_reviews || [],
+          rejection_reason: s.rejection_reason ?? null,
+          user_name: user ? `${user.first_name} ${user.last_name}` : '',
+          user_email: user?.email || '',
+          user_avatar: user?.profile_picture || ''
+        };
+      });
+  }
+  
+  private findSubmissionRow(userId: string, missionId: string, monthYear?: string) {
+    return this.tables.user_monthly_missions
+      .filter(s =>
+        s.user_id === parseInt(userId) &&
+        s.mission_id === parseInt(missionId) &&
+        (!monthYear || s.month_year === monthYear)
+      )
+      .sort(this.byNewest('created_at'))[0];
+  }
+  
+  private recordSubmissionHistory(submission: any, fromStatus: string | null, entry: Partial<SubmissionStatusChange>) {
+    this.tables.mission_submission_status_history.push({
+      history_id: this.nextId(this.tables.mission_submission_status_history, 'history_id'),
+      user_id: submission.user_id,
+      mission_id: submission.mission_id,
+      month_year: submission.month_year,
+      from_status: fromStatus,
+      to_status: submission.status,
+      reason: entry.reason ?? null,
+      source: entry.source || 'review',
+      changed_by: entry.changed_by ?? null,
+      created_at: new Date().toISOString()
+    });
+  }
+  
+  // Mirrors set_mission_submission_status: approval credits the mission points once,
+  // leaving the approved state reverses them
+  private setSubmissionStatus(
+    userId: string,
+    missionId: string,
+    status: MissionSubmission['status'],
+    options: SubmissionActionOptions = {}
+  ): { data: SubmissionReviewResult | null; error: string | null } {
+    try {
+      const reason = options.reason?.trim() || null;
+      if (status === 'rejected' && !reason) throw new Error('A reason is required when rejecting a submission');
+      
+      const submission = this.findSubmissionRow(userId, missionId, options.monthYear);
+      if (!submission) throw new Error('Submission not found');
+      const previousStatus = submission.status;
+      const previousReason = submission.rejection_reason ?? null;
+      
+      let pointsChange = 0;
+      const awarded = submission.points_awarded ?? null;
+      
+      if (status === 'approved' && awarded === null) {
+        const mission = this.tables.monthly_missions.find(m => m.mission_id === submission.mission_id);
+        const points = mission?.points || 0;
+        if (points > 0) {
+          this.recordPointsTransaction(submission.user_id, points, {
+            reason: 'mission_approval',
+            referenceId: submission.mission_id.toString(),
+            adminId: options.adminId,
+            note: `Mission submission ${submission.month_year} approved`
+          });
+        }
+        submission.points_awarded = points;
+        pointsChange = points;
+      } else if (status !== 'approved' && awarded !== null) {
+        if (awarded > 0) {
+          this.recordPointsTransaction(submission.user_id, -awarded, {
+            reason: 'mission_approval',
+            referenceId: submission.mission_id.toString(),
+            adminId: options.adminId,
+            note: `Mission submission ${submission.month_year} approval reverted`
+          });
+        }
+        submission.points_awarded = null;
+        pointsChange = -awarded;
+      }
+      
+      submission.status = status;
+      submission.rejection_reason = status === 'rejected' ? reason : null;
+      submission.updated_at = new Date().toISOString();
+      
+      if (previousStatus !== status || previousReason !== submission.rejection_reason) {
+        this.recordSubmissionHistory(submission, previousStatus, {
+          reason: submission.rejection_reason,
+          source: 'review',
+          changed_by: options.adminId ? parseInt(options.adminId) : null
+        });
+      }
+      return { data: { status, points_change: pointsChange }, error: null };
+    } catch (err: any) {
+      return { data: null, error: err.message };
+    }
+  }
+  
+  async approveSubmission(userId: string, missionId: string, options: SubmissionActionOptions = {}): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    return this.setSubmissionStatus(userId, missionId, 'approved', options);
+  }
+  
+  async rejectSubmission(userId: string, missionId: string, options: SubmissionActionOptions = {}): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    return this.setSubmissionStatus(userId, missionId, 'rejected', options);
+  }
+  
+  async revertSubmission(userId: string, missionId: string, options: SubmissionActionOptions = {}): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    return this.setSubmissionStatus(userId, missionId, 'pending', options);
+  }
+  
+  async reviewSubmissionPhotos(
+    userId: string,
+    missionId: string,
+    reviews: PhotoReview[],
+    options: SubmissionActionOptions = {}
+  ): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    if (reviews.length === 0) return { data: null, error: 'At least one photo review is required' };
+    const missingReason = reviews.find(r => r.status === 'rejected' && !r.reason?.trim());
+    if (missingReason) return { data: null, error: `A reason is required when rejecting photo ${missingReason.slot}` };
+    
+    const submission = this.findSubmissionRow(userId, missionId, options.monthYear);
+    if (!submission) return { data: null, error: 'Submission not found' };
+    
+    submission.photo_reviews = reviews.map(r => ({ ...r }));
+    const status = reviews.some(r => r.status === 'accepted') ? 'approved' : 'rejected';
+    const reason = status === 'rejected'
+      ? [...reviews].sort((a, b) => a.slot - b.slot).map(r => `Photo ${r.slot}: ${r.reason!.trim()}`).join('; ')
+      : undefined;
+    return this.setSubmissionStatus(userId, missionId, status, { ...options, monthYear: submission.month_year, reason });
+  }
+  
+  // Mirrors the reopen_resubmitted_mission trigger
+  async resubmitSubmission(
+    userId: string,
+    missionId: string,
+    photoPaths: string[],
+    options: SubmissionActionOptions = {}
+  ): Promise<{ data: SubmissionReviewResult | null; error: string | null }> {
+    if (photoPaths.length === 0 || photoPaths.length > 3) return { data: null, error: 'Upload between one and three photos' };
+    
+    const submission = this.findSubmissionRow(userId, missionId, options.monthYear);
+    if (!submission || submission.status === 'approved') return { data: null, error: 'No open submission to re-upload' };
+    
+    submission.photo_path_1 = photoPaths[0];
+    submission.photo_path_2 = photoPaths[1] || null;
+    submission.photo_path_3 = photoPaths[2] || null;
+    submission.photo_upload_count = photoPaths.length;
+    submission.updated_at = new Date().toISOString();
+    
+    if (submission.status === 'rejected') {
+      submission.status = 'pending';
+      submission.rejection_reason = null;
+      submission.photo_reviews = [];
+      this.recordSubmissionHistory(submission, 'rejected', { source: 'resubmission' });
     }
+    return { data: { status: submission.status, points_change: 0 }, error: null };
   }
   
-  async signOut(): Promise<AuthResult> {
-    this.authToken = null;
-    localStorage.removeItem('authToken');
-    return { data: null, error: null };
+  async getSubmissionHistory(userId: string, missionId: string, monthYear: string): Promise<SubmissionStatusChange[]> {
+    return this.tables.mission_submission_status_history
+      .filter(h => h.user_id === parseInt(userId) && h.mission_id === parseInt(missionId) && h.month_year === monthYear)
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.history_id - b.history_id)
+      .map(h => {
+        const admin = h.changed_by ? this.findUserRow(h.changed_by) : null;
+        return {
+          id: h.history_id.toString(),
+          from_status: h.from_status,
+          to_status: h.to_status,
+          reason: h.reason,
+          source: h.source,
+          changed_by: h.changed_by,
+          changed_by_name: admin ? `${admin.first_name} ${admin.last_name}` : undefined,
+          created_at: h.created_at
+        };
+      });
   }
   
-  async getCurrentUser(): Promise<User | null> {
-    try {
-      return await this.request<User>('/api/auth/me');
-    } catch {
-      return null;
-    }
+  async getRejectionReasons(): Promise<RejectionReasonTemplate[]> {
+    return [...this.tables.mission_rejection_reasons]
+      .sort((a, b) => a.title.localeCompare(b.title))
+      .map(r => this.toRejectionReason(r));
   }
   
-  async getUsers(): Promise<User[]> {
-    return this.request<User[]>('/api/users');
+  async createRejectionReason(reasonData: Partial<RejectionReasonTemplate>): Promise<{ data: RejectionReasonTemplate | null; error: string | null }> {
+    if (!reasonData.message?.trim()) return { data: null, error: 'Reason message is required' };
+    
+    const now = new Date().toISOString();
+    const row = {
+      reason_id: this.nextId(this.tables.mission_rejection_reasons, 'reason_id'),
+      title: reasonData.title || '',
+      message: reasonData.message,
+      created_at: now,
+      updated_at: now
+    };
+    this.tables.mission_rejection_reasons.push(row);
+    return { data: this.toRejectionReason(row), error: null };
   }
   
-  async createUser(userData: Partial<User>): Promise<{ data: User | null; error: string | null }> {
-    try {
-      const data = await this.request<User>('/api/users', {
-        method: 'POST',
-        body: JSON.stringify(userData),
-      });
-      return { data, error: null };
-    } catch (err: any) {
-      return { data: null, error: err.message };
-    }
+  async updateRejectionReason(id: string, reasonData: Partial<RejectionReasonTemplate>): Promise<{ data: RejectionReasonTemplate | null; error: string | null }> {
+    const row = this.tables.mission_rejection_reasons.find(r => r.reason_id === parseInt(id));
+    if (!row) return { data: null, error: 'Rejection reason not found' };
+    if (reasonData.message !== undefined && !reasonData.message.trim()) return { data: null, error: 'Reason message is required' };
+    
+    Object.assign(row, {
+      ...(reasonData.title !== undefined && { title: reasonData.title }),
+      ...(reasonData.message !== undefined && { message: reasonData.message }),
+      updated_at: new Date().toISOString()
+    });
+    return { data: this.toRejectionReason(row), error: null };
   }
   
-  async updateUser(id: string, userData: Partial<User>): Promise<{ data: User | null; error: string | null }> {
-    try {
-      const data = await this.request<User>(`/api/users/${id}`, {
-        method: 'PUT',
-        body: JSON.stringify(userData),
-      });
-      return { data, error: null };
-    } catch (err: any) {
-      return { data: null, error: err.message };
-    }
+  async deleteRejectionReason(id: string): Promise<{ error: string | null }> {
+    this.tables.mission_rejection_reasons = this.tables.mission_rejection_reasons.filter(r => r.reason_id !== parseInt(id));
+    return { error: null };
   }
   
-  async updateUserRole(id: string, role: string): Promise<{ data: User | null; error: string | null }> {
-    return this.updateUser(id, { role });
+  async getRewards(): Promise<Reward[]> {
+    return [...this.tables.rewards]
+      .sort(this.byNewest('created_at'))
+      .map(row => this.toReward(row));
   }
   
-  async addPointsToUser(id: string, points: number): Promise<{ data: User | null; error: string | null }> {
-    try {
-      const data = await this.request<User>(`/api/users/${id}/points`, {
-        method: 'POST',
-        body: JSON.stringify({ points }),
-      });
-      return { data, error: null };
-    } catch (err: any) {
-      return { data: null, error: err.message };
-    }
+  async createReward(rewardData: Partial<Reward>): Promise<{ data: Reward | null; error: string | null }> {
+    const now = new Date().toISOString();
+    const row = {
+      reward_id: this.nextId(this.tables.rewards, 'reward_id'),
+      name: rewardData.name?.trim(),
+      description: rewardData.description?.trim(),
+      points_required: rewardData.points_required || 0,
+      stock: rewardData.stock || 0,
+      image_url: rewardData.image_url || 'https://images.pexels.com/photos/264547/pexels-photo-264547.jpeg',
+      category: rewardData.category || 'merchandise',
+      start_date: rewardData.start_date || null,
+      end_date: rewardData.end_date || null,
+      max_per_user: rewardData.max_per_user || null,
+      limit_period: rewardData.limit_period || 'lifetime',
+      low_stock_threshold: rewardData.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+      created_at: now,
+      updated_at: now
+    };
+    
+    this.tables.rewards.push(row);
+    return { data: this.toReward(row), error: null };
   }
   
-  async getEvents(): Promise<Event[]> {
-    return this.request<Event[]>('/api/events');
+  async updateReward(id: string, rewardData: Partial<Reward>): Promise<{ data: Reward | null; error: string | null }> {
+    const row = this.tables.rewards.find(r => r.reward_id === parseInt(id));
+    if (!row) return { data: null, error: 'Reward not found' };
+    const previousStock = row.stock;
+    const previousThreshold = row.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+    
+    if (rewardData.name) row.name = rewardData.name;
+    if (rewardData.description !== undefined) row.description = rewardData.description;
+    if (rewardData.points_required !== undefined) row.points_required = rewardData.points_required;
+    if (rewardData.stock !== undefined) row.stock = rewardData.stock;
+    if (rewardData.image_url) row.image_url = rewardData.image_url;
+    if (rewardData.category) row.category = rewardData.category;
+    if (rewardData.start_date !== undefined) row.start_date = rewardData.start_date || null;
+    if (rewardData.end_date !== undefined) row.end_date = rewardData.end_date || null;
+    if (rewardData.max_per_user !== undefined) row.max_per_user = rewardData.max_per_user || null;
+    if (rewardData.limit_period) row.limit_period = rewardData.limit_period;
+    if (rewardData.low_stock_threshold !== undefined) row.low_stock_threshold = rewardData.low_stock_threshold;
+    row.updated_at = new Date().toISOString();
+    this.notifyStockLevel(row, previousStock, previousThreshold);
+    
+    return { data: this.toReward(row), error: null };
   }
   
-  async createEvent(eventData: Partial<Event>): Promise<{ data: Event | null; error: string | null }> {
-    try {
-      const data = await this.request<Event>('/api/events', {
-        method: 'POST',
-        body: JSON.stringify(eventData),
-      });
-      return { data, error: null };
-    } catch (err: any) {
-      return { data: null, error: err.message };
-    }
+  async deleteReward(id: string): Promise<{ error: string | null }> {
+    const rewardId = parseInt(id);
+    this.tables.rewards = this.tables.rewards.filter(r => r.reward_id !== rewardId);
+    this.tables.reward_redemptions = this.tables.reward_redemptions.filter(r => r.reward_id !== rewardId);
+    return { error: null };
   }
   
-  async updateEvent(id: string, eventData: Partial<Event>): Promise<{ data: Event | null; error: string | null }> {
-    try {
-      const data = await this.request<Event>(`/api/events/${id}`, {
-        method: 'PUT',
-        body: JSON.stringify(eventData),
-      });
-      return { data, error: null };
-    } catch (err: any) {
-      return { data: null, error: err.message };
+  // Mirrors the notify_reward_stock_level trigger: one notification per threshold crossing
+  private notifyStockLevel(reward: any, previousStock: number, previousThreshold: number = reward.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD) {
+    const threshold = reward.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+    let notification: { kind: AdminNotificationKind; title: string; message: string } | null = null;
+    
+    if (reward.stock <= 0 && previousStock > 0) {
+      notification = {
+        kind: 'out_of_stock',
+        title: `${reward.name} is out of stock`,
+        message: 'No units are left, so the reward can not be redeemed until it is restocked.'
+      };
+    } else if (reward.stock <= threshold && previousStock > previousThreshold) {
+      notification = {
+        kind: 'low_stock',
+        title: `${reward.name} is running low`,
+        message: `${reward.stock} left in stock, at or below the alert threshold of ${threshold}.`
+      };
     }
+    if (!notification) return;
+    
+    this.tables.admin_notifications.push({
+      notification_id: this.nextId(this.tables.admin_notifications, 'notification_id'),
+      ...notification,
+      permission: 'rewards.view',
+      entity_type: 'REWARD',
+      entity_id: reward.reward_id,
+      created_at: new Date().toISOString()
+    });
   }
   
-  async deleteEvent(id: string): Promise<{ error: string | null }> {
-    try {
-      await this.request(`/api/events/${id}`, { method: 'DELETE' });
-      return { error: null };
-    } catch (err: any) {
-      return { error: err.message };
-    }
+  private toRedemption(item: any): RewardRedemption {
+    const user = this.findUserRow(item.user_id);
+    const reward = this.tables.rewards.find(r => r.reward_id === item.reward_id);
+    return {
+      id: item.redemption_id.toString(),
+      user_id: item.user_id,
+      reward_id: item.reward_id,
+      points_deducted: item.points_deducted,
+      redeemed_at: item.redeemed_at,
+      status: item.status,
+      user_name: user ? `${user.first_name} ${user.last_name}`.trim() : 'Unknown User',
+      user_email: user?.email || '',
+      user_avatar: user?.profile_picture || null,
+      reward_name: reward?.name || 'Unknown Reward'
+    };
   }
   
-  async getRewards(): Promise<Reward[]> {
-    return this.request<Reward[]>('/api/rewards');
+  private recordRedemptionHistory(redemption: any, fromStatus: RedemptionStatus | null, note: string | null, adminId?: string) {
+    this.tables.reward_redemption_status_history.push({
+      history_id: this.nextId(this.tables.reward_redemption_status_history, 'history_id'),
+      redemption_id: redemption.redemption_id,
+      from_status: fromStatus,
+      to_status: redemption.status,
+      note,
+      changed_by: adminId ? parseInt(adminId) : null,
+      created_at: new Date().toISOString()
+    });
   }
   
-  async createReward(rewardData: Partial<Reward>): Promise<{ data: Reward | null; error: string | null }> {
+  async getRedemptions(rewardId?: string): Promise<RewardRedemption[]> {
+    return this.tables.reward_redemptions
+      .filter(item => !rewardId || item.reward_id === parseInt(rewardId))
+      .sort(this.byNewest('redeemed_at'))
+      .map(item => this.toRedemption(item));
+  }
+  
+  // Same rules as filter_redemptions
+  private filterRedemptions(query: RedemptionQuery): RewardRedemption[] {
+    const terms = getSearchTerms(query.userSearch);
+    const from = query.from ? new Date(query.from).getTime() : null;
+    const to = query.to ? new Date(query.to).getTime() : null;
+    
+    return this.tables.reward_redemptions
+      .filter(item => from === null || new Date(item.redeemed_at).getTime() >= from)
+      .filter(item => to === null || new Date(item.redeemed_at).getTime() <= to)
+      .filter(item => !query.rewardId || item.reward_id === parseInt(query.rewardId))
+      .filter(item => !query.status || item.status === query.status)
+      .sort((a, b) => new Date(b.redeemed_at).getTime() - new Date(a.redeemed_at).getTime() || b.redemption_id - a.redemption_id)
+      .map(item => this.toRedemption(item))
+      .filter(redemption => terms.every(term =>
+        (redemption.user_name || '').toLowerCase().includes(term) || (redemption.user_email || '').toLowerCase().includes(term)
+      ));
+  }
+  
+  async queryRedemptions(query: RedemptionQuery): Promise<PagedResult<RewardRedemption>> {
+    const matches = this.filterRedemptions(query);
+    const { from, to } = getPageRange(query.page, query.pageSize);
+    return { rows: matches.slice(from, to + 1), total: matches.length };
+  }
+  
+  async getRedemptionSummary(query: RedemptionQuery): Promise<RedemptionSummary> {
+    const matches = this.filterRedemptions(query);
+    return {
+      total_redemptions: matches.length,
+      total_points: matches
+        .filter(redemption => !isRedemptionRefunded(redemption.status))
+        .reduce((sum, redemption) => sum + redemption.points_deducted, 0)
+    };
+  }
+  
+  // Same checks and order as redeem_reward; nothing is changed unless every check passes
+  async redeemReward(userId: string, rewardId: string, adminId?: string): Promise<{ data: RewardRedemption | null; error: string | null }> {
     try {
-      const data = await this.request<Reward>('/api/rewards', {
-        method: 'POST',
-        body: JSON.stringify(rewardData),
-      });
-      return { data, error: null };
+      const reward = this.tables.rewards.find(r => r.reward_id === parseInt(rewardId));
+      if (!reward) throw new Error(`Reward ${rewardId} not found`);
+      
+      const availability = getRewardAvailability(reward);
+      if (availability === 'upcoming') {
+        throw new Error(`${reward.name} can not be redeemed before ${reward.start_date.slice(0, 10)}`);
+      }
+      if (availability === 'ended') throw new Error(`${reward.name} is no longer available`);
+      if ((reward.stock || 0) <= 0) throw new Error(`${reward.name} is out of stock`);
+      
+      const user = this.findUserRow(userId);
+      if (!user) throw new Error(`User ${userId} not found`);
+      if (user.deactivated_at || user.deleted_at) throw new Error(`User ${userId} is deactivated`);
+      
+      if (reward.max_per_user) {
+        const period: RewardLimitPeriod = reward.limit_period || 'lifetime';
+        const periodStart = getLimitPeriodStart(period);
+        const redeemed = this.tables.reward_redemptions.filter(r =>
+          r.user_id === user.user_id &&
+          r.reward_id === reward.reward_id &&
+          !isRedemptionRefunded(r.status) &&
+          (!periodStart || new Date(r.redeemed_at) >= periodStart)
+        ).length;
+        if (redeemed >= reward.max_per_user) {
+          throw new Error(`Limit reached: ${reward.name} can be redeemed ${reward.max_per_user} time(s) per user${period === 'lifetime' ? '' : ` per ${period}`}`);
+        }
+      }
+      
+      const balance = user.redeemable_points || 0;
+      if (balance < reward.points_required) {
+        throw new Error(`Not enough points: ${reward.name} needs ${reward.points_required}, the balance is ${balance}`);
+      }
+      
+      const now = new Date().toISOString();
+      const row = {
+        redemption_id: this.nextId(this.tables.reward_redemptions, 'redemption_id'),
+        user_id: user.user_id,
+        reward_id: reward.reward_id,
+        points_deducted: reward.points_required,
+        redeemed_at: now,
+        status: 'pending' as RedemptionStatus
+      };
+      
+      if (reward.points_required > 0) {
+        this.recordPointsTransaction(user.user_id, -reward.points_required, {
+          reason: 'redemption',
+          referenceId: row.redemption_id.toString(),
+          adminId,
+          note: reward.name
+        });
+      }
+      this.tables.reward_redemptions.push(row);
+      reward.stock -= 1;
+      reward.updated_at = now;
+      this.notifyStockLevel(reward, reward.stock + 1);
+      this.recordRedemptionHistory(row, null, null, adminId);
+      
+      return { data: this.toRedemption(row), error: null };
     } catch (err: any) {
       return { data: null, error: err.message };
     }
   }
   
-  async updateReward(id: string, rewardData: Partial<Reward>): Promise<{ data: Reward | null; error: string | null }> {
+  // Mirrors set_redemption_status: cancelling restocks and refunds, refunding returns the points only
+  async updateRedemptionStatus(id: string, status: RedemptionStatus, options: RedemptionStatusOptions = {}): Promise<{ data: RewardRedemption | null; error: string | null }> {
     try {
-      const data = await this.request<Reward>(`/api/rewards/${id}`, {
-        method: 'PUT',
-        body: JSON.stringify(rewardData),
-      });
-      return { data, error: null };
+      const redemption = this.tables.reward_redemptions.find(r => r.redemption_id === parseInt(id));
+      if (!redemption) throw new Error(`Redemption ${id} not found`);
+      
+      const fromStatus: RedemptionStatus = redemption.status;
+      if (!REDEMPTION_STATUS_TRANSITIONS[fromStatus]?.includes(status)) {
+        throw new Error(`A ${fromStatus} redemption can not be moved to ${status}`);
+      }
+      
+      const note = options.note?.trim() || null;
+      if (isRedemptionRefunded(status) && !note) {
+        throw new Error(`A reason is required to ${status === 'cancelled' ? 'cancel' : 'refund'} a redemption`);
+      }
+      
+      if (redemption.points_deducted > 0 && isRedemptionRefunded(status)) {
+        this.recordPointsTransaction(redemption.user_id, redemption.points_deducted, {
+          reason: 'redemption',
+          referenceId: redemption.redemption_id.toString(),
+          adminId: options.adminId,
+          note: `Refund: ${note}`
+        });
+      }
+      if (status === 'cancelled') {
+        const reward = this.tables.rewards.find(r => r.reward_id === redemption.reward_id);
+        if (reward) {
+          reward.stock = (reward.stock || 0) + 1;
+          reward.updated_at = new Date().toISOString();
+        }
+      }
+      
+      redemption.status = status;
+      this.recordRedemptionHistory(redemption, fromStatus, note, options.adminId);
+      
+      return { data: this.toRedemption(redemption), error: null };
     } catch (err: any) {
       return { data: null, error: err.message };
     }
   }
   
-  async deleteReward(id: string): Promise<{ error: string | null }> {
+  async getRedemptionHistory(id: string): Promise<RedemptionStatusChange[]> {
+    return this.tables.reward_redemption_status_history
+      .filter(h => h.redemption_id === parseInt(id))
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.history_id - b.history_id)
+      .map(h => {
+        const admin = h.changed_by ? this.findUserRow(h.changed_by) : null;
+        return {
+          id: h.history_id.toString(),
+          redemption_id: h.redemption_id.toString(),
+          from_status: h.from_status,
+          to_status: h.to_status,
+          note: h.note,
+          changed_by: h.changed_by,
+          changed_by_name: admin ? `${admin.first_name} ${admin.last_name}` : undefined,
+          created_at: h.created_at
+        };
+      });
+  }
+  
+  // Same checks as restock_reward
+  async restockReward(id: string, quantity: number, reason: string, adminId?: string): Promise<{ data: RewardRestock | null; error: string | null }> {
     try {
-      await this.request(`/api/rewards/${id}`, { method: 'DELETE' });
-      return { error: null };
+      if (!quantity || quantity <= 0) throw new Error('Restock quantity must be greater than 0');
+      if (!reason?.trim()) throw new Error('A reason is required to restock a reward');
+      
+      const reward = this.tables.rewards.find(r => r.reward_id === parseInt(id));
+      if (!reward) throw new Error(`Reward ${id} not found`);
+      
+      const now = new Date().toISOString();
+      const row = {
+        restock_id: this.nextId(this.tables.reward_restocks, 'restock_id'),
+        reward_id: reward.reward_id,
+        quantity,
+        reason: reason.trim(),
+        admin_id: adminId ? parseInt(adminId) : null,
+        stock_before: reward.stock || 0,
+        stock_after: (reward.stock || 0) + quantity,
+        created_at: now
+      };
+      reward.stock = row.stock_after;
+      reward.updated_at = now;
+      this.tables.reward_restocks.push(row);
+      
+      return { data: this.toRestock(row), error: null };
     } catch (err: any) {
-      return { error: err.message };
+      return { data: null, error: err.message };
     }
   }
   
-  async getRedemptions(rewardId?: string): Promise<RewardRedemption[]> {
-    const endpoint = rewardId ? `/api/rewards/${rewardId}/redemptions` : '/api/redemptions';
-    return this.request<RewardRedemption[]>(endpoint);
+  private toRestock(row: any): RewardRestock {
+    const admin = row.admin_id ? this.findUserRow(row.admin_id) : null;
+    return {
+      id: row.restock_id.toString(),
+      reward_id: row.reward_id,
+      quantity: row.quantity,
+      reason: row.reason,
+      admin_id: row.admin_id,
+      admin_name: admin ? `${admin.first_name} ${admin.last_name}` : undefined,
+      stock_before: row.stock_before,
+      stock_after: row.stock_after,
+      created_at: row.created_at
+    };
+  }
+  
+  async getRestocks(rewardId: string): Promise<RewardRestock[]> {
+    return this.tables.reward_restocks
+      .filter(r => r.reward_id === parseInt(rewardId))
+      .sort(this.byNewest('created_at'))
+      .map(r => this.toRestock(r));
   }
   
   async getFeedback(): Promise<Feedback[]> {
-    return this.request<Feedback[]>('/api/feedback');
+    return [...this.tables.feedback]
+      .sort(this.byNewest('submitted_at'))
+      .map(item => {
+        const user = this.findUserRow(item.user_id);
+        const event = this.tables.events.find(e => e.event_id === item.event_id);
+        return {
+          id: item.feedback_id.toString(),
+          user_id: item.user_id.toString(),
+          event_id: item.event_id?.toString(),
+          rating: item.rating,
+          comment: item.comment,
+          message: item.comment || '',
+          subject: item.event_id ? 'Event Feedback' : 'General Feedback',
+          user_name: user ? `${user.first_name} ${user.last_name}`.trim() : 'Anonymous User',
+          user_email: user?.email || '',
+          user_avatar: user?.profile_picture || null,
+          event_title: event?.title || null,
+          created_at: item.submitted_at,
+          submitted_at: item.submitted_at
+        };
+      });
   }
   
   async deleteFeedback(id: string): Promise<{ error: string | null }> {
-    try {
-      await this.request(`/api/feedback/${id}`, { method: 'DELETE' });
-      return { error: null };
-    } catch (err: any) {
-      return { error: err.message };
-    }
+    this.tables.feedback = this.tables.feedback.filter(f => f.feedback_id !== parseInt(id));
+    return { error: null };
   }
   
-  async markFeedbackAsRead(id: string): Promise<{ error: string | null }> {
-    try {
-      await this.request(`/api/feedback/${id}/read`, { method: 'POST' });
-      return { error: null };
-    } catch (err: any) {
-      return { error: err.message };
-    }
+  async markFeedbackAsRead(): Promise<{ error: string | null }> {
+    // Feedback has no read status in the schema, so this is a no-op
+    return { error: null };
   }
   
   async getAdminHistory(): Promise<AdminHistory[]> {
-    return this.request<AdminHistory[]>('/api/admin/history');
+    return [...this.tables.admin_activity_log]
+      .sort(this.byNewest('created_at'))
+      .slice(0, 100)
+      .map(item => {
+        const admin = this.findUserRow(item.admin_id);
+        return {
+          id: item.log_id.toString(),
+          log_id: item.log_id,
+          admin_id: item.admin_id,
+          action_type: item.action_type,
+          action: item.action_type,
+          entity_type: item.entity_type,
+          entity_id: item.entity_id,
+          details: item.details,
+          admin_name: admin ? `${admin.first_name} ${admin.last_name}`.trim() : 'System Admin',
+          admin_email: admin?.email || 'system@ecowave.com',
+          admin_avatar: admin?.profile_picture || null,
+          created_at: item.created_at
+        };
+      });
   }
   
   async logAdminAction(action: Partial<AdminHistory>): Promise<void> {
-    await this.request('/api/admin/history', {
-      method: 'POST',
-      body: JSON.stringify(action),
+    this.tables.admin_activity_log.push({
+      log_id: this.nextId(this.tables.admin_activity_log, 'log_id'),
+      admin_id: action.admin_id || this.currentUserId || 1,
+      action_type: action.action_type,
+      entity_type: action.entity_type,
+      entity_id: action.entity_id ?? 1,
+      details: action.details,
+      created_at: new Date().toISOString()
     });
   }
   
-  async getDashboardStats(): Promise<DashboardStats> {
-    return this.request<DashboardStats>('/api/dashboard/stats');
+  async getNotifications(adminId: string): Promise<AdminNotification[]> {
+    return this.tables.admin_notifications
+      .filter(n => accessControl.can(n.permission))
+      .sort(this.byNewest('created_at'))
+      .slice(0, NOTIFICATION_LIMIT)
+      .map(n => ({
+        id: n.notification_id.toString(),
+        kind: n.kind,
+        entity_type: n.entity_type,
+        entity_id: n.entity_id,
+        title: n.title,
+        message: n.message,
+        read: this.tables.admin_notification_reads.some(r => r.notification_id === n.notification_id && r.admin_id === parseInt(adminId)),
+        created_at: n.created_at
+      }));
   }
   
-  async getMonthlyEngagement(): Promise<MonthlyEngagement[]> {
-    return this.request<MonthlyEngagement[]>('/api/dashboard/engagement');
+  async markNotificationsRead(ids: string[], adminId: string): Promise<{ error: string | null }> {
+    const now = new Date().toISOString();
+    ids.forEach(id => {
+      const notificationId = parseInt(id);
+      const alreadyRead = this.tables.admin_notification_reads.some(r => r.notification_id === notificationId && r.admin_id === parseInt(adminId));
+      if (!alreadyRead) {
+        this.tables.admin_notification_reads.push({ notification_id: notificationId, admin_id: parseInt(adminId), read_at: now });
+      }
+    });
+    return { error: null };
   }
   
-  async uploadImage(file: File, folder?: string): Promise<ImageUploadResult> {
-    try {
-      const formData = new FormData();
-      formData.append('file', file);
-      if (folder) formData.append('folder', folder);
+  async getDashboardStats(): Promise<DashboardStats> {
+    const now = new Date();
+    const totalUsers = this.tables.users.length;
+    const activeEvents = this.tables.events.filter(e => new Date(e.end_date) >= now).length;
+    const uniqueParticipants = new Set(this.tables.event_participants.map(p => p.user_id)).size;
+    
+    return {
+      totalUsers,
+      activeEvents,
+      rewardsRedeemed: this.tables.reward_redemptions.length,
+      engagementRate: totalUsers ? Math.round((uniqueParticipants / totalUsers) * 100) : 0
+    };
+  }
+  
+  async getMonthlyEngagement(months: number = 8): Promise<MonthlyEngagement[]> {
+    const engagement = [];
+    const now = new Date();
+    
+    const countInMonth = (rows: any[], field: string, start: Date, end: Date) =>
+      rows.filter(row => {
+        const date = new Date(row[field]);
+        return date >= start && date < end;
+      }).length;
+    
+    for (let i = months - 1; i >= 0; i--) {
+      const start = new Date(now.getFullYear(), now.getMonth() - i, 1);
+      const end = new Date(now.getFullYear(), now.getMonth() - i + 1, 1);
       
-      const response = await fetch(`${this.apiBaseUrl}/api/upload`, {
-        method: 'POST',
-        body: formData,
-        headers: {
-          ...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
-        },
+      engagement.push({
+        month: start.toLocaleDateString('en-US', { month: 'short' }),
+        year: start.getFullYear(),
+        participants: countInMonth(this.tables.event_participants, 'joined_at', start, end),
+        events: countInMonth(this.tables.events, 'start_date', start, end),
+        feedback: countInMonth(this.tables.feedback, 'submitted_at', start, end),
+        rewards_redeemed: countInMonth(this.tables.reward_redemptions, 'redeemed_at', start, end)
       });
-      
-      if (!response.ok) throw new Error('Upload failed');
-      
-      const { imageUrl, imageId } = await response.json();
-      return { success: true, imageUrl, imageId };
-    } catch (err: any) {
-      return { success: false, error: err.message };
     }
+    
+    return engagement;
   }
   
-  async deleteImage(imageId: number): Promise<{ success: boolean; error?: string }> {
-    try {
-      await this.request(`/api/images/${imageId}`, { method: 'DELETE' });
-      return { success: true };
-    } catch (err: any) {
-      return { success: false, error: err.message };
-    }
+  async getDashboardOverview(periodDays: number = 30): Promise<DashboardOverview> {
+    const now = new Date();
+    const periodStart = new Date(now.getTime() - periodDays * DAY_IN_MS);
+    const previousStart = new Date(now.getTime() - 2 * periodDays * DAY_IN_MS);
+    const between = (value: string, from: Date, to: Date) => new Date(value) >= from && new Date(value) < to;
+    
+    const eventStatus: EventStatusBreakdown = { upcoming: 0, ongoing: 0, completed: 0 };
+    this.tables.events.forEach(event => {
+      eventStatus[getEventStatus(event.start_date, event.end_date, now)]++;
+    });
+    
+    const activeAt = (moment: Date) => this.tables.events.filter(event =>
+      new Date(event.created_at) <= moment && new Date(event.end_date) >= moment
+    ).length;
+    
+    const totalUsers = this.tables.users.length;
+    const previousUsers = this.tables.users.filter(u => new Date(u.created_at) < periodStart).length;
+    const redemptionsIn = (from: Date, to: Date) =>
+      this.tables.reward_redemptions.filter(r => between(r.redeemed_at, from, to)).length;
+    const participantsIn = (from: Date, to: Date) => new Set(
+      this.tables.event_participants.filter(p => between(p.joined_at, from, to)).map(p => p.user_id)
+    ).size;
+    
+    const currentRate = totalUsers ? (participantsIn(periodStart, now) / totalUsers) * 100 : 0;
+    const previousRate = previousUsers ? (participantsIn(previousStart, periodStart) / previousUsers) * 100 : 0;
+    
+    return {
+      eventStatus,
+      trends: {
+        totalUsers: calculateTrend(totalUsers, previousUsers),
+        activeEvents: calculateTrend(activeAt(now), activeAt(periodStart)),
+        rewardsRedeemed: calculateTrend(redemptionsIn(periodStart, now), redemptionsIn(previousStart, periodStart)),
+        engagementRate: calculateTrend(currentRate, previousRate)
+      },
+      periodDays
+    };
+  }
+  
+  async uploadImage(file: File): Promise<ImageUploadResult> {
+    // Object URLs only live as long as the page, which matches the lifetime of the in-memory data
+    return {
+      success: true,
+      imageUrl: URL.createObjectURL(file),
+      imageId: Date.now()
+    };
+  }
+  
+  async deleteImage(): Promise<{ success: boolean; error?: string }> {
+    return { success: true };
+  }
+  
+  async getSubmissionPhotoUrls(paths: string[]): Promise<Record<string, string>> {
+    // Seeded paths point at no real storage, so each one maps to a stable stock photo
+    const stockPhotos = [
+      'https://images.pexels.com/photos/2990650/pexels-photo-2990650.jpeg',
+      'https://images.pexels.com/photos/3952241/pexels-photo-3952241.jpeg',
+      'https://images.pexels.com/photos/802221/pexels-photo-802221.jpeg',
+      'https://images.pexels.com/photos/1072824/pexels-photo-1072824.jpeg',
+      'https://images.pexels.com/photos/957024/forest-trees-perspective-bright-957024.jpeg'
+    ];
+    
+    const urls: Record<string, string> = {};
+    paths.filter(Boolean).forEach(path => {
+      if (isAbsolutePhotoUrl(path)) {
+        urls[path] = path;
+        return;
+      }
+      const hash = Array.from(path).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 7);
+      urls[path] = stockPhotos[hash % stockPhotos.length];
+    });
+    return urls;
   }
 }
 
@@ -0,0 +1,144 @@
+// Admin roles and the permissions they grant. The same map is seeded into the
+// `role_permissions` table, so keep both in step when adding a permission.
+
+export type AdminRole = 'super_admin' | 'event_manager' | 'rewards_manager' | 'moderator' | 'auditor';
+
+export type Permission =
+  | 'dashboard.view'
+  | 'events.view'
+  | 'events.manage'
+  | 'events.delete'
+  | 'users.view'
+  | 'users.manage'
+  | 'users.points'
+  | 'users.delete'
+  | 'users.assign_role'
+  | 'missions.view'
+  | 'missions.manage'
+  | 'missions.review'
+  | 'rewards.view'
+  | 'rewards.manage'
+  | 'feedback.view'
+  | 'feedback.manage'
+  | 'admin_history.view'
+  | 'data.export';
+
+// Mobile app members; they have no access to the admin hub
+export const MEMBER_ROLE = 'user';
+
+export const ADMIN_ROLES: { value: AdminRole; label: string; description: string }[] = [
+  { value: 'super_admin', label: 'Super Admin', description: 'Full access, including assigning roles' },
+  { value: 'event_manager', label: 'Event Manager', description: 'Creates and runs events and checks in participants' },
+  { value: 'rewards_manager', label: 'Rewards Manager', description: 'Manages the rewards catalogue and member points' },
+  { value: 'moderator', label: 'Moderator', description: 'Reviews mission submissions and feedback' },
+  { value: 'auditor', label: 'Auditor', description: 'Read-only access to every screen, the admin history and exports' }
+];
+
+const ALL_PERMISSIONS: Permission[] = [
+  'dashboard.view',
+  'events.view',
+  'events.manage',
+  'events.delete',
+  'users.view',
+  'users.manage',
+  'users.points',
+  'users.delete',
+  'users.assign_role',
+  'missions.view',
+  'missions.manage',
+  'missions.review',
+  'rewards.view',
+  'rewards.manage',
+  'feedback.view',
+  'feedback.manage',
+  'admin_history.view',
+  'data.export'
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  super_admin: ALL_PERMISSIONS,
+  event_manager: [
+    'dashboard.view',
+    'events.view',
+    'events.manage',
+    'events.delete',
+    'users.view',
+    'feedback.view'
+  ],
+  rewards_manager: [
+    'dashboard.view',
+    'rewards.view',
+    'rewards.manage',
+    'users.view',
+    'users.points'
+  ],
+  moderator: [
+    'dashboard.view',
+    'events.view',
+    'missions.view',
+    'missions.review',
+    'feedback.view',
+    'feedback.manage',
+    'users.view'
+  ],
+  auditor: ALL_PERMISSIONS.filter(permission => permission.endsWith('.view') || permission === 'data.export')
+};
+
+// Accounts created before the roles were split are plain 'admin'
+const LEGACY_ROLES: Record<string, AdminRole> = {
+  admin: 'super_admin'
+};
+
+export const toAdminRole = (role: string | null | undefined): AdminRole | null => {
+  if (!role) return null;
+  if (role in LEGACY_ROLES) return LEGACY_ROLES[role];
+  return ADMIN_ROLES.some(option => option.value === role) ? role as AdminRole : null;
+};
+
+export const isAdminRole = (role: string | null | undefined): boolean => toAdminRole(role) !== null;
+
+export const getRoleLabel = (role: string): string => {
+  if (role === MEMBER_ROLE) return 'User';
+  const adminRole = toAdminRole(role);
+  return ADMIN_ROLES.find(option => option.value === adminRole)?.label || role;
+};
+
+export const roleHasPermission = (role: string | null | undefined, permission: Permission): boolean => {
+  const adminRole = toAdminRole(role);
+  return adminRole !== null && ROLE_PERMISSIONS[adminRole].includes(permission);
+};
+
+// Role of the signed-in admin, set by useAuth; the data service checks it before every guarded call
+class AccessControl {
+  private static instance: AccessControl;
+  private currentRole: string | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AccessControl {
+    if (!AccessControl.instance) {
+      AccessControl.instance = new AccessControl();
+    }
+    return AccessControl.instance;
+  }
+
+  public setCurrentRole(role: string | null) {
+    this.currentRole = role;
+  }
+
+  public getCurrentRole(): string | null {
+    return this.currentRole;
+  }
+
+  public can(permission: Permission): boolean {
+    return roleHasPermission(this.currentRole, permission);
+  }
+
+  public assert(permission: Permission) {
+    if (!this.can(permission)) {
+      throw new Error(`Your role does not allow this action (requires ${permission})`);
+    }
+  }
+}
+
+export const accessControl = AccessControl.getInstance();
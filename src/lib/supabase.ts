@@ -2,12 +2,17 @@ import { createClient } from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const isMemoryMode = import.meta.env.VITE_DATA_SERVICE_TYPE === 'memory';
 
-if (!supabaseUrl || !supabaseAnonKey) {
+if (!isMemoryMode && (!supabaseUrl || !supabaseAnonKey)) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// The in-memory data service never calls Supabase, so a placeholder client is enough there
+export const supabase = createClient(
+  supabaseUrl || 'http://localhost:54321',
+  supabaseAnonKey || 'memory-mode-anon-key'
+);
 
 // Database types matching your existing schema
 export interface Profile {
@@ -49,6 +54,7 @@ export interface Event {
   status?: 'upcoming' | 'ongoing' | 'completed';
   max_participants?: number;
   participant_count?: number;
+  waitlist_count?: number;
 }
 
 export interface EventParticipant {
@@ -0,0 +1,174 @@
+// CSV parsing and validation for the bulk user import on the Users screen
+
+import { ADMIN_ROLES, MEMBER_ROLE, isAdminRole } from './permissions';
+
+export const USER_IMPORT_ROLES: string[] = [MEMBER_ROLE, ...ADMIN_ROLES.map(role => role.value)];
+export const USER_IMPORT_TEMPLATE = 'email,first_name,last_name,role,points\njane.doe@example.com,Jane,Doe,user,0\n';
+
+export type UserImportStatus = 'valid' | 'duplicate' | 'invalid';
+
+export interface UserImportRow {
+  line: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  role: string;
+  points: number;
+  status: UserImportStatus;
+  issues: string[];
+}
+
+export interface UserImportPreview {
+  rows: UserImportRow[];
+  error: string | null;
+}
+
+const REQUIRED_COLUMNS = ['email', 'first_name', 'last_name', 'role'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// RFC 4180: quoted fields may contain commas, line breaks and doubled quotes
+export const parseCsv = (text: string): { records: string[][]; lines: number[] } => {
+  const records: string[][] = [];
+  const lines: number[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      lines.push(recordLine);
+      record = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+    lines.push(recordLine);
+  }
+
+  return { records, lines };
+};
+
+// Checks every row on its own; emails already in the database are flagged by markExistingEmails.
+// Admin roles are only valid for callers who may assign roles, so the preview matches what the import can create
+export const parseUserImport = (text: string, canAssignRoles: boolean): UserImportPreview => {
+  const { records, lines } = parseCsv(text);
+  const nonEmpty = records
+    .map((fields, index) => ({ fields, line: lines[index] }))
+    .filter(({ fields }) => fields.some(field => field.trim() !== ''));
+
+  if (nonEmpty.length === 0) {
+    return { rows: [], error: 'The file is empty' };
+  }
+
+  const header = nonEmpty[0].fields.map(column => column.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    return { rows: [], error: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` };
+  }
+
+  const pointsColumn = header.includes('points') ? 'points' : 'initial_points';
+  const seenEmails = new Set<string>();
+
+  const rows = nonEmpty.slice(1).map(({ fields, line }): UserImportRow => {
+    const value = (column: string) => {
+      const index = header.indexOf(column);
+      return index >= 0 ? (fields[index] || '').trim() : '';
+    };
+    const issues: string[] = [];
+
+    if (fields.length !== header.length) {
+      issues.push(`Expected ${header.length} columns, found ${fields.length}`);
+    }
+
+    const email = value('email').toLowerCase();
+    if (!email) issues.push('Email is required');
+    else if (!EMAIL_PATTERN.test(email)) issues.push(`"${email}" is not a valid email`);
+
+    const first_name = value('first_name');
+    const last_name = value('last_name');
+    if (!first_name) issues.push('First name is required');
+    if (!last_name) issues.push('Last name is required');
+
+    const role = value('role').toLowerCase();
+    if (!USER_IMPORT_ROLES.includes(role)) {
+      issues.push(role ? `Invalid role "${role}" (use one of ${USER_IMPORT_ROLES.join(', ')})` : 'Role is required');
+    } else if (isAdminRole(role) && !canAssignRoles) {
+      issues.push(`Your role does not allow creating "${role}" accounts`);
+    }
+
+    const rawPoints = value(pointsColumn);
+    const points = rawPoints === '' ? 0 : Number(rawPoints);
+    if (!Number.isInteger(points) || points < 0) {
+      issues.push(`Points must be a whole number of 0 or more, got "${rawPoints}"`);
+    }
+
+    let status: UserImportStatus = issues.length > 0 ? 'invalid' : 'valid';
+    if (email && seenEmails.has(email)) {
+      issues.push('Email appears earlier in the file');
+      if (status === 'valid') status = 'duplicate';
+    }
+    if (email) seenEmails.add(email);
+
+    return {
+      line,
+      email,
+      first_name,
+      last_name,
+      role,
+      points: Number.isInteger(points) && points > 0 ? points : 0,
+      status,
+      issues
+    };
+  });
+
+  if (rows.length === 0) {
+    return { rows: [], error: 'The file has a header but no users' };
+  }
+
+  return { rows, error: null };
+};
+
+export const markExistingEmails = (rows: UserImportRow[], existingEmails: string[]): UserImportRow[] => {
+  const existing = new Set(existingEmails.map(email => email.toLowerCase()));
+  return rows.map(row => {
+    if (!existing.has(row.email)) return row;
+    return {
+      ...row,
+      status: row.status === 'invalid' ? 'invalid' : 'duplicate',
+      issues: [...row.issues, 'A user with this email already exists']
+    };
+  });
+};
@@ -0,0 +1,224 @@
+import React, { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { MailWarningIcon } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { useAuthContext } from "../../components/Auth/AuthProvider";
+import { useAdminInviteAcceptance } from "../../hooks/useAdminInvites";
+import { AdminInviteStatus } from "../../lib/dataService";
+import { getRoleLabel } from "../../lib/permissions";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const unavailableMessages: Record<Exclude<AdminInviteStatus, 'pending'>, string> = {
+  accepted: "This invite has already been used. Sign in with the account it created.",
+  revoked: "This invite was revoked. Ask a super admin to send you a new one.",
+  expired: "This invite has expired. Ask a super admin to send you a new one."
+};
+
+// Reached from the link in an admin invite; rendered outside the sign-in gate
+export const AcceptInvite = (): JSX.Element => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const navigate = useNavigate();
+  const { signIn } = useAuthContext();
+  const { invite, loading, acceptInvite } = useAdminInviteAcceptance(token);
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite) return;
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("The passwords do not match.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError("");
+
+    const result = await acceptInvite({
+      first_name: firstName,
+      last_name: lastName,
+      password
+    });
+
+    if (result.error) {
+      setError(result.error);
+      setIsSubmitting(false);
+      return;
+    }
+
+    const { error: signInError } = await signIn(invite.email, password);
+    setIsSubmitting(false);
+
+    if (signInError) {
+      // Projects that require email confirmation only allow sign-in after the confirmation link
+      setNotice("Your account is ready. Confirm your email address if asked, then sign in.");
+      return;
+    }
+
+    navigate("/", { replace: true });
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#009A5A]"></div>
+        </div>
+      );
+    }
+
+    if (notice) {
+      return (
+        <div className="space-y-4">
+          <div className="p-3 rounded-lg text-sm bg-green-50 text-green-700 border border-green-200">
+            {notice}
+          </div>
+          <Link to="/">
+            <Button className="w-full bg-[#009A5A] hover:bg-[#008a50] text-white">
+              Go to Sign In
+            </Button>
+          </Link>
+        </div>
+      );
+    }
+
+    if (!invite || invite.status !== "pending") {
+      return (
+        <div className="space-y-4 text-center">
+          <div className="mx-auto w-14 h-14 rounded-full bg-red-50 flex items-center justify-center">
+            <MailWarningIcon className="h-7 w-7 text-red-600" />
+          </div>
+          <p className="text-[15px] text-[#888282]">
+            {invite
+              ? unavailableMessages[invite.status as Exclude<AdminInviteStatus, 'pending'>]
+              : "This invite link is invalid. Check that you copied the whole link, or ask a super admin for a new one."}
+          </p>
+          <Link to="/">
+            <Button variant="outline" className="w-full">
+              Go to Sign In
+            </Button>
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="p-3 bg-gray-50 rounded-lg text-sm">
+          <p className="font-medium">{invite.email}</p>
+          <p className="text-gray-600">
+            Role: {getRoleLabel(invite.role)} · Invite expires {new Date(invite.expires_at).toLocaleDateString()}
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="first_name">First Name</Label>
+            <Input
+              id="first_name"
+              value={firstName}
+              onChange={(e) => setFirstName(e.target.value)}
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="last_name">Last Name</Label>
+            <Input
+              id="last_name"
+              value={lastName}
+              onChange={(e) => setLastName(e.target.value)}
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="password">Password</Label>
+          <Input
+            id="password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            disabled={isSubmitting}
+            placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+            minLength={MIN_PASSWORD_LENGTH}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="confirm_password">Confirm Password</Label>
+          <Input
+            id="confirm_password"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+            disabled={isSubmitting}
+          />
+        </div>
+        {error && (
+          <div className="p-3 rounded-lg text-sm bg-red-50 text-red-700 border border-red-200">
+            {error}
+          </div>
+        )}
+        <Button
+          type="submit"
+          className="w-full bg-[#009A5A] hover:bg-[#008a50] text-white"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <div className="flex items-center">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              Creating Account...
+            </div>
+          ) : (
+            'Set Password and Continue'
+          )}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#f8f8f8] p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center mb-4">
+            <img
+              className="w-[75px] h-[41px] object-cover"
+              alt="Roche logo"
+              src="/roche-logo.png"
+            />
+            <div className="ml-2 font-bold text-black text-xl [font-family:'Sansation',Helvetica]">
+              EcoWave Hub
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold">
+            Accept Admin Invite
+          </CardTitle>
+          <p className="text-sm text-gray-600 mt-2">
+            Set a password to finish creating your admin account
+          </p>
+        </CardHeader>
+        <CardContent>
+          {renderBody()}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
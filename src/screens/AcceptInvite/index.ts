@@ -0,0 +1 @@
+export { AcceptInvite } from "./AcceptInvite";
\ No newline at end of file
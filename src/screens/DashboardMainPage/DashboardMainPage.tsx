@@ -14,9 +14,12 @@ import {
 import { Card, CardContent } from "../../components/ui/card";
 import { Button } from "../../components/ui/button";
 import { useDashboard } from "../../hooks/useDashboard";
+import { useAuthContext } from "../../components/Auth/AuthProvider";
+import { LowStockAlerts } from "../../components/Rewards/LowStockAlerts";
 
 export const DashboardMainPage = (): JSX.Element => {
-  const { stats, monthlyEngagement, loading, error } = useDashboard();
+  const { stats, monthlyEngagement, overview, lowStockRewards, loading, error } = useDashboard();
+  const { can } = useAuthContext();
   const navigate = useNavigate();
   const [hoveredSegment, setHoveredSegment] = useState<number | null>(null);
   const [hoveredDataPoint, setHoveredDataPoint] = useState<number | null>(null);
@@ -51,31 +54,17 @@ export const DashboardMainPage = (): JSX.Element => {
     );
   }
 
-  // Calculate trends from monthly data
-  const currentMonth = monthlyEngagement[monthlyEngagement.length - 1];
-  const previousMonth = monthlyEngagement[monthlyEngagement.length - 2];
-  
-  const calculateTrend = (current: number, previous: number) => {
-    if (!previous) return 0;
-    return ((current - previous) / previous) * 100;
-  };
-
-  const usersTrend = currentMonth && previousMonth 
-    ? calculateTrend(currentMonth.participants, previousMonth.participants)
-    : 2.3;
-  const eventsTrend = currentMonth && previousMonth 
-    ? calculateTrend(currentMonth.events, previousMonth.events)
-    : 5.2;
-  const rewardsTrend = 12.3;
-  const engagementTrend = 7.5;
+  // Period-over-period trends computed by the data service
+  const { trends } = overview;
+  const formatTrend = (trend: number) => `${trend >= 0 ? '+' : ''}${trend.toFixed(1)}%`;
 
   // Metric cards data
   const metricCards = [
     {
       title: "Total Users",
       value: stats.totalUsers.toLocaleString(),
-      increase: `${usersTrend >= 0 ? '+' : ''}${usersTrend.toFixed(1)}%`,
-      isPositive: usersTrend >= 0,
+      increase: formatTrend(trends.totalUsers),
+      isPositive: trends.totalUsers >= 0,
       bgColor: "bg-white",
       icon: <UsersIcon size={32} className="text-black" />,
       onClick: () => navigate('/users')
@@ -83,8 +72,8 @@ export const DashboardMainPage = (): JSX.Element => {
     { 
       title: "Active Events",
       value: stats.activeEvents.toString(),
-      increase: `${eventsTrend >= 0 ? '+' : ''}${eventsTrend.toFixed(1)}%`,
-      isPositive: eventsTrend >= 0,
+      increase: formatTrend(trends.activeEvents),
+      isPositive: trends.activeEvents >= 0,
       bgColor: "bg-white",
       icon: <CalendarIcon size={32} className="text-black" />,
       onClick: () => navigate('/events')
@@ -92,8 +81,8 @@ export const DashboardMainPage = (): JSX.Element => {
     { 
       title: "Rewards Redeemed",
       value: stats.rewardsRedeemed.toString(),
-      increase: `+${rewardsTrend}%`,
-      isPositive: true,
+      increase: formatTrend(trends.rewardsRedeemed),
+      isPositive: trends.rewardsRedeemed >= 0,
       bgColor: "bg-white",
       icon: <GiftIcon size={32} className="text-black" />,
       onClick: () => navigate('/rewards')
@@ -101,8 +90,8 @@ export const DashboardMainPage = (): JSX.Element => {
     {
       title: "Engagement Rate",
       value: `${stats.engagementRate}%`,
-      increase: `+${engagementTrend}%`,
-      isPositive: true,
+      increase: formatTrend(trends.engagementRate),
+      isPositive: trends.engagementRate >= 0,
       bgColor: "bg-white",
       icon: <TrendingUpIcon size={32} className="text-black" />,
       onClick: () => navigate('/feedback')
@@ -110,22 +99,25 @@ export const DashboardMainPage = (): JSX.Element => {
   ];
 
   // Event status data for pie chart
+  const { eventStatus } = overview;
+  const total = eventStatus.completed + eventStatus.ongoing + eventStatus.upcoming;
+  const toPercentage = (value: number) => total ? Math.round((value / total) * 1000) / 10 : 0;
+
   const eventStatusData = [
-    { label: 'Completed', value: 45, color: '#10b981', percentage: 45.0 },
-    { label: 'Ongoing', value: 30, color: '#3b82f6', percentage: 30.0 },
-    { label: 'Upcoming', value: 25, color: '#f59e0b', percentage: 25.0 }
+    { label: 'Completed', value: eventStatus.completed, color: '#10b981', percentage: toPercentage(eventStatus.completed) },
+    { label: 'Ongoing', value: eventStatus.ongoing, color: '#3b82f6', percentage: toPercentage(eventStatus.ongoing) },
+    { label: 'Upcoming', value: eventStatus.upcoming, color: '#f59e0b', percentage: toPercentage(eventStatus.upcoming) }
   ];
 
-  const total = eventStatusData.reduce((sum, item) => sum + item.value, 0);
-
   // Calculate chart dimensions for monthly engagement - Fixed height
   const minChartWidth = 500;
   const chartWidth = Math.max(minChartWidth, monthlyEngagement.length * 60);
   const chartHeight = 180; // Fixed height to fit in container
   const padding = 40; // Reduced padding
-  const maxParticipants = Math.max(...monthlyEngagement.map(m => m.participants));
-  const maxEvents = Math.max(...monthlyEngagement.map(m => m.events));
-  const maxFeedback = Math.max(...monthlyEngagement.map(m => m.feedback));
+  // Floor the scales at 1 so a period with no activity draws a flat line instead of dividing by zero
+  const maxParticipants = Math.max(1, ...monthlyEngagement.map(m => m.participants));
+  const maxEvents = Math.max(1, ...monthlyEngagement.map(m => m.events));
+  const maxFeedback = Math.max(1, ...monthlyEngagement.map(m => m.feedback));
 
   return (
     <div className="p-4 md:p-6 lg:p-10 space-y-4 md:space-y-7 bg-[#f8f8f8] min-h-screen">
@@ -543,6 +535,15 @@ export const DashboardMainPage = (): JSX.Element => {
         </Card>
       </div>
 
+      {/* Low-stock rewards */}
+      {can('rewards.view') && (
+        <LowStockAlerts
+          rewards={lowStockRewards}
+          onSelect={() => navigate('/rewards')}
+          emptyMessage="No rewards are running low on stock."
+        />
+      )}
+
       {/* Quick Actions */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card className="bg-white border-none shadow-sm hover:shadow-md transition-shadow duration-200 cursor-pointer" onClick={() => navigate('/events')}>
@@ -22,10 +22,13 @@ import {
   SortDescIcon,
   UsersIcon,
   ClockIcon,
+  CheckCircleIcon,
   XIcon
 } from "lucide-react";
 import { useEvents } from "../../hooks/useEvents";
 import { Event } from "../../lib/supabase";
+import { EventParticipant, ParticipantStatus } from "../../lib/dataService";
+import { useAuthContext } from "../../components/Auth/AuthProvider";
 
 interface EventFormData {
   title: string;
@@ -41,8 +44,246 @@ interface EventFormData {
 type SortField = 'title' | 'date' | 'location' | 'participants';
 type SortOrder = 'asc' | 'desc';
 
+const participantStatusLabels: Record<ParticipantStatus, string> = {
+  registered: 'Registered',
+  waitlisted: 'Waitlisted',
+  attended: 'Attended',
+  no_show: 'No-show',
+  cancelled: 'Cancelled'
+};
+
+const participantStatusStyles: Record<ParticipantStatus, string> = {
+  registered: 'bg-blue-100 text-blue-800',
+  waitlisted: 'bg-yellow-100 text-yellow-800',
+  attended: 'bg-green-100 text-green-800',
+  no_show: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+};
+
+// Only participants holding a seat can be checked in
+const canCheckIn = (participant: EventParticipant) =>
+  participant.status !== 'waitlisted' && participant.status !== 'cancelled';
+
+const ParticipantRoster = ({
+  participants,
+  loading,
+  eventPoints,
+  onStatusChange,
+  onCheckIn,
+  onRemove,
+  readOnly
+}: {
+  participants: EventParticipant[];
+  loading: boolean;
+  eventPoints: number;
+  onStatusChange: (participant: EventParticipant, status: ParticipantStatus) => void;
+  onCheckIn: (participantIds: string[]) => Promise<void>;
+  onRemove: (participant: EventParticipant) => void;
+  readOnly: boolean;
+}) => {
+  const [rosterSearch, setRosterSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [checkingIn, setCheckingIn] = useState(false);
+
+  const filteredParticipants = useMemo(() => {
+    if (!rosterSearch) return participants;
+    const query = rosterSearch.toLowerCase();
+    return participants.filter(p =>
+      p.user_name?.toLowerCase().includes(query) ||
+      p.user_email?.toLowerCase().includes(query)
+    );
+  }, [participants, rosterSearch]);
+
+  const selectableParticipants = filteredParticipants.filter(canCheckIn);
+  const allSelected = selectableParticipants.length > 0 &&
+    selectableParticipants.every(p => selectedIds.includes(p.id));
+
+  const toggleParticipant = (participantId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(participantId) ? prev.filter(id => id !== participantId) : [...prev, participantId]
+    );
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : selectableParticipants.map(p => p.id));
+  };
+
+  const handleCheckIn = async (participantIds: string[]) => {
+    if (participantIds.length === 0) return;
+    setCheckingIn(true);
+    try {
+      await onCheckIn(participantIds);
+      setSelectedIds([]);
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
+  const registeredIds = participants.filter(p => p.status === 'registered').map(p => p.id);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold">Participants</h3>
+        {!readOnly && (
+          <div className="flex items-center gap-2">
+            {selectedIds.length > 0 ? (
+              <Button
+                size="sm"
+                disabled={checkingIn}
+                onClick={() => handleCheckIn(selectedIds)}
+                className="h-8 bg-[#009A5A] hover:bg-[#008a50] text-white"
+              >
+                <CheckCircleIcon className="h-4 w-4 mr-1" />
+                Check in {selectedIds.length} selected
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={checkingIn || registeredIds.length === 0}
+                onClick={() => handleCheckIn(registeredIds)}
+                className="h-8"
+              >
+                <CheckCircleIcon className="h-4 w-4 mr-1" />
+                Check in all registered
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-gray-500">
+          Checking in marks a participant as attended and credits {eventPoints} points once.
+        </p>
+        <div className="relative w-full max-w-[240px]">
+          <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <Input
+            placeholder="Search participants..."
+            value={rosterSearch}
+            onChange={(e) => setRosterSearch(e.target.value)}
+            className="pl-9 h-8"
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 py-4 text-center">Loading participants...</p>
+      ) : filteredParticipants.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          {participants.length === 0 ? 'No one has registered for this event yet.' : 'No participants match your search.'}
+        </p>
+      ) : (
+        <div className="max-h-[280px] overflow-y-auto border rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="pl-4 py-2 w-8">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    disabled={readOnly || selectableParticipants.length === 0}
+                    onChange={toggleAll}
+                    className="h-4 w-4 accent-[#009A5A]"
+                  />
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600">Participant</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600">Registered</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600">Status</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredParticipants.map((participant) => (
+                <tr key={participant.id} className="hover:bg-gray-50">
+                  <td className="pl-4 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(participant.id)}
+                      disabled={readOnly || !canCheckIn(participant)}
+                      onChange={() => toggleParticipant(participant.id)}
+                      className="h-4 w-4 accent-[#009A5A]"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="text-sm font-medium text-gray-900">{participant.user_name}</div>
+                    <div className="text-xs text-gray-500">{participant.user_email}</div>
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-600">
+                    {new Date(participant.joined_at).toLocaleDateString('en-US', {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric'
+                    })}
+                  </td>
+                  <td className="px-4 py-2">
+                    {participant.status === 'waitlisted' || participant.status === 'cancelled' ? (
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${participantStatusStyles[participant.status]}`}>
+                        {participantStatusLabels[participant.status]}
+                      </span>
+                    ) : (
+                      <Select
+                        value={participant.status}
+                        disabled={readOnly}
+                        onValueChange={(value) =>
+                          value === 'attended'
+                            ? handleCheckIn([participant.id])
+                            : onStatusChange(participant, value as ParticipantStatus)
+                        }
+                      >
+                        <SelectTrigger className={`w-[120px] h-7 border-0 text-xs ${participantStatusStyles[participant.status]}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="registered">Registered</SelectItem>
+                          <SelectItem value="attended">Attended</SelectItem>
+                          <SelectItem value="no_show">No-show</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {participant.points_awarded_at && (
+                      <div className="text-xs text-[#009A5A] mt-1">+{eventPoints} pts credited</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {!readOnly && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="w-7 h-7 hover:bg-red-50"
+                        onClick={() => onRemove(participant)}
+                      >
+                        <TrashIcon className="h-4 w-4 text-red-600" />
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const Events = (): JSX.Element => {
-  const { events, loading, error, createEvent, updateEvent, deleteEvent } = useEvents();
+  const {
+    events,
+    participants,
+    participantsLoading,
+    loading,
+    error,
+    createEvent,
+    updateEvent,
+    deleteEvent,
+    fetchParticipants,
+    updateParticipantStatus,
+    removeParticipant,
+    checkInParticipants,
+    exportParticipants
+  } = useEvents();
+  const { can } = useAuthContext();
   const [selectedStatus, setSelectedStatus] = useState<"all" | "upcoming" | "ongoing" | "completed">("all");
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -163,8 +404,69 @@ export const Events = (): JSX.Element => {
     setDateFilter("all");
   };
 
-  const handleExportParticipants = (event: Event) => {
-    const csvContent = `Event: ${event.title}\nParticipants: ${event.participant_count || 0}\nDate: ${event.date}\nLocation: ${event.location}\n`;
+  const openEventDetails = (event: Event) => {
+    setSelectedEvent(event);
+    setIsViewDialogOpen(true);
+    fetchParticipants(event.id!);
+  };
+
+  const handleParticipantStatusChange = async (participant: EventParticipant, status: ParticipantStatus) => {
+    if (!selectedEvent || participant.status === status) return;
+    
+    const { error } = await updateParticipantStatus(selectedEvent.id!, participant.id, status);
+    if (error) {
+      alert('Error updating participant: ' + error);
+    }
+  };
+
+  const handleCheckInParticipants = async (participantIds: string[]) => {
+    if (!selectedEvent) return;
+    
+    const { data, error } = await checkInParticipants(selectedEvent.id!, participantIds);
+    if (error) {
+      alert('Error checking in participants: ' + error);
+      return;
+    }
+    
+    const credited = (data || []).filter(r => r.points_awarded > 0);
+    if (data && credited.length < data.length) {
+      alert(`Checked in ${data.length} participants. ${data.length - credited.length} had already received points for this event.`);
+    }
+  };
+
+  const handleRemoveParticipant = async (participant: EventParticipant) => {
+    if (!selectedEvent) return;
+    if (!confirm(`Remove ${participant.user_name} from "${selectedEvent.title}"?`)) return;
+    
+    const { error } = await removeParticipant(selectedEvent.id!, participant.id);
+    if (error) {
+      alert('Error removing participant: ' + error);
+    }
+  };
+
+  const handleExportParticipants = async (event: Event) => {
+    let rows: EventParticipant[];
+    try {
+      rows = await exportParticipants(event.id!);
+    } catch (err) {
+      alert('Error exporting participants: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      return;
+    }
+
+    const escapeCsv = (value: string | undefined) => `"${(value || '').replace(/"/g, '""')}"`;
+    const csvContent = [
+      'Event,Participant Name,Email,Status,Registered At',
+      ...rows.map(p =>
+        [
+          escapeCsv(event.title),
+          escapeCsv(p.user_name),
+          escapeCsv(p.user_email),
+          escapeCsv(participantStatusLabels[p.status] || p.status),
+          escapeCsv(new Date(p.joined_at).toLocaleString())
+        ].join(',')
+      )
+    ].join('\n');
+
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -503,10 +805,7 @@ export const Events = (): JSX.Element => {
     
     return (
       <Card className="bg-white border-none shadow-sm hover:shadow-md transition-shadow duration-200 group cursor-pointer">
-        <CardContent className="p-0" onClick={() => {
-          setSelectedEvent(event);
-          setIsViewDialogOpen(true);
-        }}>
+        <CardContent className="p-0" onClick={() => openEventDetails(event)}>
           <div className="relative h-48 w-full overflow-hidden">
             <img 
               src={event.image_url} 
@@ -515,70 +814,76 @@ export const Events = (): JSX.Element => {
             />
             <div className="absolute top-4 right-4 bg-white px-3 py-1 rounded-full text-sm font-medium shadow-sm flex items-center">
               <UsersIcon className="h-3 w-3 mr-1" />
-              {event.participant_count || 0}
+              {event.participant_count || 0}/{event.max_participants}
             </div>
             <div className="absolute top-4 left-4 flex space-x-2">
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      className="bg-white/90 hover:bg-white w-8 h-8"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleExportParticipants(event);
-                      }}
-                    >
-                      <DownloadIcon className="h-4 w-4 text-gray-700" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Export participants</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      className="bg-white/90 hover:bg-white w-8 h-8"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setSelectedEvent(event);
-                        setIsEditDialogOpen(true);
-                      }}
-                    >
-                      <PencilIcon className="h-4 w-4 text-gray-700" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Edit event</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      className="bg-white/90 hover:bg-white w-8 h-8"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDeleteEvent(event.id);
-                      }}
-                    >
-                      <TrashIcon className="h-4 w-4 text-gray-700" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Delete event</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+              {can('data.export') && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="bg-white/90 hover:bg-white w-8 h-8"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleExportParticipants(event);
+                        }}
+                      >
+                        <DownloadIcon className="h-4 w-4 text-gray-700" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Export participants</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {can('events.manage') && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="bg-white/90 hover:bg-white w-8 h-8"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSelectedEvent(event);
+                          setIsEditDialogOpen(true);
+                        }}
+                      >
+                        <PencilIcon className="h-4 w-4 text-gray-700" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Edit event</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {can('events.delete') && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="bg-white/90 hover:bg-white w-8 h-8"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteEvent(event.id);
+                        }}
+                      >
+                        <TrashIcon className="h-4 w-4 text-gray-700" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Delete event</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
             </div>
             
             {/* Status badge */}
@@ -620,6 +925,9 @@ export const Events = (): JSX.Element => {
     );
   };
 
+  // Roster changes update the event list, so read the live counts from there
+  const selectedEventCounts = events.find(e => e.id === selectedEvent?.id) || selectedEvent || {} as Partial<Event>;
+
   if (loading) {
     return (
       <div className="p-4 md:p-6 lg:p-10 space-y-7">
@@ -665,26 +973,28 @@ export const Events = (): JSX.Element => {
           </div>
           
           {/* Create Event Button with Dialog */}
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button 
-                className="bg-[#009A5A] hover:bg-[#008a50] text-white py-3 px-4 text-lg font-semibold w-full lg:w-auto"
-                onClick={() => {
-                  console.log('Create Event button clicked');
-                  setIsCreateDialogOpen(true);
-                }}
-              >
-                <PlusIcon className="mr-2 h-5 w-5" />
-                Create Event
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Create New Event</DialogTitle>
-              </DialogHeader>
-              <EventForm mode="create" onSubmit={handleCreateEvent} />
-            </DialogContent>
-          </Dialog>
+          {can('events.manage') && (
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button 
+                  className="bg-[#009A5A] hover:bg-[#008a50] text-white py-3 px-4 text-lg font-semibold w-full lg:w-auto"
+                  onClick={() => {
+                    console.log('Create Event button clicked');
+                    setIsCreateDialogOpen(true);
+                  }}
+                >
+                  <PlusIcon className="mr-2 h-5 w-5" />
+                  Create Event
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Create New Event</DialogTitle>
+                </DialogHeader>
+                <EventForm mode="create" onSubmit={handleCreateEvent} />
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
 
         {/* Events Content */}
@@ -913,7 +1223,7 @@ export const Events = (): JSX.Element => {
         </Dialog>
 
         <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
-          <DialogContent className="sm:max-w-[500px]">
+          <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Event Details</DialogTitle>
             </DialogHeader>
@@ -966,7 +1276,16 @@ export const Events = (): JSX.Element => {
                   </p>
                   <p className="flex items-center text-gray-600">
                     <UsersIcon className="h-4 w-4 mr-2" />
-                    {selectedEvent.participant_count || 0} / {selectedEvent.max_participants} participants
+                    {selectedEventCounts.participant_count || 0} / {selectedEvent.max_participants} registered
+                    {(selectedEventCounts.participant_count || 0) >= (selectedEvent.max_participants || 0) && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        Full
+                      </span>
+                    )}
+                  </p>
+                  <p className="flex items-center text-gray-600">
+                    <ClockIcon className="h-4 w-4 mr-2" />
+                    {selectedEventCounts.waitlist_count || 0} waitlisted
                   </p>
                 </div>
                 <div className="flex justify-between items-center">
@@ -977,21 +1296,32 @@ export const Events = (): JSX.Element => {
                   }`}>
                     {selectedEvent.status}
                   </span>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button 
-                        onClick={() => handleExportParticipants(selectedEvent)}
-                        className="bg-[#009A5A] hover:bg-[#008a50] text-white"
-                      >
-                        <DownloadIcon className="h-4 w-4 mr-2" />
-                        Export Participants
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Export participant list to CSV</p>
-                    </TooltipContent>
-                  </Tooltip>
+                  {can('data.export') && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button 
+                          onClick={() => handleExportParticipants(selectedEvent)}
+                          className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+                        >
+                          <DownloadIcon className="h-4 w-4 mr-2" />
+                          Export Participants
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Export participant list to CSV</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
                 </div>
+                <ParticipantRoster
+                  participants={participants}
+                  loading={participantsLoading}
+                  eventPoints={selectedEvent.points || 0}
+                  onStatusChange={handleParticipantStatusChange}
+                  onCheckIn={handleCheckInParticipants}
+                  onRemove={handleRemoveParticipant}
+                  readOnly={!can('events.manage')}
+                />
               </div>
             )}
           </DialogContent>
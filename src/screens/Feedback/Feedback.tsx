@@ -26,6 +26,7 @@ import {
 } from "lucide-react";
 import { useFeedback } from "../../hooks/useFeedback";
 import { useEvents } from "../../hooks/useEvents";
+import { useAuthContext } from "../../components/Auth/AuthProvider";
 
 interface FeedbackItem extends Record<string, any> {
   id: string;
@@ -58,6 +59,7 @@ type SortOrder = 'asc' | 'desc';
 export const Feedback = (): JSX.Element => {
   const { feedback, loading: feedbackLoading, error: feedbackError, deleteFeedback, markAsRead } = useFeedback();
   const { events, loading: eventsLoading, error: eventsError } = useEvents();
+  const { can } = useAuthContext();
   const [searchQuery, setSearchQuery] = useState("");
   const [ratingFilter, setRatingFilter] = useState<string>("all");
   const [eventFilter, setEventFilter] = useState<string>("all");
@@ -240,26 +242,28 @@ export const Feedback = (): JSX.Element => {
             {event.feedback_count} feedback
           </div>
           <div className="absolute top-4 left-4">
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button 
-                    variant="ghost" 
-                    size="icon" 
-                    className="bg-white/90 hover:bg-white w-8 h-8"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleExportFeedback(event);
-                    }}
-                  >
-                    <DownloadIcon className="h-4 w-4 text-gray-700" />
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <p>Export feedback data</p>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
+            {can('data.export') && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button 
+                      variant="ghost" 
+                      size="icon" 
+                      className="bg-white/90 hover:bg-white w-8 h-8"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleExportFeedback(event);
+                      }}
+                    >
+                      <DownloadIcon className="h-4 w-4 text-gray-700" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Export feedback data</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
           </div>
         </div>
         <div className="p-6">
@@ -312,46 +316,50 @@ export const Feedback = (): JSX.Element => {
           </div>
           <div className="flex items-center space-x-2">
             {item.rating && renderStars(item.rating)}
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleMarkAsRead(item.id);
-                    }}
-                  >
-                    <EyeIcon className="h-4 w-4 text-gray-500" />
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <p>Mark as read</p>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDeleteFeedback(item.id);
-                    }}
-                  >
-                    <TrashIcon className="h-4 w-4 text-gray-500" />
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <p>Delete feedback</p>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
+            {can('feedback.manage') && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleMarkAsRead(item.id);
+                      }}
+                    >
+                      <EyeIcon className="h-4 w-4 text-gray-500" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Mark as read</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+            {can('feedback.manage') && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteFeedback(item.id);
+                      }}
+                    >
+                      <TrashIcon className="h-4 w-4 text-gray-500" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Delete feedback</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -464,7 +472,7 @@ export const Feedback = (): JSX.Element => {
               </div>
             </div>
           </div>
-          {currentView === 'feedback' && selectedEvent && (
+          {currentView === 'feedback' && selectedEvent && can('data.export') && (
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -746,41 +754,45 @@ export const Feedback = (): JSX.Element => {
                 </div>
 
                 <div className="flex justify-end space-x-3 pt-4 border-t">
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant="outline"
-                          onClick={() => handleMarkAsRead(selectedFeedback.id)}
-                        >
-                          <EyeIcon className="h-4 w-4 mr-2" />
-                          Mark as Read
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Mark this feedback as read</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant="destructive"
-                          onClick={() => {
-                            handleDeleteFeedback(selectedFeedback.id);
-                            setIsViewDialogOpen(false);
-                          }}
-                        >
-                          <TrashIcon className="h-4 w-4 mr-2" />
-                          Delete
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Delete this feedback permanently</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
+                  {can('feedback.manage') && (
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="outline"
+                            onClick={() => handleMarkAsRead(selectedFeedback.id)}
+                          >
+                            <EyeIcon className="h-4 w-4 mr-2" />
+                            Mark as Read
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Mark this feedback as read</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  )}
+                  {can('feedback.manage') && (
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="destructive"
+                            onClick={() => {
+                              handleDeleteFeedback(selectedFeedback.id);
+                              setIsViewDialogOpen(false);
+                            }}
+                          >
+                            <TrashIcon className="h-4 w-4 mr-2" />
+                            Delete
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Delete this feedback permanently</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  )}
                 </div>
               </div>
             )}
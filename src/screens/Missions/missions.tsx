@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect } from "react";
 import { Card, CardContent } from "../../components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../components/ui/tabs";
 import { Button } from "../../components/ui/button";
@@ -23,34 +23,956 @@ import {
   FilterIcon,
   TargetIcon,
   ImageIcon,
-  ArrowLeftIcon
+  ArrowLeftIcon,
+  RotateCcwIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ZoomInIcon,
+  ZoomOutIcon,
+  HistoryIcon,
+  MessageSquareIcon,
+  RepeatIcon
 } from "lucide-react";
 import { useMissions, Mission, MissionSubmission } from "../../hooks/useMissions";
+import { useAuthContext } from "../../components/Auth/AuthProvider";
+import { PhotoReview, RejectionReasonTemplate, SubmissionStatusChange, MissionTemplate, MissionRecurrence } from "../../lib/dataService";
 
 interface MissionFormData {
   title: string;
   description: string;
   points: number;
+  start_date: string;
+  end_date: string;
 }
 
+// Mission windows cover whole UTC days, so dates are shown and edited in UTC
+const formatMissionDate = (date: string) => new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const toMissionWindow = (formData: MissionFormData) => ({
+  start_date: `${formData.start_date}T00:00:00.000Z`,
+  end_date: `${formData.end_date}T23:59:59.000Z`
+});
+
+const recurrenceLabels: Record<MissionRecurrence, string> = {
+  monthly: 'Every month',
+  quarterly: 'Every quarter'
+};
+
+const getSubmissionPhotos = (submission: MissionSubmission) =>
+  ([1, 2, 3] as const)
+    .map(slot => ({ slot, path: submission[`photo_path_${slot}` as const] }))
+    .filter((photo): photo is { slot: 1 | 2 | 3; path: string } => !!photo.path);
+
+const PhotoReviewForm = ({
+  submission,
+  missionPoints,
+  photoUrls,
+  reasonTemplates,
+  onSubmit,
+  onCancel
+}: {
+  submission: MissionSubmission;
+  missionPoints: number;
+  photoUrls: Record<string, string>;
+  reasonTemplates: RejectionReasonTemplate[];
+  onSubmit: (reviews: PhotoReview[]) => Promise<void>;
+  onCancel: () => void;
+}) => {
+  const photos = getSubmissionPhotos(submission);
+  const [reviews, setReviews] = useState<PhotoReview[]>(() =>
+    photos.map(photo =>
+      submission.photo_reviews?.find(r => r.slot === photo.slot) || { slot: photo.slot, status: 'accepted' }
+    )
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updateReview = (slot: PhotoReview['slot'], changes: Partial<PhotoReview>) => {
+    setReviews(prev => prev.map(r => (r.slot === slot ? { ...r, ...changes } : r)));
+  };
+
+  const acceptedCount = reviews.filter(r => r.status === 'accepted').length;
+  const missingReason = reviews.some(r => r.status === 'rejected' && !r.reason?.trim());
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(reviews.map(r => (r.status === 'accepted' ? { slot: r.slot, status: r.status } : { ...r, reason: r.reason?.trim() })));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (photos.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">This submission has no photos to review.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {photos.map(photo => {
+        const review = reviews.find(r => r.slot === photo.slot)!;
+        return (
+          <div key={photo.slot} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center text-sm text-gray-700 min-w-0">
+                {photoUrls[photo.path] ? (
+                  <img
+                    src={photoUrls[photo.path]}
+                    alt={`Photo ${photo.slot}`}
+                    className="h-12 w-12 rounded object-cover mr-3 flex-shrink-0"
+                  />
+                ) : (
+                  <ImageIcon className="h-4 w-4 mr-2 flex-shrink-0" />
+                )}
+                <span className="font-medium mr-2">Photo {photo.slot}</span>
+                <span className="text-gray-500 truncate">{photo.path.split('/').pop()}</span>
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  onClick={() => updateReview(photo.slot, { status: 'accepted', reason: undefined })}
+                  className={review.status === 'accepted' ? 'bg-green-600 hover:bg-green-700 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}
+                >
+                  <CheckIcon className="h-4 w-4 mr-1" />
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => updateReview(photo.slot, { status: 'rejected' })}
+                  className={review.status === 'rejected' ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}
+                >
+                  <XIcon className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+            {review.status === 'rejected' && (
+              <Input
+                value={review.reason || ''}
+                onChange={(e) => updateReview(photo.slot, { reason: e.target.value })}
+                placeholder="Reason for rejecting this photo"
+                list="photo-rejection-reasons"
+              />
+            )}
+          </div>
+        );
+      })}
+
+      <datalist id="photo-rejection-reasons">
+        {reasonTemplates.map(template => (
+          <option key={template.id} value={template.message}>{template.title}</option>
+        ))}
+      </datalist>
+
+      <div className={`p-3 rounded-lg text-sm ${acceptedCount > 0 ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+        {acceptedCount > 0
+          ? `${acceptedCount} of ${photos.length} photo(s) accepted. The submission will be approved${submission.points_awarded == null ? ` and ${missionPoints} points credited` : ''}.`
+          : 'All photos rejected. The submission will be rejected.'}
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          disabled={isSubmitting || missingReason}
+          className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+        >
+          {isSubmitting ? 'Saving...' : 'Save Review'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const RejectSubmissionForm = ({
+  submission,
+  reasonTemplates,
+  onSubmit,
+  onCancel
+}: {
+  submission: MissionSubmission;
+  reasonTemplates: RejectionReasonTemplate[];
+  onSubmit: (reason: string) => Promise<void>;
+  onCancel: () => void;
+}) => {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(reason.trim());
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {submission.user_name} will see this reason and can re-upload photos for {submission.month_year}.
+      </p>
+
+      {reasonTemplates.length > 0 && (
+        <div className="space-y-2">
+          <Label>Templates</Label>
+          <div className="flex flex-wrap gap-2">
+            {reasonTemplates.map(template => (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => setReason(template.message)}
+                className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                  reason === template.message
+                    ? 'bg-red-50 border-red-300 text-red-700'
+                    : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {template.title}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="rejection-reason">Reason</Label>
+        <Textarea
+          id="rejection-reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Explain why the submission was rejected"
+          rows={4}
+        />
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          disabled={isSubmitting || !reason.trim()}
+          className="bg-red-600 hover:bg-red-700 text-white"
+        >
+          {isSubmitting ? 'Rejecting...' : 'Reject Submission'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const RejectionReasonManager = ({
+  reasonTemplates,
+  onCreate,
+  onUpdate,
+  onDelete
+}: {
+  reasonTemplates: RejectionReasonTemplate[];
+  onCreate: (data: Pick<RejectionReasonTemplate, 'title' | 'message'>) => Promise<{ error: string | null }>;
+  onUpdate: (id: string, data: Pick<RejectionReasonTemplate, 'title' | 'message'>) => Promise<{ error: string | null }>;
+  onDelete: (id: string) => Promise<{ error: string | null }>;
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ title: '', message: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData({ title: '', message: '' });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const data = { title: formData.title.trim(), message: formData.message.trim() };
+      const { error } = editingId ? await onUpdate(editingId, data) : await onCreate(data);
+      if (error) {
+        alert('Error saving rejection reason: ' + error);
+      } else {
+        resetForm();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: RejectionReasonTemplate) => {
+    if (!window.confirm(`Delete the "${template.title}" template?`)) return;
+    const { error } = await onDelete(template.id);
+    if (error) {
+      alert('Error deleting rejection reason: ' + error);
+    } else if (editingId === template.id) {
+      resetForm();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 max-h-[300px] overflow-y-auto">
+        {reasonTemplates.map(template => (
+          <div key={template.id} className="border rounded-lg p-3 flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900">{template.title}</p>
+              <p className="text-sm text-gray-600">{template.message}</p>
+            </div>
+            <div className="flex space-x-1 flex-shrink-0">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  setEditingId(template.id);
+                  setFormData({ title: template.title, message: template.message });
+                }}
+              >
+                <PencilIcon className="h-4 w-4 text-gray-500" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => handleDelete(template)}>
+                <TrashIcon className="h-4 w-4 text-gray-500" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {reasonTemplates.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">No templates yet.</p>
+        )}
+      </div>
+
+      <div className="border-t pt-4 space-y-3">
+        <p className="text-sm font-medium text-gray-900">{editingId ? 'Edit Template' : 'New Template'}</p>
+        <Input
+          value={formData.title}
+          onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+          placeholder="Title, e.g. Photo unclear"
+        />
+        <Textarea
+          value={formData.message}
+          onChange={(e) => setFormData(prev => ({ ...prev, message: e.target.value }))}
+          placeholder="Reason shown to the user"
+          rows={3}
+        />
+        <div className="flex justify-end space-x-3">
+          {editingId && (
+            <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !formData.title.trim() || !formData.message.trim()}
+            className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+          >
+            {isSaving ? 'Saving...' : editingId ? 'Save Template' : 'Add Template'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SubmissionHistoryTimeline = ({
+  submission,
+  history,
+  loading
+}: {
+  submission: MissionSubmission;
+  history: SubmissionStatusChange[];
+  loading: boolean;
+}) => {
+  if (loading) {
+    return <p className="text-sm text-gray-500 py-4 text-center">Loading history...</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+      <li className="ml-4">
+        <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-gray-300" />
+        <p className="text-sm font-medium text-gray-900">Submitted</p>
+        <p className="text-xs text-gray-500">
+          {new Date(submission.created_at).toLocaleString()} · {submission.user_name}
+        </p>
+      </li>
+      {history.map(change => (
+        <li key={change.id} className="ml-4">
+          <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${
+            change.to_status === 'approved' ? 'bg-green-500' :
+            change.to_status === 'rejected' ? 'bg-red-500' :
+            'bg-yellow-400'
+          }`} />
+          <p className="text-sm font-medium text-gray-900">
+            {change.source === 'resubmission'
+              ? 'Photos re-uploaded, back to pending'
+              : `${change.from_status || 'pending'} → ${change.to_status}`}
+          </p>
+          <p className="text-xs text-gray-500">
+            {new Date(change.created_at).toLocaleString()} · {change.source === 'resubmission' ? submission.user_name : change.changed_by_name || 'Admin'}
+          </p>
+          {change.reason && (
+            <p className="mt-1 text-sm text-red-600 bg-red-50 rounded-md px-3 py-2">{change.reason}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+type MissionTemplateFormData = Omit<MissionTemplate, 'id' | 'created_at' | 'updated_at' | 'mission_count'>;
+
+const emptyTemplateForm = (): MissionTemplateFormData => ({
+  title: '',
+  description: '',
+  points: 100,
+  recurrence: 'monthly',
+  first_month: new Date().toISOString().slice(0, 7),
+  last_month: null,
+  is_active: true
+});
+
+const MissionTemplateManager = ({
+  templates,
+  onCreate,
+  onUpdate,
+  onDelete
+}: {
+  templates: MissionTemplate[];
+  onCreate: (data: MissionTemplateFormData) => Promise<{ error: string | null }>;
+  onUpdate: (id: string, data: Partial<MissionTemplate>) => Promise<{ error: string | null }>;
+  onDelete: (id: string) => Promise<{ error: string | null }>;
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<MissionTemplateFormData>(emptyTemplateForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(emptyTemplateForm());
+  };
+
+  const handleSave = async () => {
+    if (formData.last_month && formData.last_month < formData.first_month) {
+      alert('The last month must not be before the first month');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const data = { ...formData, title: formData.title.trim(), description: formData.description.trim() };
+      const { error } = editingId ? await onUpdate(editingId, data) : await onCreate(data);
+      if (error) {
+        alert('Error saving recurring mission: ' + error);
+      } else {
+        resetForm();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (template: MissionTemplate) => {
+    const { error } = await onUpdate(template.id, { is_active: !template.is_active });
+    if (error) alert('Error updating recurring mission: ' + error);
+  };
+
+  const handleDelete = async (template: MissionTemplate) => {
+    if (!window.confirm(`Delete the recurring mission "${template.title}"? Missions already created from it are kept.`)) return;
+    const { error } = await onDelete(template.id);
+    if (error) {
+      alert('Error deleting recurring mission: ' + error);
+    } else if (editingId === template.id) {
+      resetForm();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 max-h-[280px] overflow-y-auto">
+        {templates.map(template => (
+          <div key={template.id} className="border rounded-lg p-3 flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900">
+                {template.title}
+                {!template.is_active && <span className="ml-2 text-xs text-gray-500">(paused)</span>}
+              </p>
+              <p className="text-sm text-gray-600">
+                {recurrenceLabels[template.recurrence]} from {template.first_month}
+                {template.last_month ? ` to ${template.last_month}` : ''} · {template.points} points
+              </p>
+              <p className="text-xs text-gray-500">{template.mission_count || 0} mission(s) created</p>
+            </div>
+            <div className="flex items-center space-x-1 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={() => handleToggleActive(template)}>
+                {template.is_active ? 'Pause' : 'Resume'}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  setEditingId(template.id);
+                  setFormData({
+                    title: template.title,
+                    description: template.description,
+                    points: template.points,
+                    recurrence: template.recurrence,
+                    first_month: template.first_month,
+                    last_month: template.last_month || null,
+                    is_active: template.is_active
+                  });
+                }}
+              >
+                <PencilIcon className="h-4 w-4 text-gray-500" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => handleDelete(template)}>
+                <TrashIcon className="h-4 w-4 text-gray-500" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {templates.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">No recurring missions yet.</p>
+        )}
+      </div>
+
+      <div className="border-t pt-4 space-y-3">
+        <p className="text-sm font-medium text-gray-900">{editingId ? 'Edit Recurring Mission' : 'New Recurring Mission'}</p>
+        <Input
+          value={formData.title}
+          onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+          placeholder="Mission title"
+        />
+        <Textarea
+          value={formData.description}
+          onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+          placeholder="Mission description"
+          rows={2}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="template-points">Points</Label>
+            <Input
+              id="template-points"
+              type="number"
+              min="1"
+              value={formData.points}
+              onChange={(e) => setFormData(prev => ({ ...prev, points: parseInt(e.target.value) || 0 }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-recurrence">Repeats</Label>
+            <select
+              id="template-recurrence"
+              value={formData.recurrence}
+              onChange={(e) => setFormData(prev => ({ ...prev, recurrence: e.target.value as MissionRecurrence }))}
+              className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+            >
+              {(Object.keys(recurrenceLabels) as MissionRecurrence[]).map(recurrence => (
+                <option key={recurrence} value={recurrence}>{recurrenceLabels[recurrence]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-first-month">First month</Label>
+            <Input
+              id="template-first-month"
+              type="month"
+              value={formData.first_month}
+              onChange={(e) => setFormData(prev => ({ ...prev, first_month: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-last-month">Last month (optional)</Label>
+            <Input
+              id="template-last-month"
+              type="month"
+              value={formData.last_month || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, last_month: e.target.value || null }))}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-3">
+          {editingId && (
+            <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !formData.title.trim() || !formData.description.trim() || formData.points <= 0 || !formData.first_month}
+            className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+          >
+            {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Add Recurring Mission'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MAX_ZOOM = 4;
+
+const SubmissionLightbox = ({
+  submissions,
+  initialSubmissionId,
+  initialPhotoIndex,
+  photoUrls,
+  reasonTemplates,
+  onApprove,
+  onReject,
+  onClose
+}: {
+  submissions: MissionSubmission[];
+  initialSubmissionId: string;
+  initialPhotoIndex: number;
+  photoUrls: Record<string, string>;
+  reasonTemplates: RejectionReasonTemplate[];
+  onApprove: (submission: MissionSubmission) => Promise<{ error: string | null }>;
+  onReject: (submission: MissionSubmission, reason: string) => Promise<{ error: string | null }>;
+  onClose: () => void;
+}) => {
+  const gallery = submissions.filter(s => getSubmissionPhotos(s).length > 0);
+  const [submissionId, setSubmissionId] = useState(initialSubmissionId);
+  const [photoIndex, setPhotoIndex] = useState(initialPhotoIndex);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [dragStart, setDragStart] = useState<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
+  // null while the reject panel is closed
+  const [rejectReason, setRejectReason] = useState<string | null>(null);
+
+  // Reviewed submissions may drop out of a filtered list; fall back to the first remaining one
+  const submissionIndex = Math.max(0, gallery.findIndex(s => s.id === submissionId));
+  const submission = gallery[submissionIndex];
+  const photos = submission ? getSubmissionPhotos(submission) : [];
+  const currentPhotoIndex = Math.min(photoIndex, Math.max(photos.length - 1, 0));
+  const photo = photos[currentPhotoIndex];
+  const isPending = submission?.status?.toLowerCase() === 'pending';
+
+  const resetZoom = () => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const zoomBy = (delta: number) => {
+    const next = Math.min(MAX_ZOOM, Math.max(1, zoom + delta));
+    setZoom(next);
+    if (next === 1) setOffset({ x: 0, y: 0 });
+  };
+
+  const goToSubmission = (index: number, position: 'first' | 'last' = 'first') => {
+    const target = gallery[index];
+    if (!target) return;
+    setSubmissionId(target.id);
+    setPhotoIndex(position === 'first' ? 0 : getSubmissionPhotos(target).length - 1);
+    setRejectReason(null);
+    resetZoom();
+  };
+
+  const showNextPhoto = () => {
+    if (currentPhotoIndex < photos.length - 1) {
+      setPhotoIndex(currentPhotoIndex + 1);
+      resetZoom();
+    } else {
+      goToSubmission(submissionIndex + 1);
+    }
+  };
+
+  const showPreviousPhoto = () => {
+    if (currentPhotoIndex > 0) {
+      setPhotoIndex(currentPhotoIndex - 1);
+      resetZoom();
+    } else {
+      goToSubmission(submissionIndex - 1, 'last');
+    }
+  };
+
+  const review = async (action: (submission: MissionSubmission) => Promise<{ error: string | null }>) => {
+    if (!submission || !isPending || isReviewing) return;
+    
+    // Move on to the next submission so a reviewer can work through the backlog from the keyboard
+    const next = gallery[submissionIndex + 1];
+    setIsReviewing(true);
+    const { error } = await action(submission);
+    setIsReviewing(false);
+    
+    if (error) {
+      alert('Error reviewing submission: ' + error);
+      return;
+    }
+    setRejectReason(null);
+    if (next) {
+      setSubmissionId(next.id);
+      setPhotoIndex(0);
+      resetZoom();
+    }
+  };
+
+  const confirmReject = () => {
+    const reason = rejectReason?.trim();
+    if (reason) review(s => onReject(s, reason));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      
+      // While the reject panel is open, digits pick a template and Esc closes the panel
+      if (rejectReason !== null) {
+        const template = reasonTemplates[parseInt(e.key) - 1];
+        if (template) {
+          setRejectReason(template.message);
+        } else if (e.key === 'Enter') {
+          confirmReject();
+        } else if (e.key === 'Escape') {
+          setRejectReason(null);
+        } else {
+          return;
+        }
+        e.preventDefault();
+        return;
+      }
+      
+      switch (e.key) {
+        case 'ArrowRight': showNextPhoto(); break;
+        case 'ArrowLeft': showPreviousPhoto(); break;
+        case 'ArrowDown': goToSubmission(submissionIndex + 1); break;
+        case 'ArrowUp': goToSubmission(submissionIndex - 1); break;
+        case 'a': case 'A': review(onApprove); break;
+        case 'r': case 'R': if (isPending) setRejectReason(''); break;
+        case '+': case '=': zoomBy(0.5); break;
+        case '-': zoomBy(-0.5); break;
+        case '0': resetZoom(); break;
+        case 'Escape': onClose(); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    if (gallery.length === 0) onClose();
+  }, [gallery.length]);
+
+  if (!submission || !photo) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col text-white" role="dialog" aria-modal="true">
+      <div className="flex items-center justify-between gap-4 px-6 py-4">
+        <div className="flex items-center space-x-3 min-w-0">
+          <Avatar className="h-9 w-9">
+            <AvatarImage src={submission.user_avatar || ''} alt={submission.user_name} />
+            <AvatarFallback className="text-gray-900">{submission.user_name?.charAt(0) || 'U'}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <p className="font-semibold truncate">{submission.user_name}</p>
+            <p className="text-xs text-gray-300">
+              {submission.month_year} · Submission {submissionIndex + 1} of {gallery.length} · Photo {photo.slot} of {photos.length}
+            </p>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+            submission.status === 'approved' ? 'bg-green-100 text-green-800' :
+            submission.status === 'rejected' ? 'bg-red-100 text-red-800' :
+            'bg-yellow-100 text-yellow-800'
+          }`}>
+            {submission.status}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button size="icon" onClick={() => zoomBy(-0.5)} disabled={zoom <= 1} className="bg-white/10 hover:bg-white/20 text-white">
+            <ZoomOutIcon className="h-4 w-4" />
+          </Button>
+          <span className="text-sm w-12 text-center">{Math.round(zoom * 100)}%</span>
+          <Button size="icon" onClick={() => zoomBy(0.5)} disabled={zoom >= MAX_ZOOM} className="bg-white/10 hover:bg-white/20 text-white">
+            <ZoomInIcon className="h-4 w-4" />
+          </Button>
+          <Button size="icon" onClick={onClose} className="bg-white/10 hover:bg-white/20 text-white ml-4">
+            <XIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className={`relative flex-1 overflow-hidden flex items-center justify-center select-none ${
+          zoom > 1 ? (dragStart ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-zoom-in'
+        }`}
+        onWheel={(e) => zoomBy(e.deltaY < 0 ? 0.25 : -0.25)}
+        onDoubleClick={() => (zoom > 1 ? resetZoom() : setZoom(2))}
+        onMouseDown={(e) => {
+          if (zoom > 1) setDragStart({ x: e.clientX, y: e.clientY, offsetX: offset.x, offsetY: offset.y });
+        }}
+        onMouseMove={(e) => {
+          if (!dragStart) return;
+          setOffset({
+            x: dragStart.offsetX + (e.clientX - dragStart.x) / zoom,
+            y: dragStart.offsetY + (e.clientY - dragStart.y) / zoom
+          });
+        }}
+        onMouseUp={() => setDragStart(null)}
+        onMouseLeave={() => setDragStart(null)}
+      >
+        {photoUrls[photo.path] ? (
+          <img
+            src={photoUrls[photo.path]}
+            alt={`Photo ${photo.slot} from ${submission.user_name}`}
+            draggable={false}
+            className="max-h-full max-w-full object-contain transition-transform duration-100"
+            style={{ transform: `scale(${zoom}) translate(${offset.x}px, ${offset.y}px)` }}
+          />
+        ) : (
+          <p className="text-gray-300">Loading photo...</p>
+        )}
+
+        <button
+          onClick={(e) => { e.stopPropagation(); showPreviousPhoto(); }}
+          disabled={submissionIndex === 0 && currentPhotoIndex === 0}
+          className="absolute left-4 top-1/2 -translate-y-1/2 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 p-3"
+        >
+          <ChevronLeftIcon className="h-6 w-6" />
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); showNextPhoto(); }}
+          disabled={submissionIndex === gallery.length - 1 && currentPhotoIndex === photos.length - 1}
+          className="absolute right-4 top-1/2 -translate-y-1/2 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 p-3"
+        >
+          <ChevronRightIcon className="h-6 w-6" />
+        </button>
+      </div>
+
+      <div className="px-6 py-4 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex space-x-2">
+            {photos.map((item, index) => (
+              <button
+                key={item.slot}
+                onClick={() => { setPhotoIndex(index); resetZoom(); }}
+                className={`h-14 w-14 rounded overflow-hidden border-2 ${index === currentPhotoIndex ? 'border-[#009A5A]' : 'border-transparent opacity-60 hover:opacity-100'}`}
+              >
+                {photoUrls[item.path] && <img src={photoUrls[item.path]} alt={`Photo ${item.slot}`} className="h-full w-full object-cover" />}
+              </button>
+            ))}
+          </div>
+          {isPending && (
+            <div className="flex space-x-2">
+              <Button
+                onClick={() => review(onApprove)}
+                disabled={isReviewing}
+                className="bg-green-600 hover:bg-green-700 text-white"
+              >
+                <CheckIcon className="h-4 w-4 mr-2" />
+                Approve (A)
+              </Button>
+              <Button
+                onClick={() => setRejectReason(rejectReason === null ? '' : null)}
+                disabled={isReviewing}
+                className="bg-red-600 hover:bg-red-700 text-white"
+              >
+                <XIcon className="h-4 w-4 mr-2" />
+                Reject (R)
+              </Button>
+            </div>
+          )}
+        </div>
+        {isPending && rejectReason !== null && (
+          <div className="rounded-lg bg-white/10 p-3 space-y-2">
+            {reasonTemplates.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {reasonTemplates.slice(0, 9).map((template, index) => (
+                  <button
+                    key={template.id}
+                    onClick={() => setRejectReason(template.message)}
+                    className={`px-3 py-1 rounded-full text-xs ${rejectReason === template.message ? 'bg-red-600' : 'bg-white/10 hover:bg-white/20'}`}
+                  >
+                    {index + 1}. {template.title}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Textarea
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    confirmReject();
+                  } else if (e.key === 'Escape') {
+                    e.preventDefault();
+                    setRejectReason(null);
+                  }
+                }}
+                placeholder="Reason for rejecting this submission"
+                rows={2}
+                className="text-gray-900"
+              />
+              <Button
+                onClick={confirmReject}
+                disabled={isReviewing || !rejectReason.trim()}
+                className="bg-red-600 hover:bg-red-700 text-white self-end"
+              >
+                Confirm
+              </Button>
+            </div>
+          </div>
+        )}
+        {submission.status === 'rejected' && submission.rejection_reason && (
+          <p className="text-sm text-red-300">Rejected: {submission.rejection_reason}</p>
+        )}
+        {submission.status !== 'rejected' && submission.photo_reviews?.find(r => r.slot === photo.slot && r.status === 'rejected') && (
+          <p className="text-sm text-red-300">
+            Photo {photo.slot} rejected: {submission.photo_reviews.find(r => r.slot === photo.slot)?.reason}
+          </p>
+        )}
+        <p className="text-xs text-gray-400">
+          {rejectReason !== null
+            ? '1–9 pick a template · Enter confirm · Esc cancel'
+            : '← → photos · ↑ ↓ submissions · A approve · R reject · + − zoom · 0 reset · Esc close'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
 export const Missions = (): JSX.Element => {
   const { 
     missions, 
+    missionTemplates,
     submissions, 
     loading, 
     error, 
     createMission, 
     updateMission, 
     deleteMission,
+    photoUrls,
+    submissionHistory,
+    historyLoading,
+    rejectionReasons,
     fetchSubmissions,
+    fetchSubmissionHistory,
+    resolvePhotoUrls,
     approveSubmission,
-    rejectSubmission
+    rejectSubmission,
+    revertSubmission,
+    reviewSubmissionPhotos,
+    createMissionTemplate,
+    updateMissionTemplate,
+    deleteMissionTemplate,
+    createRejectionReason,
+    updateRejectionReason,
+    deleteRejectionReason
   } = useMissions();
+  const { can } = useAuthContext();
   
   const [selectedMission, setSelectedMission] = useState<Mission | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [reviewingSubmission, setReviewingSubmission] = useState<MissionSubmission | null>(null);
+  const [rejectingSubmission, setRejectingSubmission] = useState<MissionSubmission | null>(null);
+  const [historySubmission, setHistorySubmission] = useState<MissionSubmission | null>(null);
+  const [isReasonsDialogOpen, setIsReasonsDialogOpen] = useState(false);
+  const [isTemplatesDialogOpen, setIsTemplatesDialogOpen] = useState(false);
+  const [lightbox, setLightbox] = useState<{ submissionId: string; photoIndex: number } | null>(null);
   const [currentView, setCurrentView] = useState<'missions' | 'submissions'>('missions');
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -84,12 +1006,17 @@ export const Missions = (): JSX.Element => {
     });
   }, [submissions, searchQuery, statusFilter]);
 
+  useEffect(() => {
+    resolvePhotoUrls(submissions.flatMap(s => getSubmissionPhotos(s).map(photo => photo.path)));
+  }, [submissions]);
+
   const handleCreateMission = async (formData: MissionFormData) => {
     try {
-      // Add start_date as now
       const missionData = {
-        ...formData,
-        start_date: new Date().toISOString(),
+        title: formData.title,
+        description: formData.description,
+        points: formData.points,
+        ...toMissionWindow(formData)
       };
       const { error } = await createMission(missionData);
       if (!error) {
@@ -105,7 +1032,12 @@ export const Missions = (): JSX.Element => {
 
   const handleEditMission = async (missionId: string, formData: MissionFormData) => {
     try {
-      const { error } = await updateMission(missionId, formData);
+      const { error } = await updateMission(missionId, {
+        title: formData.title,
+        description: formData.description,
+        points: formData.points,
+        ...toMissionWindow(formData)
+      });
       
       if (!error) {
         setIsEditDialogOpen(false);
@@ -134,20 +1066,50 @@ export const Missions = (): JSX.Element => {
     setCurrentView('submissions');
   };
 
-  const handleApproveSubmission = async (userId: string, missionId: string) => {
+  const handleApproveSubmission = async (submission: MissionSubmission) => {
     if (!window.confirm('Are you sure you want to approve this submission?')) return;
-    const { error } = await approveSubmission(userId, missionId);
+    const { data, error } = await approveSubmission(submission);
     if (error) {
       alert('Error approving submission: ' + error);
     } else {
-      alert('Submission approved! Points awarded to user.');
+      alert(`Submission approved! ${data?.points_change || 0} points awarded to user.`);
     }
   };
 
-  const handleRejectSubmission = async (userId: string, missionId: string) => {
-    const { error } = await rejectSubmission(userId, missionId);
+  const handleRejectSubmission = async (reason: string) => {
+    if (!rejectingSubmission) return;
+    const { error } = await rejectSubmission(rejectingSubmission, reason);
     if (error) {
       alert('Error rejecting submission: ' + error);
+    } else {
+      setRejectingSubmission(null);
+    }
+  };
+
+  const handleViewHistory = async (submission: MissionSubmission) => {
+    setHistorySubmission(submission);
+    await fetchSubmissionHistory(submission);
+  };
+
+  const handleRevertSubmission = async (submission: MissionSubmission) => {
+    const message = submission.status === 'approved' && submission.points_awarded
+      ? `Revert this approval? ${submission.points_awarded} points will be deducted from ${submission.user_name}.`
+      : 'Move this submission back to pending?';
+    if (!window.confirm(message)) return;
+    
+    const { error } = await revertSubmission(submission);
+    if (error) {
+      alert('Error reverting submission: ' + error);
+    }
+  };
+
+  const handleReviewPhotos = async (reviews: PhotoReview[]) => {
+    if (!reviewingSubmission) return;
+    const { error } = await reviewSubmissionPhotos(reviewingSubmission, reviews);
+    if (error) {
+      alert('Error saving photo review: ' + error);
+    } else {
+      setReviewingSubmission(null);
     }
   };
 
@@ -156,11 +1118,17 @@ export const Missions = (): JSX.Element => {
     onSubmit: (data: MissionFormData) => void,
     mode: 'create' | 'edit' 
   }) => {
-    const [formData, setFormData] = useState<MissionFormData>(() => ({
-      title: mission?.title || '',
-      description: mission?.description || '',
-      points: mission?.points || 100,
-    }));
+    const [formData, setFormData] = useState<MissionFormData>(() => {
+      const today = new Date();
+      const endOfMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0));
+      return {
+        title: mission?.title || '',
+        description: mission?.description || '',
+        points: mission?.points || 100,
+        start_date: (mission?.start_date ? new Date(mission.start_date) : today).toISOString().slice(0, 10),
+        end_date: (mission?.end_date ? new Date(mission.end_date) : endOfMonth).toISOString().slice(0, 10),
+      };
+    });
 
     const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -178,6 +1146,14 @@ export const Missions = (): JSX.Element => {
         alert('Please enter valid points (greater than 0)');
         return;
       }
+      if (!formData.start_date || !formData.end_date) {
+        alert('Please select start and end dates');
+        return;
+      }
+      if (formData.end_date < formData.start_date) {
+        alert('End date must be on or after the start date');
+        return;
+      }
       setIsSubmitting(true);
       try {
         await onSubmit(formData);
@@ -225,6 +1201,36 @@ export const Missions = (): JSX.Element => {
             disabled={isSubmitting}
           />
         </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="start_date">Start Date *</Label>
+            <Input 
+              id="start_date" 
+              type="date"
+              value={formData.start_date}
+              onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+              required 
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="end_date">End Date *</Label>
+            <Input 
+              id="end_date" 
+              type="date"
+              min={formData.start_date}
+              value={formData.end_date}
+              onChange={(e) => setFormData(prev => ({ ...prev, end_date: e.target.value }))}
+              required 
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+        {mission?.template_id && (
+          <p className="text-xs text-gray-500">
+            This mission was created from a recurring mission. Changes here only affect the {mission.month_year} period.
+          </p>
+        )}
         <Button 
           type="submit" 
           className="w-full bg-[#009A5A] hover:bg-[#008a50] text-white"
@@ -262,12 +1268,31 @@ export const Missions = (): JSX.Element => {
         <div className="space-y-2 text-gray-600 text-sm mb-4">
           <p className="flex items-center">
             <CalendarIcon className="h-4 w-4 mr-2" />
-            <span>{new Date(mission.start_date).toLocaleDateString()} - {new Date(mission.end_date).toLocaleDateString()}</span>
+            <span>{formatMissionDate(mission.start_date)} - {formatMissionDate(mission.end_date)}</span>
           </p>
+          {mission.template_id && (
+            <p className="flex items-center">
+              <RepeatIcon className="h-4 w-4 mr-2" />
+              <span>Recurring · {mission.month_year}</span>
+            </p>
+          )}
           <p className="flex items-center">
             <UsersIcon className="h-4 w-4 mr-2" />
             <span>{mission.submission_count || 0} submissions</span>
           </p>
+          {(mission.submission_count || 0) > 0 && (
+            <div className="flex flex-wrap gap-2 pl-6">
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                {mission.pending_count || 0} pending
+              </span>
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                {mission.approved_count || 0} approved
+              </span>
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                {mission.rejected_count || 0} rejected
+              </span>
+            </div>
+          )}
         </div>
         
         <div className="flex justify-between items-center">
@@ -300,46 +1325,50 @@ export const Missions = (): JSX.Element => {
               </Tooltip>
             </TooltipProvider>
             
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button 
-                    variant="ghost" 
-                    size="icon"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setSelectedMission(mission);
-                      setIsEditDialogOpen(true);
-                    }}
-                  >
-                    <PencilIcon className="h-4 w-4 text-gray-500" />
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <p>Edit mission</p>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
+            {can('missions.manage') && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button 
+                      variant="ghost" 
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSelectedMission(mission);
+                        setIsEditDialogOpen(true);
+                      }}
+                    >
+                      <PencilIcon className="h-4 w-4 text-gray-500" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Edit mission</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
             
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button 
-                    variant="ghost" 
-                    size="icon"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDeleteMission(mission.id);
-                    }}
-                  >
-                    <TrashIcon className="h-4 w-4 text-gray-500" />
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <p>Delete mission</p>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
+            {can('missions.manage') && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button 
+                      variant="ghost" 
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteMission(mission.id);
+                      }}
+                    >
+                      <TrashIcon className="h-4 w-4 text-gray-500" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Delete mission</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
           </div>
         </div>
       </CardContent>
@@ -377,24 +1406,66 @@ export const Missions = (): JSX.Element => {
               <ImageIcon className="h-4 w-4 mr-2" />
               <span>{submission.photo_upload_count} photo(s) uploaded</span>
             </div>
+            {getSubmissionPhotos(submission).length > 0 && (
+              <div className="flex space-x-2">
+                {getSubmissionPhotos(submission).map((photo, index) => (
+                  <button
+                    key={photo.slot}
+                    onClick={() => setLightbox({ submissionId: submission.id, photoIndex: index })}
+                    className="h-16 w-16 rounded-md overflow-hidden bg-gray-100 hover:ring-2 hover:ring-[#009A5A]"
+                  >
+                    {photoUrls[photo.path] ? (
+                      <img src={photoUrls[photo.path]} alt={`Photo ${photo.slot}`} className="h-full w-full object-cover" />
+                    ) : (
+                      <ImageIcon className="h-5 w-5 text-gray-400 mx-auto" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="flex items-center text-sm text-gray-600">
               <CalendarIcon className="h-4 w-4 mr-2" />
               <span>{new Date(submission.created_at).toLocaleDateString()}</span>
             </div>
+            {submission.points_awarded != null && (
+              <div className="flex items-center text-sm text-[#009A5A]">
+                <CoinsIcon className="h-4 w-4 mr-2" />
+                <span>+{submission.points_awarded} points credited</span>
+              </div>
+            )}
+            {submission.status === 'rejected' && submission.rejection_reason && (
+              <div className="flex items-start text-sm text-red-600 bg-red-50 rounded-md px-3 py-2">
+                <MessageSquareIcon className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>{submission.rejection_reason}</span>
+              </div>
+            )}
+            {submission.status !== 'rejected' && submission.photo_reviews?.filter(r => r.status === 'rejected').map(review => (
+              <div key={review.slot} className="text-sm text-red-600 bg-red-50 rounded-md px-3 py-2">
+                Photo {review.slot} rejected: {review.reason}
+              </div>
+            ))}
           </div>
           
           {/* Show Approve/Reject buttons only if status is pending (case-insensitive) */}
-          {submission.status === 'PENDING' && (
+          {can('missions.review') && (submission.status?.toLowerCase() === 'pending' ? (
             <div className="flex space-x-2">
               <Button
-                onClick={() => handleApproveSubmission(submission.user_id, submission.mission_id)}
+                onClick={() => handleApproveSubmission(submission)}
                 className="flex-1 bg-green-600 hover:bg-green-700 text-white"
               >
                 <CheckIcon className="h-4 w-4 mr-2" />
                 Approve
               </Button>
               <Button
-                onClick={() => handleRejectSubmission(submission.user_id, submission.mission_id)}
+                onClick={() => setReviewingSubmission(submission)}
+                variant="outline"
+                className="flex-1"
+              >
+                <ImageIcon className="h-4 w-4 mr-2" />
+                Review Photos
+              </Button>
+              <Button
+                onClick={() => setRejectingSubmission(submission)}
                 variant="outline"
                 className="flex-1 border-red-300 text-red-600 hover:bg-red-50"
               >
@@ -402,7 +1473,24 @@ export const Missions = (): JSX.Element => {
                 Reject
               </Button>
             </div>
-          )}
+          ) : (
+            <Button
+              onClick={() => handleRevertSubmission(submission)}
+              variant="outline"
+              className="w-full"
+            >
+              <RotateCcwIcon className="h-4 w-4 mr-2" />
+              {submission.status === 'approved' ? 'Revert Approval' : 'Move Back to Pending'}
+            </Button>
+          ))}
+          <Button
+            onClick={() => handleViewHistory(submission)}
+            variant="ghost"
+            className="w-full mt-2 text-gray-600"
+          >
+            <HistoryIcon className="h-4 w-4 mr-2" />
+            Status History
+          </Button>
         </CardContent>
       </Card>
     );
@@ -439,8 +1527,13 @@ export const Missions = (): JSX.Element => {
   }
 
   const activeMissions = missions.filter(m => m.status === 'active').length;
-  const totalSubmissions = submissions.length;
-  const pendingSubmissions = submissions.filter(s => s.status === 'pending').length;
+  // Outside a mission's submission list the totals come from the per-mission counts
+  const totalSubmissions = currentView === 'submissions'
+    ? submissions.length
+    : missions.reduce((sum, m) => sum + (m.submission_count || 0), 0);
+  const pendingSubmissions = currentView === 'submissions'
+    ? submissions.filter(s => s.status === 'pending').length
+    : missions.reduce((sum, m) => sum + (m.pending_count || 0), 0);
 
   return (
     <TooltipProvider>
@@ -484,20 +1577,44 @@ export const Missions = (): JSX.Element => {
           </div>
           
           {currentView === 'missions' && (
-            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-              <DialogTrigger asChild>
-                <Button className="bg-[#009A5A] hover:bg-[#008a50] text-white py-6 px-8 text-lg font-semibold w-full lg:w-auto">
-                  <PlusIcon className="mr-2 h-5 w-5" />
-                  Create Mission
+            <div className="flex flex-col lg:flex-row gap-3 w-full lg:w-auto">
+              {can('missions.manage') && (
+                <Button
+                  variant="outline"
+                  onClick={() => setIsTemplatesDialogOpen(true)}
+                  className="py-6 px-6 text-lg font-semibold w-full lg:w-auto"
+                >
+                  <RepeatIcon className="mr-2 h-5 w-5" />
+                  Recurring Missions
+                </Button>
+              )}
+              {can('missions.review') && (
+                <Button
+                  variant="outline"
+                  onClick={() => setIsReasonsDialogOpen(true)}
+                  className="py-6 px-6 text-lg font-semibold w-full lg:w-auto"
+                >
+                  <MessageSquareIcon className="mr-2 h-5 w-5" />
+                  Rejection Reasons
                 </Button>
-              </DialogTrigger>
-              <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
-                <DialogHeader>
-                  <DialogTitle>Create New Mission</DialogTitle>
-                </DialogHeader>
-                <MissionForm mode="create" onSubmit={handleCreateMission} />
-              </DialogContent>
-            </Dialog>
+              )}
+              {can('missions.manage') && (
+                <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button className="bg-[#009A5A] hover:bg-[#008a50] text-white py-6 px-8 text-lg font-semibold w-full lg:w-auto">
+                      <PlusIcon className="mr-2 h-5 w-5" />
+                      Create Mission
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>Create New Mission</DialogTitle>
+                    </DialogHeader>
+                    <MissionForm mode="create" onSubmit={handleCreateMission} />
+                  </DialogContent>
+                </Dialog>
+              )}
+            </div>
           )}
         </div>
 
@@ -729,7 +1846,97 @@ export const Missions = (): JSX.Element => {
           </Card>
         )}
 
+        {lightbox && (
+          <SubmissionLightbox
+            submissions={filteredSubmissions}
+            initialSubmissionId={lightbox.submissionId}
+            initialPhotoIndex={lightbox.photoIndex}
+            photoUrls={photoUrls}
+            reasonTemplates={rejectionReasons}
+            onApprove={approveSubmission}
+            onReject={rejectSubmission}
+            onClose={() => setLightbox(null)}
+          />
+        )}
+
         {/* Dialogs */}
+        <Dialog open={!!rejectingSubmission} onOpenChange={(open) => !open && setRejectingSubmission(null)}>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>Reject Submission: {rejectingSubmission?.user_name}</DialogTitle>
+            </DialogHeader>
+            {rejectingSubmission && (
+              <RejectSubmissionForm
+                submission={rejectingSubmission}
+                reasonTemplates={rejectionReasons}
+                onSubmit={handleRejectSubmission}
+                onCancel={() => setRejectingSubmission(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!historySubmission} onOpenChange={(open) => !open && setHistorySubmission(null)}>
+          <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Status History: {historySubmission?.user_name} ({historySubmission?.month_year})</DialogTitle>
+            </DialogHeader>
+            {historySubmission && (
+              <SubmissionHistoryTimeline
+                submission={historySubmission}
+                history={submissionHistory}
+                loading={historyLoading}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={isTemplatesDialogOpen} onOpenChange={setIsTemplatesDialogOpen}>
+          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Recurring Missions</DialogTitle>
+            </DialogHeader>
+            <MissionTemplateManager
+              templates={missionTemplates}
+              onCreate={createMissionTemplate}
+              onUpdate={updateMissionTemplate}
+              onDelete={deleteMissionTemplate}
+            />
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={isReasonsDialogOpen} onOpenChange={setIsReasonsDialogOpen}>
+          <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Rejection Reason Templates</DialogTitle>
+            </DialogHeader>
+            <RejectionReasonManager
+              reasonTemplates={rejectionReasons}
+              onCreate={createRejectionReason}
+              onUpdate={updateRejectionReason}
+              onDelete={deleteRejectionReason}
+            />
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!reviewingSubmission} onOpenChange={(open) => !open && setReviewingSubmission(null)}>
+          <DialogContent className="sm:max-w-[560px]">
+            <DialogHeader>
+              <DialogTitle>Review Photos: {reviewingSubmission?.user_name}</DialogTitle>
+            </DialogHeader>
+            {reviewingSubmission && (
+              <PhotoReviewForm
+                submission={reviewingSubmission}
+                missionPoints={selectedMission?.points || 0}
+                photoUrls={photoUrls}
+                reasonTemplates={rejectionReasons}
+                onSubmit={handleReviewPhotos}
+                onCancel={() => setReviewingSubmission(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
           <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
@@ -769,12 +1976,18 @@ export const Missions = (): JSX.Element => {
                 <div className="space-y-2">
                   <p className="flex items-center text-gray-600">
                     <CalendarIcon className="h-4 w-4 mr-2" />
-                    <span>Start: {new Date(selectedMission.start_date).toLocaleDateString()}</span>
+                    <span>Start: {formatMissionDate(selectedMission.start_date)}</span>
                   </p>
                   <p className="flex items-center text-gray-600">
                     <CalendarIcon className="h-4 w-4 mr-2" />
-                    <span>End: {new Date(selectedMission.end_date).toLocaleDateString()}</span>
+                    <span>End: {formatMissionDate(selectedMission.end_date)}</span>
                   </p>
+                  {selectedMission.month_year && (
+                    <p className="flex items-center text-gray-600">
+                      {selectedMission.template_id ? <RepeatIcon className="h-4 w-4 mr-2" /> : <ClockIcon className="h-4 w-4 mr-2" />}
+                      <span>Submission period: {selectedMission.month_year}{selectedMission.template_id ? ' (recurring)' : ''}</span>
+                    </p>
+                  )}
                 </div>
                 
                 <div className="flex justify-between items-center">
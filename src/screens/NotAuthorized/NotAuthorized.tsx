@@ -0,0 +1,63 @@
+import { Link } from "react-router-dom";
+import { ShieldOffIcon, LogOutIcon } from "lucide-react";
+import { Card, CardContent } from "../../components/ui/card";
+import { Button } from "../../components/ui/button";
+import { useAuthContext } from "../../components/Auth/AuthProvider";
+import { getRoleLabel, isAdminRole } from "../../lib/permissions";
+
+// Shown inside the layout for pages the admin's role does not cover, and on its own
+// for signed-in accounts that are not admins at all
+export const NotAuthorized = (): JSX.Element => {
+  const { user, profile, signOut } = useAuthContext();
+  const isAdmin = isAdminRole(profile?.role);
+
+  const content = (
+    <Card className="w-full max-w-md border-none shadow-sm">
+      <CardContent className="p-8 text-center space-y-4">
+        <div className="mx-auto w-14 h-14 rounded-full bg-red-50 flex items-center justify-center">
+          <ShieldOffIcon className="h-7 w-7 text-red-600" />
+        </div>
+        <h1 className="text-2xl font-extrabold text-black [font-family:'Roboto',Helvetica]">
+          Not Authorized
+        </h1>
+        {isAdmin ? (
+          <p className="text-[15px] text-[#888282]">
+            Your role ({getRoleLabel(profile!.role)}) does not have access to this page. Ask a super
+            admin if you need it.
+          </p>
+        ) : (
+          <p className="text-[15px] text-[#888282]">
+            {profile?.email || user?.email} is not an admin account. The EcoWave Hub is only available
+            to invited admins.
+          </p>
+        )}
+        {isAdmin ? (
+          <Link to="/">
+            <Button className="bg-[#009A5A] hover:bg-[#008a50] text-white">
+              Back to Dashboard
+            </Button>
+          </Link>
+        ) : (
+          <Button onClick={() => signOut()} variant="outline">
+            <LogOutIcon className="h-4 w-4 mr-2" />
+            Sign Out
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[#f8f8f8] p-4">
+        {content}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-6 lg:p-10 flex justify-center">
+      {content}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { NotAuthorized } from "./NotAuthorized";
\ No newline at end of file
@@ -0,0 +1,574 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "../../components/ui/card";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { Button } from "../../components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
+import { Avatar, AvatarFallback, AvatarImage } from "../../components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "../../components/ui/tooltip";
+import {
+  CalendarIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ChevronsLeftIcon,
+  ChevronsRightIcon,
+  CoinsIcon,
+  DownloadIcon,
+  FileSpreadsheetIcon,
+  GiftIcon,
+  ReceiptIcon,
+  SearchIcon,
+  XIcon
+} from "lucide-react";
+import { useRedemptions, RedemptionExportFormat } from "../../hooks/useRedemptions";
+import { RedemptionStatus, REDEMPTION_STATUS_TRANSITIONS, isRedemptionRefunded } from "../../lib/dataService";
+import { buildCsv, buildXlsx } from "../../lib/spreadsheetExport";
+import { useAuthContext } from "../../components/Auth/AuthProvider";
+
+const redemptionStatusLabels: Record<RedemptionStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  ready_for_pickup: 'Ready for Pickup',
+  fulfilled: 'Fulfilled',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded'
+};
+
+const redemptionStatusStyles: Record<RedemptionStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  ready_for_pickup: 'bg-purple-100 text-purple-800',
+  fulfilled: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  refunded: 'bg-red-100 text-red-800'
+};
+
+const formatRedemptionDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+export const Redemptions = (): JSX.Element => {
+  const {
+    redemptions,
+    total,
+    summary,
+    rewards,
+    query,
+    setQuery,
+    resetQuery,
+    loading,
+    fetching,
+    error,
+    exportRedemptions
+  } = useRedemptions();
+  const { can } = useAuthContext();
+  const [userSearch, setUserSearch] = useState(query.userSearch || "");
+  const [exportingFormat, setExportingFormat] = useState<RedemptionExportFormat | null>(null);
+
+  // The date inputs and the URL work on whole days
+  const fromDate = query.from ? query.from.slice(0, 10) : "";
+  const toDate = query.to ? query.to.slice(0, 10) : "";
+  const rewardFilter = query.rewardId || "all";
+  const statusFilter = query.status || "all";
+
+  // Pagination states
+  const currentPage = query.page || 1;
+  const itemsPerPage = query.pageSize || 25;
+
+  // Keep the search box in step with the URL (back/forward, bookmarked links)
+  useEffect(() => {
+    setUserSearch(query.userSearch || "");
+  }, [query.userSearch]);
+
+  // Search is sent to the server once typing pauses
+  useEffect(() => {
+    const search = userSearch.trim();
+    if (search === (query.userSearch || "")) return;
+    const timeout = setTimeout(() => setQuery({ userSearch: search || undefined }), 300);
+    return () => clearTimeout(timeout);
+  }, [userSearch]);
+
+  // Pagination calculations
+  const totalItems = total;
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+  const startIndex = (currentPage - 1) * itemsPerPage;
+  const endIndex = startIndex + redemptions.length;
+
+  // Pagination helpers
+  const goToPage = (page: number) => {
+    setQuery({ page: Math.max(1, Math.min(page, totalPages)) });
+  };
+
+  const goToFirstPage = () => goToPage(1);
+  const goToLastPage = () => goToPage(totalPages);
+  const goToPreviousPage = () => goToPage(currentPage - 1);
+  const goToNextPage = () => goToPage(currentPage + 1);
+
+  const handleFromDateChange = (value: string) => {
+    setQuery({ from: value ? `${value}T00:00:00.000Z` : undefined });
+  };
+
+  const handleToDateChange = (value: string) => {
+    setQuery({ to: value ? `${value}T23:59:59.999Z` : undefined });
+  };
+
+  const handleExport = async (format: RedemptionExportFormat) => {
+    setExportingFormat(format);
+    const { data, error } = await exportRedemptions(format);
+    setExportingFormat(null);
+
+    if (error || !data) {
+      alert('Error exporting redemptions: ' + error);
+      return;
+    }
+
+    const rows = [
+      ['Redemption ID', 'Redeemed At', 'User Name', 'User Email', 'Reward', 'Points', 'Status'],
+      ...data.map(item => [
+        Number(item.id),
+        new Date(item.redeemed_at).toLocaleString(),
+        item.user_name,
+        item.user_email,
+        item.reward_name,
+        item.points_deducted,
+        redemptionStatusLabels[item.status] || item.status
+      ])
+    ];
+    const blob = format === 'xlsx' ? buildXlsx('Redemptions', rows) : buildCsv(rows);
+
+    const range = [fromDate, toDate].filter(Boolean).join('-to-');
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `redemptions${range ? `-${range}` : ''}.${format}`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  // Pagination component
+  const PaginationControls = () => (
+    <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mt-6 pt-4 border-t">
+      <div className="flex items-center space-x-2 text-sm text-gray-600">
+        <span>Show</span>
+        <Select value={itemsPerPage.toString()} onValueChange={(value) => setQuery({ pageSize: parseInt(value) })}>
+          <SelectTrigger className="w-[70px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="10">10</SelectItem>
+            <SelectItem value="25">25</SelectItem>
+            <SelectItem value="50">50</SelectItem>
+            <SelectItem value="100">100</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>entries per page</span>
+      </div>
+
+      <div className="flex items-center space-x-2 text-sm text-gray-600">
+        <span>
+          Showing {startIndex + 1} to {endIndex} of {totalItems} entries
+        </span>
+      </div>
+
+      <div className="flex items-center space-x-1">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={goToFirstPage}
+              disabled={currentPage === 1}
+            >
+              <ChevronsLeftIcon className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>First page</p>
+          </TooltipContent>
+        </Tooltip>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={goToPreviousPage}
+              disabled={currentPage === 1}
+            >
+              <ChevronLeftIcon className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Previous page</p>
+          </TooltipContent>
+        </Tooltip>
+
+        {/* Page numbers */}
+        <div className="flex items-center space-x-1">
+          {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+            let pageNumber;
+            if (totalPages <= 5) {
+              pageNumber = i + 1;
+            } else if (currentPage <= 3) {
+              pageNumber = i + 1;
+            } else if (currentPage >= totalPages - 2) {
+              pageNumber = totalPages - 4 + i;
+            } else {
+              pageNumber = currentPage - 2 + i;
+            }
+
+            return (
+              <Button
+                key={pageNumber}
+                variant={currentPage === pageNumber ? "default" : "outline"}
+                size="icon"
+                className={`h-8 w-8 ${
+                  currentPage === pageNumber
+                    ? 'bg-[#009A5A] text-white hover:bg-[#008a50]'
+                    : ''
+                }`}
+                onClick={() => goToPage(pageNumber)}
+              >
+                {pageNumber}
+              </Button>
+            );
+          })}
+        </div>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={goToNextPage}
+              disabled={currentPage === totalPages}
+            >
+              <ChevronRightIcon className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Next page</p>
+          </TooltipContent>
+        </Tooltip>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={goToLastPage}
+              disabled={currentPage === totalPages}
+            >
+              <ChevronsRightIcon className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Last page</p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="p-4 md:p-6 lg:p-10 space-y-7">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-extrabold text-black [font-family:'Roboto',Helvetica]">
+            Redemptions
+          </h1>
+          <p className="mt-2 md:mt-4 text-[15px] text-[#888282] [font-family:'Roboto',Helvetica]">
+            Loading redemptions...
+          </p>
+        </div>
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#009A5A]"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 md:p-6 lg:p-10 space-y-7">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-extrabold text-black [font-family:'Roboto',Helvetica]">
+            Redemptions
+          </h1>
+          <p className="mt-2 md:mt-4 text-[15px] text-red-600">
+            Error loading redemptions: {error}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const totalRedemptions = summary?.total_redemptions ?? total;
+  const totalPoints = summary?.total_points ?? 0;
+  const averagePoints = totalRedemptions > 0 ? Math.round(totalPoints / totalRedemptions) : 0;
+  const hasFilters = Boolean(query.from || query.to || query.userSearch || query.rewardId || query.status);
+
+  return (
+    <TooltipProvider>
+      <div className="p-4 md:p-6 lg:p-10 space-y-7">
+        {/* Header */}
+        <div className="flex flex-col lg:flex-row lg:justify-between lg:items-start gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-extrabold text-black [font-family:'Roboto',Helvetica]">
+              Redemptions
+            </h1>
+            <p className="mt-2 md:mt-4 text-[15px] text-[#888282] [font-family:'Roboto',Helvetica]">
+              Every reward redemption across all rewards
+            </p>
+          </div>
+
+          {can('data.export') && (
+            <div className="flex flex-col sm:flex-row gap-3 w-full lg:w-auto">
+              <Button
+                variant="outline"
+                className="py-3 px-6 text-lg font-semibold w-full lg:w-auto border-[#009A5A] text-[#009A5A]"
+                onClick={() => handleExport('csv')}
+                disabled={exportingFormat !== null || totalItems === 0}
+              >
+                <DownloadIcon className="mr-2 h-5 w-5" />
+                {exportingFormat === 'csv' ? 'Exporting...' : 'Export CSV'}
+              </Button>
+              <Button
+                className="bg-[#009A5A] hover:bg-[#008a50] text-white py-3 px-6 text-lg font-semibold w-full lg:w-auto"
+                onClick={() => handleExport('xlsx')}
+                disabled={exportingFormat !== null || totalItems === 0}
+              >
+                <FileSpreadsheetIcon className="mr-2 h-5 w-5" />
+                {exportingFormat === 'xlsx' ? 'Exporting...' : 'Export XLSX'}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 md:gap-6">
+          <Card className="bg-white border-none shadow-sm">
+            <CardContent className="p-6">
+              <div className="flex items-center">
+                <div className="p-3 bg-[#009A5A]/10 rounded-lg mr-4">
+                  <ReceiptIcon className="h-8 w-8 text-[#009A5A]" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">{hasFilters ? 'Matching Redemptions' : 'Total Redemptions'}</p>
+                  <p className="text-2xl font-bold text-gray-900">{totalRedemptions.toLocaleString()}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-white border-none shadow-sm">
+            <CardContent className="p-6">
+              <div className="flex items-center">
+                <div className="p-3 bg-purple-100 rounded-lg mr-4">
+                  <CoinsIcon className="h-8 w-8 text-purple-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Points Spent</p>
+                  <p className="text-2xl font-bold text-gray-900">{totalPoints.toLocaleString()}</p>
+                  <p className="text-xs text-gray-500">Cancelled and refunded excluded</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="bg-white border-none shadow-sm">
+            <CardContent className="p-6">
+              <div className="flex items-center">
+                <div className="p-3 bg-blue-100 rounded-lg mr-4">
+                  <GiftIcon className="h-8 w-8 text-blue-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Avg. Points per Redemption</p>
+                  <p className="text-2xl font-bold text-gray-900">{averagePoints.toLocaleString()}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Redemptions Table */}
+        <Card className="border-none shadow-sm">
+          <CardContent className="p-4 md:p-6">
+            {/* Filters */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
+              <div className="space-y-2 lg:col-span-2">
+                <Label htmlFor="redemption_user">User</Label>
+                <div className="relative">
+                  <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                  <Input
+                    id="redemption_user"
+                    className="pl-9"
+                    placeholder="Search by name or email..."
+                    value={userSearch}
+                    onChange={(e) => setUserSearch(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="redemption_reward">Reward</Label>
+                <Select value={rewardFilter} onValueChange={(value) => setQuery({ rewardId: value === "all" ? undefined : value })}>
+                  <SelectTrigger id="redemption_reward">
+                    <SelectValue placeholder="Reward" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Rewards</SelectItem>
+                    {rewards.map(reward => (
+                      <SelectItem key={reward.id} value={reward.id}>{reward.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="redemption_status">Status</Label>
+                <Select
+                  value={statusFilter}
+                  onValueChange={(value) => setQuery({ status: value === "all" ? undefined : value as RedemptionStatus })}
+                >
+                  <SelectTrigger id="redemption_status">
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    {(Object.keys(REDEMPTION_STATUS_TRANSITIONS) as RedemptionStatus[]).map(status => (
+                      <SelectItem key={status} value={status}>{redemptionStatusLabels[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="redemption_from">From</Label>
+                  <Input
+                    id="redemption_from"
+                    type="date"
+                    max={toDate || undefined}
+                    value={fromDate}
+                    onChange={(e) => handleFromDateChange(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="redemption_to">To</Label>
+                  <Input
+                    id="redemption_to"
+                    type="date"
+                    min={fromDate || undefined}
+                    value={toDate}
+                    onChange={(e) => handleToDateChange(e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between mb-4 text-sm text-gray-600">
+              <span>
+                {totalItems} redemption{totalItems === 1 ? '' : 's'}
+                {fetching && <span className="ml-2 text-gray-400">Updating...</span>}
+              </span>
+              {hasFilters && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setUserSearch("");
+                    resetQuery();
+                  }}
+                  className="text-gray-600 hover:text-gray-900"
+                >
+                  <XIcon className="h-4 w-4 mr-1" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
+
+            {/* Table */}
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-600">No.</th>
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-600">User</th>
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-600">Reward</th>
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-600">Points</th>
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-600">Status</th>
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-600">Redeemed</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {redemptions.map((item, index) => (
+                    <tr key={item.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <span className="text-sm font-medium text-gray-900">
+                          {startIndex + index + 1}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center">
+                          <Avatar className="h-10 w-10">
+                            <AvatarImage src={item.user_avatar || ''} alt={item.user_name} />
+                            <AvatarFallback>{item.user_name?.charAt(0) || 'U'}</AvatarFallback>
+                          </Avatar>
+                          <div className="ml-4">
+                            {can('users.view') ? (
+                              <Link to={`/users/${item.user_id}`} className="font-medium text-gray-900 hover:text-[#009A5A] hover:underline">
+                                {item.user_name}
+                              </Link>
+                            ) : (
+                              <span className="font-medium text-gray-900">{item.user_name}</span>
+                            )}
+                            <div className="text-gray-500 text-sm">{item.user_email}</div>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{item.reward_name}</td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center">
+                          <CoinsIcon className="h-4 w-4 mr-2 text-[#009A5A]" />
+                          <span className={`font-medium ${isRedemptionRefunded(item.status) ? 'line-through text-gray-400' : ''}`}>
+                            {item.points_deducted.toLocaleString()}
+                          </span>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${redemptionStatusStyles[item.status]}`}>
+                          {redemptionStatusLabels[item.status] || item.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        <div className="flex items-center">
+                          <CalendarIcon className="h-4 w-4 mr-2" />
+                          {formatRedemptionDate(item.redeemed_at)}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Empty State */}
+            {redemptions.length === 0 && (
+              <div className="text-center py-12">
+                <ReceiptIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">
+                  {hasFilters
+                    ? 'No redemptions match your filters.'
+                    : 'No rewards have been redeemed yet.'}
+                </p>
+              </div>
+            )}
+
+            {/* Pagination Controls */}
+            {totalPages > 1 && <PaginationControls />}
+          </CardContent>
+        </Card>
+      </div>
+    </TooltipProvider>
+  );
+};
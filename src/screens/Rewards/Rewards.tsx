@@ -1,4 +1,5 @@
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent } from "../../components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../components/ui/tabs";
 import { Button } from "../../components/ui/button";
@@ -27,10 +28,27 @@ import {
   FilterIcon,
   SortAscIcon,
   SortDescIcon,
-  XIcon
+  XIcon,
+  ClipboardListIcon,
+  PackagePlusIcon
 } from "lucide-react";
 import { useRewards } from "../../hooks/useRewards";
-import { Reward } from "../../lib/dataService";
+import {
+  Reward,
+  RewardCategory,
+  RewardLimitPeriod,
+  RewardRedemption,
+  RewardRestock,
+  RedemptionStatus,
+  RedemptionStatusChange,
+  REDEMPTION_STATUS_TRANSITIONS,
+  isRedemptionRefunded,
+  getRewardAvailability,
+  isLowStock,
+  DEFAULT_LOW_STOCK_THRESHOLD
+} from "../../lib/dataService";
+import { useAuthContext } from "../../components/Auth/AuthProvider";
+import { LowStockAlerts } from "../../components/Rewards/LowStockAlerts";
 
 interface RewardFormData {
   name: string;
@@ -38,22 +56,362 @@ interface RewardFormData {
   points_required: number;
   stock: number;
   image_url: string;
+  category: RewardCategory;
+  start_date: string | null;
+  end_date: string | null;
+  max_per_user: number | null;
+  limit_period: RewardLimitPeriod;
+  low_stock_threshold: number;
 }
 
-interface RedemptionHistoryItem {
-  id: string;
-  user_name: string;
-  user_email: string;
-  user_avatar?: string;
-  reward_name: string;
-  points_deducted: number;
-  redeemed_at: string;
-  status: string;
-}
+const rewardCategoryLabels: Record<RewardCategory, string> = {
+  merchandise: 'Merchandise',
+  voucher: 'Vouchers',
+  donation: 'Donations',
+  experience: 'Experiences'
+};
+
+const rewardCategoryStyles: Record<RewardCategory, string> = {
+  merchandise: 'bg-blue-100 text-blue-800',
+  voucher: 'bg-orange-100 text-orange-800',
+  donation: 'bg-green-100 text-green-800',
+  experience: 'bg-purple-100 text-purple-800'
+};
+
+const limitPeriodLabels: Record<RewardLimitPeriod, string> = {
+  month: 'per month',
+  quarter: 'per quarter',
+  year: 'per year',
+  lifetime: 'in total'
+};
+
+const formatRewardDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Describes the availability window and per-user limit, e.g. "Until Sep 30, 2025 · Max 1 per quarter per user"
+const describeRewardRules = (reward: Reward): string[] => {
+  const rules: string[] = [];
+  if (reward.start_date && reward.end_date) {
+    rules.push(`${formatRewardDate(reward.start_date)} – ${formatRewardDate(reward.end_date)}`);
+  } else if (reward.start_date) {
+    rules.push(`From ${formatRewardDate(reward.start_date)}`);
+  } else if (reward.end_date) {
+    rules.push(`Until ${formatRewardDate(reward.end_date)}`);
+  }
+  if (reward.max_per_user) {
+    rules.push(`Max ${reward.max_per_user} ${limitPeriodLabels[reward.limit_period]} per user`);
+  }
+  return rules;
+};
 
 type SortField = 'name' | 'points' | 'stock' | 'redemptions';
 type SortOrder = 'asc' | 'desc';
 
+const redemptionStatusLabels: Record<RedemptionStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  ready_for_pickup: 'Ready for Pickup',
+  fulfilled: 'Fulfilled',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded'
+};
+
+const redemptionStatusStyles: Record<RedemptionStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  ready_for_pickup: 'bg-purple-100 text-purple-800',
+  fulfilled: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  refunded: 'bg-red-100 text-red-800'
+};
+
+const redemptionStatusDots: Record<RedemptionStatus, string> = {
+  pending: 'bg-yellow-400',
+  approved: 'bg-blue-500',
+  ready_for_pickup: 'bg-purple-500',
+  fulfilled: 'bg-green-500',
+  cancelled: 'bg-gray-400',
+  refunded: 'bg-red-500'
+};
+
+const RedemptionStatusManager = ({
+  redemption,
+  canManage,
+  loadHistory,
+  onChangeStatus
+}: {
+  redemption: RewardRedemption;
+  canManage: boolean;
+  loadHistory: (redemptionId: string) => Promise<RedemptionStatusChange[]>;
+  onChangeStatus: (status: RedemptionStatus, note: string) => Promise<{ error: string | null }>;
+}) => {
+  const [history, setHistory] = useState<RedemptionStatusChange[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(true);
+  const [nextStatus, setNextStatus] = useState<RedemptionStatus | null>(null);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const nextStatuses = REDEMPTION_STATUS_TRANSITIONS[redemption.status] || [];
+  const noteRequired = nextStatus !== null && isRedemptionRefunded(nextStatus);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistoryLoading(true);
+    loadHistory(redemption.id).then(data => {
+      if (!cancelled) {
+        setHistory(data);
+        setHistoryLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [redemption.id, redemption.status]);
+
+  const handleSave = async () => {
+    if (!nextStatus) return;
+    if (noteRequired && !note.trim()) {
+      alert(`Please give a reason for the ${nextStatus === 'cancelled' ? 'cancellation' : 'refund'}`);
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await onChangeStatus(nextStatus, note);
+    setIsSaving(false);
+
+    if (error) {
+      alert('Error updating redemption: ' + error);
+      return;
+    }
+    setNextStatus(null);
+    setNote('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+        <div>
+          <p className="font-medium">{redemption.user_name} · {redemption.reward_name}</p>
+          <p className="text-gray-600">
+            {redemption.points_deducted.toLocaleString()} points · Redeemed {new Date(redemption.redeemed_at).toLocaleDateString()}
+          </p>
+        </div>
+        <span className={`px-3 py-1 rounded-full text-xs font-medium ${redemptionStatusStyles[redemption.status]}`}>
+          {redemptionStatusLabels[redemption.status]}
+        </span>
+      </div>
+
+      {canManage && nextStatuses.length > 0 && (
+        <div className="space-y-3">
+          <Label>Move to</Label>
+          <div className="flex flex-wrap gap-2">
+            {nextStatuses.map(status => (
+              <Button
+                key={status}
+                type="button"
+                variant={nextStatus === status ? 'default' : 'outline'}
+                onClick={() => setNextStatus(status)}
+                disabled={isSaving}
+                className={nextStatus === status
+                  ? (isRedemptionRefunded(status) ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-[#009A5A] hover:bg-[#008a50] text-white')
+                  : ''}
+              >
+                {redemptionStatusLabels[status]}
+              </Button>
+            ))}
+          </div>
+          {nextStatus && (
+            <>
+              {isRedemptionRefunded(nextStatus) && (
+                <p className="text-sm text-gray-600">
+                  {nextStatus === 'cancelled'
+                    ? `The unit goes back into stock and ${redemption.points_deducted.toLocaleString()} points are refunded to ${redemption.user_name}.`
+                    : `${redemption.points_deducted.toLocaleString()} points are refunded to ${redemption.user_name}; the stock does not change.`}
+                </p>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="redemption_note">{noteRequired ? 'Reason *' : 'Note'}</Label>
+                <Textarea
+                  id="redemption_note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={2}
+                  disabled={isSaving}
+                  placeholder={noteRequired ? 'Why is this redemption being reversed?' : 'Optional note for the history'}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleSave}
+                  disabled={isSaving || (noteRequired && !note.trim())}
+                  className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+                >
+                  {isSaving ? 'Saving...' : `Mark as ${redemptionStatusLabels[nextStatus]}`}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-gray-900">Status History</h4>
+        {historyLoading ? (
+          <p className="text-sm text-gray-500 py-4 text-center">Loading history...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">No status changes recorded for this redemption.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+            {history.map(change => (
+              <li key={change.id} className="ml-4">
+                <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${redemptionStatusDots[change.to_status]}`} />
+                <p className="text-sm font-medium text-gray-900">
+                  {change.from_status
+                    ? `${redemptionStatusLabels[change.from_status]} → ${redemptionStatusLabels[change.to_status]}`
+                    : 'Redeemed'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(change.created_at).toLocaleString()} · {change.changed_by_name || (change.from_status ? 'Admin' : redemption.user_name)}
+                </p>
+                {change.note && (
+                  <p className={`mt-1 text-sm rounded-md px-3 py-2 ${
+                    isRedemptionRefunded(change.to_status) ? 'text-red-600 bg-red-50' : 'text-gray-700 bg-gray-50'
+                  }`}>{change.note}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const RestockForm = ({
+  reward,
+  loadRestocks,
+  onRestock
+}: {
+  reward: Reward;
+  loadRestocks: (rewardId: string) => Promise<RewardRestock[]>;
+  onRestock: (quantity: number, reason: string) => Promise<{ error: string | null }>;
+}) => {
+  const [restocks, setRestocks] = useState<RewardRestock[]>([]);
+  const [restocksLoading, setRestocksLoading] = useState(true);
+  const [quantity, setQuantity] = useState(Math.max(reward.low_stock_threshold * 2, 10));
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRestocksLoading(true);
+    loadRestocks(reward.id).then(data => {
+      if (!cancelled) {
+        setRestocks(data);
+        setRestocksLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [reward.id, reward.stock]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quantity || quantity <= 0) {
+      alert('Please enter how many units were added (greater than 0)');
+      return;
+    }
+    if (!reason.trim()) {
+      alert('Please give a reason for the restock');
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await onRestock(quantity, reason);
+    setIsSaving(false);
+
+    if (error) {
+      alert('Error restocking reward: ' + error);
+      return;
+    }
+    setReason('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+          <div>
+            <p className="font-medium">{reward.name}</p>
+            <p className="text-gray-600">Low-stock alert at {reward.low_stock_threshold} units</p>
+          </div>
+          <p className="text-gray-900">
+            {reward.stock} → <span className="font-semibold text-[#009A5A]">{reward.stock + (quantity > 0 ? quantity : 0)}</span>
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="restock_quantity">Units Added *</Label>
+          <Input
+            id="restock_quantity"
+            type="number"
+            min="1"
+            value={quantity || ''}
+            onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+            required
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="restock_reason">Reason *</Label>
+          <Textarea
+            id="restock_reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            required
+            disabled={isSaving}
+            placeholder="e.g. New delivery from supplier"
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button
+            type="submit"
+            disabled={isSaving || quantity <= 0 || !reason.trim()}
+            className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+          >
+            {isSaving ? 'Restocking...' : `Add ${quantity > 0 ? quantity : 0} Units`}
+          </Button>
+        </div>
+      </form>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-gray-900">Restock History</h4>
+        {restocksLoading ? (
+          <p className="text-sm text-gray-500 py-4 text-center">Loading restocks...</p>
+        ) : restocks.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">This reward has not been restocked yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {restocks.map(restock => (
+              <div key={restock.id} className="py-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-900">+{restock.quantity} units</p>
+                  <p className="text-xs text-gray-500">{restock.stock_before} → {restock.stock_after}</p>
+                </div>
+                <p className="text-sm text-gray-700">{restock.reason}</p>
+                <p className="text-xs text-gray-500">
+                  {new Date(restock.created_at).toLocaleString()} · {restock.admin_name || 'Admin'}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export const Rewards = (): JSX.Element => {
   const { 
     rewards, 
@@ -63,9 +421,14 @@ export const Rewards = (): JSX.Element => {
     createReward, 
     updateReward, 
     deleteReward, 
+    updateRedemptionStatus,
+    restockReward,
+    fetchRestocks,
     fetchRedemptions,
+    fetchRedemptionHistory,
     getRedemptionStats 
   } = useRewards();
+  const { can } = useAuthContext();
   
   const [selectedReward, setSelectedReward] = useState<Reward | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -73,13 +436,17 @@ export const Rewards = (): JSX.Element => {
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [isRedemptionHistoryOpen, setIsRedemptionHistoryOpen] = useState(false);
   const [currentView, setCurrentView] = useState<'rewards' | 'redemption-history'>('rewards');
-  const [rewardRedemptions, setRewardRedemptions] = useState<RedemptionHistoryItem[]>([]);
+  const [rewardRedemptions, setRewardRedemptions] = useState<RewardRedemption[]>([]);
+  const [managedRedemption, setManagedRedemption] = useState<RewardRedemption | null>(null);
+  const [restockingReward, setRestockingReward] = useState<Reward | null>(null);
 
   // Search and filter states
   const [searchQuery, setSearchQuery] = useState("");
   const [pointsFilter, setPointsFilter] = useState<string>("all");
   const [stockFilter, setStockFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [categoryFilter, setCategoryFilter] = useState<RewardCategory | "all">("all");
+  const [availabilityFilter, setAvailabilityFilter] = useState<string>("all");
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
 
@@ -119,7 +486,7 @@ export const Rewards = (): JSX.Element => {
             if (stock > 0) return false;
             break;
           case 'low':
-            if (stock === 0 || stock > 10) return false;
+            if (stock === 0 || !isLowStock(reward)) return false;
             break;
           case 'available':
             if (stock === 0) return false;
@@ -140,6 +507,16 @@ export const Rewards = (): JSX.Element => {
         }
       }
       
+      // Category filter
+      if (categoryFilter !== "all" && reward.category !== categoryFilter) {
+        return false;
+      }
+      
+      // Availability window filter
+      if (availabilityFilter !== "all" && getRewardAvailability(reward) !== availabilityFilter) {
+        return false;
+      }
+      
       return true;
     });
 
@@ -174,7 +551,7 @@ export const Rewards = (): JSX.Element => {
     });
 
     return filtered;
-  }, [rewards, searchQuery, pointsFilter, stockFilter, statusFilter, sortField, sortOrder, getRedemptionStats]);
+  }, [rewards, searchQuery, pointsFilter, stockFilter, statusFilter, categoryFilter, availabilityFilter, sortField, sortOrder, getRedemptionStats]);
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -190,6 +567,8 @@ export const Rewards = (): JSX.Element => {
     setPointsFilter("all");
     setStockFilter("all");
     setStatusFilter("all");
+    setCategoryFilter("all");
+    setAvailabilityFilter("all");
   };
 
   const handleCreateReward = async (formData: RewardFormData) => {
@@ -234,16 +613,45 @@ export const Rewards = (): JSX.Element => {
   const handleViewRedemptionHistory = async (reward: Reward) => {
     setSelectedReward(reward);
     const redemptionData = await fetchRedemptions(reward.id);
-    setRewardRedemptions(redemptionData as RedemptionHistoryItem[]);
+    setRewardRedemptions(redemptionData);
     setCurrentView('redemption-history');
   };
 
+  const handleRedemptionStatusChange = async (redemption: RewardRedemption, status: RedemptionStatus, note: string) => {
+    const result = await updateRedemptionStatus(redemption, status, note);
+
+    if (!result.error && result.data) {
+      const updated = { ...redemption, status: result.data.status };
+      setRewardRedemptions(prev => prev.map(r => r.id === redemption.id ? updated : r));
+      setManagedRedemption(updated);
+      if (status === 'cancelled') {
+        setSelectedReward(prev => prev && prev.id === redemption.reward_id.toString()
+          ? { ...prev, stock: prev.stock + 1, is_active: true }
+          : prev);
+      }
+    }
+
+    return result;
+  };
+
+  const handleRestock = async (reward: Reward, quantity: number, reason: string) => {
+    const result = await restockReward(reward.id, quantity, reason);
+
+    if (!result.error && result.data) {
+      const restocked = { ...reward, stock: result.data.stock_after, is_active: result.data.stock_after > 0 };
+      setRestockingReward(restocked);
+      setSelectedReward(prev => prev && prev.id === reward.id ? restocked : prev);
+    }
+
+    return result;
+  };
+
   const handleExportRedemptions = (reward: Reward) => {
     const stats = getRedemptionStats(reward.id);
     const csvContent = [
       'Reward,User Name,User Email,Points Used,Redemption Date,Status',
       ...stats.recentRedemptions.map((item: any) => 
-        `"${reward.name}","${item.user_name}","${item.user_email}","${item.points_deducted}","${new Date(item.redeemed_at).toLocaleDateString()}","${item.status}"`
+        `"${reward.name}","${item.user_name}","${item.user_email}","${item.points_deducted}","${new Date(item.redeemed_at).toLocaleDateString()}","${redemptionStatusLabels[item.status as RedemptionStatus] || item.status}"`
       )
     ].join('\n');
     
@@ -266,7 +674,14 @@ export const Rewards = (): JSX.Element => {
       description: reward?.description || '',
       points_required: reward?.points_required || 100,
       stock: reward?.stock || 10,
-      image_url: reward?.image_url || ''
+      image_url: reward?.image_url || '',
+      category: reward?.category || 'merchandise',
+      // Date inputs work on whole (UTC) days
+      start_date: reward?.start_date ? new Date(reward.start_date).toISOString().slice(0, 10) : null,
+      end_date: reward?.end_date ? new Date(reward.end_date).toISOString().slice(0, 10) : null,
+      max_per_user: reward?.max_per_user ?? null,
+      limit_period: reward?.limit_period || 'lifetime',
+      low_stock_threshold: reward?.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD
     });
 
     const [isSubmitting, setIsSubmitting] = useState(false);
@@ -295,11 +710,31 @@ export const Rewards = (): JSX.Element => {
         alert('Please enter a valid stock quantity (greater than 0)');
         return;
       }
+      
+      if (formData.start_date && formData.end_date && formData.end_date < formData.start_date) {
+        alert('The available until date must be on or after the available from date');
+        return;
+      }
+      
+      if (formData.low_stock_threshold < 0) {
+        alert('Please enter a low-stock alert level of 0 or more');
+        return;
+      }
+      
+      if (formData.max_per_user !== null && formData.max_per_user <= 0) {
+        alert('Please enter a per-user limit greater than 0, or leave it empty for no limit');
+        return;
+      }
 
       setIsSubmitting(true);
       
       try {
-        await onSubmit(formData);
+        // The window runs from the start of the first day to the end of the last one
+        await onSubmit({
+          ...formData,
+          start_date: formData.start_date ? `${formData.start_date}T00:00:00.000Z` : null,
+          end_date: formData.end_date ? `${formData.end_date}T23:59:59.999Z` : null
+        });
       } catch (err) {
         console.error('Error in reward form submission:', err);
       } finally {
@@ -344,18 +779,100 @@ export const Rewards = (): JSX.Element => {
             disabled={isSubmitting}
           />
         </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="stock">Stock Quantity *</Label>
+            <Input 
+              id="stock" 
+              type="number" 
+              min="1"
+              value={formData.stock}
+              onChange={(e) => setFormData(prev => ({ ...prev, stock: parseInt(e.target.value) || 10 }))}
+              required 
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="low_stock_threshold">Low-Stock Alert At</Label>
+            <Input 
+              id="low_stock_threshold" 
+              type="number" 
+              min="0"
+              value={formData.low_stock_threshold}
+              onChange={(e) => setFormData(prev => ({ ...prev, low_stock_threshold: parseInt(e.target.value) || 0 }))}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
         <div className="space-y-2">
-          <Label htmlFor="stock">Stock Quantity *</Label>
-          <Input 
-            id="stock" 
-            type="number" 
-            min="1"
-            value={formData.stock}
-            onChange={(e) => setFormData(prev => ({ ...prev, stock: parseInt(e.target.value) || 10 }))}
-            required 
+          <Label htmlFor="category">Category *</Label>
+          <select
+            id="category"
+            value={formData.category}
+            onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value as RewardCategory }))}
             disabled={isSubmitting}
-          />
+            className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+          >
+            {(Object.keys(rewardCategoryLabels) as RewardCategory[]).map(category => (
+              <option key={category} value={category}>{rewardCategoryLabels[category]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="start_date">Available From</Label>
+            <Input 
+              id="start_date" 
+              type="date"
+              value={formData.start_date || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value || null }))}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="end_date">Available Until</Label>
+            <Input 
+              id="end_date" 
+              type="date"
+              min={formData.start_date || undefined}
+              value={formData.end_date || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, end_date: e.target.value || null }))}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="max_per_user">Limit Per User</Label>
+            <Input 
+              id="max_per_user" 
+              type="number" 
+              min="1"
+              value={formData.max_per_user ?? ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, max_per_user: e.target.value ? parseInt(e.target.value) : null }))}
+              disabled={isSubmitting}
+              placeholder="No limit"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="limit_period">Limit Period</Label>
+            <select
+              id="limit_period"
+              value={formData.limit_period}
+              onChange={(e) => setFormData(prev => ({ ...prev, limit_period: e.target.value as RewardLimitPeriod }))}
+              disabled={isSubmitting || formData.max_per_user === null}
+              className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm disabled:opacity-50"
+            >
+              {(Object.keys(limitPeriodLabels) as RewardLimitPeriod[]).map(period => (
+                <option key={period} value={period}>{limitPeriodLabels[period]}</option>
+              ))}
+            </select>
+          </div>
         </div>
+        <p className="text-xs text-gray-500">
+          Leave the dates empty to keep the reward available, and the limit empty to allow unlimited redemptions.
+          Periods follow the calendar, so a quarterly limit resets on 1 January, April, July and October.
+        </p>
         
         {/* Enhanced Image Upload */}
         <ImageUpload
@@ -400,7 +917,9 @@ export const Rewards = (): JSX.Element => {
               alt={reward.name}
               className="w-full h-full object-cover rounded-t-lg group-hover:scale-105 transition-transform duration-200"
             />
-            <div className="absolute top-4 right-4 bg-white px-3 py-1 rounded-full text-sm font-medium shadow-sm">
+            <div className={`absolute top-4 right-4 px-3 py-1 rounded-full text-sm font-medium shadow-sm ${
+              reward.stock > 0 && isLowStock(reward) ? 'bg-orange-100 text-orange-800' : 'bg-white'
+            }`}>
               {reward.stock} left
             </div>
             <div className="absolute top-4 left-4 flex space-x-2">
@@ -424,67 +943,95 @@ export const Rewards = (): JSX.Element => {
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      className="bg-white/90 hover:bg-white w-8 h-8"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleExportRedemptions(reward);
-                      }}
-                    >
-                      <DownloadIcon className="h-4 w-4 text-gray-700" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Export redemption data</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      className="bg-white/90 hover:bg-white w-8 h-8"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setSelectedReward(reward);
-                        setIsEditDialogOpen(true);
-                      }}
-                    >
-                      <PencilIcon className="h-4 w-4 text-gray-700" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Edit reward</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      className="bg-white/90 hover:bg-white w-8 h-8"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDeleteReward(reward.id);
-                      }}
-                    >
-                      <TrashIcon className="h-4 w-4 text-gray-700" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Delete reward</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+              {can('data.export') && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="bg-white/90 hover:bg-white w-8 h-8"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleExportRedemptions(reward);
+                        }}
+                      >
+                        <DownloadIcon className="h-4 w-4 text-gray-700" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Export redemption data</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {can('rewards.manage') && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="bg-white/90 hover:bg-white w-8 h-8"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSelectedReward(reward);
+                          setIsEditDialogOpen(true);
+                        }}
+                      >
+                        <PencilIcon className="h-4 w-4 text-gray-700" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Edit reward</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {can('rewards.manage') && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="bg-white/90 hover:bg-white w-8 h-8"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setRestockingReward(reward);
+                        }}
+                      >
+                        <PackagePlusIcon className="h-4 w-4 text-gray-700" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Restock reward</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {can('rewards.manage') && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="bg-white/90 hover:bg-white w-8 h-8"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteReward(reward.id);
+                        }}
+                      >
+                        <TrashIcon className="h-4 w-4 text-gray-700" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Delete reward</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
             </div>
             {!reward.is_active && (
               <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
@@ -500,7 +1047,23 @@ export const Rewards = (): JSX.Element => {
                 <span>{reward.points_required}</span>
               </div>
             </div>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${rewardCategoryStyles[reward.category]}`}>
+                {rewardCategoryLabels[reward.category]}
+              </span>
+              {getRewardAvailability(reward) !== 'open' && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                  {getRewardAvailability(reward) === 'upcoming' ? 'Not yet available' : 'Ended'}
+                </span>
+              )}
+            </div>
             <p className="text-gray-600 text-sm mb-4 line-clamp-2">{reward.description}</p>
+            {describeRewardRules(reward).length > 0 && (
+              <p className="flex items-center text-xs text-gray-500 mb-4">
+                <CalendarIcon className="h-3 w-3 mr-1" />
+                {describeRewardRules(reward).join(' · ')}
+              </p>
+            )}
             
             {/* Redemption Stats */}
             <div className="space-y-2 mb-4">
@@ -533,14 +1096,14 @@ export const Rewards = (): JSX.Element => {
     );
   };
 
-  const RedemptionHistoryCard = ({ item }: { item: RedemptionHistoryItem }) => (
+  const RedemptionHistoryCard = ({ item }: { item: RewardRedemption }) => (
     <Card className="bg-white border-none shadow-sm hover:shadow-md transition-shadow duration-200">
       <CardContent className="p-6">
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center space-x-3">
             <Avatar className="h-10 w-10">
               <AvatarImage src={item.user_avatar || ''} alt={item.user_name} />
-              <AvatarFallback>{item.user_name.charAt(0)}</AvatarFallback>
+              <AvatarFallback>{item.user_name?.charAt(0)}</AvatarFallback>
             </Avatar>
             <div>
               <h3 className="font-semibold text-gray-900">{item.user_name}</h3>
@@ -548,16 +1111,14 @@ export const Rewards = (): JSX.Element => {
             </div>
           </div>
           <div className="text-right">
-            <div className="flex items-center text-[#009A5A] font-bold">
+            <div className={`flex items-center font-bold ${
+              isRedemptionRefunded(item.status) ? 'text-gray-400 line-through' : 'text-[#009A5A]'
+            }`}>
               <CoinsIcon className="h-4 w-4 mr-1" />
               <span>{item.points_deducted}</span>
             </div>
-            <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium mt-1 ${
-              item.status === 'completed' 
-                ? 'bg-green-100 text-green-800' 
-                : 'bg-yellow-100 text-yellow-800'
-            }`}>
-              {item.status}
+            <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium mt-1 ${redemptionStatusStyles[item.status]}`}>
+              {redemptionStatusLabels[item.status]}
             </span>
           </div>
         </div>
@@ -572,6 +1133,14 @@ export const Rewards = (): JSX.Element => {
               minute: '2-digit'
             })}
           </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setManagedRedemption(item)}
+          >
+            <ClipboardListIcon className="h-4 w-4 mr-2" />
+            {can('rewards.manage') && REDEMPTION_STATUS_TRANSITIONS[item.status].length > 0 ? 'Manage' : 'History'}
+          </Button>
         </div>
       </CardContent>
     </Card>
@@ -610,7 +1179,9 @@ export const Rewards = (): JSX.Element => {
   const activeRewards = rewards.filter(reward => reward.is_active);
   const inactiveRewards = rewards.filter(reward => !reward.is_active);
   const totalRedemptions = redemptions.length;
-  const totalPointsUsed = redemptions.reduce((sum, r) => sum + r.points_deducted, 0);
+  const totalPointsUsed = redemptions
+    .filter(r => !isRedemptionRefunded(r.status))
+    .reduce((sum, r) => sum + r.points_deducted, 0);
 
   return (
     <TooltipProvider>
@@ -652,7 +1223,7 @@ export const Rewards = (): JSX.Element => {
               </p>
             </div>
           </div>
-          {currentView === 'rewards' && (
+          {currentView === 'rewards' && can('rewards.manage') && (
             <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
               <DialogTrigger asChild>
                 <Button className="bg-[#009A5A] hover:bg-[#008a50] text-white py-3 px-5 text-lg font-semibold w-full lg:w-auto">
@@ -669,20 +1240,37 @@ export const Rewards = (): JSX.Element => {
             </Dialog>
           )}
           {currentView === 'redemption-history' && selectedReward && (
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button
-                  onClick={() => handleExportRedemptions(selectedReward)}
-                  className="bg-[#009A5A] hover:bg-[#008a50] text-white"
-                >
-                  <DownloadIcon className="h-4 w-4 mr-2" />
-                  Export History
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                <p>Export redemption history to CSV</p>
-              </TooltipContent>
-            </Tooltip>
+            <div className="flex gap-3">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="outline" asChild>
+                    <Link to={`/redemptions?reward=${selectedReward.id}`}>
+                      <SearchIcon className="h-4 w-4 mr-2" />
+                      All Redemptions
+                    </Link>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Open on the Redemptions screen with date, user and status filters</p>
+                </TooltipContent>
+              </Tooltip>
+              {can('data.export') && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      onClick={() => handleExportRedemptions(selectedReward)}
+                      className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+                    >
+                      <DownloadIcon className="h-4 w-4 mr-2" />
+                      Export History
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Export redemption history to CSV</p>
+                  </TooltipContent>
+                </Tooltip>
+              )}
+            </div>
           )}
         </div>
 
@@ -742,6 +1330,18 @@ export const Rewards = (): JSX.Element => {
           </Card>
         </div>
 
+        {/* Low-stock rewards */}
+        {currentView === 'rewards' && rewards.some(isLowStock) && (
+          <LowStockAlerts
+            rewards={rewards}
+            onRestock={can('rewards.manage') ? setRestockingReward : undefined}
+            onSelect={(reward) => {
+              setSelectedReward(reward);
+              setIsViewDialogOpen(true);
+            }}
+          />
+        )}
+
         {/* Content based on current view */}
         {currentView === 'rewards' ? (
           <Card className="border-none shadow-sm">
@@ -780,7 +1380,7 @@ export const Rewards = (): JSX.Element => {
                       <SelectContent>
                         <SelectItem value="all">All Stock</SelectItem>
                         <SelectItem value="available">Available</SelectItem>
-                        <SelectItem value="low">Low (1-10)</SelectItem>
+                        <SelectItem value="low">Low Stock</SelectItem>
                         <SelectItem value="out">Out of Stock</SelectItem>
                       </SelectContent>
                     </Select>
@@ -799,6 +1399,39 @@ export const Rewards = (): JSX.Element => {
                   </div>
                 </div>
                 
+                {/* Category and availability filters */}
+                <div className="flex flex-col lg:flex-row lg:justify-between lg:items-center gap-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-gray-600">Category:</span>
+                    {(["all", ...Object.keys(rewardCategoryLabels)] as (RewardCategory | "all")[]).map(category => (
+                      <Button
+                        key={category}
+                        variant={categoryFilter === category ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setCategoryFilter(category)}
+                        className={`px-3 py-1 ${
+                          categoryFilter === category
+                            ? 'bg-[#009A5A] text-white'
+                            : 'bg-white text-gray-700'
+                        }`}
+                      >
+                        {category === "all" ? 'All' : rewardCategoryLabels[category]}
+                      </Button>
+                    ))}
+                  </div>
+                  <Select value={availabilityFilter} onValueChange={setAvailabilityFilter}>
+                    <SelectTrigger className="w-full lg:w-[180px] h-9 bg-white">
+                      <SelectValue placeholder="Availability" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any Availability</SelectItem>
+                      <SelectItem value="open">Available Now</SelectItem>
+                      <SelectItem value="upcoming">Not Yet Available</SelectItem>
+                      <SelectItem value="ended">Ended</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
                 {/* Sort Options and Results */}
                 <div className="flex flex-col lg:flex-row lg:justify-between lg:items-center gap-4">
                   <div className="flex items-center gap-2">
@@ -843,7 +1476,7 @@ export const Rewards = (): JSX.Element => {
                     <span>
                       Showing {filteredAndSortedRewards.length} of {rewards.length} rewards
                     </span>
-                    {(searchQuery || pointsFilter !== "all" || stockFilter !== "all" || statusFilter !== "all") && (
+                    {(searchQuery || pointsFilter !== "all" || stockFilter !== "all" || statusFilter !== "all" || categoryFilter !== "all" || availabilityFilter !== "all") && (
                       <Button
                         variant="ghost"
                         size="sm"
@@ -978,6 +1611,37 @@ export const Rewards = (): JSX.Element => {
         )}
 
         {/* Dialogs */}
+        <Dialog open={!!managedRedemption} onOpenChange={(open) => !open && setManagedRedemption(null)}>
+          <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Redemption #{managedRedemption?.id}</DialogTitle>
+            </DialogHeader>
+            {managedRedemption && (
+              <RedemptionStatusManager
+                redemption={managedRedemption}
+                canManage={can('rewards.manage')}
+                loadHistory={fetchRedemptionHistory}
+                onChangeStatus={(status, note) => handleRedemptionStatusChange(managedRedemption, status, note)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!restockingReward} onOpenChange={(open) => !open && setRestockingReward(null)}>
+          <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Restock Reward</DialogTitle>
+            </DialogHeader>
+            {restockingReward && (
+              <RestockForm
+                reward={restockingReward}
+                loadRestocks={fetchRestocks}
+                onRestock={(quantity, reason) => handleRestock(restockingReward, quantity, reason)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
           <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
@@ -1005,8 +1669,19 @@ export const Rewards = (): JSX.Element => {
                   alt={selectedReward.name} 
                   className="w-full h-48 object-cover rounded-lg"
                 />
-                <h2 className="text-xl font-semibold">{selectedReward.name}</h2>
+                <div className="flex items-center gap-2">
+                  <h2 className="text-xl font-semibold">{selectedReward.name}</h2>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${rewardCategoryStyles[selectedReward.category]}`}>
+                    {rewardCategoryLabels[selectedReward.category]}
+                  </span>
+                </div>
                 <p className="text-gray-600">{selectedReward.description}</p>
+                {describeRewardRules(selectedReward).length > 0 && (
+                  <p className="flex items-center text-sm text-gray-600">
+                    <CalendarIcon className="h-4 w-4 mr-1" />
+                    {describeRewardRules(selectedReward).join(' · ')}
+                  </p>
+                )}
                 
                 {/* Redemption Stats */}
                 <div className="grid grid-cols-2 gap-4">
@@ -1016,7 +1691,8 @@ export const Rewards = (): JSX.Element => {
                   </div>
                   <div className="bg-gray-50 p-4 rounded-lg">
                     <p className="text-sm font-medium text-gray-600">Stock</p>
-                    <p className="text-2xl font-bold text-gray-900">{selectedReward.stock}</p>
+                    <p className={`text-2xl font-bold ${isLowStock(selectedReward) ? 'text-orange-600' : 'text-gray-900'}`}>{selectedReward.stock}</p>
+                    <p className="text-xs text-gray-500">Alert at {selectedReward.low_stock_threshold}</p>
                   </div>
                   <div className="bg-gray-50 p-4 rounded-lg">
                     <p className="text-sm font-medium text-gray-600">Total Redemptions</p>
@@ -1051,23 +1727,44 @@ export const Rewards = (): JSX.Element => {
                         <p>View redemption history</p>
                       </TooltipContent>
                     </Tooltip>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button 
-                          onClick={() => {
-                            setIsViewDialogOpen(false);
-                            setIsEditDialogOpen(true);
-                          }}
-                          className="bg-[#009A5A] hover:bg-[#008a50] text-white"
-                        >
-                          <PencilIcon className="h-4 w-4 mr-2" />
-                          Edit
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Edit reward details</p>
-                      </TooltipContent>
-                    </Tooltip>
+                    {can('rewards.manage') && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button 
+                            onClick={() => {
+                              setIsViewDialogOpen(false);
+                              setRestockingReward(selectedReward);
+                            }}
+                            variant="outline"
+                          >
+                            <PackagePlusIcon className="h-4 w-4 mr-2" />
+                            Restock
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Add units and record why</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                    {can('rewards.manage') && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button 
+                            onClick={() => {
+                              setIsViewDialogOpen(false);
+                              setIsEditDialogOpen(true);
+                            }}
+                            className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+                          >
+                            <PencilIcon className="h-4 w-4 mr-2" />
+                            Edit
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Edit reward details</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
                   </div>
                 </div>
               </div>
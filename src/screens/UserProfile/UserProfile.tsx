@@ -0,0 +1,527 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Card, CardContent } from "../../components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../components/ui/tabs";
+import { Avatar, AvatarFallback, AvatarImage } from "../../components/ui/avatar";
+import { Button } from "../../components/ui/button";
+import { Label } from "../../components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../../components/ui/dialog";
+import {
+  ArrowLeftIcon,
+  CalendarIcon,
+  CoinsIcon,
+  CrownIcon,
+  FileTextIcon,
+  GiftIcon,
+  HistoryIcon,
+  MessageSquareIcon,
+  StarIcon,
+  UsersIcon
+} from "lucide-react";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { useRewards } from "../../hooks/useRewards";
+import { useAuthContext } from "../../components/Auth/AuthProvider";
+import { ParticipantStatus, PointsReason, MissionSubmission, Reward, User, RewardRedemption, RedemptionStatus, isRedemptionRefunded, getRewardAvailability } from "../../lib/dataService";
+import { getRoleLabel, isAdminRole } from "../../lib/permissions";
+
+const pointsReasonLabels: Record<PointsReason, string> = {
+  event_attendance: 'Event attendance',
+  mission_approval: 'Mission approval',
+  redemption: 'Reward redemption',
+  manual_adjustment: 'Manual adjustment'
+};
+
+const participantStatusStyles: Record<ParticipantStatus, string> = {
+  registered: 'bg-blue-100 text-blue-800',
+  waitlisted: 'bg-yellow-100 text-yellow-800',
+  attended: 'bg-green-100 text-green-800',
+  no_show: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+};
+
+const submissionStatusStyles: Record<MissionSubmission['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+const redemptionStatusLabels: Record<RedemptionStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  ready_for_pickup: 'Ready for Pickup',
+  fulfilled: 'Fulfilled',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded'
+};
+
+const redemptionStatusStyles: Record<RedemptionStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  ready_for_pickup: 'bg-purple-100 text-purple-800',
+  fulfilled: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  refunded: 'bg-red-100 text-red-800'
+};
+
+const tabTriggerClassName = "px-6 py-2.5 rounded-md data-[state=active]:bg-white data-[state=active]:text-[#009A5A] data-[state=active]:shadow-sm transition-all duration-200";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+const EmptyState = ({ message }: { message: string }) => (
+  <p className="text-sm text-gray-500 py-8 text-center">{message}</p>
+);
+
+// Redeems on the member's behalf, e.g. when a reward is handed out in person
+const RedeemRewardForm = ({
+  user,
+  rewards,
+  onRedeem,
+  onClose
+}: {
+  user: User;
+  rewards: Reward[];
+  onRedeem: (userId: string, rewardId: string) => Promise<{ data: RewardRedemption | null; error: string | null }>;
+  onClose: () => void;
+}) => {
+  const [rewardId, setRewardId] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reward = rewards.find(r => r.id === rewardId);
+  const canAfford = !reward || user.points >= reward.points_required;
+
+  const handleRedeem = async () => {
+    if (!reward) return;
+    setIsSubmitting(true);
+    setError(null);
+    const result = await onRedeem(user.id, reward.id);
+    setIsSubmitting(false);
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {user.full_name} has <span className="font-medium">{user.points.toLocaleString()}</span> points.
+        The reward's points are deducted and one unit is taken from stock.
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="redeem_reward">Reward</Label>
+        <select
+          id="redeem_reward"
+          value={rewardId}
+          onChange={(e) => setRewardId(e.target.value)}
+          className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+          disabled={isSubmitting}
+        >
+          <option value="">Select a reward</option>
+          {rewards.map(option => {
+            const availability = getRewardAvailability(option);
+            return (
+              <option key={option.id} value={option.id} disabled={option.stock <= 0 || availability !== 'open'}>
+                {option.name} - {option.points_required} points ({
+                  availability === 'upcoming' ? 'not yet available' :
+                  availability === 'ended' ? 'no longer available' :
+                  option.stock > 0 ? `${option.stock} in stock` : 'out of stock'
+                })
+              </option>
+            );
+          })}
+        </select>
+      </div>
+      {reward?.max_per_user && (
+        <p className="text-sm text-gray-600">
+          Limited to {reward.max_per_user} per user {reward.limit_period === 'lifetime' ? 'in total' : `per ${reward.limit_period}`}.
+        </p>
+      )}
+      {!canAfford && (
+        <p className="text-sm text-red-600">Not enough points for this reward.</p>
+      )}
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleRedeem}
+          disabled={!reward || !canAfford || isSubmitting}
+          className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+        >
+          <GiftIcon className="h-4 w-4 mr-2" />
+          {isSubmitting ? 'Redeeming...' : 'Redeem'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const UserProfile = (): JSX.Element => {
+  const { id } = useParams<{ id: string }>();
+  const { user, activity, loading, error, refetch } = useUserProfile(id);
+  const { rewards, redeemReward } = useRewards();
+  const { can } = useAuthContext();
+  const [isRedeemDialogOpen, setIsRedeemDialogOpen] = useState(false);
+
+  const handleRedeem = async (userId: string, rewardId: string) => {
+    const result = await redeemReward(userId, rewardId);
+    if (!result.error) await refetch();
+    return result;
+  };
+
+  const backLink = (
+    <Link to="/users" className="inline-flex items-center text-sm text-gray-600 hover:text-[#009A5A]">
+      <ArrowLeftIcon className="h-4 w-4 mr-1" />
+      Back to Users
+    </Link>
+  );
+
+  if (loading) {
+    return (
+      <div className="p-4 md:p-6 lg:p-10 space-y-7">
+        {backLink}
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#009A5A]"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !user || !activity) {
+    return (
+      <div className="p-4 md:p-6 lg:p-10 space-y-7">
+        {backLink}
+        <p className="text-[15px] text-red-600">
+          Error loading user: {error || 'User not found'}
+        </p>
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: 'Events Joined', value: activity.events.length, icon: CalendarIcon },
+    { label: 'Missions Submitted', value: activity.missions.length, icon: FileTextIcon },
+    { label: 'Rewards Redeemed', value: activity.redemptions.length, icon: GiftIcon },
+    { label: 'Feedback Given', value: activity.feedback.length, icon: MessageSquareIcon }
+  ];
+
+  return (
+    <div className="p-4 md:p-6 lg:p-10 space-y-7">
+      {backLink}
+
+      {/* Profile Header */}
+      <Card className="border-none shadow-sm">
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center space-x-4">
+              <Avatar className="h-16 w-16">
+                <AvatarImage src={user.avatar_url || ''} alt={user.full_name} />
+                <AvatarFallback>{user.full_name.charAt(0)}</AvatarFallback>
+              </Avatar>
+              <div>
+                <h1 className="text-2xl font-extrabold text-black [font-family:'Roboto',Helvetica]">
+                  {user.full_name}
+                </h1>
+                <p className="text-sm text-gray-600">{user.email}</p>
+                <div className="flex items-center gap-2 mt-2">
+                  <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${
+                    isAdminRole(user.role) ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
+                  }`}>
+                    {isAdminRole(user.role) ? (
+                      <CrownIcon className="h-3 w-3 mr-1" />
+                    ) : (
+                      <UsersIcon className="h-3 w-3 mr-1" />
+                    )}
+                    {getRoleLabel(user.role)}
+                  </span>
+                  {user.deleted_at ? (
+                    <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      Deleted
+                    </span>
+                  ) : user.deactivated_at ? (
+                    <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                      Deactivated
+                    </span>
+                  ) : (
+                    <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      Active
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="text-left md:text-right">
+              <div className="flex items-center md:justify-end text-2xl font-bold text-gray-900">
+                <CoinsIcon className="h-6 w-6 mr-2 text-[#009A5A]" />
+                {user.points.toLocaleString()}
+              </div>
+              <p className="text-sm text-gray-500">Member since {formatDate(user.created_at)}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Activity Stats */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <Card key={stat.label} className="border-none shadow-sm">
+            <CardContent className="p-4 flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">{stat.label}</p>
+                <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+              </div>
+              <stat.icon className="h-8 w-8 text-[#009A5A]" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Activity Timeline */}
+      <Card className="border-none shadow-sm">
+        <CardContent className="p-4 md:p-6">
+          <Tabs defaultValue="events" className="w-full">
+            <div className="overflow-x-auto">
+              <TabsList className="bg-[#F3F4F6] p-1.5 rounded-lg">
+                <TabsTrigger value="events" className={tabTriggerClassName}>Events</TabsTrigger>
+                <TabsTrigger value="missions" className={tabTriggerClassName}>Missions</TabsTrigger>
+                <TabsTrigger value="rewards" className={tabTriggerClassName}>Rewards</TabsTrigger>
+                <TabsTrigger value="feedback" className={tabTriggerClassName}>Feedback</TabsTrigger>
+                <TabsTrigger value="points" className={tabTriggerClassName}>Points History</TabsTrigger>
+                <TabsTrigger value="admin" className={tabTriggerClassName}>Admin Actions</TabsTrigger>
+              </TabsList>
+            </div>
+
+            <TabsContent value="events" className="mt-6">
+              {activity.events.length === 0 ? (
+                <EmptyState message="This user has not joined any events." />
+              ) : (
+                <div className="divide-y divide-gray-200 border rounded-lg">
+                  {activity.events.map((participation) => (
+                    <div key={participation.id} className="flex items-center justify-between p-4">
+                      <div>
+                        <p className="font-medium text-gray-900">{participation.event_title}</p>
+                        <p className="text-xs text-gray-500">
+                          Event on {formatDate(participation.event_start_date)} · joined {formatDate(participation.joined_at)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {participation.points_awarded_at && (
+                          <span className="text-sm font-medium text-green-600">+{participation.event_points}</span>
+                        )}
+                        <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium capitalize ${participantStatusStyles[participation.status]}`}>
+                          {participation.status.replace('_', ' ')}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="missions" className="mt-6">
+              {activity.missions.length === 0 ? (
+                <EmptyState message="This user has not submitted any missions." />
+              ) : (
+                <div className="divide-y divide-gray-200 border rounded-lg">
+                  {activity.missions.map((submission) => (
+                    <div key={submission.id} className="flex items-center justify-between p-4">
+                      <div>
+                        <p className="font-medium text-gray-900">{submission.mission_title}</p>
+                        <p className="text-xs text-gray-500">
+                          {submission.month_year} · {submission.photo_upload_count} photo{submission.photo_upload_count === 1 ? '' : 's'} · submitted {formatDate(submission.created_at)}
+                        </p>
+                        {submission.status === 'rejected' && submission.rejection_reason && (
+                          <p className="text-xs text-red-600 mt-1">{submission.rejection_reason}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {!!submission.points_awarded && (
+                          <span className="text-sm font-medium text-green-600">+{submission.points_awarded}</span>
+                        )}
+                        <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium capitalize ${submissionStatusStyles[submission.status]}`}>
+                          {submission.status}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="rewards" className="mt-6">
+              {can('rewards.manage') && !user.deactivated_at && !user.deleted_at && (
+                <div className="flex justify-end mb-4">
+                  <Button
+                    onClick={() => setIsRedeemDialogOpen(true)}
+                    className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+                  >
+                    <GiftIcon className="h-4 w-4 mr-2" />
+                    Redeem Reward
+                  </Button>
+                </div>
+              )}
+              {activity.redemptions.length === 0 ? (
+                <EmptyState message="This user has not redeemed any rewards." />
+              ) : (
+                <div className="divide-y divide-gray-200 border rounded-lg">
+                  {activity.redemptions.map((redemption) => (
+                    <div key={redemption.id} className="flex items-center justify-between p-4">
+                      <div>
+                        <p className="font-medium text-gray-900">{redemption.reward_name || `Reward #${redemption.reward_id}`}</p>
+                        <p className="text-xs text-gray-500">Redeemed {formatDate(redemption.redeemed_at)}</p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className={`text-sm font-medium ${
+                          isRedemptionRefunded(redemption.status) ? 'text-gray-400 line-through' : 'text-red-600'
+                        }`}>-{redemption.points_deducted.toLocaleString()}</span>
+                        <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${redemptionStatusStyles[redemption.status]}`}>
+                          {redemptionStatusLabels[redemption.status]}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="feedback" className="mt-6">
+              {activity.feedback.length === 0 ? (
+                <EmptyState message="This user has not given any feedback." />
+              ) : (
+                <div className="divide-y divide-gray-200 border rounded-lg">
+                  {activity.feedback.map((feedback) => (
+                    <div key={feedback.id} className="p-4">
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium text-gray-900">{feedback.event_title || 'General feedback'}</p>
+                        {feedback.rating !== undefined && feedback.rating !== null && (
+                          <div className="flex items-center text-sm text-gray-700">
+                            <StarIcon className="h-4 w-4 mr-1 text-yellow-500 fill-yellow-500" />
+                            {feedback.rating}/5
+                          </div>
+                        )}
+                      </div>
+                      {(feedback.comment || feedback.message) && (
+                        <p className="text-sm text-gray-700 mt-1">{feedback.comment || feedback.message}</p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">{formatDate(feedback.submitted_at || feedback.created_at)}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="points" className="mt-6">
+              {activity.points.length === 0 ? (
+                <EmptyState message="No point transactions recorded for this user." />
+              ) : (
+                <div className="border rounded-lg overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600">Date</th>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600">Reason</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600">Change</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600">Balance</th>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600">By</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {activity.points.map((transaction) => (
+                        <tr key={transaction.id} className="hover:bg-gray-50">
+                          <td className="px-4 py-2 text-xs text-gray-600">{formatDate(transaction.created_at)}</td>
+                          <td className="px-4 py-2">
+                            <div className="text-sm text-gray-900">
+                              {pointsReasonLabels[transaction.reason] || transaction.reason}
+                              {transaction.reference_id && (
+                                <span className="text-gray-500"> #{transaction.reference_id}</span>
+                              )}
+                            </div>
+                            {transaction.note && (
+                              <div className="text-xs text-gray-500">{transaction.note}</div>
+                            )}
+                          </td>
+                          <td className={`px-4 py-2 text-right text-sm font-medium ${
+                            transaction.delta > 0 ? 'text-green-600' : 'text-red-600'
+                          }`}>
+                            {transaction.delta > 0 ? '+' : ''}{transaction.delta.toLocaleString()}
+                          </td>
+                          <td className="px-4 py-2 text-right text-sm text-gray-900">
+                            {transaction.balance_after.toLocaleString()}
+                          </td>
+                          <td className="px-4 py-2 text-xs text-gray-600">
+                            {transaction.admin_name || 'System'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="admin" className="mt-6">
+              {activity.admin_actions.length === 0 ? (
+                <EmptyState message="No admin actions have been recorded for this user." />
+              ) : (
+                <div className="divide-y divide-gray-200 border rounded-lg">
+                  {activity.admin_actions.map((action) => (
+                    <div key={action.id} className="flex items-start space-x-3 p-4">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={action.admin_avatar || ''} alt={action.admin_name} />
+                        <AvatarFallback>{(action.admin_name || 'A').charAt(0)}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1">
+                        <div className="flex items-center justify-between">
+                          <p className="text-sm font-medium text-gray-900">
+                            {action.admin_name || 'Unknown admin'}
+                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700 uppercase">
+                              {action.action_type}
+                            </span>
+                          </p>
+                          <span className="flex items-center text-xs text-gray-500">
+                            <HistoryIcon className="h-3 w-3 mr-1" />
+                            {new Date(action.created_at).toLocaleString()}
+                          </span>
+                        </div>
+                        {action.details && (
+                          <p className="text-sm text-gray-600 mt-1">{action.details}</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isRedeemDialogOpen} onOpenChange={setIsRedeemDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Redeem Reward for {user.full_name}</DialogTitle>
+          </DialogHeader>
+          {isRedeemDialogOpen && (
+            <RedeemRewardForm
+              user={user}
+              rewards={rewards}
+              onRedeem={handleRedeem}
+              onClose={() => setIsRedeemDialogOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
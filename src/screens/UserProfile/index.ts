@@ -0,0 +1 @@
+export { UserProfile } from "./UserProfile";
\ No newline at end of file
@@ -1,4 +1,5 @@
-import React, { useState, useMemo, useEffect } from "react";
+import React, { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent } from "../../components/ui/card";
 import { Input } from "../../components/ui/input";
 import { Label } from "../../components/ui/label";
@@ -25,11 +26,25 @@ import {
   ChevronLeftIcon,
   ChevronRightIcon,
   ChevronsLeftIcon,
-  ChevronsRightIcon
+  ChevronsRightIcon,
+  HistoryIcon,
+  UploadIcon,
+  DownloadIcon,
+  AlertTriangleIcon,
+  UserXIcon,
+  UserCheckIcon,
+  Trash2Icon,
+  MailIcon,
+  CopyIcon,
+  BanIcon
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "../../components/ui/avatar";
-import { useUsers } from "../../hooks/useUsers";
-import { User } from "../../lib/dataService";
+import { useUsers, UserImportResult } from "../../hooks/useUsers";
+import { UserImportPreview, UserImportRow, UserImportStatus, USER_IMPORT_TEMPLATE } from "../../lib/userImport";
+import { User, PointsReason, UserSortField, BulkUserResult, UserAccountStatus, AdminInviteStatus, CreatedAdminInvite } from "../../lib/dataService";
+import { useAdminInvites, getAdminInviteLink } from "../../hooks/useAdminInvites";
+import { ADMIN_ROLES, MEMBER_ROLE, getRoleLabel, isAdminRole } from "../../lib/permissions";
+import { useAuthContext } from "../../components/Auth/AuthProvider";
 
 interface UserFormData {
   email: string;
@@ -46,120 +61,776 @@ interface EditUserData {
   points: number;
 }
 
-type SortField = 'name' | 'email' | 'role' | 'points' | 'date';
 type SortOrder = 'asc' | 'desc';
 
+// Point buckets offered in the filter; each maps to the points range sent to the server
+const pointsRanges: { value: string; label: string; min?: number; max?: number }[] = [
+  { value: 'high', label: '1000+', min: 1000 },
+  { value: 'medium', label: '500-999', min: 500, max: 999 },
+  { value: 'low', label: '1-499', min: 1, max: 499 },
+  { value: 'zero', label: '0 Points', min: 0, max: 0 }
+];
+
+const roleOptions: { value: string; label: string }[] = [
+  { value: MEMBER_ROLE, label: 'User' },
+  ...ADMIN_ROLES.map(({ value, label }) => ({ value, label }))
+];
+
+const pointsReasonLabels: Record<PointsReason, string> = {
+  event_attendance: 'Event attendance',
+  mission_approval: 'Mission approval',
+  redemption: 'Reward redemption',
+  manual_adjustment: 'Manual adjustment'
+};
+
+const importStatusStyles: Record<UserImportStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  duplicate: 'bg-yellow-100 text-yellow-800',
+  invalid: 'bg-red-100 text-red-800'
+};
+
+const UserImportForm = ({
+  onPreview,
+  onImport,
+  onClose
+}: {
+  onPreview: (csvText: string) => Promise<UserImportPreview>;
+  onImport: (rows: UserImportRow[], fileName: string, onProgress: (done: number, total: number) => void) => Promise<UserImportResult>;
+  onClose: () => void;
+}) => {
+  const [fileName, setFileName] = useState("");
+  const [preview, setPreview] = useState<UserImportPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<UserImportResult | null>(null);
+
+  const rows = preview?.rows || [];
+  const validCount = rows.filter(row => row.status === 'valid').length;
+  const duplicateCount = rows.filter(row => row.status === 'duplicate').length;
+  const invalidCount = rows.filter(row => row.status === 'invalid').length;
+  const isImporting = progress !== null && result === null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setResult(null);
+    setProgress(null);
+    setIsPreviewing(true);
+    try {
+      setPreview(await onPreview(await file.text()));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (validCount === 0) return;
+    setProgress({ done: 0, total: validCount });
+    const importResult = await onImport(rows, fileName, (done, total) => setProgress({ done, total }));
+    setResult(importResult);
+  };
+
+  const downloadTemplate = () => {
+    const blob = new Blob([USER_IMPORT_TEMPLATE], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'user-import-template.csv';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <div className="p-4 bg-green-50 rounded-lg">
+          <p className="font-medium text-green-800">
+            {result.created.length} user{result.created.length === 1 ? '' : 's'} imported
+          </p>
+          {duplicateCount + invalidCount > 0 && (
+            <p className="text-sm text-green-700 mt-1">
+              {duplicateCount + invalidCount} row{duplicateCount + invalidCount === 1 ? ' was' : 's were'} skipped in the preview
+            </p>
+          )}
+        </div>
+        {result.failed.length > 0 && (
+          <div className="p-4 bg-red-50 rounded-lg space-y-1">
+            <p className="font-medium text-red-800">{result.failed.length} could not be created</p>
+            {result.failed.map(failure => (
+              <p key={failure.line} className="text-sm text-red-700">
+                Line {failure.line} ({failure.email}): {failure.error}
+              </p>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button onClick={onClose} className="bg-[#009A5A] hover:bg-[#008a50] text-white">
+            Done
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm text-gray-600">
+          Columns: <span className="font-mono">email, first_name, last_name, role</span> and optional <span className="font-mono">points</span>
+        </p>
+        <Button variant="outline" size="sm" onClick={downloadTemplate}>
+          <DownloadIcon className="h-4 w-4 mr-2" />
+          Template
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="user_import_file">CSV File</Label>
+        <Input
+          id="user_import_file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          disabled={isPreviewing || isImporting}
+        />
+      </div>
+
+      {isPreviewing && (
+        <p className="text-sm text-gray-500">Checking rows...</p>
+      )}
+
+      {preview?.error && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 rounded-lg text-sm text-red-700">
+          <AlertTriangleIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{preview.error}</span>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-2 text-sm">
+            <span className={`px-2 py-1 rounded-full ${importStatusStyles.valid}`}>{validCount} ready</span>
+            <span className={`px-2 py-1 rounded-full ${importStatusStyles.duplicate}`}>{duplicateCount} duplicate</span>
+            <span className={`px-2 py-1 rounded-full ${importStatusStyles.invalid}`}>{invalidCount} invalid</span>
+          </div>
+
+          <div className="max-h-[320px] overflow-y-auto border rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">Line</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">User</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">Role</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">Points</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.line} className={row.status === 'valid' ? '' : 'bg-gray-50'}>
+                    <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{row.first_name} {row.last_name}</div>
+                      <div className="text-gray-500">{row.email || '—'}</div>
+                    </td>
+                    <td className="px-3 py-2">{row.role || '—'}</td>
+                    <td className="px-3 py-2">{row.points}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${importStatusStyles[row.status]}`}>
+                        {row.status}
+                      </span>
+                      {row.issues.map(issue => (
+                        <p key={issue} className="text-xs text-gray-600 mt-1">{issue}</p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {progress && (
+        <p className="text-sm text-gray-600">Importing {progress.done} of {progress.total} users...</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onClose} disabled={isImporting}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleImport}
+          disabled={validCount === 0 || isPreviewing || isImporting}
+          className="bg-[#009A5A] hover:bg-[#008a50] text-white"
+        >
+          <UploadIcon className="h-4 w-4 mr-2" />
+          {isImporting ? 'Importing...' : `Import ${validCount} user${validCount === 1 ? '' : 's'}`}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+type BulkAction = 'points' | 'role' | 'deactivate';
+
+const bulkActionTitles: Record<BulkAction, string> = {
+  points: 'Award or Deduct Points',
+  role: 'Change Role',
+  deactivate: 'Deactivate Users'
+};
+
+const BulkActionForm = ({
+  action,
+  userIds,
+  userLabels,
+  onAdjustPoints,
+  onChangeRole,
+  onDeactivate,
+  onClose
+}: {
+  action: BulkAction;
+  userIds: string[];
+  userLabels: Record<string, string>;
+  onAdjustPoints: (ids: string[], points: number, reason: string) => Promise<{ data: BulkUserResult | null; error: string | null }>;
+  onChangeRole: (ids: string[], role: string) => Promise<{ data: BulkUserResult | null; error: string | null }>;
+  onDeactivate: (ids: string[]) => Promise<{ data: BulkUserResult | null; error: string | null }>;
+  onClose: (result: BulkUserResult | null) => void;
+}) => {
+  const [direction, setDirection] = useState<'award' | 'deduct'>('award');
+  const [points, setPoints] = useState<number>(0);
+  const [reason, setReason] = useState("");
+  const [role, setRole] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<BulkUserResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const count = userIds.length;
+  const canSubmit = action === 'points'
+    ? points > 0 && reason.trim() !== ''
+    : action === 'role' ? role !== '' : true;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    const response = action === 'points'
+      ? await onAdjustPoints(userIds, direction === 'award' ? points : -points, reason.trim())
+      : action === 'role'
+        ? await onChangeRole(userIds, role)
+        : await onDeactivate(userIds);
+    setIsSubmitting(false);
+
+    if (response.error || !response.data) {
+      setError(response.error || 'The operation failed');
+    } else if (response.data.failed.length === 0) {
+      onClose(response.data);
+    } else {
+      setResult(response.data);
+    }
+  };
+
+  // Only shown when some users failed; the successful ones are already applied
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700">
+          Applied to {result.succeeded.length} of {result.succeeded.length + result.failed.length} users.
+        </p>
+        <div className="p-4 bg-red-50 rounded-lg space-y-1 max-h-[240px] overflow-y-auto">
+          <p className="font-medium text-red-800">{result.failed.length} failed</p>
+          {result.failed.map(failure => (
+            <p key={failure.id} className="text-sm text-red-700">
+              {userLabels[failure.id] || `User #${failure.id}`}: {failure.error}
+            </p>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={() => onClose(result)} className="bg-[#009A5A] hover:bg-[#008a50] text-white">
+            Done
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {count} user{count === 1 ? '' : 's'} selected
+      </p>
+
+      {action === 'points' && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk_direction">Action</Label>
+              <select
+                id="bulk_direction"
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as 'award' | 'deduct')}
+                className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                disabled={isSubmitting}
+              >
+                <option value="award">Award points</option>
+                <option value="deduct">Deduct points</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk_points">Points</Label>
+              <Input
+                id="bulk_points"
+                type="number"
+                min="1"
+                value={points || ''}
+                onChange={(e) => setPoints(parseInt(e.target.value) || 0)}
+                disabled={isSubmitting}
+                placeholder="Enter points"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk_reason">Reason *</Label>
+            <Input
+              id="bulk_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={isSubmitting}
+              placeholder="e.g. Beach cleanup volunteers, May"
+            />
+            <p className="text-xs text-gray-500">Stored on every user's points history.</p>
+          </div>
+        </>
+      )}
+
+      {action === 'role' && (
+        <div className="space-y-2">
+          <Label htmlFor="bulk_role">New Role</Label>
+          <select
+            id="bulk_role"
+            value={role}
+            onChange={(e) => setRole(e.target.value)}
+            className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+            disabled={isSubmitting}
+          >
+            <option value="">Select Role</option>
+            {roleOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {action === 'deactivate' && (
+        <div className="flex items-start gap-2 p-3 bg-yellow-50 rounded-lg text-sm text-yellow-800">
+          <AlertTriangleIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>Deactivated users keep their history but are no longer active members.</span>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={() => onClose(null)} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={!canSubmit || isSubmitting}
+          className={action === 'deactivate' ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-[#009A5A] hover:bg-[#008a50] text-white'}
+        >
+          {isSubmitting ? 'Applying...' : `Apply to ${count} user${count === 1 ? '' : 's'}`}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+const inviteStatusStyles: Record<AdminInviteStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-700',
+  expired: 'bg-red-100 text-red-700'
+};
+
+// Super admins invite new admins here; the invitee sets their own password from the link
+const AdminInvitesForm = () => {
+  const { invites, loading, error: loadError, createInvite, revokeInvite } = useAdminInvites();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [created, setCreated] = useState<CreatedAdminInvite | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const inviteLink = created ? getAdminInviteLink(created.token) : "";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setCopied(false);
+
+    const result = await createInvite(email, role);
+    setIsSubmitting(false);
+
+    if (result.error || !result.data) {
+      setError(result.error);
+      return;
+    }
+
+    setCreated(result.data);
+    setEmail("");
+    setRole("");
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      setCopied(true);
+    } catch (err) {
+      console.warn('Failed to copy invite link:', err);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setError(null);
+    const result = await revokeInvite(id);
+    if (result.error) setError(result.error);
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite_email">Email *</Label>
+            <Input
+              id="invite_email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              disabled={isSubmitting}
+              placeholder="new.admin@ecowave.com"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite_role">Role *</Label>
+            <select
+              id="invite_role"
+              value={role}
+              onChange={(e) => setRole(e.target.value)}
+              className="w-full rounded-md border border-input bg-background px-3 py-2"
+              required
+              disabled={isSubmitting}
+            >
+              <option value="">Select Role</option>
+              {ADMIN_ROLES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {role && (
+          <p className="text-sm text-gray-600">
+            {ADMIN_ROLES.find(option => option.value === role)?.description}
+          </p>
+        )}
+        <Button
+          type="submit"
+          className="w-full bg-[#009A5A] hover:bg-[#008a50] text-white"
+          disabled={isSubmitting}
+        >
+          <MailIcon className="h-4 w-4 mr-2" />
+          {isSubmitting ? 'Creating Invite...' : 'Create Invite'}
+        </Button>
+      </form>
+
+      {created && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg space-y-3">
+          <p className="text-sm text-green-800">
+            Invite created for <span className="font-medium">{created.invite.email}</span>. Send them this
+            link; it works once, expires on {new Date(created.invite.expires_at).toLocaleDateString()} and
+            is not shown again.
+          </p>
+          <div className="flex gap-2">
+            <Input value={inviteLink} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            <Button type="button" variant="outline" onClick={handleCopy}>
+              <CopyIcon className="h-4 w-4 mr-2" />
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+          </div>
+          <a
+            href={`mailto:${created.invite.email}?subject=${encodeURIComponent('Your EcoWave Hub admin invite')}&body=${encodeURIComponent(`You have been invited to the EcoWave Hub as ${getRoleLabel(created.invite.role)}. Set your password here: ${inviteLink}`)}`}
+            className="inline-flex items-center text-sm text-[#009A5A] hover:underline"
+          >
+            <MailIcon className="h-4 w-4 mr-1" />
+            Open in email
+          </a>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="font-medium">Invites</h3>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#009A5A]"></div>
+          </div>
+        ) : loadError ? (
+          <p className="text-sm text-red-600">Error loading invites: {loadError}</p>
+        ) : invites.length === 0 ? (
+          <p className="text-sm text-gray-500">No invites sent yet.</p>
+        ) : (
+          <div className="max-h-[280px] overflow-y-auto border rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">Email</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">Role</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">Status</th>
+                  <th className="px-3 py-2 text-right font-semibold text-gray-600"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {invites.map(invite => (
+                  <tr key={invite.id}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{invite.email}</div>
+                      <div className="text-xs text-gray-500">
+                        Sent {new Date(invite.created_at).toLocaleDateString()}
+                        {invite.invited_by_name ? ` by ${invite.invited_by_name}` : ''}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">{getRoleLabel(invite.role)}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${inviteStatusStyles[invite.status]}`}>
+                        {invite.status}
+                      </span>
+                      {invite.status === 'pending' && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Expires {new Date(invite.expires_at).toLocaleDateString()}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {invite.status === 'pending' && (
+                        <Button variant="outline" size="sm" onClick={() => handleRevoke(invite.id)}>
+                          <BanIcon className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const UserAccountForm = ({
+  user,
+  onDeactivate,
+  onRestore,
+  onDelete,
+  canDelete,
+  onClose
+}: {
+  user: User;
+  onDeactivate: (id: string) => Promise<{ error: string | null }>;
+  onRestore: (id: string) => Promise<{ error: string | null }>;
+  onDelete: (id: string) => Promise<{ error: string | null }>;
+  canDelete: boolean;
+  onClose: () => void;
+}) => {
+  const [confirmEmail, setConfirmEmail] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: (id: string) => Promise<{ error: string | null }>) => {
+    setIsSubmitting(true);
+    setError(null);
+    const { error: actionError } = await action(user.id);
+    setIsSubmitting(false);
+
+    if (actionError) {
+      setError(actionError);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-gray-50 rounded-lg">
+        <p className="font-medium">{user.full_name}</p>
+        <p className="text-sm text-gray-600">{user.email}</p>
+        <p className="text-sm text-gray-600 mt-1">
+          {user.deactivated_at
+            ? `Deactivated on ${new Date(user.deactivated_at).toLocaleDateString()}`
+            : 'Active'}
+        </p>
+      </div>
+
+      {user.deactivated_at ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            Restoring lets the user sign in, register for events and redeem rewards again.
+          </p>
+          <Button
+            onClick={() => run(onRestore)}
+            disabled={isSubmitting}
+            className="w-full bg-[#009A5A] hover:bg-[#008a50] text-white"
+          >
+            <UserCheckIcon className="h-4 w-4 mr-2" />
+            Restore User
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            Deactivating blocks sign-in, hides the user from leaderboards and stops new event
+            registrations and redemptions. Their history is kept and the account can be restored.
+          </p>
+          <Button
+            variant="outline"
+            onClick={() => run(onDeactivate)}
+            disabled={isSubmitting}
+            className="w-full"
+          >
+            <UserXIcon className="h-4 w-4 mr-2" />
+            Deactivate User
+          </Button>
+        </div>
+      )}
+
+      {canDelete && (
+        <div className="space-y-2 pt-4 border-t">
+          <p className="text-sm font-medium text-red-700">Delete permanently</p>
+          <p className="text-sm text-gray-600">
+            Replaces the name, email and picture with placeholders and removes the login. Points,
+            event and mission history stay for reporting. This can not be undone.
+          </p>
+          <Label htmlFor="confirm_delete_email" className="text-sm">
+            Type <span className="font-mono">{user.email}</span> to confirm
+          </Label>
+          <Input
+            id="confirm_delete_email"
+            value={confirmEmail}
+            onChange={(e) => setConfirmEmail(e.target.value)}
+            disabled={isSubmitting}
+          />
+          <Button
+            onClick={() => run(onDelete)}
+            disabled={isSubmitting || confirmEmail.trim().toLowerCase() !== user.email.toLowerCase()}
+            className="w-full bg-red-600 hover:bg-red-700 text-white"
+          >
+            <Trash2Icon className="h-4 w-4 mr-2" />
+            Delete and Anonymize
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
+
 export const Users = (): JSX.Element => {
-  const { users, loading, error, updateUser, updateUserRole, addPointsToUser, createUser } = useUsers();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [roleFilter, setRoleFilter] = useState<"all" | "admin" | "user">("all");
-  const [pointsFilter, setPointsFilter] = useState<string>("all");
-  const [sortField, setSortField] = useState<SortField>('date');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
+  const {
+    users,
+    total,
+    summary,
+    query,
+    setQuery,
+    resetQuery,
+    loading,
+    fetching,
+    error,
+    updateUser,
+    updateUserRole,
+    addPointsToUser,
+    pointsLedger,
+    ledgerLoading,
+    fetchPointsLedger,
+    createUser,
+    previewUserImport,
+    importUsers,
+    bulkAdjustPoints,
+    bulkUpdateUserRole,
+    bulkDeactivateUsers,
+    deactivateUser,
+    restoreUser,
+    deleteUser
+  } = useUsers();
+  const { can } = useAuthContext();
+  const [searchQuery, setSearchQuery] = useState(query.search || "");
+  const roleFilter = query.role || "all";
+  const statusFilter = query.status || "all";
+  const pointsFilter = pointsRanges.find(range =>
+    range.min === query.minPoints && range.max === query.maxPoints
+  )?.value || (query.minPoints !== undefined || query.maxPoints !== undefined ? "custom" : "all");
+  const sortField = query.sortField as UserSortField;
+  const sortOrder = query.sortOrder as SortOrder;
   
   // Pagination states
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(10);
+  const currentPage = query.page || 1;
+  const itemsPerPage = query.pageSize || 10;
   
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [selectedUserLabels, setSelectedUserLabels] = useState<Record<string, string>>({});
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isRoleDialogOpen, setIsRoleDialogOpen] = useState(false);
   const [isPointsDialogOpen, setIsPointsDialogOpen] = useState(false);
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
+  const [isAccountDialogOpen, setIsAccountDialogOpen] = useState(false);
   const [pointsToAdd, setPointsToAdd] = useState<number>(0);
+  const [pointsNote, setPointsNote] = useState("");
   const [newRole, setNewRole] = useState<string>("");
 
-  // Reset to first page when filters change
+  // Keep the search box in step with the URL (back/forward, bookmarked links)
   useEffect(() => {
-    setCurrentPage(1);
-  }, [searchQuery, roleFilter, pointsFilter, sortField, sortOrder]);
-
-  // Filter and sort users
-  const filteredAndSortedUsers = useMemo(() => {
-    let filtered = users.filter(user => {
-      // Search filter
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase();
-        if (!user.full_name.toLowerCase().includes(query) &&
-            !user.email.toLowerCase().includes(query)) {
-          return false;
-        }
-      }
-      
-      // Role filter
-      if (roleFilter !== "all" && user.role !== roleFilter) {
-        return false;
-      }
-      
-      // Points filter
-      if (pointsFilter !== "all") {
-        const points = user.points || 0;
-        switch (pointsFilter) {
-          case 'high':
-            if (points < 1000) return false;
-            break;
-          case 'medium':
-            if (points < 500 || points >= 1000) return false;
-            break;
-          case 'low':
-            if (points >= 500) return false;
-            break;
-          case 'zero':
-            if (points > 0) return false;
-            break;
-        }
-      }
-      
-      return true;
-    });
-
-    // Sort users
-    filtered.sort((a, b) => {
-      let aValue: any, bValue: any;
-      
-      switch (sortField) {
-        case 'name':
-          aValue = a.full_name.toLowerCase();
-          bValue = b.full_name.toLowerCase();
-          break;
-        case 'email':
-          aValue = a.email.toLowerCase();
-          bValue = b.email.toLowerCase();
-          break;
-        case 'role':
-          aValue = a.role;
-          bValue = b.role;
-          break;
-        case 'points':
-          aValue = a.points || 0;
-          bValue = b.points || 0;
-          break;
-        case 'date':
-          aValue = new Date(a.created_at);
-          bValue = new Date(b.created_at);
-          break;
-        default:
-          return 0;
-      }
-      
-      if (aValue < bValue) return sortOrder === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortOrder === 'asc' ? 1 : -1;
-      return 0;
-    });
+    setSearchQuery(query.search || "");
+  }, [query.search]);
 
-    return filtered;
-  }, [users, searchQuery, roleFilter, pointsFilter, sortField, sortOrder]);
+  // Search is sent to the server once typing pauses
+  useEffect(() => {
+    const search = searchQuery.trim();
+    if (search === (query.search || "")) return;
+    const timeout = setTimeout(() => setQuery({ search: search || undefined }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
   // Pagination calculations
-  const totalItems = filteredAndSortedUsers.length;
+  const totalItems = total;
   const totalPages = Math.ceil(totalItems / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedUsers = filteredAndSortedUsers.slice(startIndex, endIndex);
+  const endIndex = startIndex + users.length;
 
   // Pagination helpers
   const goToPage = (page: number) => {
-    setCurrentPage(Math.max(1, Math.min(page, totalPages)));
+    setQuery({ page: Math.max(1, Math.min(page, totalPages)) });
   };
 
   const goToFirstPage = () => goToPage(1);
@@ -167,20 +838,61 @@ export const Users = (): JSX.Element => {
   const goToPreviousPage = () => goToPage(currentPage - 1);
   const goToNextPage = () => goToPage(currentPage + 1);
 
-  const handleSort = (field: SortField) => {
+  const handleSort = (field: UserSortField) => {
     if (sortField === field) {
-      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+      setQuery({ sortOrder: sortOrder === 'asc' ? 'desc' : 'asc' });
+    } else {
+      setQuery({ sortField: field, sortOrder: 'asc' });
+    }
+  };
+
+  const handleRoleFilterChange = (value: string) => {
+    setQuery({ role: value === "all" ? undefined : value });
+  };
+
+  const handleStatusFilterChange = (value: string) => {
+    setQuery({ status: value === "all" ? undefined : value as UserAccountStatus });
+  };
+
+  const handlePointsFilterChange = (value: string) => {
+    const range = pointsRanges.find(r => r.value === value);
+    setQuery({ minPoints: range?.min, maxPoints: range?.max });
+  };
+
+  // Selection survives paging, so users from several pages can be changed together
+  const toggleUserSelection = (user: User) => {
+    setSelectedUserIds(prev => prev.includes(user.id) ? prev.filter(id => id !== user.id) : [...prev, user.id]);
+    setSelectedUserLabels(prev => ({ ...prev, [user.id]: user.email }));
+  };
+
+  const allOnPageSelected = users.length > 0 && users.every(user => selectedUserIds.includes(user.id));
+
+  const togglePageSelection = () => {
+    const pageIds = users.map(user => user.id);
+    if (allOnPageSelected) {
+      setSelectedUserIds(prev => prev.filter(id => !pageIds.includes(id)));
     } else {
-      setSortField(field);
-      setSortOrder('asc');
+      setSelectedUserIds(prev => Array.from(new Set([...prev, ...pageIds])));
+      setSelectedUserLabels(prev => ({ ...prev, ...Object.fromEntries(users.map(user => [user.id, user.email])) }));
+    }
+  };
+
+  const clearSelection = () => {
+    setSelectedUserIds([]);
+    setSelectedUserLabels({});
+  };
+
+  // Users the operation failed for stay selected so it can be retried
+  const handleBulkActionClose = (result: BulkUserResult | null) => {
+    if (result) {
+      setSelectedUserIds(result.failed.map(failure => failure.id));
     }
+    setBulkAction(null);
   };
 
   const clearFilters = () => {
     setSearchQuery("");
-    setRoleFilter("all");
-    setPointsFilter("all");
-    setCurrentPage(1);
+    resetQuery();
   };
 
   const handleCreateUser = async (formData: UserFormData) => {
@@ -232,12 +944,13 @@ export const Users = (): JSX.Element => {
   const handleAddPoints = async () => {
     if (!selectedUser || pointsToAdd <= 0) return;
     
-    const { error } = await addPointsToUser(selectedUser.id, pointsToAdd);
+    const { error } = await addPointsToUser(selectedUser.id, pointsToAdd, pointsNote.trim() || undefined);
     
     if (!error) {
       setIsPointsDialogOpen(false);
       setSelectedUser(null);
       setPointsToAdd(0);
+      setPointsNote("");
     } else {
       alert('Error adding points: ' + error);
     }
@@ -349,8 +1062,11 @@ export const Users = (): JSX.Element => {
             disabled={isSubmitting}
           >
             <option value="">Select Role</option>
-            <option value="user">User</option>
-            <option value="admin">Admin</option>
+            {roleOptions
+              .filter(option => option.value === MEMBER_ROLE || can('users.assign_role'))
+              .map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
           </select>
         </div>
         <Button 
@@ -378,7 +1094,7 @@ export const Users = (): JSX.Element => {
       onSubmit({
         full_name: formData.get('full_name') as string,
         email: formData.get('email') as string,
-        role: formData.get('role') as string,
+        role: (formData.get('role') as string) || user.role,
         points: parseInt(formData.get('points') as string),
       });
     }} className="space-y-4">
@@ -397,10 +1113,12 @@ export const Users = (): JSX.Element => {
           name="role" 
           className="w-full rounded-md border border-input bg-background px-3 py-2"
           defaultValue={user.role}
+          disabled={!can('users.assign_role')}
           required
         >
-          <option value="user">User</option>
-          <option value="admin">Admin</option>
+          {roleOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
         </select>
       </div>
       <div className="space-y-2">
@@ -410,6 +1128,7 @@ export const Users = (): JSX.Element => {
           name="points" 
           type="number" 
           defaultValue={user.points} 
+          readOnly={!can('users.points')}
           required 
         />
       </div>
@@ -424,10 +1143,7 @@ export const Users = (): JSX.Element => {
     <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mt-6 pt-4 border-t">
       <div className="flex items-center space-x-2 text-sm text-gray-600">
         <span>Show</span>
-        <Select value={itemsPerPage.toString()} onValueChange={(value) => {
-          setItemsPerPage(parseInt(value));
-          setCurrentPage(1);
-        }}>
+        <Select value={itemsPerPage.toString()} onValueChange={(value) => setQuery({ pageSize: parseInt(value) })}>
           <SelectTrigger className="w-[70px] h-8">
             <SelectValue />
           </SelectTrigger>
@@ -443,7 +1159,7 @@ export const Users = (): JSX.Element => {
       
       <div className="flex items-center space-x-2 text-sm text-gray-600">
         <span>
-          Showing {startIndex + 1} to {Math.min(endIndex, totalItems)} of {totalItems} entries
+          Showing {startIndex + 1} to {endIndex} of {totalItems} entries
         </span>
       </div>
       
@@ -592,10 +1308,11 @@ export const Users = (): JSX.Element => {
     );
   }
 
-  const totalUsers = users.length;
-  const adminUsers = users.filter(user => user.role === 'admin').length;
-  const regularUsers = users.filter(user => user.role === 'user').length;
-  const totalPoints = users.reduce((sum, user) => sum + (user.points || 0), 0);
+  const totalUsers = summary?.total_users ?? total;
+  const adminUsers = summary?.admin_users ?? 0;
+  const regularUsers = summary?.regular_users ?? 0;
+  const totalPoints = summary?.total_points ?? 0;
+  const hasFilters = Boolean(query.search || query.role || query.status || pointsFilter !== "all");
 
   return (
     <TooltipProvider>
@@ -611,21 +1328,67 @@ export const Users = (): JSX.Element => {
             </p>
           </div>
           
-          {/* Create User Dialog */}
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="bg-[#009A5A] hover:bg-[#008a50] text-white py-3 px-6 text-lg font-semibold w-full lg:w-auto">
-                <UserPlusIcon className="mr-2 h-5 w-5" />
-                Add User
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[500px]">
-              <DialogHeader>
-                <DialogTitle>Create New User</DialogTitle>
-              </DialogHeader>
-              <UserForm onSubmit={handleCreateUser} />
-            </DialogContent>
-          </Dialog>
+          <div className="flex flex-col sm:flex-row gap-3 w-full lg:w-auto">
+            {/* Admin Invites Dialog */}
+            {can('users.assign_role') && (
+              <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="py-3 px-6 text-lg font-semibold w-full lg:w-auto border-[#009A5A] text-[#009A5A]">
+                    <MailIcon className="mr-2 h-5 w-5" />
+                    Invite Admin
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[680px]">
+                  <DialogHeader>
+                    <DialogTitle>Invite an Admin</DialogTitle>
+                  </DialogHeader>
+                  {isInviteDialogOpen && <AdminInvitesForm />}
+                </DialogContent>
+              </Dialog>
+            )}
+
+            {/* Import Users Dialog */}
+            {can('users.manage') && (
+              <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="py-3 px-6 text-lg font-semibold w-full lg:w-auto border-[#009A5A] text-[#009A5A]">
+                    <UploadIcon className="mr-2 h-5 w-5" />
+                    Import CSV
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[760px]">
+                  <DialogHeader>
+                    <DialogTitle>Import Users from CSV</DialogTitle>
+                  </DialogHeader>
+                  {isImportDialogOpen && (
+                    <UserImportForm
+                      onPreview={previewUserImport}
+                      onImport={importUsers}
+                      onClose={() => setIsImportDialogOpen(false)}
+                    />
+                  )}
+                </DialogContent>
+              </Dialog>
+            )}
+
+            {/* Create User Dialog */}
+            {can('users.manage') && (
+              <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button className="bg-[#009A5A] hover:bg-[#008a50] text-white py-3 px-6 text-lg font-semibold w-full lg:w-auto">
+                    <UserPlusIcon className="mr-2 h-5 w-5" />
+                    Add User
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[500px]">
+                  <DialogHeader>
+                    <DialogTitle>Create New User</DialogTitle>
+                  </DialogHeader>
+                  <UserForm onSubmit={handleCreateUser} />
+                </DialogContent>
+              </Dialog>
+            )}
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -693,34 +1456,50 @@ export const Users = (): JSX.Element => {
               <div className="relative w-full">
                 <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
                 <Input
-                  className="pl-10 pr-32 h-12 bg-white text-base"
+                  className="pl-10 pr-[360px] h-12 bg-white text-base"
                   placeholder="Search users by name or email..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                 />
                 {/* Integrated Filter Dropdown */}
                 <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex items-center space-x-2">
-                  <Select value={roleFilter} onValueChange={(value: any) => setRoleFilter(value)}>
+                  <Select value={roleFilter} onValueChange={handleRoleFilterChange}>
                     <SelectTrigger className="w-[100px] h-8 border-0 bg-gray-50">
                       <SelectValue placeholder="Role" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Roles</SelectItem>
-                      <SelectItem value="admin">Admins</SelectItem>
-                      <SelectItem value="user">Users</SelectItem>
+                      {roleOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   
-                  <Select value={pointsFilter} onValueChange={setPointsFilter}>
+                  <Select value={statusFilter} onValueChange={handleStatusFilterChange}>
+                    <SelectTrigger className="w-[120px] h-8 border-0 bg-gray-50">
+                      <SelectValue placeholder="Status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Statuses</SelectItem>
+                      <SelectItem value="active">Active</SelectItem>
+                      <SelectItem value="deactivated">Deactivated</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  
+                  <Select value={pointsFilter} onValueChange={handlePointsFilterChange}>
                     <SelectTrigger className="w-[100px] h-8 border-0 bg-gray-50">
                       <SelectValue placeholder="Points" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Points</SelectItem>
-                      <SelectItem value="high">1000+</SelectItem>
-                      <SelectItem value="medium">500-999</SelectItem>
-                      <SelectItem value="low">1-499</SelectItem>
-                      <SelectItem value="zero">0 Points</SelectItem>
+                      {pointsRanges.map(range => (
+                        <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+                      ))}
+                      {pointsFilter === "custom" && (
+                        <SelectItem value="custom">
+                          {query.minPoints ?? 0}-{query.maxPoints ?? '∞'}
+                        </SelectItem>
+                      )}
                     </SelectContent>
                   </Select>
                 </div>
@@ -732,11 +1511,11 @@ export const Users = (): JSX.Element => {
                   <span className="text-sm text-gray-600">Sort by:</span>
                   <div className="flex gap-1">
                     {[
-                      { field: 'name' as SortField, label: 'Name' },
-                      { field: 'email' as SortField, label: 'Email' },
-                      { field: 'role' as SortField, label: 'Role' },
-                      { field: 'points' as SortField, label: 'Points' },
-                      { field: 'date' as SortField, label: 'Date' }
+                      { field: 'name' as UserSortField, label: 'Name' },
+                      { field: 'email' as UserSortField, label: 'Email' },
+                      { field: 'role' as UserSortField, label: 'Role' },
+                      { field: 'points' as UserSortField, label: 'Points' },
+                      { field: 'date' as UserSortField, label: 'Date' }
                     ].map(({ field, label }) => (
                       <Tooltip key={field}>
                         <TooltipTrigger asChild>
@@ -769,10 +1548,11 @@ export const Users = (): JSX.Element => {
                 {/* Results count and clear filters */}
                 <div className="flex justify-between items-center text-sm text-gray-600">
                   <span>
-                    Showing {paginatedUsers.length} of {filteredAndSortedUsers.length} users
-                    {filteredAndSortedUsers.length !== totalUsers && ` (filtered from ${totalUsers} total)`}
+                    Showing {users.length} of {total} users
+                    {hasFilters && ` (filtered from ${totalUsers} total)`}
+                    {fetching && <span className="ml-2 text-gray-400">Updating...</span>}
                   </span>
-                  {(searchQuery || roleFilter !== "all" || pointsFilter !== "all") && (
+                  {hasFilters && (
                     <Button
                       variant="ghost"
                       size="sm"
@@ -787,11 +1567,53 @@ export const Users = (): JSX.Element => {
               </div>
             </div>
 
+            {/* Bulk Actions */}
+            {selectedUserIds.length > 0 && (
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4 p-3 bg-[#009A5A]/10 rounded-lg">
+                <span className="text-sm font-medium text-gray-800">
+                  {selectedUserIds.length} user{selectedUserIds.length === 1 ? '' : 's'} selected
+                </span>
+                <div className="flex flex-wrap gap-2">
+                  {can('users.points') && (
+                    <Button size="sm" variant="outline" className="bg-white" onClick={() => setBulkAction('points')}>
+                      <CoinsIcon className="h-4 w-4 mr-1" />
+                      Points
+                    </Button>
+                  )}
+                  {can('users.assign_role') && (
+                    <Button size="sm" variant="outline" className="bg-white" onClick={() => setBulkAction('role')}>
+                      <ShieldIcon className="h-4 w-4 mr-1" />
+                      Change Role
+                    </Button>
+                  )}
+                  {can('users.manage') && (
+                    <Button size="sm" variant="outline" className="bg-white text-red-600" onClick={() => setBulkAction('deactivate')}>
+                      <UserXIcon className="h-4 w-4 mr-1" />
+                      Deactivate
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={clearSelection}>
+                    <XIcon className="h-4 w-4 mr-1" />
+                    Clear
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Table */}
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th className="pl-6 py-4 text-left">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all users on this page"
+                        checked={allOnPageSelected}
+                        onChange={togglePageSelection}
+                        className="h-4 w-4 accent-[#009A5A]"
+                      />
+                    </th>
                     <th className="px-6 py-4 text-left text-sm font-semibold text-gray-600">No.</th>
                     <th className="px-6 py-4 text-left text-sm font-semibold text-gray-600">User</th>
                     <th className="px-6 py-4 text-left text-sm font-semibold text-gray-600">Role</th>
@@ -802,8 +1624,17 @@ export const Users = (): JSX.Element => {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
-                  {paginatedUsers.map((user, index) => (
-                    <tr key={user.id} className="hover:bg-gray-50">
+                  {users.map((user, index) => (
+                    <tr key={user.id} className={selectedUserIds.includes(user.id) ? 'bg-[#009A5A]/5' : 'hover:bg-gray-50'}>
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${user.full_name}`}
+                          checked={selectedUserIds.includes(user.id)}
+                          onChange={() => toggleUserSelection(user)}
+                          className="h-4 w-4 accent-[#009A5A]"
+                        />
+                      </td>
                       <td className="px-6 py-4">
                         <span className="text-sm font-medium text-gray-900">
                           {startIndex + index + 1}
@@ -816,24 +1647,26 @@ export const Users = (): JSX.Element => {
                             <AvatarFallback>{user.full_name.charAt(0)}</AvatarFallback>
                           </Avatar>
                           <div className="ml-4">
-                            <div className="font-medium text-gray-900">{user.full_name}</div>
+                            <Link to={`/users/${user.id}`} className="font-medium text-gray-900 hover:text-[#009A5A] hover:underline">
+                              {user.full_name}
+                            </Link>
                             <div className="text-gray-500 text-sm">{user.email}</div>
                           </div>
                         </div>
                       </td>
                       <td className="px-6 py-4">
                         <div className="flex items-center">
-                          {user.role === 'admin' ? (
+                          {isAdminRole(user.role) ? (
                             <CrownIcon className="h-4 w-4 mr-2 text-blue-600" />
                           ) : (
                             <UsersIcon className="h-4 w-4 mr-2 text-gray-600" />
                           )}
                           <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium capitalize ${
-                            user.role === 'admin' 
+                            isAdminRole(user.role) 
                               ? 'bg-blue-100 text-blue-800' 
                               : 'bg-gray-100 text-gray-800'
                           }`}>
-                            {user.role}
+                            {getRoleLabel(user.role)}
                           </span>
                         </div>
                       </td>
@@ -844,9 +1677,15 @@ export const Users = (): JSX.Element => {
                         </div>
                       </td>
                       <td className="px-6 py-4">
-                        <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                          Active
-                        </span>
+                        {user.deactivated_at ? (
+                          <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                            Deactivated
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            Active
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-600">
                         <div className="flex items-center">
@@ -860,6 +1699,64 @@ export const Users = (): JSX.Element => {
                       </td>
                       <td className="px-6 py-4">
                         <div className="flex items-center space-x-2">
+                          {can('users.manage') && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button 
+                                  variant="ghost" 
+                                  size="icon"
+                                  onClick={() => {
+                                    setSelectedUser(user);
+                                    setIsEditDialogOpen(true);
+                                  }}
+                                >
+                                  <PencilIcon className="h-4 w-4 text-gray-500" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p>Edit user profile</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
+                          {can('users.assign_role') && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button 
+                                  variant="ghost" 
+                                  size="icon"
+                                  onClick={() => {
+                                    setSelectedUser(user);
+                                    setNewRole(user.role);
+                                    setIsRoleDialogOpen(true);
+                                  }}
+                                >
+                                  <ShieldIcon className="h-4 w-4 text-gray-500" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p>Change user role</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
+                          {can('users.points') && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button 
+                                  variant="ghost" 
+                                  size="icon"
+                                  onClick={() => {
+                                    setSelectedUser(user);
+                                    setIsPointsDialogOpen(true);
+                                  }}
+                                >
+                                  <CoinsIcon className="h-4 w-4 text-gray-500" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p>Add points to user</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
                           <Tooltip>
                             <TooltipTrigger asChild>
                               <Button 
@@ -867,61 +1764,36 @@ export const Users = (): JSX.Element => {
                                 size="icon"
                                 onClick={() => {
                                   setSelectedUser(user);
-                                  setIsEditDialogOpen(true);
-                                }}
-                              >
-                                <PencilIcon className="h-4 w-4 text-gray-500" />
-                              </Button>
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>Edit user profile</p>
-                            </TooltipContent>
-                          </Tooltip>
-                          <Tooltip>
-                            <TooltipTrigger asChild>
-                              <Button 
-                                variant="ghost" 
-                                size="icon"
-                                onClick={() => {
-                                  setSelectedUser(user);
-                                  setNewRole(user.role);
-                                  setIsRoleDialogOpen(true);
-                                }}
-                              >
-                                <ShieldIcon className="h-4 w-4 text-gray-500" />
-                              </Button>
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>Change user role</p>
-                            </TooltipContent>
-                          </Tooltip>
-                          <Tooltip>
-                            <TooltipTrigger asChild>
-                              <Button 
-                                variant="ghost" 
-                                size="icon"
-                                onClick={() => {
-                                  setSelectedUser(user);
-                                  setIsPointsDialogOpen(true);
+                                  setIsHistoryDialogOpen(true);
+                                  fetchPointsLedger(user.id);
                                 }}
                               >
-                                <CoinsIcon className="h-4 w-4 text-gray-500" />
+                                <HistoryIcon className="h-4 w-4 text-gray-500" />
                               </Button>
                             </TooltipTrigger>
                             <TooltipContent>
-                              <p>Add points to user</p>
-                            </TooltipContent>
-                          </Tooltip>
-                          <Tooltip>
-                            <TooltipTrigger asChild>
-                              <Button variant="ghost" size="icon">
-                                <MoreVerticalIcon className="h-4 w-4 text-gray-500" />
-                              </Button>
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>More options</p>
+                              <p>View points history</p>
                             </TooltipContent>
                           </Tooltip>
+                          {can('users.manage') && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button 
+                                  variant="ghost" 
+                                  size="icon"
+                                  onClick={() => {
+                                    setSelectedUser(user);
+                                    setIsAccountDialogOpen(true);
+                                  }}
+                                >
+                                  <MoreVerticalIcon className="h-4 w-4 text-gray-500" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p>Deactivate, restore or delete</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -931,11 +1803,11 @@ export const Users = (): JSX.Element => {
             </div>
 
             {/* Empty State */}
-            {paginatedUsers.length === 0 && (
+            {users.length === 0 && (
               <div className="text-center py-12">
                 <UserPlusIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                 <p className="text-gray-600">
-                  {searchQuery || roleFilter !== "all" || pointsFilter !== "all"
+                  {hasFilters
                     ? 'No users match your search criteria.'
                     : 'No users found.'}
                 </p>
@@ -948,6 +1820,46 @@ export const Users = (): JSX.Element => {
         </Card>
 
         {/* Dialogs */}
+        <Dialog open={isAccountDialogOpen} onOpenChange={setIsAccountDialogOpen}>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>Account Status</DialogTitle>
+            </DialogHeader>
+            {selectedUser && isAccountDialogOpen && (
+              <UserAccountForm
+                user={selectedUser}
+                onDeactivate={deactivateUser}
+                onRestore={restoreUser}
+                onDelete={deleteUser}
+                canDelete={can('users.delete')}
+                onClose={() => {
+                  setIsAccountDialogOpen(false);
+                  setSelectedUser(null);
+                }}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={bulkAction !== null} onOpenChange={(open) => !open && setBulkAction(null)}>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>{bulkAction ? bulkActionTitles[bulkAction] : ''}</DialogTitle>
+            </DialogHeader>
+            {bulkAction && (
+              <BulkActionForm
+                action={bulkAction}
+                userIds={selectedUserIds}
+                userLabels={selectedUserLabels}
+                onAdjustPoints={bulkAdjustPoints}
+                onChangeRole={bulkUpdateUserRole}
+                onDeactivate={bulkDeactivateUsers}
+                onClose={handleBulkActionClose}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
           <DialogContent className="sm:max-w-[500px]">
             <DialogHeader>
@@ -985,8 +1897,9 @@ export const Users = (): JSX.Element => {
                     onChange={(e) => setNewRole(e.target.value)}
                     className="w-full rounded-md border border-input bg-background px-3 py-2"
                   >
-                    <option value="user">User</option>
-                    <option value="admin">Admin</option>
+                    {roleOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
                   </select>
                 </div>
                 
@@ -1050,6 +1963,16 @@ export const Users = (): JSX.Element => {
                   />
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="points_note">Reason (Optional)</Label>
+                  <Input 
+                    id="points_note" 
+                    value={pointsNote}
+                    onChange={(e) => setPointsNote(e.target.value)}
+                    placeholder="e.g. Volunteered at the office clean-up"
+                  />
+                </div>
+                
                 {pointsToAdd > 0 && (
                   <div className="bg-green-50 p-3 rounded-lg">
                     <p className="text-sm text-green-800">
@@ -1064,6 +1987,7 @@ export const Users = (): JSX.Element => {
                     onClick={() => {
                       setIsPointsDialogOpen(false);
                       setPointsToAdd(0);
+                      setPointsNote("");
                     }}
                   >
                     <XIcon className="h-4 w-4 mr-2" />
@@ -1082,6 +2006,89 @@ export const Users = (): JSX.Element => {
             )}
           </DialogContent>
         </Dialog>
+
+        <Dialog open={isHistoryDialogOpen} onOpenChange={setIsHistoryDialogOpen}>
+          <DialogContent className="sm:max-w-[720px]">
+            <DialogHeader>
+              <DialogTitle>Points History</DialogTitle>
+            </DialogHeader>
+            {selectedUser && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage src={selectedUser.avatar_url || ''} alt={selectedUser.full_name} />
+                      <AvatarFallback>{selectedUser.full_name.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <p className="font-medium">{selectedUser.full_name}</p>
+                      <p className="text-sm text-gray-600">{selectedUser.email}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center text-sm font-medium">
+                    <CoinsIcon className="h-4 w-4 mr-1 text-[#009A5A]" />
+                    {selectedUser.points.toLocaleString()} points
+                  </div>
+                </div>
+
+                {ledgerLoading ? (
+                  <p className="text-sm text-gray-500 py-4 text-center">Loading transactions...</p>
+                ) : pointsLedger.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-4 text-center">No point transactions recorded for this user.</p>
+                ) : (
+                  <div className="max-h-[360px] overflow-y-auto border rounded-lg">
+                    <table className="w-full">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600">Date</th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600">Reason</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600">Change</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600">Balance</th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600">By</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {pointsLedger.map((transaction) => (
+                          <tr key={transaction.id} className="hover:bg-gray-50">
+                            <td className="px-4 py-2 text-xs text-gray-600">
+                              {new Date(transaction.created_at).toLocaleDateString('en-US', {
+                                year: 'numeric',
+                                month: 'short',
+                                day: 'numeric'
+                              })}
+                            </td>
+                            <td className="px-4 py-2">
+                              <div className="text-sm text-gray-900">
+                                {pointsReasonLabels[transaction.reason] || transaction.reason}
+                                {transaction.reference_id && (
+                                  <span className="text-gray-500"> #{transaction.reference_id}</span>
+                                )}
+                              </div>
+                              {transaction.note && (
+                                <div className="text-xs text-gray-500">{transaction.note}</div>
+                              )}
+                            </td>
+                            <td className={`px-4 py-2 text-right text-sm font-medium ${
+                              transaction.delta > 0 ? 'text-green-600' : 'text-red-600'
+                            }`}>
+                              {transaction.delta > 0 ? '+' : ''}{transaction.delta.toLocaleString()}
+                            </td>
+                            <td className="px-4 py-2 text-right text-sm text-gray-900">
+                              {transaction.balance_after.toLocaleString()}
+                            </td>
+                            <td className="px-4 py-2 text-xs text-gray-600">
+                              {transaction.admin_name || 'System'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </TooltipProvider>
   );
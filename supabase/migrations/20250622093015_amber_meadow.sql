@@ -0,0 +1,166 @@
+/*
+  # Event Capacity and Waitlist
+
+  1. Schema Changes
+    - Add `max_participants` to `events` (defaults to 50, the capacity the app assumed so far)
+    - Constrain `event_participants.status` to registered / waitlisted / cancelled
+
+  2. Capacity Enforcement
+    - BEFORE INSERT trigger on `event_participants` places new registrations on the
+      waitlist once the event is full
+    - The event row is locked while counting so concurrent sign-ups cannot overbook
+
+  3. Waitlist Promotion
+    - AFTER UPDATE / DELETE trigger promotes the earliest waitlisted participant
+      whenever a registered seat is freed (cancellation, removal or capacity increase)
+*/
+
+-- Persist capacity per event
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS max_participants integer NOT NULL DEFAULT 50;
+
+ALTER TABLE events
+ADD CONSTRAINT events_max_participants_check CHECK (max_participants > 0);
+
+-- Normalise existing participant rows and restrict the status values
+UPDATE event_participants
+SET status = 'registered'
+WHERE status IS NULL OR status NOT IN ('registered', 'waitlisted', 'cancelled');
+
+ALTER TABLE event_participants
+ALTER COLUMN status SET DEFAULT 'registered';
+
+ALTER TABLE event_participants
+ADD CONSTRAINT event_participants_status_check
+CHECK (status IN ('registered', 'waitlisted', 'cancelled'));
+
+-- Seats taken by an event (everything except waitlisted and cancelled rows)
+CREATE OR REPLACE FUNCTION event_seats_taken(p_event_id integer)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(*)::integer
+  FROM event_participants
+  WHERE event_id = p_event_id
+    AND status NOT IN ('waitlisted', 'cancelled');
+$$;
+
+-- Put new registrations on the waitlist when the event is full
+CREATE OR REPLACE FUNCTION enforce_event_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_capacity integer;
+BEGIN
+  IF NEW.status IN ('waitlisted', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialise registrations for the same event
+  SELECT max_participants INTO v_capacity
+  FROM events
+  WHERE event_id = NEW.event_id
+  FOR UPDATE;
+
+  IF event_seats_taken(NEW.event_id) >= v_capacity THEN
+    NEW.status := 'waitlisted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS event_participants_enforce_capacity ON event_participants;
+CREATE TRIGGER event_participants_enforce_capacity
+BEFORE INSERT ON event_participants
+FOR EACH ROW
+EXECUTE FUNCTION enforce_event_capacity();
+
+-- Fill free seats from the waitlist, oldest registration first
+CREATE OR REPLACE FUNCTION promote_event_waitlist(p_event_id integer)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_capacity integer;
+  v_free_seats integer;
+BEGIN
+  SELECT max_participants INTO v_capacity
+  FROM events
+  WHERE event_id = p_event_id
+  FOR UPDATE;
+
+  IF v_capacity IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_free_seats := v_capacity - event_seats_taken(p_event_id);
+
+  IF v_free_seats > 0 THEN
+    UPDATE event_participants
+    SET status = 'registered'
+    WHERE participant_id IN (
+      SELECT participant_id
+      FROM event_participants
+      WHERE event_id = p_event_id
+        AND status = 'waitlisted'
+      ORDER BY joined_at ASC, participant_id ASC
+      LIMIT v_free_seats
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_event_seat_released()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status NOT IN ('waitlisted', 'cancelled') THEN
+      PERFORM promote_event_waitlist(OLD.event_id);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status NOT IN ('waitlisted', 'cancelled') AND NEW.status IN ('waitlisted', 'cancelled') THEN
+    PERFORM promote_event_waitlist(NEW.event_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS event_participants_seat_released ON event_participants;
+CREATE TRIGGER event_participants_seat_released
+AFTER UPDATE OF status OR DELETE ON event_participants
+FOR EACH ROW
+EXECUTE FUNCTION handle_event_seat_released();
+
+-- Raising the capacity frees seats as well
+CREATE OR REPLACE FUNCTION handle_event_capacity_changed()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.max_participants > OLD.max_participants THEN
+    PERFORM promote_event_waitlist(NEW.event_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS events_capacity_changed ON events;
+CREATE TRIGGER events_capacity_changed
+AFTER UPDATE OF max_participants ON events
+FOR EACH ROW
+EXECUTE FUNCTION handle_event_capacity_changed();
+
+-- Speed up per-event status counts
+CREATE INDEX IF NOT EXISTS idx_event_participants_event_status
+ON event_participants(event_id, status);
+
+COMMENT ON COLUMN events.max_participants IS 'Maximum number of registered participants; further sign-ups are waitlisted';
+COMMENT ON FUNCTION promote_event_waitlist(integer) IS 'Moves the earliest waitlisted participants into free seats of an event';
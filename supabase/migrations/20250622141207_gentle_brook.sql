@@ -0,0 +1,21 @@
+/*
+  # Participant Attendance Statuses
+
+  1. Schema Changes
+    - Allow `attended` and `no_show` on `event_participants.status` so admins can
+      track the outcome of each registration from the event roster
+
+  2. Notes
+    - Both statuses keep occupying a seat; only `waitlisted` and `cancelled` rows
+      are excluded by `event_seats_taken`
+*/
+
+ALTER TABLE event_participants
+DROP CONSTRAINT IF EXISTS event_participants_status_check;
+
+ALTER TABLE event_participants
+ADD CONSTRAINT event_participants_status_check
+CHECK (status IN ('registered', 'waitlisted', 'attended', 'no_show', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_event_participants_user_id
+ON event_participants(user_id);
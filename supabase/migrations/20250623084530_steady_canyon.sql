@@ -0,0 +1,80 @@
+/*
+  # Attendance Check-In
+
+  1. Schema Changes
+    - Add `points_awarded_at` to `event_participants`; it is set the first time a
+      participant's attendance points are credited and never cleared
+
+  2. New Functions
+    - `check_in_event_participants(p_event_id, p_participant_ids)` marks the given
+      participants as attended and credits the event's points to
+      `users.redeemable_points` in a single transaction
+    - Participants that were already credited are marked attended again but receive
+      no points, so re-running a check-in never double-awards
+
+  3. Security
+    - Executable by authenticated users (admins)
+*/
+
+ALTER TABLE event_participants
+ADD COLUMN IF NOT EXISTS points_awarded_at timestamptz;
+
+CREATE OR REPLACE FUNCTION check_in_event_participants(
+  p_event_id integer,
+  p_participant_ids integer[]
+)
+RETURNS TABLE (
+  participant_id integer,
+  user_id integer,
+  points_awarded integer
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_points integer;
+BEGIN
+  SELECT e.points INTO v_points
+  FROM events e
+  WHERE e.event_id = p_event_id;
+
+  IF v_points IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id;
+  END IF;
+
+  RETURN QUERY
+  WITH targets AS (
+    -- Lock the rows so two concurrent check-ins cannot both see them as uncredited
+    SELECT ep.participant_id, ep.user_id, ep.points_awarded_at IS NULL AS needs_points
+    FROM event_participants ep
+    WHERE ep.event_id = p_event_id
+      AND ep.participant_id = ANY(p_participant_ids)
+      AND ep.status NOT IN ('waitlisted', 'cancelled')
+    FOR UPDATE
+  ),
+  checked_in AS (
+    UPDATE event_participants ep
+    SET status = 'attended',
+        points_awarded_at = COALESCE(ep.points_awarded_at, CURRENT_TIMESTAMP)
+    FROM targets t
+    WHERE ep.participant_id = t.participant_id
+    RETURNING ep.participant_id, ep.user_id, t.needs_points
+  ),
+  credited AS (
+    UPDATE users u
+    SET redeemable_points = COALESCE(u.redeemable_points, 0) + v_points,
+        updated_at = CURRENT_TIMESTAMP
+    FROM checked_in c
+    WHERE u.user_id = c.user_id
+      AND c.needs_points
+    RETURNING u.user_id
+  )
+  SELECT c.participant_id, c.user_id, CASE WHEN c.needs_points THEN v_points ELSE 0 END
+  FROM checked_in c;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_in_event_participants(integer, integer[]) TO authenticated;
+
+COMMENT ON COLUMN event_participants.points_awarded_at IS 'When the event points were credited for attendance; NULL until first check-in';
+COMMENT ON FUNCTION check_in_event_participants(integer, integer[]) IS 'Marks participants attended and credits event points exactly once per participant';
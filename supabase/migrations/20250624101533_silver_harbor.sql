@@ -0,0 +1,176 @@
+/*
+  # Points Ledger
+
+  1. New Tables
+    - `points_transactions` - append-only history of every balance change
+      - `transaction_id` (serial, primary key)
+      - `user_id` (integer, user whose balance changed)
+      - `delta` (integer, positive for credits, negative for debits)
+      - `reason` (text: event_attendance, mission_approval, redemption, manual_adjustment)
+      - `reference_id` (integer, optional id of the event, mission submission or redemption)
+      - `admin_id` (integer, optional admin who triggered the change)
+      - `note` (text, optional free-form explanation)
+      - `balance_after` (integer, user balance once the row was applied)
+      - `created_at` (timestamptz)
+
+  2. Balance Sync
+    - `record_points_transaction(...)` locks the user row, rejects negative balances,
+      inserts the ledger row and updates `users.redeemable_points` in one step
+    - Existing balances are carried over as opening `manual_adjustment` rows
+    - `check_in_event_participants` now credits attendance through the ledger
+
+  3. Security
+    - Ledger rows can not be updated or deleted
+    - Enable RLS; authenticated users (admins) can read the ledger
+*/
+
+CREATE TABLE IF NOT EXISTS points_transactions (
+  transaction_id serial PRIMARY KEY,
+  user_id integer NOT NULL REFERENCES users(user_id),
+  delta integer NOT NULL CHECK (delta <> 0),
+  reason text NOT NULL CHECK (reason IN ('event_attendance', 'mission_approval', 'redemption', 'manual_adjustment')),
+  reference_id integer,
+  admin_id integer REFERENCES users(user_id) ON DELETE SET NULL,
+  note text,
+  balance_after integer NOT NULL,
+  created_at timestamptz DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_points_transactions_user_created
+ON points_transactions(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_points_transactions_reason_reference
+ON points_transactions(reason, reference_id);
+
+-- Carry current balances over so the ledger sums match redeemable_points
+INSERT INTO points_transactions (user_id, delta, reason, note, balance_after, created_at)
+SELECT user_id, redeemable_points, 'manual_adjustment', 'Opening balance', redeemable_points, created_at
+FROM users
+WHERE COALESCE(redeemable_points, 0) <> 0
+  AND NOT EXISTS (SELECT 1 FROM points_transactions pt WHERE pt.user_id = users.user_id);
+
+-- Append-only: history is corrected with a compensating row, never edited
+CREATE OR REPLACE FUNCTION prevent_points_transaction_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'points_transactions is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS points_transactions_append_only ON points_transactions;
+CREATE TRIGGER points_transactions_append_only
+BEFORE UPDATE OR DELETE ON points_transactions
+FOR EACH ROW
+EXECUTE FUNCTION prevent_points_transaction_changes();
+
+CREATE OR REPLACE FUNCTION record_points_transaction(
+  p_user_id integer,
+  p_delta integer,
+  p_reason text,
+  p_reference_id integer DEFAULT NULL,
+  p_admin_id integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS points_transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_balance integer;
+  v_row points_transactions;
+BEGIN
+  -- Serialise balance changes per user
+  SELECT COALESCE(redeemable_points, 0) INTO v_balance
+  FROM users
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  IF v_balance + p_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient points: balance is %, change is %', v_balance, p_delta;
+  END IF;
+
+  UPDATE users
+  SET redeemable_points = v_balance + p_delta,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id;
+
+  INSERT INTO points_transactions (user_id, delta, reason, reference_id, admin_id, note, balance_after)
+  VALUES (p_user_id, p_delta, p_reason, p_reference_id, p_admin_id, p_note, v_balance + p_delta)
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Attendance credits now go through the ledger
+DROP FUNCTION IF EXISTS check_in_event_participants(integer, integer[]);
+
+CREATE OR REPLACE FUNCTION check_in_event_participants(
+  p_event_id integer,
+  p_participant_ids integer[],
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS TABLE (
+  participant_id integer,
+  user_id integer,
+  points_awarded integer
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_points integer;
+  v_target record;
+BEGIN
+  SELECT e.points INTO v_points
+  FROM events e
+  WHERE e.event_id = p_event_id;
+
+  IF v_points IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id;
+  END IF;
+
+  FOR v_target IN
+    SELECT ep.participant_id, ep.user_id, ep.points_awarded_at IS NULL AS needs_points
+    FROM event_participants ep
+    WHERE ep.event_id = p_event_id
+      AND ep.participant_id = ANY(p_participant_ids)
+      AND ep.status NOT IN ('waitlisted', 'cancelled')
+    ORDER BY ep.participant_id
+    FOR UPDATE
+  LOOP
+    UPDATE event_participants ep
+    SET status = 'attended',
+        points_awarded_at = COALESCE(ep.points_awarded_at, CURRENT_TIMESTAMP)
+    WHERE ep.participant_id = v_target.participant_id;
+
+    IF v_target.needs_points AND v_points > 0 THEN
+      PERFORM record_points_transaction(v_target.user_id, v_points, 'event_attendance', p_event_id, p_admin_id);
+    END IF;
+
+    participant_id := v_target.participant_id;
+    user_id := v_target.user_id;
+    points_awarded := CASE WHEN v_target.needs_points THEN v_points ELSE 0 END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE points_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read points transactions"
+  ON points_transactions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+GRANT EXECUTE ON FUNCTION record_points_transaction(integer, integer, text, integer, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_in_event_participants(integer, integer[], integer) TO authenticated;
+
+COMMENT ON TABLE points_transactions IS 'Append-only ledger of redeemable point changes; users.redeemable_points is kept in sync by record_points_transaction';
+COMMENT ON FUNCTION record_points_transaction(integer, integer, text, integer, integer, text) IS 'Applies a points delta to a user and records it in the ledger atomically';
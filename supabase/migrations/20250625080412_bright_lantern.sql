@@ -0,0 +1,165 @@
+/*
+  # Mission Approval Points and Photo Review
+
+  1. Schema Changes
+    - Add `points_awarded` to `user_monthly_missions`; set when an approval credits the
+      mission points and cleared when the approval is reverted
+    - Add `photo_reviews` (jsonb array of `{ slot, status, reason }`) holding the
+      per-photo accept/reject decisions for `photo_path_1..3`
+
+  2. New Functions
+    - `set_mission_submission_status(...)` changes a submission's status and keeps the
+      user's balance in step through the points ledger: moving to `approved` credits the
+      mission points once, moving away from `approved` reverses them
+    - `review_mission_submission_photos(...)` stores the per-photo review and approves the
+      submission when at least one photo was accepted, otherwise rejects it
+
+  3. Notes
+    - Submissions are identified by user, mission and optionally `month_year`; without a
+      month the latest submission is used
+*/
+
+ALTER TABLE user_monthly_missions
+ADD COLUMN IF NOT EXISTS points_awarded integer;
+
+ALTER TABLE user_monthly_missions
+ADD COLUMN IF NOT EXISTS photo_reviews jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION set_mission_submission_status(
+  p_user_id integer,
+  p_mission_id integer,
+  p_status text,
+  p_month_year text DEFAULT NULL,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_submission record;
+  v_points integer;
+  v_points_awarded integer;
+  v_change integer := 0;
+BEGIN
+  IF p_status NOT IN ('pending', 'approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid submission status %', p_status;
+  END IF;
+
+  SELECT * INTO v_submission
+  FROM user_monthly_missions
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND (p_month_year IS NULL OR month_year = p_month_year)
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  v_points_awarded := v_submission.points_awarded;
+
+  IF p_status = 'approved' AND v_points_awarded IS NULL THEN
+    SELECT COALESCE(points, 0) INTO v_points
+    FROM monthly_missions
+    WHERE mission_id = p_mission_id;
+
+    IF v_points > 0 THEN
+      PERFORM record_points_transaction(
+        p_user_id, v_points, 'mission_approval', p_mission_id, p_admin_id,
+        'Mission submission ' || v_submission.month_year || ' approved'
+      );
+    END IF;
+
+    v_change := v_points;
+    v_points_awarded := v_points;
+  ELSIF p_status <> 'approved' AND v_points_awarded IS NOT NULL THEN
+    IF v_points_awarded > 0 THEN
+      PERFORM record_points_transaction(
+        p_user_id, -v_points_awarded, 'mission_approval', p_mission_id, p_admin_id,
+        'Mission submission ' || v_submission.month_year || ' approval reverted'
+      );
+    END IF;
+
+    v_change := -v_points_awarded;
+    v_points_awarded := NULL;
+  END IF;
+
+  UPDATE user_monthly_missions
+  SET status = p_status,
+      points_awarded = v_points_awarded,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND month_year = v_submission.month_year;
+
+  RETURN v_change;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION review_mission_submission_photos(
+  p_user_id integer,
+  p_mission_id integer,
+  p_reviews jsonb,
+  p_month_year text DEFAULT NULL,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_review jsonb;
+  v_month_year text;
+  v_status text;
+BEGIN
+  IF jsonb_typeof(p_reviews) <> 'array' OR jsonb_array_length(p_reviews) = 0 THEN
+    RAISE EXCEPTION 'At least one photo review is required';
+  END IF;
+
+  FOR v_review IN SELECT * FROM jsonb_array_elements(p_reviews)
+  LOOP
+    IF (v_review->>'slot')::integer NOT IN (1, 2, 3) THEN
+      RAISE EXCEPTION 'Invalid photo slot %', v_review->>'slot';
+    END IF;
+    IF v_review->>'status' NOT IN ('accepted', 'rejected') THEN
+      RAISE EXCEPTION 'Invalid photo review status %', v_review->>'status';
+    END IF;
+    IF v_review->>'status' = 'rejected' AND COALESCE(trim(v_review->>'reason'), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required when rejecting photo %', v_review->>'slot';
+    END IF;
+  END LOOP;
+
+  SELECT month_year INTO v_month_year
+  FROM user_monthly_missions
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND (p_month_year IS NULL OR month_year = p_month_year)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_month_year IS NULL THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  UPDATE user_monthly_missions
+  SET photo_reviews = p_reviews
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND month_year = v_month_year;
+
+  v_status := CASE
+    WHEN EXISTS (SELECT 1 FROM jsonb_array_elements(p_reviews) r WHERE r->>'status' = 'accepted')
+    THEN 'approved'
+    ELSE 'rejected'
+  END;
+
+  RETURN set_mission_submission_status(p_user_id, p_mission_id, v_status, v_month_year, p_admin_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_mission_submission_status(integer, integer, text, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_mission_submission_photos(integer, integer, jsonb, text, integer) TO authenticated;
+
+COMMENT ON COLUMN user_monthly_missions.points_awarded IS 'Mission points credited by the current approval; NULL when not approved';
+COMMENT ON COLUMN user_monthly_missions.photo_reviews IS 'Per-photo review decisions: [{ slot, status: accepted|rejected, reason }]';
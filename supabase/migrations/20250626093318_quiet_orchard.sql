@@ -0,0 +1,278 @@
+/*
+  # Rejection Reasons and Resubmission
+
+  1. Schema Changes
+    - Add `rejection_reason` to `user_monthly_missions`; set whenever a submission is
+      rejected and cleared when it leaves the rejected state
+
+  2. New Tables
+    - `mission_rejection_reasons` - reusable reason templates managed by admins
+      - `reason_id` (serial, primary key)
+      - `title` (text, short label shown in the picker)
+      - `message` (text, the reason shown to the user)
+      - `created_at`, `updated_at` (timestamptz)
+    - `mission_submission_status_history` - every status change of a submission
+      - `history_id` (serial, primary key)
+      - `user_id`, `mission_id`, `month_year` (identify the submission)
+      - `from_status`, `to_status` (text)
+      - `reason` (text, rejection reason at the time of the change)
+      - `source` (text: review or resubmission)
+      - `changed_by` (integer, admin who reviewed; NULL for user resubmissions)
+      - `created_at` (timestamptz)
+
+  3. Functions and Triggers
+    - `set_mission_submission_status(...)` now takes `p_reason`, requires it when
+      rejecting and records the change in the history
+    - `review_mission_submission_photos(...)` passes the rejected photos' reasons on
+      when every photo is rejected
+    - Re-uploading photos on a rejected submission moves it back to `pending`
+
+  4. Security
+    - Enable RLS; authenticated users (admins) can read both tables and manage templates
+*/
+
+ALTER TABLE user_monthly_missions
+ADD COLUMN IF NOT EXISTS rejection_reason text;
+
+CREATE TABLE IF NOT EXISTS mission_rejection_reasons (
+  reason_id serial PRIMARY KEY,
+  title text NOT NULL,
+  message text NOT NULL CHECK (trim(message) <> ''),
+  created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS mission_submission_status_history (
+  history_id serial PRIMARY KEY,
+  user_id integer NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  mission_id integer NOT NULL REFERENCES monthly_missions(mission_id) ON DELETE CASCADE,
+  month_year text NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  reason text,
+  source text NOT NULL DEFAULT 'review' CHECK (source IN ('review', 'resubmission')),
+  changed_by integer REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_status_history_submission
+ON mission_submission_status_history(user_id, mission_id, month_year, created_at);
+
+INSERT INTO mission_rejection_reasons (title, message)
+SELECT title, message
+FROM (VALUES
+  ('Photo unclear', 'The photo is too dark or blurry to verify the mission. Please upload a clearer photo.'),
+  ('Off-topic', 'The photo does not show the mission activity. Please upload a photo that matches the mission description.'),
+  ('Duplicate photo', 'This photo was already submitted for another mission. Please upload a new photo.')
+) AS defaults(title, message)
+WHERE NOT EXISTS (SELECT 1 FROM mission_rejection_reasons);
+
+DROP FUNCTION IF EXISTS set_mission_submission_status(integer, integer, text, text, integer);
+
+CREATE OR REPLACE FUNCTION set_mission_submission_status(
+  p_user_id integer,
+  p_mission_id integer,
+  p_status text,
+  p_month_year text DEFAULT NULL,
+  p_admin_id integer DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_submission record;
+  v_points integer;
+  v_points_awarded integer;
+  v_change integer := 0;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  IF p_status NOT IN ('pending', 'approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid submission status %', p_status;
+  END IF;
+
+  IF p_status = 'rejected' AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when rejecting a submission';
+  END IF;
+
+  SELECT * INTO v_submission
+  FROM user_monthly_missions
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND (p_month_year IS NULL OR month_year = p_month_year)
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  v_points_awarded := v_submission.points_awarded;
+
+  IF p_status = 'approved' AND v_points_awarded IS NULL THEN
+    SELECT COALESCE(points, 0) INTO v_points
+    FROM monthly_missions
+    WHERE mission_id = p_mission_id;
+
+    IF v_points > 0 THEN
+      PERFORM record_points_transaction(
+        p_user_id, v_points, 'mission_approval', p_mission_id, p_admin_id,
+        'Mission submission ' || v_submission.month_year || ' approved'
+      );
+    END IF;
+
+    v_change := v_points;
+    v_points_awarded := v_points;
+  ELSIF p_status <> 'approved' AND v_points_awarded IS NOT NULL THEN
+    IF v_points_awarded > 0 THEN
+      PERFORM record_points_transaction(
+        p_user_id, -v_points_awarded, 'mission_approval', p_mission_id, p_admin_id,
+        'Mission submission ' || v_submission.month_year || ' approval reverted'
+      );
+    END IF;
+
+    v_change := -v_points_awarded;
+    v_points_awarded := NULL;
+  END IF;
+
+  UPDATE user_monthly_missions
+  SET status = p_status,
+      points_awarded = v_points_awarded,
+      rejection_reason = CASE WHEN p_status = 'rejected' THEN v_reason ELSE NULL END,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND month_year = v_submission.month_year;
+
+  IF v_submission.status IS DISTINCT FROM p_status
+     OR v_submission.rejection_reason IS DISTINCT FROM v_reason THEN
+    INSERT INTO mission_submission_status_history (
+      user_id, mission_id, month_year, from_status, to_status, reason, source, changed_by
+    )
+    VALUES (
+      p_user_id, p_mission_id, v_submission.month_year, v_submission.status, p_status,
+      CASE WHEN p_status = 'rejected' THEN v_reason END, 'review', p_admin_id
+    );
+  END IF;
+
+  RETURN v_change;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION review_mission_submission_photos(
+  p_user_id integer,
+  p_mission_id integer,
+  p_reviews jsonb,
+  p_month_year text DEFAULT NULL,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_review jsonb;
+  v_month_year text;
+  v_status text;
+  v_reason text;
+BEGIN
+  IF jsonb_typeof(p_reviews) <> 'array' OR jsonb_array_length(p_reviews) = 0 THEN
+    RAISE EXCEPTION 'At least one photo review is required';
+  END IF;
+
+  FOR v_review IN SELECT * FROM jsonb_array_elements(p_reviews)
+  LOOP
+    IF (v_review->>'slot')::integer NOT IN (1, 2, 3) THEN
+      RAISE EXCEPTION 'Invalid photo slot %', v_review->>'slot';
+    END IF;
+    IF v_review->>'status' NOT IN ('accepted', 'rejected') THEN
+      RAISE EXCEPTION 'Invalid photo review status %', v_review->>'status';
+    END IF;
+    IF v_review->>'status' = 'rejected' AND COALESCE(trim(v_review->>'reason'), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required when rejecting photo %', v_review->>'slot';
+    END IF;
+  END LOOP;
+
+  SELECT month_year INTO v_month_year
+  FROM user_monthly_missions
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND (p_month_year IS NULL OR month_year = p_month_year)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_month_year IS NULL THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  UPDATE user_monthly_missions
+  SET photo_reviews = p_reviews
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND month_year = v_month_year;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(p_reviews) r WHERE r->>'status' = 'accepted') THEN
+    v_status := 'approved';
+  ELSE
+    v_status := 'rejected';
+    SELECT string_agg('Photo ' || (r->>'slot') || ': ' || trim(r->>'reason'), '; ' ORDER BY (r->>'slot')::integer)
+    INTO v_reason
+    FROM jsonb_array_elements(p_reviews) r;
+  END IF;
+
+  RETURN set_mission_submission_status(p_user_id, p_mission_id, v_status, v_month_year, p_admin_id, v_reason);
+END;
+$$;
+
+-- A user re-uploading photos on a rejected submission puts it back in the review queue
+CREATE OR REPLACE FUNCTION reopen_resubmitted_mission()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status = 'rejected'
+     AND NEW.status = 'rejected'
+     AND (NEW.photo_path_1, NEW.photo_path_2, NEW.photo_path_3)
+         IS DISTINCT FROM (OLD.photo_path_1, OLD.photo_path_2, OLD.photo_path_3) THEN
+    NEW.status := 'pending';
+    NEW.rejection_reason := NULL;
+    NEW.photo_reviews := '[]'::jsonb;
+    NEW.updated_at := CURRENT_TIMESTAMP;
+
+    INSERT INTO mission_submission_status_history (
+      user_id, mission_id, month_year, from_status, to_status, source
+    )
+    VALUES (NEW.user_id, NEW.mission_id, NEW.month_year, 'rejected', 'pending', 'resubmission');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_monthly_missions_reopen_on_upload ON user_monthly_missions;
+CREATE TRIGGER user_monthly_missions_reopen_on_upload
+BEFORE UPDATE OF photo_path_1, photo_path_2, photo_path_3 ON user_monthly_missions
+FOR EACH ROW
+EXECUTE FUNCTION reopen_resubmitted_mission();
+
+ALTER TABLE mission_rejection_reasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mission_submission_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage rejection reasons"
+  ON mission_rejection_reasons
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can read submission status history"
+  ON mission_submission_status_history
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+GRANT EXECUTE ON FUNCTION set_mission_submission_status(integer, integer, text, text, integer, text) TO authenticated;
+
+COMMENT ON COLUMN user_monthly_missions.rejection_reason IS 'Why the submission was rejected, shown to the user; NULL unless status is rejected';
+COMMENT ON TABLE mission_rejection_reasons IS 'Reusable rejection reason templates offered when rejecting a mission submission';
+COMMENT ON TABLE mission_submission_status_history IS 'Every status change of a mission submission, from admin reviews and user resubmissions';
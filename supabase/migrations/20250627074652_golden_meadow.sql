@@ -0,0 +1,171 @@
+/*
+  # Mission Scheduling and Recurrence
+
+  1. Schema Changes
+    - `monthly_missions` stores its window in `start_date` / `end_date`; existing rows
+      without one get the calendar month they were created in
+    - Add `month_year` ('YYYY-MM') to `monthly_missions`, the period submissions for the
+      mission belong to
+    - Add `template_id` to `monthly_missions` for missions spawned from a template
+
+  2. New Tables
+    - `mission_templates` - recurring missions that spawn one `monthly_missions` row per period
+      - `template_id` (serial, primary key)
+      - `title`, `description`, `points` (copied onto every spawned mission)
+      - `recurrence` (text: monthly or quarterly)
+      - `first_month` (text 'YYYY-MM', first period to spawn)
+      - `last_month` (text 'YYYY-MM', optional last period)
+      - `is_active` (boolean, paused templates spawn nothing)
+      - `created_at`, `updated_at` (timestamptz)
+
+  3. New Functions
+    - `spawn_recurring_missions(p_now)` creates the missing missions for every active
+      template up to and including next month and returns the new rows; it is safe to
+      call repeatedly (the admin hub calls it on load, a scheduled job may call it too)
+    - New submissions default their `month_year` to the mission's period; submissions
+      to a spawned mission must use that period
+
+  4. Security
+    - Enable RLS; authenticated users (admins) can manage templates
+*/
+
+ALTER TABLE monthly_missions
+ADD COLUMN IF NOT EXISTS start_date timestamptz;
+
+ALTER TABLE monthly_missions
+ADD COLUMN IF NOT EXISTS end_date timestamptz;
+
+ALTER TABLE monthly_missions
+ADD COLUMN IF NOT EXISTS month_year text;
+
+UPDATE monthly_missions
+SET start_date = COALESCE(start_date, date_trunc('month', created_at)),
+    end_date = COALESCE(end_date, date_trunc('month', created_at) + interval '1 month' - interval '1 second')
+WHERE start_date IS NULL OR end_date IS NULL;
+
+UPDATE monthly_missions
+SET month_year = to_char(start_date AT TIME ZONE 'UTC', 'YYYY-MM')
+WHERE month_year IS NULL;
+
+ALTER TABLE monthly_missions
+ALTER COLUMN start_date SET NOT NULL,
+ALTER COLUMN end_date SET NOT NULL,
+ALTER COLUMN month_year SET NOT NULL;
+
+ALTER TABLE monthly_missions
+DROP CONSTRAINT IF EXISTS monthly_missions_window_check;
+
+ALTER TABLE monthly_missions
+ADD CONSTRAINT monthly_missions_window_check CHECK (end_date >= start_date);
+
+CREATE TABLE IF NOT EXISTS mission_templates (
+  template_id serial PRIMARY KEY,
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  points integer NOT NULL DEFAULT 0 CHECK (points >= 0),
+  recurrence text NOT NULL DEFAULT 'monthly' CHECK (recurrence IN ('monthly', 'quarterly')),
+  first_month text NOT NULL CHECK (first_month ~ '^\d{4}-\d{2}$'),
+  last_month text CHECK (last_month ~ '^\d{4}-\d{2}$'),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+  CHECK (last_month IS NULL OR last_month >= first_month)
+);
+
+ALTER TABLE monthly_missions
+ADD COLUMN IF NOT EXISTS template_id integer REFERENCES mission_templates(template_id) ON DELETE SET NULL;
+
+-- One mission per template and period, so spawning twice never duplicates
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_missions_template_period
+ON monthly_missions(template_id, month_year)
+WHERE template_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION spawn_recurring_missions(p_now timestamptz DEFAULT CURRENT_TIMESTAMP)
+RETURNS SETOF monthly_missions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_template record;
+  v_step interval;
+  v_period date;
+  v_mission monthly_missions;
+  v_horizon date := (date_trunc('month', p_now AT TIME ZONE 'UTC') + interval '1 month')::date;
+BEGIN
+  FOR v_template IN
+    SELECT * FROM mission_templates WHERE is_active
+  LOOP
+    v_step := CASE v_template.recurrence WHEN 'quarterly' THEN interval '3 months' ELSE interval '1 month' END;
+    v_period := to_date(v_template.first_month, 'YYYY-MM');
+
+    WHILE v_period <= v_horizon
+      AND (v_template.last_month IS NULL OR v_period <= to_date(v_template.last_month, 'YYYY-MM'))
+    LOOP
+      INSERT INTO monthly_missions (
+        title, description, points, start_date, end_date, month_year, template_id, created_at, updated_at
+      )
+      VALUES (
+        v_template.title,
+        v_template.description,
+        v_template.points,
+        v_period::timestamp AT TIME ZONE 'UTC',
+        (v_period + v_step)::timestamp AT TIME ZONE 'UTC' - interval '1 second',
+        to_char(v_period, 'YYYY-MM'),
+        v_template.template_id,
+        CURRENT_TIMESTAMP,
+        CURRENT_TIMESTAMP
+      )
+      ON CONFLICT (template_id, month_year) WHERE template_id IS NOT NULL DO NOTHING
+      RETURNING * INTO v_mission;
+
+      IF FOUND THEN
+        RETURN NEXT v_mission;
+      END IF;
+
+      v_period := (v_period + v_step)::date;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Submissions belong to their mission's period
+CREATE OR REPLACE FUNCTION set_submission_month_year()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_mission record;
+BEGIN
+  SELECT month_year, template_id INTO v_mission
+  FROM monthly_missions
+  WHERE mission_id = NEW.mission_id;
+
+  IF NEW.month_year IS NULL THEN
+    NEW.month_year := v_mission.month_year;
+  ELSIF v_mission.template_id IS NOT NULL AND NEW.month_year <> v_mission.month_year THEN
+    RAISE EXCEPTION 'Submissions to mission % must be for %', NEW.mission_id, v_mission.month_year;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_monthly_missions_set_month_year ON user_monthly_missions;
+CREATE TRIGGER user_monthly_missions_set_month_year
+BEFORE INSERT ON user_monthly_missions
+FOR EACH ROW
+EXECUTE FUNCTION set_submission_month_year();
+
+ALTER TABLE mission_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage mission templates"
+  ON mission_templates
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+GRANT EXECUTE ON FUNCTION spawn_recurring_missions(timestamptz) TO authenticated;
+
+COMMENT ON COLUMN monthly_missions.month_year IS 'Period (YYYY-MM) the mission runs in; submissions to it carry the same month_year';
+COMMENT ON COLUMN monthly_missions.template_id IS 'Recurring template the mission was spawned from; NULL for one-off missions';
+COMMENT ON TABLE mission_templates IS 'Recurring missions; spawn_recurring_missions creates one monthly_missions row per period';
@@ -0,0 +1,35 @@
+/*
+  # Mission Overview View
+
+  1. New Views
+    - `mission_overview` - every `monthly_missions` row with its submission counts
+      (`submission_count`, `pending_count`, `approved_count`, `rejected_count`)
+      aggregated in one pass, replacing a count query per mission
+
+  2. Indexes
+    - `user_monthly_missions(mission_id, status)` backs the aggregation
+
+  3. Security
+    - The view runs with the caller's permissions (`security_invoker`), so the
+      policies on the underlying tables still apply
+*/
+
+CREATE INDEX IF NOT EXISTS idx_user_monthly_missions_mission_status
+ON user_monthly_missions(mission_id, status);
+
+CREATE OR REPLACE VIEW mission_overview
+WITH (security_invoker = true)
+AS
+SELECT
+  m.*,
+  COUNT(s.mission_id)::integer AS submission_count,
+  COUNT(s.mission_id) FILTER (WHERE s.status = 'pending')::integer AS pending_count,
+  COUNT(s.mission_id) FILTER (WHERE s.status = 'approved')::integer AS approved_count,
+  COUNT(s.mission_id) FILTER (WHERE s.status = 'rejected')::integer AS rejected_count
+FROM monthly_missions m
+LEFT JOIN user_monthly_missions s ON s.mission_id = m.mission_id
+GROUP BY m.mission_id;
+
+GRANT SELECT ON mission_overview TO authenticated;
+
+COMMENT ON VIEW mission_overview IS 'Missions with total and per-status submission counts';
@@ -0,0 +1,59 @@
+/*
+  # Paged User Queries
+
+  1. Indexes
+    - Trigram indexes on `users.first_name`, `users.last_name` and `users.email` so the
+      admin hub's `ilike` search stays fast on the whole company
+    - B-tree indexes on `role`, `redeemable_points` and `created_at` for the list filters
+      and sort orders
+
+  2. New Functions
+    - `get_user_summary()` returns the totals shown above the Users list (all users,
+      admins, regular users, points in circulation) without loading every user row
+
+  3. Notes
+    - The list itself is queried through PostgREST with `count=exact` and a range, so
+      only the visible page is transferred
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_users_first_name_trgm
+ON users USING gin (first_name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_users_last_name_trgm
+ON users USING gin (last_name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_users_email_trgm
+ON users USING gin (email gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_users_role
+ON users(role);
+
+CREATE INDEX IF NOT EXISTS idx_users_redeemable_points
+ON users(redeemable_points);
+
+CREATE INDEX IF NOT EXISTS idx_users_created_at
+ON users(created_at DESC);
+
+CREATE OR REPLACE FUNCTION get_user_summary()
+RETURNS TABLE (
+  total_users bigint,
+  admin_users bigint,
+  regular_users bigint,
+  total_points bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE role = 'admin'),
+    COUNT(*) FILTER (WHERE role = 'user'),
+    COALESCE(SUM(redeemable_points), 0)
+  FROM users;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_user_summary() TO authenticated;
+
+COMMENT ON FUNCTION get_user_summary() IS 'User totals for the admin Users screen: all, admins, regular users and points in circulation';
@@ -0,0 +1,164 @@
+/*
+  # Bulk User Operations
+
+  1. Schema Changes
+    - Add `deactivated_at` and `deactivated_by` to `users`; a deactivated user keeps
+      their history but is no longer an active member
+
+  2. New Functions
+    - `bulk_adjust_points(...)` credits or debits many users through the points ledger
+    - `bulk_set_user_role(...)` changes the role of many users
+    - `bulk_deactivate_users(...)` deactivates many users
+    - Each runs as a single call; every user is applied in its own subtransaction, so a
+      failure for one user (insufficient points, unknown id) is reported in the result
+      row for that user while the others still go through
+
+  3. Notes
+    - The functions return one `(user_id, error)` row per requested user; `error` is
+      NULL when the change was applied
+*/
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS deactivated_by integer REFERENCES users(user_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_deactivated_at
+ON users(deactivated_at)
+WHERE deactivated_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION bulk_adjust_points(
+  p_user_ids integer[],
+  p_delta integer,
+  p_admin_id integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id integer,
+  error text
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id integer;
+BEGIN
+  IF p_delta IS NULL OR p_delta = 0 THEN
+    RAISE EXCEPTION 'Points change must not be zero';
+  END IF;
+
+  IF COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for bulk points changes';
+  END IF;
+
+  FOR v_user_id IN SELECT DISTINCT unnest(p_user_ids) ORDER BY 1
+  LOOP
+    user_id := v_user_id;
+    error := NULL;
+
+    BEGIN
+      PERFORM record_points_transaction(v_user_id, p_delta, 'manual_adjustment', NULL, p_admin_id, trim(p_note));
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION bulk_set_user_role(
+  p_user_ids integer[],
+  p_role text
+)
+RETURNS TABLE (
+  user_id integer,
+  error text
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id integer;
+BEGIN
+  IF COALESCE(trim(p_role), '') = '' THEN
+    RAISE EXCEPTION 'A role is required';
+  END IF;
+
+  FOR v_user_id IN SELECT DISTINCT unnest(p_user_ids) ORDER BY 1
+  LOOP
+    user_id := v_user_id;
+    error := NULL;
+
+    BEGIN
+      UPDATE users u
+      SET role = p_role,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE u.user_id = v_user_id;
+
+      IF NOT FOUND THEN
+        error := 'User not found';
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION bulk_deactivate_users(
+  p_user_ids integer[],
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id integer,
+  error text
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id integer;
+  v_deactivated_at timestamptz;
+BEGIN
+  FOR v_user_id IN SELECT DISTINCT unnest(p_user_ids) ORDER BY 1
+  LOOP
+    user_id := v_user_id;
+    error := NULL;
+
+    BEGIN
+      SELECT u.deactivated_at INTO v_deactivated_at
+      FROM users u
+      WHERE u.user_id = v_user_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        error := 'User not found';
+      ELSIF v_user_id = p_admin_id THEN
+        error := 'You can not deactivate your own account';
+      ELSIF v_deactivated_at IS NOT NULL THEN
+        error := 'User is already deactivated';
+      ELSE
+        UPDATE users u
+        SET deactivated_at = CURRENT_TIMESTAMP,
+            deactivated_by = p_admin_id,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE u.user_id = v_user_id;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_adjust_points(integer[], integer, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION bulk_set_user_role(integer[], text) TO authenticated;
+GRANT EXECUTE ON FUNCTION bulk_deactivate_users(integer[], integer) TO authenticated;
+
+COMMENT ON COLUMN users.deactivated_at IS 'When an admin deactivated the account; NULL for active users';
+COMMENT ON FUNCTION bulk_adjust_points(integer[], integer, integer, text) IS 'Applies the same manual points adjustment to many users, reporting a per-user error instead of failing the batch';
@@ -0,0 +1,212 @@
+/*
+  # User Deactivation and Anonymized Deletion
+
+  1. Schema Changes
+    - Add `deleted_at` to `users`; set when an account is deleted and its personal data
+      anonymized, the row itself stays so points, participation and feedback history
+      keep their references
+
+  2. Deactivation
+    - Deactivating a user (`deactivated_at` set) bans their auth account, restoring
+      lifts the ban
+    - Deactivated users can not register for events or redeem rewards
+    - `user_leaderboard` ranks active users only; the mobile app reads it instead of
+      sorting `users` itself
+
+  3. New Functions
+    - `deactivate_user(...)` / `restore_user(...)` for single accounts
+    - `anonymize_user(...)` replaces name, email, username and picture with
+      placeholders, removes the auth account and marks the row deleted; it can not be
+      undone
+
+  4. Notes
+    - `get_user_summary()` no longer counts deleted accounts
+*/
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- Keep the auth account in step with the admin-side status
+CREATE OR REPLACE FUNCTION sync_user_auth_ban()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+  IF NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at THEN
+    UPDATE auth.users
+    SET banned_until = CASE WHEN NEW.deactivated_at IS NULL THEN NULL ELSE 'infinity'::timestamptz END
+    WHERE id::text = NEW.sso_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_sync_auth_ban ON users;
+CREATE TRIGGER users_sync_auth_ban
+AFTER UPDATE OF deactivated_at ON users
+FOR EACH ROW
+EXECUTE FUNCTION sync_user_auth_ban();
+
+CREATE OR REPLACE FUNCTION reject_inactive_user()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM users
+    WHERE user_id = NEW.user_id
+      AND (deactivated_at IS NOT NULL OR deleted_at IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'User % is deactivated', NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS event_participants_reject_inactive_user ON event_participants;
+CREATE TRIGGER event_participants_reject_inactive_user
+BEFORE INSERT ON event_participants
+FOR EACH ROW
+EXECUTE FUNCTION reject_inactive_user();
+
+DROP TRIGGER IF EXISTS reward_redemptions_reject_inactive_user ON reward_redemptions;
+CREATE TRIGGER reward_redemptions_reject_inactive_user
+BEFORE INSERT ON reward_redemptions
+FOR EACH ROW
+EXECUTE FUNCTION reject_inactive_user();
+
+CREATE OR REPLACE VIEW user_leaderboard
+WITH (security_invoker = true)
+AS
+SELECT
+  user_id,
+  first_name,
+  last_name,
+  profile_picture,
+  redeemable_points,
+  RANK() OVER (ORDER BY redeemable_points DESC) AS rank
+FROM users
+WHERE deactivated_at IS NULL
+  AND deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION deactivate_user(p_user_id integer, p_admin_id integer DEFAULT NULL)
+RETURNS users
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user users;
+BEGIN
+  IF p_user_id = p_admin_id THEN
+    RAISE EXCEPTION 'You can not deactivate your own account';
+  END IF;
+
+  UPDATE users
+  SET deactivated_at = COALESCE(deactivated_at, CURRENT_TIMESTAMP),
+      deactivated_by = COALESCE(deactivated_by, p_admin_id),
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id
+    AND deleted_at IS NULL
+  RETURNING * INTO v_user;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  RETURN v_user;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_user(p_user_id integer)
+RETURNS users
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user users;
+BEGIN
+  UPDATE users
+  SET deactivated_at = NULL,
+      deactivated_by = NULL,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id
+    AND deleted_at IS NULL
+  RETURNING * INTO v_user;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found or already deleted', p_user_id;
+  END IF;
+
+  RETURN v_user;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION anonymize_user(p_user_id integer, p_admin_id integer DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+  v_sso_id text;
+BEGIN
+  IF p_user_id = p_admin_id THEN
+    RAISE EXCEPTION 'You can not delete your own account';
+  END IF;
+
+  SELECT sso_id INTO v_sso_id
+  FROM users
+  WHERE user_id = p_user_id
+    AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found or already deleted', p_user_id;
+  END IF;
+
+  UPDATE users
+  SET first_name = 'Deleted',
+      last_name = 'User',
+      email = 'deleted-user-' || p_user_id || '@deleted.invalid',
+      username = 'deleted-user-' || p_user_id,
+      sso_id = 'deleted-' || p_user_id,
+      profile_picture = NULL,
+      deactivated_at = COALESCE(deactivated_at, CURRENT_TIMESTAMP),
+      deactivated_by = COALESCE(deactivated_by, p_admin_id),
+      deleted_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id;
+
+  DELETE FROM auth.users WHERE id::text = v_sso_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_user_summary()
+RETURNS TABLE (
+  total_users bigint,
+  admin_users bigint,
+  regular_users bigint,
+  total_points bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE role = 'admin'),
+    COUNT(*) FILTER (WHERE role = 'user'),
+    COALESCE(SUM(redeemable_points), 0)
+  FROM users
+  WHERE deleted_at IS NULL;
+$$;
+
+GRANT SELECT ON user_leaderboard TO authenticated;
+GRANT EXECUTE ON FUNCTION deactivate_user(integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_user(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION anonymize_user(integer, integer) TO authenticated;
+
+COMMENT ON COLUMN users.deleted_at IS 'When the account was deleted; personal data on the row is anonymized from then on';
+COMMENT ON VIEW user_leaderboard IS 'Points ranking of active users; deactivated and deleted accounts are left out';
+COMMENT ON FUNCTION anonymize_user(integer, integer) IS 'Deletes an account GDPR-style: anonymizes the users row and removes the auth account, keeping history rows';
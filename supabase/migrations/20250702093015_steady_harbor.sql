@@ -0,0 +1,198 @@
+/*
+  # Admin Roles and Permissions
+
+  1. Schema Changes
+    - `users.role` is limited to 'user' (mobile app members) and the admin roles
+      `super_admin`, `event_manager`, `rewards_manager`, `moderator` and `auditor`
+    - Existing 'admin' accounts become `super_admin`, so nobody loses access
+
+  2. New Tables
+    - `role_permissions` - which permissions each admin role grants
+      - `role` (text, admin role)
+      - `permission` (text, e.g. 'events.manage')
+      - The admin hub keeps the same map in `src/lib/permissions.ts`
+
+  3. New Functions
+    - `current_admin_has_permission(p_permission)` checks the signed-in account's role;
+      policies and functions can use it to gate data access
+    - Changing a user's role (single or bulk) requires `users.assign_role`, which only
+      super-admins hold; statements run without a signed-in user (migrations, service
+      role) are not restricted
+
+  4. Policies
+    - `admin_activity_log` checked for `role = 'admin'`, which no account has after the
+      rename: reading now requires `admin_history.view` and inserting requires an active
+      admin account logging as itself
+
+  5. Notes
+    - `get_user_summary()` counts every admin role as an admin
+*/
+
+UPDATE users
+SET role = 'super_admin',
+    updated_at = CURRENT_TIMESTAMP
+WHERE role = 'admin';
+
+ALTER TABLE users
+DROP CONSTRAINT IF EXISTS users_role_check;
+
+ALTER TABLE users
+ADD CONSTRAINT users_role_check
+CHECK (role IN ('user', 'super_admin', 'event_manager', 'rewards_manager', 'moderator', 'auditor'));
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL CHECK (role IN ('super_admin', 'event_manager', 'rewards_manager', 'moderator', 'auditor')),
+  permission text NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO role_permissions (role, permission)
+SELECT 'super_admin', permission
+FROM unnest(ARRAY[
+  'dashboard.view', 'events.view', 'events.manage', 'events.delete',
+  'users.view', 'users.manage', 'users.points', 'users.delete', 'users.assign_role',
+  'missions.view', 'missions.manage', 'missions.review',
+  'rewards.view', 'rewards.manage', 'feedback.view', 'feedback.manage',
+  'admin_history.view', 'data.export'
+]) AS permission
+UNION ALL
+SELECT 'event_manager', permission
+FROM unnest(ARRAY[
+  'dashboard.view', 'events.view', 'events.manage', 'events.delete', 'users.view', 'feedback.view'
+]) AS permission
+UNION ALL
+SELECT 'rewards_manager', permission
+FROM unnest(ARRAY[
+  'dashboard.view', 'rewards.view', 'rewards.manage', 'users.view', 'users.points'
+]) AS permission
+UNION ALL
+SELECT 'moderator', permission
+FROM unnest(ARRAY[
+  'dashboard.view', 'events.view', 'missions.view', 'missions.review',
+  'feedback.view', 'feedback.manage', 'users.view'
+]) AS permission
+UNION ALL
+SELECT 'auditor', permission
+FROM unnest(ARRAY[
+  'dashboard.view', 'events.view', 'users.view', 'missions.view', 'rewards.view',
+  'feedback.view', 'admin_history.view', 'data.export'
+]) AS permission
+ON CONFLICT (role, permission) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION current_admin_has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users u
+    JOIN role_permissions rp ON rp.role = u.role
+    WHERE u.sso_id = auth.uid()::text
+      AND u.deactivated_at IS NULL
+      AND u.deleted_at IS NULL
+      AND rp.permission = p_permission
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION guard_user_role_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND auth.uid() IS NOT NULL
+    AND NOT current_admin_has_permission('users.assign_role')
+  THEN
+    RAISE EXCEPTION 'Only super admins can change user roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_guard_role_change ON users;
+CREATE TRIGGER users_guard_role_change
+BEFORE UPDATE OF role ON users
+FOR EACH ROW
+EXECUTE FUNCTION guard_user_role_change();
+
+CREATE OR REPLACE FUNCTION guard_user_role_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.role <> 'user'
+    AND auth.uid() IS NOT NULL
+    AND NOT current_admin_has_permission('users.assign_role')
+  THEN
+    RAISE EXCEPTION 'Only super admins can create admin accounts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_guard_role_insert ON users;
+CREATE TRIGGER users_guard_role_insert
+BEFORE INSERT ON users
+FOR EACH ROW
+EXECUTE FUNCTION guard_user_role_insert();
+
+CREATE OR REPLACE FUNCTION get_user_summary()
+RETURNS TABLE (
+  total_users bigint,
+  admin_users bigint,
+  regular_users bigint,
+  total_points bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE role <> 'user'),
+    COUNT(*) FILTER (WHERE role = 'user'),
+    COALESCE(SUM(redeemable_points), 0)
+  FROM users
+  WHERE deleted_at IS NULL;
+$$;
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read role permissions"
+  ON role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can read all activity logs" ON admin_activity_log;
+DROP POLICY IF EXISTS "Admins can insert activity logs" ON admin_activity_log;
+
+CREATE POLICY "Admins can read all activity logs"
+  ON admin_activity_log
+  FOR SELECT
+  TO authenticated
+  USING (current_admin_has_permission('admin_history.view'));
+
+CREATE POLICY "Admins can insert activity logs"
+  ON admin_activity_log
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.user_id = admin_activity_log.admin_id
+        AND users.sso_id = auth.uid()::text
+        AND users.role <> 'user'
+        AND users.deactivated_at IS NULL
+        AND users.deleted_at IS NULL
+    )
+  );
+
+GRANT EXECUTE ON FUNCTION current_admin_has_permission(text) TO authenticated;
+
+COMMENT ON TABLE role_permissions IS 'Permissions granted by each admin role; mirrors ROLE_PERMISSIONS in the admin hub';
+COMMENT ON FUNCTION current_admin_has_permission(text) IS 'Whether the signed-in, active account holds the given permission';
@@ -0,0 +1,235 @@
+/*
+  # Admin Invitations
+
+  1. New Tables
+    - `admin_invites` - invitations for new admin accounts
+      - `invite_id` (serial, primary key)
+      - `email` (text, lower-cased invitee address)
+      - `role` (text, one of the admin roles)
+      - `token_hash` (text, SHA-256 of the invite token; the token itself is never stored)
+      - `invited_by` (integer, the super admin who sent it)
+      - `expires_at` (timestamptz)
+      - `accepted_at` / `accepted_user_id` (set once the invite is used)
+      - `revoked_at` (timestamptz)
+
+  2. New Functions
+    - `create_admin_invite(...)` generates the token, stores its hash and returns the
+      invite with the plain token once; an earlier pending invite for the same address
+      is revoked
+    - `get_admin_invite(p_token)` looks an invite up by token for the accept page, which
+      runs before the invitee has an account
+    - `accept_admin_invite(...)` marks the invite used and creates the `users` row for
+      the invitee's new auth account; an invite can only be accepted once and not after
+      it expires or is revoked
+
+  3. Security
+    - Only `users.assign_role` (super admins) can list, create or revoke invites
+    - The invitee's auth account must have the invited email address
+    - `guard_user_role_insert` lets `accept_admin_invite` create the admin row
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS admin_invites (
+  invite_id serial PRIMARY KEY,
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('super_admin', 'event_manager', 'rewards_manager', 'moderator', 'auditor')),
+  token_hash text NOT NULL UNIQUE,
+  invited_by integer REFERENCES users(user_id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL,
+  accepted_at timestamptz,
+  accepted_user_id integer REFERENCES users(user_id) ON DELETE SET NULL,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_invites_email
+ON admin_invites(email);
+
+CREATE OR REPLACE FUNCTION create_admin_invite(
+  p_email text,
+  p_role text,
+  p_admin_id integer DEFAULT NULL,
+  p_ttl_days integer DEFAULT 7
+)
+RETURNS TABLE (
+  invite_id integer,
+  email text,
+  role text,
+  invited_by integer,
+  expires_at timestamptz,
+  accepted_at timestamptz,
+  accepted_user_id integer,
+  revoked_at timestamptz,
+  created_at timestamptz,
+  token text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_email text := lower(trim(p_email));
+  v_token text := encode(gen_random_bytes(32), 'hex');
+  v_invite admin_invites;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('users.assign_role') THEN
+    RAISE EXCEPTION 'Only super admins can invite admins';
+  END IF;
+
+  IF COALESCE(v_email, '') = '' THEN
+    RAISE EXCEPTION 'Email is required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users u WHERE lower(u.email) = v_email AND u.deleted_at IS NULL) THEN
+    RAISE EXCEPTION '% already has an account; change its role on the Users page instead', v_email;
+  END IF;
+
+  UPDATE admin_invites i
+  SET revoked_at = CURRENT_TIMESTAMP
+  WHERE i.email = v_email
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > CURRENT_TIMESTAMP;
+
+  INSERT INTO admin_invites (email, role, token_hash, invited_by, expires_at)
+  VALUES (
+    v_email,
+    p_role,
+    encode(digest(v_token, 'sha256'), 'hex'),
+    p_admin_id,
+    CURRENT_TIMESTAMP + make_interval(days => GREATEST(COALESCE(p_ttl_days, 7), 1))
+  )
+  RETURNING * INTO v_invite;
+
+  RETURN QUERY
+  SELECT v_invite.invite_id, v_invite.email, v_invite.role, v_invite.invited_by, v_invite.expires_at,
+         v_invite.accepted_at, v_invite.accepted_user_id, v_invite.revoked_at, v_invite.created_at, v_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_admin_invite(p_token text)
+RETURNS TABLE (
+  invite_id integer,
+  email text,
+  role text,
+  expires_at timestamptz,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT i.invite_id, i.email, i.role, i.expires_at, i.accepted_at, i.revoked_at, i.created_at
+  FROM admin_invites i
+  WHERE i.token_hash = encode(digest(p_token, 'sha256'), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION accept_admin_invite(
+  p_token text,
+  p_auth_id uuid,
+  p_first_name text,
+  p_last_name text
+)
+RETURNS users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth, extensions
+AS $$
+DECLARE
+  v_invite admin_invites;
+  v_user users;
+BEGIN
+  SELECT * INTO v_invite
+  FROM admin_invites
+  WHERE token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR v_invite.accepted_at IS NOT NULL
+    OR v_invite.revoked_at IS NOT NULL
+    OR v_invite.expires_at <= CURRENT_TIMESTAMP
+  THEN
+    RAISE EXCEPTION 'This invite link is invalid, has expired or has already been used.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = p_auth_id
+      AND lower(email) = v_invite.email
+  ) THEN
+    RAISE EXCEPTION 'The login does not match the invited email address';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users WHERE lower(email) = v_invite.email AND deleted_at IS NULL) THEN
+    RAISE EXCEPTION '% already has an account', v_invite.email;
+  END IF;
+
+  -- The invitee has no role yet, so the role guard needs to know this insert is allowed
+  PERFORM set_config('app.accepting_admin_invite', 'on', true);
+
+  INSERT INTO users (email, first_name, last_name, role, username, redeemable_points, sso_id)
+  VALUES (
+    v_invite.email,
+    trim(p_first_name),
+    trim(p_last_name),
+    v_invite.role,
+    split_part(v_invite.email, '@', 1),
+    0,
+    p_auth_id::text
+  )
+  RETURNING * INTO v_user;
+
+  PERFORM set_config('app.accepting_admin_invite', 'off', true);
+
+  UPDATE admin_invites
+  SET accepted_at = CURRENT_TIMESTAMP,
+      accepted_user_id = v_user.user_id
+  WHERE invite_id = v_invite.invite_id;
+
+  RETURN v_user;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION guard_user_role_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.role <> 'user'
+    AND auth.uid() IS NOT NULL
+    AND COALESCE(current_setting('app.accepting_admin_invite', true), 'off') <> 'on'
+    AND NOT current_admin_has_permission('users.assign_role')
+  THEN
+    RAISE EXCEPTION 'Only super admins can create admin accounts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE admin_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can read admin invites"
+  ON admin_invites
+  FOR SELECT
+  TO authenticated
+  USING (current_admin_has_permission('users.assign_role'));
+
+CREATE POLICY "Super admins can revoke admin invites"
+  ON admin_invites
+  FOR UPDATE
+  TO authenticated
+  USING (current_admin_has_permission('users.assign_role'))
+  WITH CHECK (current_admin_has_permission('users.assign_role'));
+
+GRANT EXECUTE ON FUNCTION create_admin_invite(text, text, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_admin_invite(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_admin_invite(text, uuid, text, text) TO anon, authenticated;
+
+COMMENT ON TABLE admin_invites IS 'Single-use, expiring invitations for new admin accounts; only the token hash is stored';
+COMMENT ON FUNCTION accept_admin_invite(text, uuid, text, text) IS 'Uses an invite: creates the admin users row for the invitee''s new auth account and marks the invite accepted';
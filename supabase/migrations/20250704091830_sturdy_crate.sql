@@ -0,0 +1,103 @@
+/*
+  # Transactional Reward Redemption
+
+  1. Schema Changes
+    - `rewards.stock` can no longer go below zero
+
+  2. New Functions
+    - `redeem_reward(p_user_id, p_reward_id, p_admin_id)` redeems one unit of a reward
+      for a user in a single transaction: it checks the balance against
+      `points_required`, inserts the `reward_redemptions` row, debits the points through
+      the ledger (reason 'redemption', referencing the redemption) and takes one unit
+      off `stock`
+    - The reward row is locked first, so concurrent redemptions of the same reward are
+      serialised and the last unit can only be redeemed once; the user row is locked
+      next by `record_points_transaction`
+    - Deactivated and deleted users are still rejected by the
+      `reward_redemptions_reject_inactive_user` trigger
+
+  3. Security
+    - Members may redeem for themselves; redeeming for someone else requires
+      `rewards.manage`
+*/
+
+ALTER TABLE rewards
+DROP CONSTRAINT IF EXISTS rewards_stock_nonnegative;
+
+ALTER TABLE rewards
+ADD CONSTRAINT rewards_stock_nonnegative
+CHECK (stock >= 0) NOT VALID;
+
+CREATE OR REPLACE FUNCTION redeem_reward(
+  p_user_id integer,
+  p_reward_id integer,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS reward_redemptions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_reward rewards;
+  v_balance integer;
+  v_redemption reward_redemptions;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT current_admin_has_permission('rewards.manage')
+    AND NOT EXISTS (SELECT 1 FROM users WHERE user_id = p_user_id AND sso_id = auth.uid()::text)
+  THEN
+    RAISE EXCEPTION 'You can only redeem rewards for your own account';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE reward_id = p_reward_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward % not found', p_reward_id;
+  END IF;
+
+  IF COALESCE(v_reward.stock, 0) <= 0 THEN
+    RAISE EXCEPTION '% is out of stock', v_reward.name;
+  END IF;
+
+  SELECT COALESCE(redeemable_points, 0) INTO v_balance
+  FROM users
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  IF v_balance < v_reward.points_required THEN
+    RAISE EXCEPTION 'Not enough points: % needs %, the balance is %', v_reward.name, v_reward.points_required, v_balance;
+  END IF;
+
+  INSERT INTO reward_redemptions (user_id, reward_id, points_deducted, redeemed_at, status)
+  VALUES (p_user_id, p_reward_id, v_reward.points_required, CURRENT_TIMESTAMP, 'completed')
+  RETURNING * INTO v_redemption;
+
+  -- Re-checks the balance under the user lock, so a concurrent debit can not overdraw it
+  IF v_reward.points_required > 0 THEN
+    PERFORM record_points_transaction(
+      p_user_id,
+      -v_reward.points_required,
+      'redemption',
+      v_redemption.redemption_id,
+      p_admin_id,
+      v_reward.name
+    );
+  END IF;
+
+  UPDATE rewards
+  SET stock = stock - 1,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE reward_id = p_reward_id;
+
+  RETURN v_redemption;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION redeem_reward(integer, integer, integer) TO authenticated;
+
+COMMENT ON FUNCTION redeem_reward(integer, integer, integer) IS 'Redeems one unit of a reward: records the redemption, debits the points through the ledger and decrements stock atomically';
@@ -0,0 +1,218 @@
+/*
+  # Redemption Fulfillment Workflow
+
+  1. Schema Changes
+    - `reward_redemptions.status` is limited to `pending`, `approved`,
+      `ready_for_pickup`, `fulfilled`, `cancelled` and `refunded`; new redemptions
+      start as `pending`
+    - Existing `completed` (and any other legacy) redemptions become `fulfilled`
+
+  2. New Tables
+    - `reward_redemption_status_history` - every status change of a redemption
+      - `history_id` (serial, primary key)
+      - `redemption_id` (integer)
+      - `from_status`, `to_status` (text; `from_status` is NULL for the redemption itself)
+      - `note` (text, why the status changed; required for cancellations and refunds)
+      - `changed_by` (integer, admin who made the change)
+      - `created_at` (timestamptz)
+
+  3. New Functions
+    - `set_redemption_status(...)` moves a redemption along
+      pending → approved → ready_for_pickup → fulfilled; any open redemption can be
+      cancelled and a fulfilled one refunded. Other moves are rejected
+    - Cancelling puts the unit back in stock and refunds the points; refunding a
+      fulfilled redemption refunds the points only, the item has been handed out.
+      Refunds go through the points ledger (reason 'redemption')
+    - `redeem_reward(...)` now creates `pending` redemptions and records them in the
+      history
+
+  4. Security
+    - Enable RLS; authenticated users (admins) can read the history
+    - Changing a status requires `rewards.manage`
+*/
+
+UPDATE reward_redemptions
+SET status = 'fulfilled'
+WHERE status IS NULL
+   OR status NOT IN ('pending', 'approved', 'ready_for_pickup', 'fulfilled', 'cancelled', 'refunded');
+
+ALTER TABLE reward_redemptions
+ALTER COLUMN status SET DEFAULT 'pending';
+
+ALTER TABLE reward_redemptions
+DROP CONSTRAINT IF EXISTS reward_redemptions_status_check;
+
+ALTER TABLE reward_redemptions
+ADD CONSTRAINT reward_redemptions_status_check
+CHECK (status IN ('pending', 'approved', 'ready_for_pickup', 'fulfilled', 'cancelled', 'refunded'));
+
+CREATE TABLE IF NOT EXISTS reward_redemption_status_history (
+  history_id serial PRIMARY KEY,
+  redemption_id integer NOT NULL REFERENCES reward_redemptions(redemption_id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  note text,
+  changed_by integer REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_redemption_status_history_redemption
+ON reward_redemption_status_history(redemption_id, created_at);
+
+CREATE OR REPLACE FUNCTION set_redemption_status(
+  p_redemption_id integer,
+  p_status text,
+  p_admin_id integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS reward_redemptions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_redemption reward_redemptions;
+  v_from_status text;
+  v_note text := NULLIF(trim(p_note), '');
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('rewards.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow changing redemptions';
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE redemption_id = p_redemption_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption % not found', p_redemption_id;
+  END IF;
+
+  v_from_status := v_redemption.status;
+
+  IF NOT (
+    (v_redemption.status = 'pending' AND p_status IN ('approved', 'cancelled')) OR
+    (v_redemption.status = 'approved' AND p_status IN ('ready_for_pickup', 'cancelled')) OR
+    (v_redemption.status = 'ready_for_pickup' AND p_status IN ('fulfilled', 'cancelled')) OR
+    (v_redemption.status = 'fulfilled' AND p_status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'A % redemption can not be moved to %', v_redemption.status, p_status;
+  END IF;
+
+  IF p_status IN ('cancelled', 'refunded') AND v_note IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to % a redemption', CASE WHEN p_status = 'cancelled' THEN 'cancel' ELSE 'refund' END;
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    UPDATE rewards
+    SET stock = stock + 1,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE reward_id = v_redemption.reward_id;
+  END IF;
+
+  IF p_status IN ('cancelled', 'refunded') AND v_redemption.points_deducted > 0 THEN
+    PERFORM record_points_transaction(
+      v_redemption.user_id,
+      v_redemption.points_deducted,
+      'redemption',
+      v_redemption.redemption_id,
+      p_admin_id,
+      'Refund: ' || v_note
+    );
+  END IF;
+
+  UPDATE reward_redemptions
+  SET status = p_status
+  WHERE redemption_id = p_redemption_id
+  RETURNING * INTO v_redemption;
+
+  INSERT INTO reward_redemption_status_history (redemption_id, from_status, to_status, note, changed_by)
+  VALUES (p_redemption_id, v_from_status, p_status, v_note, p_admin_id);
+
+  RETURN v_redemption;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION redeem_reward(
+  p_user_id integer,
+  p_reward_id integer,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS reward_redemptions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_reward rewards;
+  v_balance integer;
+  v_redemption reward_redemptions;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT current_admin_has_permission('rewards.manage')
+    AND NOT EXISTS (SELECT 1 FROM users WHERE user_id = p_user_id AND sso_id = auth.uid()::text)
+  THEN
+    RAISE EXCEPTION 'You can only redeem rewards for your own account';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE reward_id = p_reward_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward % not found', p_reward_id;
+  END IF;
+
+  IF COALESCE(v_reward.stock, 0) <= 0 THEN
+    RAISE EXCEPTION '% is out of stock', v_reward.name;
+  END IF;
+
+  SELECT COALESCE(redeemable_points, 0) INTO v_balance
+  FROM users
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  IF v_balance < v_reward.points_required THEN
+    RAISE EXCEPTION 'Not enough points: % needs %, the balance is %', v_reward.name, v_reward.points_required, v_balance;
+  END IF;
+
+  INSERT INTO reward_redemptions (user_id, reward_id, points_deducted, redeemed_at, status)
+  VALUES (p_user_id, p_reward_id, v_reward.points_required, CURRENT_TIMESTAMP, 'pending')
+  RETURNING * INTO v_redemption;
+
+  -- Re-checks the balance under the user lock, so a concurrent debit can not overdraw it
+  IF v_reward.points_required > 0 THEN
+    PERFORM record_points_transaction(
+      p_user_id,
+      -v_reward.points_required,
+      'redemption',
+      v_redemption.redemption_id,
+      p_admin_id,
+      v_reward.name
+    );
+  END IF;
+
+  UPDATE rewards
+  SET stock = stock - 1,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE reward_id = p_reward_id;
+
+  INSERT INTO reward_redemption_status_history (redemption_id, from_status, to_status, changed_by)
+  VALUES (v_redemption.redemption_id, NULL, 'pending', p_admin_id);
+
+  RETURN v_redemption;
+END;
+$$;
+
+ALTER TABLE reward_redemption_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read redemption status history"
+  ON reward_redemption_status_history
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+GRANT EXECUTE ON FUNCTION set_redemption_status(integer, text, integer, text) TO authenticated;
+
+COMMENT ON TABLE reward_redemption_status_history IS 'Every status change of a reward redemption, starting with its creation';
+COMMENT ON FUNCTION set_redemption_status(integer, text, integer, text) IS 'Moves a redemption through its fulfillment workflow; cancelling restocks and refunds, refunding returns the points';
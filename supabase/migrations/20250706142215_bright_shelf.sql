@@ -0,0 +1,163 @@
+/*
+  # Reward Categories, Availability Windows and Per-User Limits
+
+  1. Schema Changes
+    - `rewards.category` (text) - `merchandise`, `voucher`, `donation` or `experience`;
+      existing rewards become `merchandise`
+    - `rewards.start_date` / `rewards.end_date` (timestamptz, optional) - the reward can
+      only be redeemed inside this window; either end may be left open
+    - `rewards.max_per_user` (integer, optional) - how many times one user may redeem the
+      reward per `limit_period`
+    - `rewards.limit_period` (text) - `month`, `quarter`, `year` or `lifetime`; calendar
+      periods, so "1 per quarter" resets on 1 January, 1 April, 1 July and 1 October
+
+  2. Updated Functions
+    - `redeem_reward(...)` rejects redemptions outside the availability window and once
+      the user has reached `max_per_user` in the current period. Cancelled and refunded
+      redemptions do not count towards the limit
+    - The reward row is still locked first, so concurrent redemptions by the same user
+      can not both slip under the limit
+*/
+
+ALTER TABLE rewards
+ADD COLUMN IF NOT EXISTS category text NOT NULL DEFAULT 'merchandise',
+ADD COLUMN IF NOT EXISTS start_date timestamptz,
+ADD COLUMN IF NOT EXISTS end_date timestamptz,
+ADD COLUMN IF NOT EXISTS max_per_user integer,
+ADD COLUMN IF NOT EXISTS limit_period text NOT NULL DEFAULT 'lifetime';
+
+ALTER TABLE rewards
+DROP CONSTRAINT IF EXISTS rewards_category_check;
+
+ALTER TABLE rewards
+ADD CONSTRAINT rewards_category_check
+CHECK (category IN ('merchandise', 'voucher', 'donation', 'experience'));
+
+ALTER TABLE rewards
+DROP CONSTRAINT IF EXISTS rewards_availability_window_check;
+
+ALTER TABLE rewards
+ADD CONSTRAINT rewards_availability_window_check
+CHECK (start_date IS NULL OR end_date IS NULL OR end_date > start_date);
+
+ALTER TABLE rewards
+DROP CONSTRAINT IF EXISTS rewards_max_per_user_check;
+
+ALTER TABLE rewards
+ADD CONSTRAINT rewards_max_per_user_check
+CHECK (max_per_user IS NULL OR max_per_user > 0);
+
+ALTER TABLE rewards
+DROP CONSTRAINT IF EXISTS rewards_limit_period_check;
+
+ALTER TABLE rewards
+ADD CONSTRAINT rewards_limit_period_check
+CHECK (limit_period IN ('month', 'quarter', 'year', 'lifetime'));
+
+CREATE INDEX IF NOT EXISTS idx_rewards_category
+ON rewards(category);
+
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_user_reward
+ON reward_redemptions(user_id, reward_id, redeemed_at);
+
+CREATE OR REPLACE FUNCTION redeem_reward(
+  p_user_id integer,
+  p_reward_id integer,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS reward_redemptions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_reward rewards;
+  v_balance integer;
+  v_redeemed integer;
+  v_redemption reward_redemptions;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT current_admin_has_permission('rewards.manage')
+    AND NOT EXISTS (SELECT 1 FROM users WHERE user_id = p_user_id AND sso_id = auth.uid()::text)
+  THEN
+    RAISE EXCEPTION 'You can only redeem rewards for your own account';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE reward_id = p_reward_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward % not found', p_reward_id;
+  END IF;
+
+  IF v_reward.start_date IS NOT NULL AND v_reward.start_date > CURRENT_TIMESTAMP THEN
+    RAISE EXCEPTION '% can not be redeemed before %', v_reward.name, to_char(v_reward.start_date, 'YYYY-MM-DD');
+  END IF;
+
+  IF v_reward.end_date IS NOT NULL AND v_reward.end_date <= CURRENT_TIMESTAMP THEN
+    RAISE EXCEPTION '% is no longer available', v_reward.name;
+  END IF;
+
+  IF COALESCE(v_reward.stock, 0) <= 0 THEN
+    RAISE EXCEPTION '% is out of stock', v_reward.name;
+  END IF;
+
+  IF v_reward.max_per_user IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_redeemed
+    FROM reward_redemptions
+    WHERE user_id = p_user_id
+      AND reward_id = p_reward_id
+      AND status NOT IN ('cancelled', 'refunded')
+      AND (
+        v_reward.limit_period = 'lifetime'
+        OR redeemed_at >= date_trunc(v_reward.limit_period, CURRENT_TIMESTAMP)
+      );
+
+    IF v_redeemed >= v_reward.max_per_user THEN
+      RAISE EXCEPTION 'Limit reached: % can be redeemed % time(s) per user%', v_reward.name, v_reward.max_per_user,
+        CASE WHEN v_reward.limit_period = 'lifetime' THEN '' ELSE ' per ' || v_reward.limit_period END;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(redeemable_points, 0) INTO v_balance
+  FROM users
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  IF v_balance < v_reward.points_required THEN
+    RAISE EXCEPTION 'Not enough points: % needs %, the balance is %', v_reward.name, v_reward.points_required, v_balance;
+  END IF;
+
+  INSERT INTO reward_redemptions (user_id, reward_id, points_deducted, redeemed_at, status)
+  VALUES (p_user_id, p_reward_id, v_reward.points_required, CURRENT_TIMESTAMP, 'pending')
+  RETURNING * INTO v_redemption;
+
+  -- Re-checks the balance under the user lock, so a concurrent debit can not overdraw it
+  IF v_reward.points_required > 0 THEN
+    PERFORM record_points_transaction(
+      p_user_id,
+      -v_reward.points_required,
+      'redemption',
+      v_redemption.redemption_id,
+      p_admin_id,
+      v_reward.name
+    );
+  END IF;
+
+  UPDATE rewards
+  SET stock = stock - 1,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE reward_id = p_reward_id;
+
+  INSERT INTO reward_redemption_status_history (redemption_id, from_status, to_status, changed_by)
+  VALUES (v_redemption.redemption_id, NULL, 'pending', p_admin_id);
+
+  RETURN v_redemption;
+END;
+$$;
+
+COMMENT ON COLUMN rewards.max_per_user IS 'Redemptions allowed per user in each limit_period; NULL means unlimited';
+COMMENT ON COLUMN rewards.limit_period IS 'Calendar period max_per_user applies to: month, quarter, year or lifetime';
@@ -0,0 +1,205 @@
+/*
+  # Low-Stock Alerts, Restocks and Admin Notifications
+
+  1. Schema Changes
+    - `rewards.low_stock_threshold` (integer, default 5) - a reward is low on stock once
+      `stock` is at or below this number
+
+  2. New Tables
+    - `reward_restocks` - every restock of a reward
+      - `restock_id` (serial, primary key)
+      - `reward_id` (integer)
+      - `quantity` (integer, units added, always positive)
+      - `reason` (text, required)
+      - `admin_id` (integer, who restocked)
+      - `stock_before`, `stock_after` (integer)
+      - `created_at` (timestamptz)
+    - `admin_notifications` - in-app notifications for admins
+      - `notification_id` (serial, primary key)
+      - `kind` (text, `low_stock` or `out_of_stock`)
+      - `permission` (text, only admins holding it see the notification)
+      - `entity_type`, `entity_id` (what the notification is about)
+      - `title`, `message` (text)
+      - `created_at` (timestamptz)
+    - `admin_notification_reads` - which admin has read which notification
+
+  3. New Functions
+    - `restock_reward(p_reward_id, p_quantity, p_reason, p_admin_id)` adds units to a
+      reward and records the restock in one transaction
+    - `notify_reward_stock_level()` trigger: when a reward's stock drops to or below its
+      threshold (or to zero) a notification is created for `rewards.view`. It fires once
+      per crossing, so further redemptions below the threshold do not repeat it
+
+  4. Security
+    - Enable RLS on the new tables
+    - Admins read the restocks and the notifications their permissions allow
+    - Admins can only mark notifications read for themselves
+    - Restocking requires `rewards.manage`
+*/
+
+ALTER TABLE rewards
+ADD COLUMN IF NOT EXISTS low_stock_threshold integer NOT NULL DEFAULT 5;
+
+ALTER TABLE rewards
+DROP CONSTRAINT IF EXISTS rewards_low_stock_threshold_check;
+
+ALTER TABLE rewards
+ADD CONSTRAINT rewards_low_stock_threshold_check
+CHECK (low_stock_threshold >= 0);
+
+CREATE TABLE IF NOT EXISTS reward_restocks (
+  restock_id serial PRIMARY KEY,
+  reward_id integer NOT NULL REFERENCES rewards(reward_id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  reason text NOT NULL,
+  admin_id integer REFERENCES users(user_id) ON DELETE SET NULL,
+  stock_before integer NOT NULL,
+  stock_after integer NOT NULL,
+  created_at timestamptz DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reward_restocks_reward
+ON reward_restocks(reward_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS admin_notifications (
+  notification_id serial PRIMARY KEY,
+  kind text NOT NULL CHECK (kind IN ('low_stock', 'out_of_stock')),
+  permission text NOT NULL,
+  entity_type text NOT NULL,
+  entity_id integer,
+  title text NOT NULL,
+  message text NOT NULL,
+  created_at timestamptz DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_notifications_created
+ON admin_notifications(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS admin_notification_reads (
+  notification_id integer NOT NULL REFERENCES admin_notifications(notification_id) ON DELETE CASCADE,
+  admin_id integer NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  read_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (notification_id, admin_id)
+);
+
+CREATE OR REPLACE FUNCTION notify_reward_stock_level()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stock <= 0 AND OLD.stock > 0 THEN
+    INSERT INTO admin_notifications (kind, permission, entity_type, entity_id, title, message)
+    VALUES (
+      'out_of_stock',
+      'rewards.view',
+      'REWARD',
+      NEW.reward_id,
+      NEW.name || ' is out of stock',
+      'No units are left, so the reward can not be redeemed until it is restocked.'
+    );
+  ELSIF NEW.stock <= NEW.low_stock_threshold AND OLD.stock > OLD.low_stock_threshold THEN
+    INSERT INTO admin_notifications (kind, permission, entity_type, entity_id, title, message)
+    VALUES (
+      'low_stock',
+      'rewards.view',
+      'REWARD',
+      NEW.reward_id,
+      NEW.name || ' is running low',
+      NEW.stock || ' left in stock, at or below the alert threshold of ' || NEW.low_stock_threshold || '.'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rewards_notify_stock_level ON rewards;
+
+CREATE TRIGGER rewards_notify_stock_level
+AFTER UPDATE OF stock, low_stock_threshold ON rewards
+FOR EACH ROW
+EXECUTE FUNCTION notify_reward_stock_level();
+
+CREATE OR REPLACE FUNCTION restock_reward(
+  p_reward_id integer,
+  p_quantity integer,
+  p_reason text,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS reward_restocks
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_reward rewards;
+  v_reason text := NULLIF(trim(p_reason), '');
+  v_restock reward_restocks;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('rewards.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow restocking rewards';
+  END IF;
+
+  IF COALESCE(p_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'Restock quantity must be greater than 0';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to restock a reward';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE reward_id = p_reward_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward % not found', p_reward_id;
+  END IF;
+
+  UPDATE rewards
+  SET stock = COALESCE(stock, 0) + p_quantity,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE reward_id = p_reward_id;
+
+  INSERT INTO reward_restocks (reward_id, quantity, reason, admin_id, stock_before, stock_after)
+  VALUES (p_reward_id, p_quantity, v_reason, p_admin_id, COALESCE(v_reward.stock, 0), COALESCE(v_reward.stock, 0) + p_quantity)
+  RETURNING * INTO v_restock;
+
+  RETURN v_restock;
+END;
+$$;
+
+ALTER TABLE reward_restocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_notification_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reward viewers can read restocks"
+  ON reward_restocks
+  FOR SELECT
+  TO authenticated
+  USING (current_admin_has_permission('rewards.view'));
+
+CREATE POLICY "Admins can read notifications for their permissions"
+  ON admin_notifications
+  FOR SELECT
+  TO authenticated
+  USING (current_admin_has_permission(permission));
+
+CREATE POLICY "Admins can read their notification reads"
+  ON admin_notification_reads
+  FOR SELECT
+  TO authenticated
+  USING (admin_id IN (SELECT user_id FROM users WHERE sso_id = auth.uid()::text));
+
+CREATE POLICY "Admins can mark notifications read for themselves"
+  ON admin_notification_reads
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (admin_id IN (SELECT user_id FROM users WHERE sso_id = auth.uid()::text));
+
+GRANT EXECUTE ON FUNCTION restock_reward(integer, integer, text, integer) TO authenticated;
+
+COMMENT ON TABLE reward_restocks IS 'Who added how many units to a reward, and why';
+COMMENT ON TABLE admin_notifications IS 'In-app notifications, visible to admins holding the notification''s permission';
+COMMENT ON FUNCTION restock_reward(integer, integer, text, integer) IS 'Adds units to a reward''s stock and records the restock';
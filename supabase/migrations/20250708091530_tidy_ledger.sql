@@ -0,0 +1,80 @@
+/*
+  # Redemption Search and Totals
+
+  1. New Functions
+    - `filter_redemptions(p_from, p_to, p_user_search, p_reward_id, p_status)` returns the
+      redemptions matching the filters of the Redemptions screen; every argument is
+      optional
+      - `p_from` / `p_to` (timestamptz) - inclusive bounds on `redeemed_at`
+      - `p_user_search` (text) - every word has to appear in the user's first name,
+        last name or email (case-insensitive)
+      - `p_reward_id` (integer), `p_status` (text) - exact matches
+    - The client pages through it with PostgREST (`range`, `count=exact`) and embeds the
+      user and reward like a plain `reward_redemptions` select
+    - `get_redemption_summary(...)` takes the same filters and returns the number of
+      matching redemptions and the points spent on them. Cancelled and refunded
+      redemptions are counted but their points are not, those went back to the user
+
+  2. Performance
+    - Index on `reward_redemptions(redeemed_at)` for the date range and the newest-first
+      ordering
+
+  3. Security
+    - Both functions run with the caller's rights, so the `reward_redemptions` policies
+      still apply
+*/
+
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_redeemed_at
+ON reward_redemptions(redeemed_at DESC);
+
+CREATE OR REPLACE FUNCTION filter_redemptions(
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_user_search text DEFAULT NULL,
+  p_reward_id integer DEFAULT NULL,
+  p_status text DEFAULT NULL
+)
+RETURNS SETOF reward_redemptions
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT rr.*
+  FROM reward_redemptions rr
+  LEFT JOIN users u ON u.user_id = rr.user_id
+  WHERE (p_from IS NULL OR rr.redeemed_at >= p_from)
+    AND (p_to IS NULL OR rr.redeemed_at <= p_to)
+    AND (p_reward_id IS NULL OR rr.reward_id = p_reward_id)
+    AND (p_status IS NULL OR rr.status = p_status)
+    -- strpos rather than LIKE, so % and _ in the search are matched literally
+    AND NOT EXISTS (
+      SELECT 1
+      FROM regexp_split_to_table(lower(trim(COALESCE(p_user_search, ''))), '\s+') AS term
+      WHERE term <> ''
+        AND strpos(lower(COALESCE(u.first_name, '')), term) = 0
+        AND strpos(lower(COALESCE(u.last_name, '')), term) = 0
+        AND strpos(lower(COALESCE(u.email, '')), term) = 0
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION get_redemption_summary(
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_user_search text DEFAULT NULL,
+  p_reward_id integer DEFAULT NULL,
+  p_status text DEFAULT NULL
+)
+RETURNS TABLE (total_redemptions bigint, total_points bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(points_deducted) FILTER (WHERE status NOT IN ('cancelled', 'refunded')), 0)
+  FROM filter_redemptions(p_from, p_to, p_user_search, p_reward_id, p_status);
+$$;
+
+GRANT EXECUTE ON FUNCTION filter_redemptions(timestamptz, timestamptz, text, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_redemption_summary(timestamptz, timestamptz, text, integer, text) TO authenticated;
+
+COMMENT ON FUNCTION filter_redemptions(timestamptz, timestamptz, text, integer, text) IS 'Redemptions matching the Redemptions screen filters; paged and embedded through PostgREST';
+COMMENT ON FUNCTION get_redemption_summary(timestamptz, timestamptz, text, integer, text) IS 'Number of matching redemptions and the points spent on them, excluding cancelled and refunded ones';
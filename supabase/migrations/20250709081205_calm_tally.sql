@@ -0,0 +1,36 @@
+/*
+  # Dashboard Participant Counts
+
+  1. New Functions
+    - `count_unique_participants(p_from, p_to)` returns the number of distinct users who
+      joined an event in `[p_from, p_to)`; `p_to` is optional
+    - The dashboard used to download every participant row of the last two periods and
+      count them in the browser
+
+  2. Performance
+    - Index on `event_participants(joined_at)` for the period bounds
+
+  3. Security
+    - Runs with the caller's rights, so the `event_participants` policies still apply
+*/
+
+CREATE INDEX IF NOT EXISTS idx_event_participants_joined_at
+ON event_participants(joined_at);
+
+CREATE OR REPLACE FUNCTION count_unique_participants(
+  p_from timestamptz,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(DISTINCT user_id)
+  FROM event_participants
+  WHERE joined_at >= p_from
+    AND (p_to IS NULL OR joined_at < p_to);
+$$;
+
+GRANT EXECUTE ON FUNCTION count_unique_participants(timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION count_unique_participants(timestamptz, timestamptz) IS 'Distinct users who joined an event in the given period, for the dashboard engagement trend';
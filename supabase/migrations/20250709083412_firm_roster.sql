@@ -0,0 +1,75 @@
+/*
+  # One Active Registration per User and Capacity on Status Changes
+
+  1. Duplicate Registrations
+    - Partial unique index on `event_participants(event_id, user_id)` for every row that
+      is not cancelled; the check the app ran before inserting could be passed by two
+      concurrent sign-ups
+    - Existing duplicates are resolved first: the oldest active row is kept and the newer
+      ones are cancelled
+
+  2. Capacity Enforcement
+    - `enforce_event_capacity` now also runs BEFORE UPDATE OF status
+    - A waitlisted or cancelled row that is moved back into a seat (registered, attended,
+      no_show) while the event is full is rejected with "Event ... is full"; new rows are
+      still waitlisted as before
+    - Rows that already hold a seat can change between seat statuses freely
+*/
+
+UPDATE event_participants ep
+SET status = 'cancelled'
+WHERE ep.status <> 'cancelled'
+  AND EXISTS (
+    SELECT 1
+    FROM event_participants other
+    WHERE other.event_id = ep.event_id
+      AND other.user_id = ep.user_id
+      AND other.status <> 'cancelled'
+      AND other.participant_id < ep.participant_id
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_participants_active_user
+ON event_participants(event_id, user_id)
+WHERE status <> 'cancelled';
+
+CREATE OR REPLACE FUNCTION enforce_event_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_capacity integer;
+BEGIN
+  IF NEW.status IN ('waitlisted', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  -- The row keeps the seat it already had
+  IF TG_OP = 'UPDATE' AND OLD.status NOT IN ('waitlisted', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialise registrations and status changes for the same event
+  SELECT max_participants INTO v_capacity
+  FROM events
+  WHERE event_id = NEW.event_id
+  FOR UPDATE;
+
+  IF event_seats_taken(NEW.event_id) >= v_capacity THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.status := 'waitlisted';
+    ELSE
+      RAISE EXCEPTION 'Event % is full', NEW.event_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS event_participants_enforce_capacity ON event_participants;
+CREATE TRIGGER event_participants_enforce_capacity
+BEFORE INSERT OR UPDATE OF status ON event_participants
+FOR EACH ROW
+EXECUTE FUNCTION enforce_event_capacity();
+
+COMMENT ON INDEX idx_event_participants_active_user IS 'A user can hold at most one registration per event that is not cancelled';
@@ -0,0 +1,84 @@
+/*
+  # Ledger Writes Run as the Function Owner
+
+  1. Changes
+    - `record_points_transaction` is now SECURITY DEFINER with a fixed `search_path`.
+      `points_transactions` only has a SELECT policy, so the insert failed for every
+      signed-in admin when the function ran with the caller's rights
+    - The ledger stays append-only: there is still no INSERT policy, so rows can only be
+      written through this function
+
+  2. Security
+    - The function checks the permission behind each kind of change:
+      - `event_attendance` - `events.manage`
+      - `mission_approval` - `missions.review`
+      - `redemption` - `rewards.manage`; members may also debit their own balance for
+        a redemption they make
+      - `manual_adjustment` - `users.points`
+    - Anonymous callers can no longer execute it
+*/
+
+CREATE OR REPLACE FUNCTION record_points_transaction(
+  p_user_id integer,
+  p_delta integer,
+  p_reason text,
+  p_reference_id integer DEFAULT NULL,
+  p_admin_id integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS points_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+  v_row points_transactions;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT current_admin_has_permission(
+      CASE p_reason
+        WHEN 'event_attendance' THEN 'events.manage'
+        WHEN 'mission_approval' THEN 'missions.review'
+        WHEN 'redemption' THEN 'rewards.manage'
+        ELSE 'users.points'
+      END
+    )
+    AND NOT (
+      p_reason = 'redemption'
+      AND p_delta < 0
+      AND EXISTS (SELECT 1 FROM users WHERE user_id = p_user_id AND sso_id = auth.uid()::text)
+    )
+  THEN
+    RAISE EXCEPTION 'Your role does not allow changing points';
+  END IF;
+
+  -- Serialise balance changes per user
+  SELECT COALESCE(redeemable_points, 0) INTO v_balance
+  FROM users
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  IF v_balance + p_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient points: balance is %, change is %', v_balance, p_delta;
+  END IF;
+
+  UPDATE users
+  SET redeemable_points = v_balance + p_delta,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id;
+
+  INSERT INTO points_transactions (user_id, delta, reason, reference_id, admin_id, note, balance_after)
+  VALUES (p_user_id, p_delta, p_reason, p_reference_id, p_admin_id, p_note, v_balance + p_delta)
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_points_transaction(integer, integer, text, integer, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_points_transaction(integer, integer, text, integer, integer, text) TO authenticated;
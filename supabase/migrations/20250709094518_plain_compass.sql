@@ -0,0 +1,33 @@
+/*
+  # Mission Entries in the Admin Activity Log
+
+  1. Changes
+    - Allow `MISSION` as `admin_activity_log.entity_type`; the Missions screen logs
+      mission and submission changes under it and the inserts were rejected
+    - Databases that converted the column to `entity_type_enum` get the enum value,
+      the others get the widened CHECK constraint
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'entity_type_enum') THEN
+    ALTER TYPE entity_type_enum ADD VALUE IF NOT EXISTS 'MISSION';
+  END IF;
+END $$;
+
+ALTER TABLE admin_activity_log
+DROP CONSTRAINT IF EXISTS admin_activity_log_entity_type_check;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_activity_log'
+      AND column_name = 'entity_type'
+      AND data_type = 'text'
+  ) THEN
+    ALTER TABLE admin_activity_log
+    ADD CONSTRAINT admin_activity_log_entity_type_check
+    CHECK (entity_type IN ('USER', 'EVENT', 'REWARD', 'MISSION', 'FEEDBACK', 'SYSTEM'));
+  END IF;
+END $$;
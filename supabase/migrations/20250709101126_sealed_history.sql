@@ -0,0 +1,142 @@
+/*
+  # Submission Status History Writes
+
+  1. Changes
+    - `mission_submission_status_history` only has a SELECT policy, so the history
+      inserts failed when they ran with the caller's rights. Both writers now run as the
+      function owner with a fixed `search_path`:
+      - `set_mission_submission_status` (admin reviews)
+      - `reopen_resubmitted_mission` (the trigger that reopens a rejected submission
+        when the user uploads new photos)
+    - The history stays read-only for clients; there is still no INSERT policy
+
+  2. Security
+    - `set_mission_submission_status` now requires `missions.review`
+    - Anonymous callers can no longer execute it
+*/
+
+CREATE OR REPLACE FUNCTION set_mission_submission_status(
+  p_user_id integer,
+  p_mission_id integer,
+  p_status text,
+  p_month_year text DEFAULT NULL,
+  p_admin_id integer DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_submission record;
+  v_points integer;
+  v_points_awarded integer;
+  v_change integer := 0;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('missions.review') THEN
+    RAISE EXCEPTION 'Your role does not allow reviewing mission submissions';
+  END IF;
+
+  IF p_status NOT IN ('pending', 'approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid submission status %', p_status;
+  END IF;
+
+  IF p_status = 'rejected' AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when rejecting a submission';
+  END IF;
+
+  SELECT * INTO v_submission
+  FROM user_monthly_missions
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND (p_month_year IS NULL OR month_year = p_month_year)
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  v_points_awarded := v_submission.points_awarded;
+
+  IF p_status = 'approved' AND v_points_awarded IS NULL THEN
+    SELECT COALESCE(points, 0) INTO v_points
+    FROM monthly_missions
+    WHERE mission_id = p_mission_id;
+
+    IF v_points > 0 THEN
+      PERFORM record_points_transaction(
+        p_user_id, v_points, 'mission_approval', p_mission_id, p_admin_id,
+        'Mission submission ' || v_submission.month_year || ' approved'
+      );
+    END IF;
+
+    v_change := v_points;
+    v_points_awarded := v_points;
+  ELSIF p_status <> 'approved' AND v_points_awarded IS NOT NULL THEN
+    IF v_points_awarded > 0 THEN
+      PERFORM record_points_transaction(
+        p_user_id, -v_points_awarded, 'mission_approval', p_mission_id, p_admin_id,
+        'Mission submission ' || v_submission.month_year || ' approval reverted'
+      );
+    END IF;
+
+    v_change := -v_points_awarded;
+    v_points_awarded := NULL;
+  END IF;
+
+  UPDATE user_monthly_missions
+  SET status = p_status,
+      points_awarded = v_points_awarded,
+      rejection_reason = CASE WHEN p_status = 'rejected' THEN v_reason ELSE NULL END,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND month_year = v_submission.month_year;
+
+  IF v_submission.status IS DISTINCT FROM p_status
+     OR v_submission.rejection_reason IS DISTINCT FROM v_reason THEN
+    INSERT INTO mission_submission_status_history (
+      user_id, mission_id, month_year, from_status, to_status, reason, source, changed_by
+    )
+    VALUES (
+      p_user_id, p_mission_id, v_submission.month_year, v_submission.status, p_status,
+      CASE WHEN p_status = 'rejected' THEN v_reason END, 'review', p_admin_id
+    );
+  END IF;
+
+  RETURN v_change;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reopen_resubmitted_mission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'rejected'
+     AND NEW.status = 'rejected'
+     AND (NEW.photo_path_1, NEW.photo_path_2, NEW.photo_path_3)
+         IS DISTINCT FROM (OLD.photo_path_1, OLD.photo_path_2, OLD.photo_path_3) THEN
+    NEW.status := 'pending';
+    NEW.rejection_reason := NULL;
+    NEW.photo_reviews := '[]'::jsonb;
+    NEW.updated_at := CURRENT_TIMESTAMP;
+
+    INSERT INTO mission_submission_status_history (
+      user_id, mission_id, month_year, from_status, to_status, source
+    )
+    VALUES (NEW.user_id, NEW.mission_id, NEW.month_year, 'rejected', 'pending', 'resubmission');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_mission_submission_status(integer, integer, text, text, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_mission_submission_status(integer, integer, text, text, integer, text) TO authenticated;
@@ -0,0 +1,91 @@
+/*
+  # Deleted Recurring Missions Stay Deleted
+
+  1. Schema Changes
+    - Add `skipped_months` (text[] of 'YYYY-MM') to `mission_templates`, the periods
+      whose spawned mission an admin deleted
+
+  2. Functions and Triggers
+    - Deleting a spawned mission records its `month_year` on the template
+    - `spawn_recurring_missions` skips those periods; it walks every template from
+      `first_month` on each call, so a deleted mission used to be spawned again on the
+      next page load
+*/
+
+ALTER TABLE mission_templates
+ADD COLUMN IF NOT EXISTS skipped_months text[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION skip_deleted_template_period()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE mission_templates
+  SET skipped_months = array_append(skipped_months, OLD.month_year),
+      updated_at = CURRENT_TIMESTAMP
+  WHERE template_id = OLD.template_id
+    AND NOT (OLD.month_year = ANY(skipped_months));
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS monthly_missions_skip_deleted_period ON monthly_missions;
+CREATE TRIGGER monthly_missions_skip_deleted_period
+AFTER DELETE ON monthly_missions
+FOR EACH ROW
+WHEN (OLD.template_id IS NOT NULL)
+EXECUTE FUNCTION skip_deleted_template_period();
+
+CREATE OR REPLACE FUNCTION spawn_recurring_missions(p_now timestamptz DEFAULT CURRENT_TIMESTAMP)
+RETURNS SETOF monthly_missions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_template record;
+  v_step interval;
+  v_period date;
+  v_mission monthly_missions;
+  v_horizon date := (date_trunc('month', p_now AT TIME ZONE 'UTC') + interval '1 month')::date;
+BEGIN
+  FOR v_template IN
+    SELECT * FROM mission_templates WHERE is_active
+  LOOP
+    v_step := CASE v_template.recurrence WHEN 'quarterly' THEN interval '3 months' ELSE interval '1 month' END;
+    v_period := to_date(v_template.first_month, 'YYYY-MM');
+
+    WHILE v_period <= v_horizon
+      AND (v_template.last_month IS NULL OR v_period <= to_date(v_template.last_month, 'YYYY-MM'))
+    LOOP
+      IF NOT (to_char(v_period, 'YYYY-MM') = ANY(v_template.skipped_months)) THEN
+        INSERT INTO monthly_missions (
+          title, description, points, start_date, end_date, month_year, template_id, created_at, updated_at
+        )
+        VALUES (
+          v_template.title,
+          v_template.description,
+          v_template.points,
+          v_period::timestamp AT TIME ZONE 'UTC',
+          (v_period + v_step)::timestamp AT TIME ZONE 'UTC' - interval '1 second',
+          to_char(v_period, 'YYYY-MM'),
+          v_template.template_id,
+          CURRENT_TIMESTAMP,
+          CURRENT_TIMESTAMP
+        )
+        ON CONFLICT (template_id, month_year) WHERE template_id IS NOT NULL DO NOTHING
+        RETURNING * INTO v_mission;
+
+        IF FOUND THEN
+          RETURN NEXT v_mission;
+        END IF;
+      END IF;
+
+      v_period := (v_period + v_step)::date;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON COLUMN mission_templates.skipped_months IS 'Periods (YYYY-MM) whose spawned mission was deleted; spawn_recurring_missions does not recreate them';
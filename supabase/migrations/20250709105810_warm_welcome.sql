@@ -0,0 +1,62 @@
+/*
+  # Create Users with Their Opening Balance
+
+  1. New Functions
+    - `create_user_with_points(p_email, p_first_name, p_last_name, p_role, p_points)`
+      inserts the user and, when `p_points` is not 0, records the starting balance in
+      the points ledger ('manual_adjustment', note 'Initial balance') in the same
+      transaction
+    - The admin hub used to insert the user and credit the balance in two calls, so a
+      failed credit left a user without the balance the admin entered
+
+  2. Security
+    - Runs with the caller's rights; the `users` policies and role guard apply and
+      `record_points_transaction` checks `users.points` for the opening balance
+    - The ledger row is attributed to the signed-in admin
+*/
+
+CREATE OR REPLACE FUNCTION create_user_with_points(
+  p_email text,
+  p_first_name text,
+  p_last_name text,
+  p_role text DEFAULT NULL,
+  p_points integer DEFAULT 0
+)
+RETURNS users
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user users;
+  v_admin_id integer;
+BEGIN
+  INSERT INTO users (email, first_name, last_name, role, username, redeemable_points, sso_id)
+  VALUES (
+    p_email,
+    p_first_name,
+    p_last_name,
+    COALESCE(p_role, 'user'),
+    split_part(p_email, '@', 1),
+    0,
+    'manual-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || substr(md5(random()::text), 1, 9)
+  )
+  RETURNING * INTO v_user;
+
+  IF COALESCE(p_points, 0) <> 0 THEN
+    SELECT user_id INTO v_admin_id
+    FROM users
+    WHERE sso_id = auth.uid()::text;
+
+    PERFORM record_points_transaction(v_user.user_id, p_points, 'manual_adjustment', NULL, v_admin_id, 'Initial balance');
+
+    SELECT * INTO v_user
+    FROM users
+    WHERE user_id = v_user.user_id;
+  END IF;
+
+  RETURN v_user;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_user_with_points(text, text, text, text, integer) TO authenticated;
+
+COMMENT ON FUNCTION create_user_with_points(text, text, text, text, integer) IS 'Creates a user and records the opening points balance in the ledger atomically';
@@ -0,0 +1,130 @@
+/*
+  # Permission Checks for Deactivation and Deletion
+
+  1. Security
+    - `deactivate_user` and `restore_user` require `users.manage`
+    - `anonymize_user` requires `users.delete`; it runs as the function owner (it removes
+      the auth account), so until now any signed-in account could delete any user
+    - Anonymous callers can no longer execute `anonymize_user`
+
+  2. Anonymization
+    - `anonymize_user` also replaces the user's email in `admin_activity_log.details`
+      (e.g. "Added 50 points to jane@example.com") with the placeholder address, so
+      the admin history no longer keeps it
+*/
+
+CREATE OR REPLACE FUNCTION deactivate_user(p_user_id integer, p_admin_id integer DEFAULT NULL)
+RETURNS users
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user users;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('users.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow deactivating users';
+  END IF;
+
+  IF p_user_id = p_admin_id THEN
+    RAISE EXCEPTION 'You can not deactivate your own account';
+  END IF;
+
+  UPDATE users
+  SET deactivated_at = COALESCE(deactivated_at, CURRENT_TIMESTAMP),
+      deactivated_by = COALESCE(deactivated_by, p_admin_id),
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id
+    AND deleted_at IS NULL
+  RETURNING * INTO v_user;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  RETURN v_user;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_user(p_user_id integer)
+RETURNS users
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user users;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('users.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow restoring users';
+  END IF;
+
+  UPDATE users
+  SET deactivated_at = NULL,
+      deactivated_by = NULL,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id
+    AND deleted_at IS NULL
+  RETURNING * INTO v_user;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found or already deleted', p_user_id;
+  END IF;
+
+  RETURN v_user;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION anonymize_user(p_user_id integer, p_admin_id integer DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+  v_sso_id text;
+  v_email text;
+  v_placeholder text := 'deleted-user-' || p_user_id || '@deleted.invalid';
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('users.delete') THEN
+    RAISE EXCEPTION 'Your role does not allow deleting users';
+  END IF;
+
+  IF p_user_id = p_admin_id THEN
+    RAISE EXCEPTION 'You can not delete your own account';
+  END IF;
+
+  SELECT sso_id, email INTO v_sso_id, v_email
+  FROM users
+  WHERE user_id = p_user_id
+    AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found or already deleted', p_user_id;
+  END IF;
+
+  UPDATE users
+  SET first_name = 'Deleted',
+      last_name = 'User',
+      email = v_placeholder,
+      username = 'deleted-user-' || p_user_id,
+      sso_id = 'deleted-' || p_user_id,
+      profile_picture = NULL,
+      deactivated_at = COALESCE(deactivated_at, CURRENT_TIMESTAMP),
+      deactivated_by = COALESCE(deactivated_by, p_admin_id),
+      deleted_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id;
+
+  -- Case-insensitive and literal: every character that is not a letter or digit is escaped
+  IF COALESCE(v_email, '') <> '' THEN
+    UPDATE admin_activity_log
+    SET details = regexp_replace(details, regexp_replace(v_email, '([^[:alnum:]])', '\\\1', 'g'), v_placeholder, 'gi')
+    WHERE strpos(lower(details), lower(v_email)) > 0;
+  END IF;
+
+  DELETE FROM auth.users WHERE id::text = v_sso_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION anonymize_user(integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION anonymize_user(integer, integer) TO authenticated;
+
+COMMENT ON FUNCTION anonymize_user(integer, integer) IS 'Deletes an account GDPR-style: anonymizes the users row, scrubs its email from the admin log and removes the auth account, keeping history rows';
@@ -0,0 +1,329 @@
+/*
+  # Server-Side Permission Checks
+
+  1. Functions
+    - Until now these functions relied on the admin hub hiding the buttons; they now
+      check the signed-in account's permission themselves:
+      - `check_in_event_participants` - `events.manage`
+      - `review_mission_submission_photos` - `missions.review`
+      - `bulk_adjust_points` - `users.points`
+      - `bulk_deactivate_users` - `users.manage`
+      - `spawn_recurring_missions` - `missions.manage`
+    - `record_points_transaction` and `set_mission_submission_status` already check
+      theirs
+    - Statements run without a signed-in user (migrations, service role, scheduled
+      jobs) are not restricted, as elsewhere
+
+  2. Policies
+    - `mission_rejection_reasons`: readable with `missions.view`, managed with
+      `missions.review`
+    - `mission_templates`: readable with `missions.view`, managed with
+      `missions.manage`
+    - Both replace policies that let any signed-in account change the tables
+*/
+
+CREATE OR REPLACE FUNCTION check_in_event_participants(
+  p_event_id integer,
+  p_participant_ids integer[],
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS TABLE (
+  participant_id integer,
+  user_id integer,
+  points_awarded integer
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_points integer;
+  v_target record;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('events.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow checking in participants';
+  END IF;
+
+  SELECT e.points INTO v_points
+  FROM events e
+  WHERE e.event_id = p_event_id;
+
+  IF v_points IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id;
+  END IF;
+
+  FOR v_target IN
+    SELECT ep.participant_id, ep.user_id, ep.points_awarded_at IS NULL AS needs_points
+    FROM event_participants ep
+    WHERE ep.event_id = p_event_id
+      AND ep.participant_id = ANY(p_participant_ids)
+      AND ep.status NOT IN ('waitlisted', 'cancelled')
+    ORDER BY ep.participant_id
+    FOR UPDATE
+  LOOP
+    UPDATE event_participants ep
+    SET status = 'attended',
+        points_awarded_at = COALESCE(ep.points_awarded_at, CURRENT_TIMESTAMP)
+    WHERE ep.participant_id = v_target.participant_id;
+
+    IF v_target.needs_points AND v_points > 0 THEN
+      PERFORM record_points_transaction(v_target.user_id, v_points, 'event_attendance', p_event_id, p_admin_id);
+    END IF;
+
+    participant_id := v_target.participant_id;
+    user_id := v_target.user_id;
+    points_awarded := CASE WHEN v_target.needs_points THEN v_points ELSE 0 END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION review_mission_submission_photos(
+  p_user_id integer,
+  p_mission_id integer,
+  p_reviews jsonb,
+  p_month_year text DEFAULT NULL,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_review jsonb;
+  v_month_year text;
+  v_status text;
+  v_reason text;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('missions.review') THEN
+    RAISE EXCEPTION 'Your role does not allow reviewing mission submissions';
+  END IF;
+
+  IF jsonb_typeof(p_reviews) <> 'array' OR jsonb_array_length(p_reviews) = 0 THEN
+    RAISE EXCEPTION 'At least one photo review is required';
+  END IF;
+
+  FOR v_review IN SELECT * FROM jsonb_array_elements(p_reviews)
+  LOOP
+    IF (v_review->>'slot')::integer NOT IN (1, 2, 3) THEN
+      RAISE EXCEPTION 'Invalid photo slot %', v_review->>'slot';
+    END IF;
+    IF v_review->>'status' NOT IN ('accepted', 'rejected') THEN
+      RAISE EXCEPTION 'Invalid photo review status %', v_review->>'status';
+    END IF;
+    IF v_review->>'status' = 'rejected' AND COALESCE(trim(v_review->>'reason'), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required when rejecting photo %', v_review->>'slot';
+    END IF;
+  END LOOP;
+
+  SELECT month_year INTO v_month_year
+  FROM user_monthly_missions
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND (p_month_year IS NULL OR month_year = p_month_year)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_month_year IS NULL THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  UPDATE user_monthly_missions
+  SET photo_reviews = p_reviews
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND month_year = v_month_year;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(p_reviews) r WHERE r->>'status' = 'accepted') THEN
+    v_status := 'approved';
+  ELSE
+    v_status := 'rejected';
+    SELECT string_agg('Photo ' || (r->>'slot') || ': ' || trim(r->>'reason'), '; ' ORDER BY (r->>'slot')::integer)
+    INTO v_reason
+    FROM jsonb_array_elements(p_reviews) r;
+  END IF;
+
+  RETURN set_mission_submission_status(p_user_id, p_mission_id, v_status, v_month_year, p_admin_id, v_reason);
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION bulk_adjust_points(
+  p_user_ids integer[],
+  p_delta integer,
+  p_admin_id integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id integer,
+  error text
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id integer;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('users.points') THEN
+    RAISE EXCEPTION 'Your role does not allow changing points';
+  END IF;
+
+  IF p_delta IS NULL OR p_delta = 0 THEN
+    RAISE EXCEPTION 'Points change must not be zero';
+  END IF;
+
+  IF COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for bulk points changes';
+  END IF;
+
+  FOR v_user_id IN SELECT DISTINCT unnest(p_user_ids) ORDER BY 1
+  LOOP
+    user_id := v_user_id;
+    error := NULL;
+
+    BEGIN
+      PERFORM record_points_transaction(v_user_id, p_delta, 'manual_adjustment', NULL, p_admin_id, trim(p_note));
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION bulk_deactivate_users(
+  p_user_ids integer[],
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id integer,
+  error text
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id integer;
+  v_deactivated_at timestamptz;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('users.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow deactivating users';
+  END IF;
+
+  FOR v_user_id IN SELECT DISTINCT unnest(p_user_ids) ORDER BY 1
+  LOOP
+    user_id := v_user_id;
+    error := NULL;
+
+    BEGIN
+      SELECT u.deactivated_at INTO v_deactivated_at
+      FROM users u
+      WHERE u.user_id = v_user_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        error := 'User not found';
+      ELSIF v_user_id = p_admin_id THEN
+        error := 'You can not deactivate your own account';
+      ELSIF v_deactivated_at IS NOT NULL THEN
+        error := 'User is already deactivated';
+      ELSE
+        UPDATE users u
+        SET deactivated_at = CURRENT_TIMESTAMP,
+            deactivated_by = p_admin_id,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE u.user_id = v_user_id;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION spawn_recurring_missions(p_now timestamptz DEFAULT CURRENT_TIMESTAMP)
+RETURNS SETOF monthly_missions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_template record;
+  v_step interval;
+  v_period date;
+  v_mission monthly_missions;
+  v_horizon date := (date_trunc('month', p_now AT TIME ZONE 'UTC') + interval '1 month')::date;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('missions.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow creating missions';
+  END IF;
+
+  FOR v_template IN
+    SELECT * FROM mission_templates WHERE is_active
+  LOOP
+    v_step := CASE v_template.recurrence WHEN 'quarterly' THEN interval '3 months' ELSE interval '1 month' END;
+    v_period := to_date(v_template.first_month, 'YYYY-MM');
+
+    WHILE v_period <= v_horizon
+      AND (v_template.last_month IS NULL OR v_period <= to_date(v_template.last_month, 'YYYY-MM'))
+    LOOP
+      IF NOT (to_char(v_period, 'YYYY-MM') = ANY(v_template.skipped_months)) THEN
+        INSERT INTO monthly_missions (
+          title, description, points, start_date, end_date, month_year, template_id, created_at, updated_at
+        )
+        VALUES (
+          v_template.title,
+          v_template.description,
+          v_template.points,
+          v_period::timestamp AT TIME ZONE 'UTC',
+          (v_period + v_step)::timestamp AT TIME ZONE 'UTC' - interval '1 second',
+          to_char(v_period, 'YYYY-MM'),
+          v_template.template_id,
+          CURRENT_TIMESTAMP,
+          CURRENT_TIMESTAMP
+        )
+        ON CONFLICT (template_id, month_year) WHERE template_id IS NOT NULL DO NOTHING
+        RETURNING * INTO v_mission;
+
+        IF FOUND THEN
+          RETURN NEXT v_mission;
+        END IF;
+      END IF;
+
+      v_period := (v_period + v_step)::date;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+
+DROP POLICY IF EXISTS "Authenticated users can manage rejection reasons" ON mission_rejection_reasons;
+
+CREATE POLICY "Mission viewers can read rejection reasons"
+  ON mission_rejection_reasons
+  FOR SELECT
+  TO authenticated
+  USING (current_admin_has_permission('missions.view'));
+
+CREATE POLICY "Mission reviewers can manage rejection reasons"
+  ON mission_rejection_reasons
+  FOR ALL
+  TO authenticated
+  USING (current_admin_has_permission('missions.review'))
+  WITH CHECK (current_admin_has_permission('missions.review'));
+
+DROP POLICY IF EXISTS "Authenticated users can manage mission templates" ON mission_templates;
+
+CREATE POLICY "Mission viewers can read mission templates"
+  ON mission_templates
+  FOR SELECT
+  TO authenticated
+  USING (current_admin_has_permission('missions.view'));
+
+CREATE POLICY "Mission managers can manage mission templates"
+  ON mission_templates
+  FOR ALL
+  TO authenticated
+  USING (current_admin_has_permission('missions.manage'))
+  WITH CHECK (current_admin_has_permission('missions.manage'));
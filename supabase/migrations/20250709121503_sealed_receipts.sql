@@ -0,0 +1,198 @@
+/*
+  # Redemption Status History Writes
+
+  1. Changes
+    - `reward_redemption_status_history` only has a SELECT policy, so the history
+      inserts failed when they ran with the caller's rights. Both writers now run as the
+      function owner with a fixed `search_path`:
+      - `set_redemption_status` (fulfillment changes, cancellations and refunds)
+      - `redeem_reward` (records the new `pending` redemption)
+    - The history stays read-only for clients; there is still no INSERT policy
+
+  2. Security
+    - Both functions keep their checks: changing a status requires `rewards.manage`,
+      redeeming for someone else requires `rewards.manage`
+    - Anonymous callers can no longer execute them
+*/
+
+CREATE OR REPLACE FUNCTION set_redemption_status(
+  p_redemption_id integer,
+  p_status text,
+  p_admin_id integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS reward_redemptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_redemption reward_redemptions;
+  v_from_status text;
+  v_note text := NULLIF(trim(p_note), '');
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('rewards.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow changing redemptions';
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE redemption_id = p_redemption_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption % not found', p_redemption_id;
+  END IF;
+
+  v_from_status := v_redemption.status;
+
+  IF NOT (
+    (v_redemption.status = 'pending' AND p_status IN ('approved', 'cancelled')) OR
+    (v_redemption.status = 'approved' AND p_status IN ('ready_for_pickup', 'cancelled')) OR
+    (v_redemption.status = 'ready_for_pickup' AND p_status IN ('fulfilled', 'cancelled')) OR
+    (v_redemption.status = 'fulfilled' AND p_status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'A % redemption can not be moved to %', v_redemption.status, p_status;
+  END IF;
+
+  IF p_status IN ('cancelled', 'refunded') AND v_note IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to % a redemption', CASE WHEN p_status = 'cancelled' THEN 'cancel' ELSE 'refund' END;
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    UPDATE rewards
+    SET stock = stock + 1,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE reward_id = v_redemption.reward_id;
+  END IF;
+
+  IF p_status IN ('cancelled', 'refunded') AND v_redemption.points_deducted > 0 THEN
+    PERFORM record_points_transaction(
+      v_redemption.user_id,
+      v_redemption.points_deducted,
+      'redemption',
+      v_redemption.redemption_id,
+      p_admin_id,
+      'Refund: ' || v_note
+    );
+  END IF;
+
+  UPDATE reward_redemptions
+  SET status = p_status
+  WHERE redemption_id = p_redemption_id
+  RETURNING * INTO v_redemption;
+
+  INSERT INTO reward_redemption_status_history (redemption_id, from_status, to_status, note, changed_by)
+  VALUES (p_redemption_id, v_from_status, p_status, v_note, p_admin_id);
+
+  RETURN v_redemption;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION redeem_reward(
+  p_user_id integer,
+  p_reward_id integer,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS reward_redemptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reward rewards;
+  v_balance integer;
+  v_redeemed integer;
+  v_redemption reward_redemptions;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT current_admin_has_permission('rewards.manage')
+    AND NOT EXISTS (SELECT 1 FROM users WHERE user_id = p_user_id AND sso_id = auth.uid()::text)
+  THEN
+    RAISE EXCEPTION 'You can only redeem rewards for your own account';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE reward_id = p_reward_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward % not found', p_reward_id;
+  END IF;
+
+  IF v_reward.start_date IS NOT NULL AND v_reward.start_date > CURRENT_TIMESTAMP THEN
+    RAISE EXCEPTION '% can not be redeemed before %', v_reward.name, to_char(v_reward.start_date, 'YYYY-MM-DD');
+  END IF;
+
+  IF v_reward.end_date IS NOT NULL AND v_reward.end_date <= CURRENT_TIMESTAMP THEN
+    RAISE EXCEPTION '% is no longer available', v_reward.name;
+  END IF;
+
+  IF COALESCE(v_reward.stock, 0) <= 0 THEN
+    RAISE EXCEPTION '% is out of stock', v_reward.name;
+  END IF;
+
+  IF v_reward.max_per_user IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_redeemed
+    FROM reward_redemptions
+    WHERE user_id = p_user_id
+      AND reward_id = p_reward_id
+      AND status NOT IN ('cancelled', 'refunded')
+      AND (
+        v_reward.limit_period = 'lifetime'
+        OR redeemed_at >= date_trunc(v_reward.limit_period, CURRENT_TIMESTAMP)
+      );
+
+    IF v_redeemed >= v_reward.max_per_user THEN
+      RAISE EXCEPTION 'Limit reached: % can be redeemed % time(s) per user%', v_reward.name, v_reward.max_per_user,
+        CASE WHEN v_reward.limit_period = 'lifetime' THEN '' ELSE ' per ' || v_reward.limit_period END;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(redeemable_points, 0) INTO v_balance
+  FROM users
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  IF v_balance < v_reward.points_required THEN
+    RAISE EXCEPTION 'Not enough points: % needs %, the balance is %', v_reward.name, v_reward.points_required, v_balance;
+  END IF;
+
+  INSERT INTO reward_redemptions (user_id, reward_id, points_deducted, redeemed_at, status)
+  VALUES (p_user_id, p_reward_id, v_reward.points_required, CURRENT_TIMESTAMP, 'pending')
+  RETURNING * INTO v_redemption;
+
+  -- Re-checks the balance under the user lock, so a concurrent debit can not overdraw it
+  IF v_reward.points_required > 0 THEN
+    PERFORM record_points_transaction(
+      p_user_id,
+      -v_reward.points_required,
+      'redemption',
+      v_redemption.redemption_id,
+      p_admin_id,
+      v_reward.name
+    );
+  END IF;
+
+  UPDATE rewards
+  SET stock = stock - 1,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE reward_id = p_reward_id;
+
+  INSERT INTO reward_redemption_status_history (redemption_id, from_status, to_status, changed_by)
+  VALUES (v_redemption.redemption_id, NULL, 'pending', p_admin_id);
+
+  RETURN v_redemption;
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION set_redemption_status(integer, text, integer, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION redeem_reward(integer, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_redemption_status(integer, text, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_reward(integer, integer, integer) TO authenticated;
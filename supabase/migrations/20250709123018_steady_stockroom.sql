@@ -0,0 +1,67 @@
+/*
+  # Restock Audit Writes
+
+  1. Changes
+    - `restock_reward` now runs as the function owner with a fixed `search_path`.
+      `reward_restocks` only has a SELECT policy, so the audit insert failed when the
+      function ran with the caller's rights
+    - The restock audit stays read-only for clients; there is still no INSERT policy
+
+  2. Security
+    - The function keeps its `rewards.manage` check
+    - Anonymous callers can no longer execute it
+*/
+
+CREATE OR REPLACE FUNCTION restock_reward(
+  p_reward_id integer,
+  p_quantity integer,
+  p_reason text,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS reward_restocks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reward rewards;
+  v_reason text := NULLIF(trim(p_reason), '');
+  v_restock reward_restocks;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('rewards.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow restocking rewards';
+  END IF;
+
+  IF COALESCE(p_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'Restock quantity must be greater than 0';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to restock a reward';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE reward_id = p_reward_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward % not found', p_reward_id;
+  END IF;
+
+  UPDATE rewards
+  SET stock = COALESCE(stock, 0) + p_quantity,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE reward_id = p_reward_id;
+
+  INSERT INTO reward_restocks (reward_id, quantity, reason, admin_id, stock_before, stock_after)
+  VALUES (p_reward_id, p_quantity, v_reason, p_admin_id, COALESCE(v_reward.stock, 0), COALESCE(v_reward.stock, 0) + p_quantity)
+  RETURNING * INTO v_restock;
+
+  RETURN v_restock;
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION restock_reward(integer, integer, text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION restock_reward(integer, integer, text, integer) TO authenticated;
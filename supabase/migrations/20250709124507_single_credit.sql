@@ -0,0 +1,78 @@
+/*
+  # Event Points Once Per User
+
+  1. Changes
+    - `check_in_event_participants` decided whether to credit the event points from
+      `points_awarded_at` on the participant row alone. A checked-in participant who was
+      removed or cancelled and then registered again got a fresh row and was paid twice
+    - The credit is now skipped when the ledger already holds an `event_attendance`
+      entry for the same user and event; the new row is still marked attended and
+      stamped with `points_awarded_at`
+
+  2. Security
+    - Keeps the `events.manage` check
+*/
+
+CREATE OR REPLACE FUNCTION check_in_event_participants(
+  p_event_id integer,
+  p_participant_ids integer[],
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS TABLE (
+  participant_id integer,
+  user_id integer,
+  points_awarded integer
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_points integer;
+  v_target record;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('events.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow checking in participants';
+  END IF;
+
+  SELECT e.points INTO v_points
+  FROM events e
+  WHERE e.event_id = p_event_id;
+
+  IF v_points IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id;
+  END IF;
+
+  FOR v_target IN
+    SELECT ep.participant_id,
+           ep.user_id,
+           ep.points_awarded_at IS NULL
+             AND NOT EXISTS (
+               SELECT 1
+               FROM points_transactions pt
+               WHERE pt.user_id = ep.user_id
+                 AND pt.reason = 'event_attendance'
+                 AND pt.reference_id = p_event_id
+             ) AS needs_points
+    FROM event_participants ep
+    WHERE ep.event_id = p_event_id
+      AND ep.participant_id = ANY(p_participant_ids)
+      AND ep.status NOT IN ('waitlisted', 'cancelled')
+    ORDER BY ep.participant_id
+    FOR UPDATE OF ep
+  LOOP
+    UPDATE event_participants ep
+    SET status = 'attended',
+        points_awarded_at = COALESCE(ep.points_awarded_at, CURRENT_TIMESTAMP)
+    WHERE ep.participant_id = v_target.participant_id;
+
+    IF v_target.needs_points AND v_points > 0 THEN
+      PERFORM record_points_transaction(v_target.user_id, v_points, 'event_attendance', p_event_id, p_admin_id);
+    END IF;
+
+    participant_id := v_target.participant_id;
+    user_id := v_target.user_id;
+    points_awarded := CASE WHEN v_target.needs_points THEN v_points ELSE 0 END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
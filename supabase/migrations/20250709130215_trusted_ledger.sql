@@ -0,0 +1,569 @@
+/*
+  # Ledger Only Written by Specific Operations
+
+  1. Changes
+    - `record_points_transaction` no longer takes `p_admin_id`; the admin on the ledger
+      row is the signed-in account, looked up through `users.sso_id`. Callers could
+      attribute an entry to any admin
+    - Clients can no longer execute `record_points_transaction`. A caller holding one
+      permission could post any amount with a made-up reference, for example an
+      `event_attendance` credit for an event the user never attended. The ledger is now
+      only written by the operations that own each reason:
+      - `event_attendance` - `check_in_event_participants`
+      - `mission_approval` - `set_mission_submission_status`
+      - `redemption` - `redeem_reward` and `set_redemption_status`
+      - `manual_adjustment` - `adjust_user_points`, `bulk_adjust_points` and
+        `create_user_with_points`
+
+  2. New Functions
+    - `adjust_user_points(p_user_id, p_delta, p_note)` records a manual adjustment for
+      the admin hub's points dialog; requires `users.points`
+
+  3. Security
+    - `check_in_event_participants`, `bulk_adjust_points` and `create_user_with_points`
+      now run as the function owner so they can reach the ledger; they check their
+      permission themselves (`create_user_with_points` now requires `users.manage`, and
+      `users.assign_role` is still enforced for admin roles by the insert trigger)
+    - The `p_admin_id` arguments these functions take are still used for their own
+      history rows but are no longer written to the ledger
+    - Anonymous callers can not execute any of them
+*/
+
+DROP FUNCTION IF EXISTS record_points_transaction(integer, integer, text, integer, integer, text);
+
+CREATE OR REPLACE FUNCTION record_points_transaction(
+  p_user_id integer,
+  p_delta integer,
+  p_reason text,
+  p_reference_id integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS points_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+  v_admin_id integer;
+  v_row points_transactions;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT current_admin_has_permission(
+      CASE p_reason
+        WHEN 'event_attendance' THEN 'events.manage'
+        WHEN 'mission_approval' THEN 'missions.review'
+        WHEN 'redemption' THEN 'rewards.manage'
+        ELSE 'users.points'
+      END
+    )
+    AND NOT (
+      p_reason = 'redemption'
+      AND p_delta < 0
+      AND EXISTS (SELECT 1 FROM users WHERE user_id = p_user_id AND sso_id = auth.uid()::text)
+    )
+  THEN
+    RAISE EXCEPTION 'Your role does not allow changing points';
+  END IF;
+
+  -- NULL for members redeeming for themselves and for statements without a session
+  SELECT user_id INTO v_admin_id
+  FROM users
+  WHERE sso_id = auth.uid()::text
+    AND role <> 'user';
+
+  -- Serialise balance changes per user
+  SELECT COALESCE(redeemable_points, 0) INTO v_balance
+  FROM users
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  IF v_balance + p_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient points: balance is %, change is %', v_balance, p_delta;
+  END IF;
+
+  UPDATE users
+  SET redeemable_points = v_balance + p_delta,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id;
+
+  INSERT INTO points_transactions (user_id, delta, reason, reference_id, admin_id, note, balance_after)
+  VALUES (p_user_id, p_delta, p_reason, p_reference_id, v_admin_id, p_note, v_balance + p_delta)
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION adjust_user_points(
+  p_user_id integer,
+  p_delta integer,
+  p_note text DEFAULT NULL
+)
+RETURNS points_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('users.points') THEN
+    RAISE EXCEPTION 'Your role does not allow changing points';
+  END IF;
+
+  IF p_delta IS NULL OR p_delta = 0 THEN
+    RAISE EXCEPTION 'Points change must not be zero';
+  END IF;
+
+  RETURN record_points_transaction(p_user_id, p_delta, 'manual_adjustment', NULL, NULLIF(trim(p_note), ''));
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION check_in_event_participants(
+  p_event_id integer,
+  p_participant_ids integer[],
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS TABLE (
+  participant_id integer,
+  user_id integer,
+  points_awarded integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_points integer;
+  v_target record;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('events.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow checking in participants';
+  END IF;
+
+  SELECT e.points INTO v_points
+  FROM events e
+  WHERE e.event_id = p_event_id;
+
+  IF v_points IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id;
+  END IF;
+
+  FOR v_target IN
+    SELECT ep.participant_id,
+           ep.user_id,
+           ep.points_awarded_at IS NULL
+             AND NOT EXISTS (
+               SELECT 1
+               FROM points_transactions pt
+               WHERE pt.user_id = ep.user_id
+                 AND pt.reason = 'event_attendance'
+                 AND pt.reference_id = p_event_id
+             ) AS needs_points
+    FROM event_participants ep
+    WHERE ep.event_id = p_event_id
+      AND ep.participant_id = ANY(p_participant_ids)
+      AND ep.status NOT IN ('waitlisted', 'cancelled')
+    ORDER BY ep.participant_id
+    FOR UPDATE OF ep
+  LOOP
+    UPDATE event_participants ep
+    SET status = 'attended',
+        points_awarded_at = COALESCE(ep.points_awarded_at, CURRENT_TIMESTAMP)
+    WHERE ep.participant_id = v_target.participant_id;
+
+    IF v_target.needs_points AND v_points > 0 THEN
+      PERFORM record_points_transaction(v_target.user_id, v_points, 'event_attendance', p_event_id);
+    END IF;
+
+    participant_id := v_target.participant_id;
+    user_id := v_target.user_id;
+    points_awarded := CASE WHEN v_target.needs_points THEN v_points ELSE 0 END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION set_mission_submission_status(
+  p_user_id integer,
+  p_mission_id integer,
+  p_status text,
+  p_month_year text DEFAULT NULL,
+  p_admin_id integer DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_submission record;
+  v_points integer;
+  v_points_awarded integer;
+  v_change integer := 0;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('missions.review') THEN
+    RAISE EXCEPTION 'Your role does not allow reviewing mission submissions';
+  END IF;
+
+  IF p_status NOT IN ('pending', 'approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid submission status %', p_status;
+  END IF;
+
+  IF p_status = 'rejected' AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when rejecting a submission';
+  END IF;
+
+  SELECT * INTO v_submission
+  FROM user_monthly_missions
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND (p_month_year IS NULL OR month_year = p_month_year)
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  v_points_awarded := v_submission.points_awarded;
+
+  IF p_status = 'approved' AND v_points_awarded IS NULL THEN
+    SELECT COALESCE(points, 0) INTO v_points
+    FROM monthly_missions
+    WHERE mission_id = p_mission_id;
+
+    IF v_points > 0 THEN
+      PERFORM record_points_transaction(
+        p_user_id, v_points, 'mission_approval', p_mission_id,
+        'Mission submission ' || v_submission.month_year || ' approved'
+      );
+    END IF;
+
+    v_change := v_points;
+    v_points_awarded := v_points;
+  ELSIF p_status <> 'approved' AND v_points_awarded IS NOT NULL THEN
+    IF v_points_awarded > 0 THEN
+      PERFORM record_points_transaction(
+        p_user_id, -v_points_awarded, 'mission_approval', p_mission_id,
+        'Mission submission ' || v_submission.month_year || ' approval reverted'
+      );
+    END IF;
+
+    v_change := -v_points_awarded;
+    v_points_awarded := NULL;
+  END IF;
+
+  UPDATE user_monthly_missions
+  SET status = p_status,
+      points_awarded = v_points_awarded,
+      rejection_reason = CASE WHEN p_status = 'rejected' THEN v_reason ELSE NULL END,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE user_id = p_user_id
+    AND mission_id = p_mission_id
+    AND month_year = v_submission.month_year;
+
+  IF v_submission.status IS DISTINCT FROM p_status
+     OR v_submission.rejection_reason IS DISTINCT FROM v_reason THEN
+    INSERT INTO mission_submission_status_history (
+      user_id, mission_id, month_year, from_status, to_status, reason, source, changed_by
+    )
+    VALUES (
+      p_user_id, p_mission_id, v_submission.month_year, v_submission.status, p_status,
+      CASE WHEN p_status = 'rejected' THEN v_reason END, 'review', p_admin_id
+    );
+  END IF;
+
+  RETURN v_change;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION bulk_adjust_points(
+  p_user_ids integer[],
+  p_delta integer,
+  p_admin_id integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id integer,
+  error text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id integer;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('users.points') THEN
+    RAISE EXCEPTION 'Your role does not allow changing points';
+  END IF;
+
+  IF p_delta IS NULL OR p_delta = 0 THEN
+    RAISE EXCEPTION 'Points change must not be zero';
+  END IF;
+
+  IF COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for bulk points changes';
+  END IF;
+
+  FOR v_user_id IN SELECT DISTINCT unnest(p_user_ids) ORDER BY 1
+  LOOP
+    user_id := v_user_id;
+    error := NULL;
+
+    BEGIN
+      PERFORM record_points_transaction(v_user_id, p_delta, 'manual_adjustment', NULL, trim(p_note));
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION create_user_with_points(
+  p_email text,
+  p_first_name text,
+  p_last_name text,
+  p_role text DEFAULT NULL,
+  p_points integer DEFAULT 0
+)
+RETURNS users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('users.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow creating users';
+  END IF;
+
+  INSERT INTO users (email, first_name, last_name, role, username, redeemable_points, sso_id)
+  VALUES (
+    p_email,
+    p_first_name,
+    p_last_name,
+    COALESCE(p_role, 'user'),
+    split_part(p_email, '@', 1),
+    0,
+    'manual-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || substr(md5(random()::text), 1, 9)
+  )
+  RETURNING * INTO v_user;
+
+  IF COALESCE(p_points, 0) <> 0 THEN
+    PERFORM record_points_transaction(v_user.user_id, p_points, 'manual_adjustment', NULL, 'Initial balance');
+
+    SELECT * INTO v_user
+    FROM users
+    WHERE user_id = v_user.user_id;
+  END IF;
+
+  RETURN v_user;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION set_redemption_status(
+  p_redemption_id integer,
+  p_status text,
+  p_admin_id integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS reward_redemptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_redemption reward_redemptions;
+  v_from_status text;
+  v_note text := NULLIF(trim(p_note), '');
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT current_admin_has_permission('rewards.manage') THEN
+    RAISE EXCEPTION 'Your role does not allow changing redemptions';
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE redemption_id = p_redemption_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption % not found', p_redemption_id;
+  END IF;
+
+  v_from_status := v_redemption.status;
+
+  IF NOT (
+    (v_redemption.status = 'pending' AND p_status IN ('approved', 'cancelled')) OR
+    (v_redemption.status = 'approved' AND p_status IN ('ready_for_pickup', 'cancelled')) OR
+    (v_redemption.status = 'ready_for_pickup' AND p_status IN ('fulfilled', 'cancelled')) OR
+    (v_redemption.status = 'fulfilled' AND p_status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'A % redemption can not be moved to %', v_redemption.status, p_status;
+  END IF;
+
+  IF p_status IN ('cancelled', 'refunded') AND v_note IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to % a redemption', CASE WHEN p_status = 'cancelled' THEN 'cancel' ELSE 'refund' END;
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    UPDATE rewards
+    SET stock = stock + 1,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE reward_id = v_redemption.reward_id;
+  END IF;
+
+  IF p_status IN ('cancelled', 'refunded') AND v_redemption.points_deducted > 0 THEN
+    PERFORM record_points_transaction(
+      v_redemption.user_id,
+      v_redemption.points_deducted,
+      'redemption',
+      v_redemption.redemption_id,
+      'Refund: ' || v_note
+    );
+  END IF;
+
+  UPDATE reward_redemptions
+  SET status = p_status
+  WHERE redemption_id = p_redemption_id
+  RETURNING * INTO v_redemption;
+
+  INSERT INTO reward_redemption_status_history (redemption_id, from_status, to_status, note, changed_by)
+  VALUES (p_redemption_id, v_from_status, p_status, v_note, p_admin_id);
+
+  RETURN v_redemption;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION redeem_reward(
+  p_user_id integer,
+  p_reward_id integer,
+  p_admin_id integer DEFAULT NULL
+)
+RETURNS reward_redemptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reward rewards;
+  v_balance integer;
+  v_redeemed integer;
+  v_redemption reward_redemptions;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT current_admin_has_permission('rewards.manage')
+    AND NOT EXISTS (SELECT 1 FROM users WHERE user_id = p_user_id AND sso_id = auth.uid()::text)
+  THEN
+    RAISE EXCEPTION 'You can only redeem rewards for your own account';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE reward_id = p_reward_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward % not found', p_reward_id;
+  END IF;
+
+  IF v_reward.start_date IS NOT NULL AND v_reward.start_date > CURRENT_TIMESTAMP THEN
+    RAISE EXCEPTION '% can not be redeemed before %', v_reward.name, to_char(v_reward.start_date, 'YYYY-MM-DD');
+  END IF;
+
+  IF v_reward.end_date IS NOT NULL AND v_reward.end_date <= CURRENT_TIMESTAMP THEN
+    RAISE EXCEPTION '% is no longer available', v_reward.name;
+  END IF;
+
+  IF COALESCE(v_reward.stock, 0) <= 0 THEN
+    RAISE EXCEPTION '% is out of stock', v_reward.name;
+  END IF;
+
+  IF v_reward.max_per_user IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_redeemed
+    FROM reward_redemptions
+    WHERE user_id = p_user_id
+      AND reward_id = p_reward_id
+      AND status NOT IN ('cancelled', 'refunded')
+      AND (
+        v_reward.limit_period = 'lifetime'
+        OR redeemed_at >= date_trunc(v_reward.limit_period, CURRENT_TIMESTAMP)
+      );
+
+    IF v_redeemed >= v_reward.max_per_user THEN
+      RAISE EXCEPTION 'Limit reached: % can be redeemed % time(s) per user%', v_reward.name, v_reward.max_per_user,
+        CASE WHEN v_reward.limit_period = 'lifetime' THEN '' ELSE ' per ' || v_reward.limit_period END;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(redeemable_points, 0) INTO v_balance
+  FROM users
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  IF v_balance < v_reward.points_required THEN
+    RAISE EXCEPTION 'Not enough points: % needs %, the balance is %', v_reward.name, v_reward.points_required, v_balance;
+  END IF;
+
+  INSERT INTO reward_redemptions (user_id, reward_id, points_deducted, redeemed_at, status)
+  VALUES (p_user_id, p_reward_id, v_reward.points_required, CURRENT_TIMESTAMP, 'pending')
+  RETURNING * INTO v_redemption;
+
+  -- Re-checks the balance under the user lock, so a concurrent debit can not overdraw it
+  IF v_reward.points_required > 0 THEN
+    PERFORM record_points_transaction(
+      p_user_id,
+      -v_reward.points_required,
+      'redemption',
+      v_redemption.redemption_id,
+      v_reward.name
+    );
+  END IF;
+
+  UPDATE rewards
+  SET stock = stock - 1,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE reward_id = p_reward_id;
+
+  INSERT INTO reward_redemption_status_history (redemption_id, from_status, to_status, changed_by)
+  VALUES (v_redemption.redemption_id, NULL, 'pending', p_admin_id);
+
+  RETURN v_redemption;
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION record_points_transaction(integer, integer, text, integer, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION adjust_user_points(integer, integer, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION check_in_event_participants(integer, integer[], integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION bulk_adjust_points(integer[], integer, integer, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION create_user_with_points(text, text, text, text, integer) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION adjust_user_points(integer, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_in_event_participants(integer, integer[], integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION bulk_adjust_points(integer[], integer, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_user_with_points(text, text, text, text, integer) TO authenticated;
+
+COMMENT ON FUNCTION record_points_transaction(integer, integer, text, integer, text) IS 'Applies a points delta to a user and records it in the ledger atomically; only callable from the operations that own each reason';
+COMMENT ON FUNCTION adjust_user_points(integer, integer, text) IS 'Records a manual points adjustment by the signed-in admin';
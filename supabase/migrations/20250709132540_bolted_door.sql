@@ -0,0 +1,89 @@
+/*
+  # No Anonymous Admin Calls
+
+  1. Changes
+    - `create_admin_invite` runs as the function owner and skipped its permission check
+      when there was no signed-in user. Anonymous callers could still execute it, so
+      anyone with the anon key could invite themselves as a super admin. The check is now
+      unconditional and anonymous callers can no longer execute it
+    - The guards elsewhere skip the check without a signed-in user so that migrations,
+      the service role and scheduled jobs are not restricted. That is only safe while
+      anonymous callers can not execute the function; these functions still could, and
+      now can not:
+      - `deactivate_user`, `restore_user` and `bulk_deactivate_users`
+      - `review_mission_submission_photos`
+      - `spawn_recurring_missions`
+    - Every other guarded function already revokes anonymous execution
+*/
+
+CREATE OR REPLACE FUNCTION create_admin_invite(
+  p_email text,
+  p_role text,
+  p_admin_id integer DEFAULT NULL,
+  p_ttl_days integer DEFAULT 7
+)
+RETURNS TABLE (
+  invite_id integer,
+  email text,
+  role text,
+  invited_by integer,
+  expires_at timestamptz,
+  accepted_at timestamptz,
+  accepted_user_id integer,
+  revoked_at timestamptz,
+  created_at timestamptz,
+  token text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_email text := lower(trim(p_email));
+  v_token text := encode(gen_random_bytes(32), 'hex');
+  v_invite admin_invites;
+BEGIN
+  IF auth.uid() IS NULL OR NOT current_admin_has_permission('users.assign_role') THEN
+    RAISE EXCEPTION 'Only super admins can invite admins';
+  END IF;
+
+  IF COALESCE(v_email, '') = '' THEN
+    RAISE EXCEPTION 'Email is required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users u WHERE lower(u.email) = v_email AND u.deleted_at IS NULL) THEN
+    RAISE EXCEPTION '% already has an account; change its role on the Users page instead', v_email;
+  END IF;
+
+  UPDATE admin_invites i
+  SET revoked_at = CURRENT_TIMESTAMP
+  WHERE i.email = v_email
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > CURRENT_TIMESTAMP;
+
+  INSERT INTO admin_invites (email, role, token_hash, invited_by, expires_at)
+  VALUES (
+    v_email,
+    p_role,
+    encode(digest(v_token, 'sha256'), 'hex'),
+    p_admin_id,
+    CURRENT_TIMESTAMP + make_interval(days => GREATEST(COALESCE(p_ttl_days, 7), 1))
+  )
+  RETURNING * INTO v_invite;
+
+  RETURN QUERY
+  SELECT v_invite.invite_id, v_invite.email, v_invite.role, v_invite.invited_by, v_invite.expires_at,
+         v_invite.accepted_at, v_invite.accepted_user_id, v_invite.revoked_at, v_invite.created_at, v_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_admin_invite(text, text, integer, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION deactivate_user(integer, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION restore_user(integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION bulk_deactivate_users(integer[], integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION review_mission_submission_photos(integer, integer, jsonb, text, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION spawn_recurring_missions(timestamptz) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION create_admin_invite(text, text, integer, integer) TO authenticated;